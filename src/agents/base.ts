@@ -8,11 +8,26 @@
  * Used by: all agent implementations
  */
 
-import type { LLMProvider, ChatMessage, ChatOptions, ChatResponse } from '../providers/types.js';
-import type { AgentRole, StreamCallbacks } from './types.js';
-import { ProviderError } from '../core/errors.js';
+import type {
+    LLMProvider,
+    ChatMessage,
+    ChatOptions,
+    ChatResponse,
+    FinishReason,
+    ImageAttachment,
+    TokenUsage,
+    ToolCall,
+} from '../providers/types.js';
+import type { AgentRoleName, ConversationTurn, StreamCallbacks } from './types.js';
+import type { AgentTool } from './tools.js';
+import { parseStructuredOutput, repairPrompt, toResponseSchema, type StructuredSpec } from './structured.js';
+import { continuationPrompt, trimContinuation } from './continuation.js';
+import { parseVerdict, removeVerdictBlocks, verdictRepairPrompt, type VerdictSpec } from './verdict.js';
+import { CancelledError, ProviderError } from '../core/errors.js';
 import { logger } from '../utils/logger.js';
-import { AGENT_ROLE_LABELS } from './types.js';
+import { throwIfCancelled } from '../utils/abort.js';
+import { estimateTokens } from '../utils/tokens.js';
+import { isBuiltinRole, roleLabel } from './types.js';
 
 /** Input that an agent receives to do its work. */
 export interface AgentInput {
@@ -20,8 +35,17 @@ export interface AgentInput {
     task: string;
     /** Additional context (e.g., code files, review feedback, test results). */
     context?: string;
+    /**
+     * Stable context shared by every step (reference docs, source files).
+     * Sent separately from the prompt so providers can cache it.
+     */
+    referenceContext?: string;
     /** Previous agent outputs to build upon. */
     previousOutput?: string;
+    /** Images (mockups, screenshots) attached to the user message. */
+    images?: readonly ImageAttachment[];
+    /** Earlier turns of this agent's conversation, sent before the current prompt. */
+    history?: readonly ConversationTurn[];
 }
 
 /** Output that an agent produces after execution. */
@@ -29,15 +53,61 @@ export interface AgentOutput {
     /** The agent's generated content (code, review, spec, etc.). */
     content: string;
     /** Which agent produced this output. */
-    role: AgentRole;
-    /** Token usage for this agent call. */
+    role: AgentRoleName;
+    /** Total tokens used by this agent call (prompt + completion). */
     tokensUsed: number;
+    /** Prompt/completion breakdown for this agent call. */
+    usage: TokenUsage;
+    /** True when every LLM call was answered from the response cache (nothing billed). */
+    cached?: boolean;
     /** Whether the agent considers its task done successfully. */
     success: boolean;
     /** Optional metadata from the agent. */
     metadata?: Record<string, unknown>;
 }
 
+/**
+ * Called before each follow-up LLM call of an agent (tool rounds,
+ * continuations, re-asks) with what its calls so far used, and whether all of
+ * them were cache hits. Throws (a BudgetExceededError) to stop the agent.
+ */
+export type BudgetGuard = (usage: TokenUsage, cached: boolean) => void;
+
+/** Construction options shared by all agents. */
+export interface AgentOptions {
+    model: string;
+    temperature?: number;
+    maxTokens?: number;
+    /** Tools the agent may call. When non-empty, execute() runs an agentic tool loop. */
+    tools?: readonly AgentTool[];
+    /** Follow-up requests for the rest of a reply cut off at `maxTokens` (default: 2, 0 = off). */
+    maxContinuations?: number;
+    /** Display label in logs (default: the built-in role label, or the role name). */
+    label?: string;
+    /** Checked before each follow-up LLM call, to stop once a budget is used up. */
+    budgetGuard?: BudgetGuard;
+    /** Sample number when several agents answer the same request (best-of-N); keeps their cached replies apart. */
+    sample?: number;
+}
+
+/** What a reply looks like after any continuations, and what they cost. */
+interface ContinuedReply {
+    content: string;
+    /** Usage of the follow-up calls (absent when none were made). */
+    usage?: TokenUsage;
+    /** Whether every follow-up call was answered from the response cache. */
+    cached: boolean;
+}
+
+/** Max tool-call rounds before the agent is forced to answer. */
+const MAX_TOOL_ROUNDS = 10;
+
+/** Max re-prompts when a structured reply fails validation. */
+const MAX_STRUCTURED_REPAIRS = 2;
+
+/** Max follow-up requests for a missing or unusable verdict block. */
+const MAX_VERDICT_REASKS = 2;
+
 /**
  * Base class for all agents.
  *
@@ -48,63 +118,117 @@ export interface AgentOutput {
  * 4. Optionally override `parseResponse()` to extract structured data
  */
 export abstract class BaseAgent {
-    public readonly role: AgentRole;
+    public readonly role: AgentRoleName;
+    public readonly label: string;
     protected readonly provider: LLMProvider;
     protected readonly model: string;
     protected readonly temperature: number;
     protected readonly maxTokens: number;
+    protected readonly tools: readonly AgentTool[];
+    protected readonly maxContinuations: number;
+    protected readonly budgetGuard?: BudgetGuard;
+    protected readonly sample?: number;
 
     constructor(
-        role: AgentRole,
+        role: AgentRoleName,
         provider: LLMProvider,
-        options: { model: string; temperature?: number; maxTokens?: number },
+        options: AgentOptions,
     ) {
         this.role = role;
+        this.label = options.label ?? roleLabel(role);
         this.provider = provider;
         this.model = options.model;
         this.temperature = options.temperature ?? 0.7;
         this.maxTokens = options.maxTokens ?? 4096;
+        this.tools = options.tools ?? [];
+        this.maxContinuations = options.maxContinuations ?? 2;
+        this.budgetGuard = options.budgetGuard;
+        this.sample = options.sample;
     }
 
     /**
      * Execute this agent's task.
      *
+     * When the agent has tools, the model may request tool calls; each call is
+     * executed and its result sent back until the model produces a final answer
+     * (or MAX_TOOL_ROUNDS is reached, after which tools are disabled; a
+     * provider that asks for tools anyway gets one last reply taken as it is).
+     * A final answer cut off at the token limit is continued (see continueReply()).
+     *
      * @param input - The task description and context
+     * @param signal - Aborts the in-flight LLM call and stops the tool loop
      * @returns The agent's output
      * @throws {ProviderError} if the LLM call fails
+     * @throws {CancelledError} if `signal` is aborted
+     * @throws {BudgetExceededError} if the budget guard stops a follow-up call
      */
-    async execute(input: AgentInput): Promise<AgentOutput> {
-        const label = AGENT_ROLE_LABELS[this.role];
+    async execute(input: AgentInput, signal?: AbortSignal): Promise<AgentOutput> {
+        const { label } = this;
         logger.info(`${label} starting...`);
 
         const systemPrompt = this.buildSystemPrompt();
         const userPrompt = this.buildUserPrompt(input);
-
-        const messages: ChatMessage[] = [
-            { role: 'user', content: userPrompt },
-        ];
+        const messages = this.buildMessages(input, userPrompt);
 
         const options: ChatOptions = {
             model: this.model,
             temperature: this.temperature,
             maxTokens: this.maxTokens,
             systemPrompt,
+            referenceContext: input.referenceContext,
+            tag: this.role,
+            sample: this.sample,
+            signal,
         };
 
         try {
-            const response = await this.provider.chat(messages, options);
-            const content = this.parseResponse(response);
+            let response = await this.provider.chat(messages, this.withTools(options, 0));
+            let usage = response.usage;
+            let cached = response.cached === true;
 
-            logger.success(`${label} complete (${response.usage.totalTokens} tokens)`);
+            // Capped in case the provider ignores toolChoice 'none' on the last round
+            for (let round = 1; response.toolCalls?.length && round <= MAX_TOOL_ROUNDS; round++) {
+                messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+                for (const call of response.toolCalls) {
+                    throwIfCancelled(signal, `${label} cancelled`);
+                    messages.push({
+                        role: 'tool',
+                        content: await this.runTool(call),
+                        toolCallId: call.id,
+                        toolName: call.name,
+                    });
+                }
+
+                this.budgetGuard?.(usage, cached);
+                response = await this.provider.chat(messages, this.withTools(options, round));
+                usage = addUsage(usage, response.usage);
+                cached = cached && response.cached === true;
+            }
+            if (response.toolCalls?.length) {
+                logger.warn(`${label} still asked for tools after ${MAX_TOOL_ROUNDS} rounds — using its reply as it is`);
+            }
+
+            const continued = await this.continueReply(messages, options, response.content, response.finishReason, { usage, cached });
+            if (continued.usage) {
+                usage = addUsage(usage, continued.usage);
+                cached = cached && continued.cached;
+            }
+
+            const content = this.parseResponse({ ...response, content: continued.content });
+
+            logger.success(`${label} complete (${usage.totalTokens} tokens${cached ? ', cached' : ''})`);
 
             return {
                 content,
                 role: this.role,
-                tokensUsed: response.usage.totalTokens,
+                tokensUsed: usage.totalTokens,
+                usage,
                 success: true,
+                ...(cached && { cached }),
             };
         } catch (err) {
-            if (err instanceof ProviderError) throw err;
+            if (err instanceof ProviderError || err instanceof CancelledError) throw err;
+            throwIfCancelled(signal, `${label} cancelled`);
             throw new ProviderError(
                 `${label} failed: ${err instanceof Error ? err.message : String(err)}`,
                 { role: this.role, model: this.model },
@@ -112,39 +236,238 @@ export abstract class BaseAgent {
         }
     }
 
+    /**
+     * Execute this agent's task and return JSON validated against a zod schema.
+     *
+     * The schema is sent as `responseSchema` (native JSON mode where the
+     * provider has one). When the reply fails to parse or validate, the errors
+     * are sent back to the model and it gets up to MAX_STRUCTURED_REPAIRS more
+     * tries. Tools are not offered in structured mode.
+     *
+     * @returns The agent's output, with the validated value in `data`
+     * @throws {ProviderError} if the LLM call fails or no valid reply is produced
+     * @throws {CancelledError} if `signal` is aborted
+     */
+    async executeStructured<T>(
+        input: AgentInput,
+        spec: StructuredSpec<T>,
+        signal?: AbortSignal,
+    ): Promise<AgentOutput & { data: T }> {
+        const { label } = this;
+        logger.info(`${label} starting (structured: ${spec.name})...`);
+
+        const messages = this.buildMessages(input, this.buildUserPrompt(input));
+
+        const options: ChatOptions = {
+            model: this.model,
+            temperature: this.temperature,
+            maxTokens: this.maxTokens,
+            systemPrompt: this.buildSystemPrompt(),
+            referenceContext: input.referenceContext,
+            tag: this.role,
+            sample: this.sample,
+            signal,
+            responseSchema: toResponseSchema(spec),
+        };
+
+        try {
+            let usage: TokenUsage | undefined;
+            let cached = true;
+
+            for (let attempt = 0; ; attempt++) {
+                if (usage) this.budgetGuard?.(usage, cached);
+                const response = await this.provider.chat(messages, options);
+                usage = usage ? addUsage(usage, response.usage) : response.usage;
+                cached = cached && response.cached === true;
+
+                const parsed = parseStructuredOutput(response.content, spec);
+                if (parsed.success) {
+                    logger.success(`${label} complete (${usage.totalTokens} tokens${cached ? ', cached' : ''})`);
+                    return {
+                        content: response.content,
+                        role: this.role,
+                        tokensUsed: usage.totalTokens,
+                        usage,
+                        success: true,
+                        ...(cached && { cached }),
+                        data: parsed.data,
+                    };
+                }
+
+                if (attempt >= MAX_STRUCTURED_REPAIRS) {
+                    throw new ProviderError(
+                        `${label} returned invalid "${spec.name}" output after ${attempt + 1} attempt(s). ${parsed.error}`,
+                        { role: this.role, model: this.model, schema: spec.name, content: response.content },
+                    );
+                }
+
+                logger.debug(`${label} structured reply invalid, re-prompting: ${parsed.error}`);
+                messages.push(
+                    { role: 'assistant', content: response.content },
+                    { role: 'user', content: repairPrompt(parsed.error) },
+                );
+            }
+        } catch (err) {
+            if (err instanceof ProviderError || err instanceof CancelledError) throw err;
+            throwIfCancelled(signal, `${label} cancelled`);
+            throw new ProviderError(
+                `${label} failed: ${err instanceof Error ? err.message : String(err)}`,
+                { role: this.role, model: this.model },
+            );
+        }
+    }
+
+    /**
+     * Make sure a review-style reply ends with a usable verdict block.
+     *
+     * When parseVerdict() finds the block missing, invalid or ambiguous, the
+     * model is shown the problem and asked for the block alone, up to
+     * MAX_VERDICT_REASKS times. A valid block replaces any earlier ones in the
+     * reply. Without one, the reply is returned unchanged (and counts as a
+     * rejection).
+     *
+     * @param input - The input `output` was produced for
+     * @returns The output with a valid verdict block where one could be had,
+     *          and the follow-up calls added to its usage
+     * @throws {ProviderError} if an LLM call fails
+     * @throws {CancelledError} if `signal` is aborted
+     * @throws {BudgetExceededError} if the budget guard stops a re-ask
+     */
+    async ensureVerdict(
+        input: AgentInput,
+        output: AgentOutput,
+        spec: VerdictSpec,
+        signal?: AbortSignal,
+    ): Promise<AgentOutput> {
+        let parsed = parseVerdict(output.content, spec);
+        if (parsed.status === 'ok') return output;
+
+        const { label } = this;
+        const messages = this.buildMessages(input, this.buildUserPrompt(input));
+        messages.push({ role: 'assistant', content: output.content });
+
+        const options: ChatOptions = {
+            model: this.model,
+            temperature: this.temperature,
+            maxTokens: this.maxTokens,
+            systemPrompt: this.buildSystemPrompt(),
+            referenceContext: input.referenceContext,
+            tag: this.role,
+            sample: this.sample,
+            signal,
+        };
+
+        let { usage } = output;
+        let cached = output.cached === true;
+        let content = output.content;
+
+        try {
+            for (let attempt = 1; attempt <= MAX_VERDICT_REASKS && parsed.status !== 'ok'; attempt++) {
+                logger.warn(`${label} gave no usable verdict (${parsed.error}) — asking again`);
+                messages.push({ role: 'user', content: verdictRepairPrompt(parsed.error, spec) });
+
+                this.budgetGuard?.(usage, cached);
+                const response = await this.provider.chat(messages, options);
+                usage = addUsage(usage, response.usage);
+                cached = cached && response.cached === true;
+                messages.push({ role: 'assistant', content: response.content });
+
+                parsed = parseVerdict(response.content, spec);
+                if (parsed.status === 'ok') {
+                    content = `${removeVerdictBlocks(output.content)}\n\n\`\`\`json\n${JSON.stringify(parsed.verdict, null, 2)}\n\`\`\``;
+                }
+            }
+        } catch (err) {
+            if (err instanceof ProviderError || err instanceof CancelledError) throw err;
+            throwIfCancelled(signal, `${label} cancelled`);
+            throw new ProviderError(
+                `${label} failed: ${err instanceof Error ? err.message : String(err)}`,
+                { role: this.role, model: this.model },
+            );
+        }
+
+        if (parsed.status !== 'ok') {
+            logger.warn(`${label} gave no usable verdict after ${MAX_VERDICT_REASKS} follow-up(s) — treating it as a rejection`);
+        }
+
+        return {
+            content,
+            role: output.role,
+            tokensUsed: usage.totalTokens,
+            usage,
+            success: output.success,
+            ...(cached && { cached }),
+            ...(output.metadata && { metadata: output.metadata }),
+        };
+    }
+
     /**
      * Execute this agent's task with streaming output.
      *
      * Uses the provider's stream() method and calls callbacks for each chunk.
-     * Falls back to execute() if streaming fails.
+     * A reply cut off at the token limit is continued without streaming, and
+     * each continuation is passed to `onChunk` once it has been stitched on.
+     * Falls back to execute() if streaming fails — unless `signal` was aborted
+     * or the budget guard stopped a follow-up call, in which case a
+     * CancelledError (or BudgetExceededError) is thrown.
      */
-    async executeStreaming(input: AgentInput, callbacks?: StreamCallbacks): Promise<AgentOutput> {
-        const label = AGENT_ROLE_LABELS[this.role];
+    async executeStreaming(
+        input: AgentInput,
+        callbacks?: StreamCallbacks,
+        signal?: AbortSignal,
+    ): Promise<AgentOutput> {
+        const { label } = this;
+
+        // Tool calls only come back from chat() — run the agentic loop instead
+        if (this.tools.length > 0) {
+            return this.execute(input, signal);
+        }
+
         logger.info(`${label} starting (streaming)...`);
 
         const systemPrompt = this.buildSystemPrompt();
         const userPrompt = this.buildUserPrompt(input);
-
-        const messages: ChatMessage[] = [
-            { role: 'user', content: userPrompt },
-        ];
+        const messages = this.buildMessages(input, userPrompt);
 
         const options: ChatOptions = {
             model: this.model,
             temperature: this.temperature,
             maxTokens: this.maxTokens,
             systemPrompt,
+            referenceContext: input.referenceContext,
+            tag: this.role,
+            sample: this.sample,
+            signal,
         };
 
         try {
             let accumulated = '';
+            let reportedUsage: TokenUsage | undefined;
+            let finishReason: FinishReason | undefined;
+            let cached = false;
             for await (const chunk of this.provider.stream(messages, options)) {
                 if (chunk.content) {
                     accumulated += chunk.content;
                     callbacks?.onChunk?.(chunk.content);
                 }
+                if (chunk.usage) {
+                    reportedUsage = chunk.usage;
+                }
+                if (chunk.cached) {
+                    cached = true;
+                }
+                if (chunk.finishReason) {
+                    finishReason = chunk.finishReason;
+                }
             }
 
+            // Prefer provider-reported usage; otherwise estimate at ~4 chars per token
+            const streamUsage = reportedUsage ?? estimateUsage(promptText(input, systemPrompt, userPrompt), accumulated);
+            const continued = await this.continueReply(
+                messages, options, accumulated, finishReason, { usage: streamUsage, cached }, callbacks?.onChunk,
+            );
+            accumulated = continued.content;
+
             callbacks?.onComplete?.(accumulated);
 
             // If the stream completed but yielded no content, fall back to
@@ -152,26 +475,117 @@ export abstract class BaseAgent {
             // tool-call events with no text, or silent API errors that return
             // HTTP 200 with an empty body.
             if (!accumulated) {
+                throwIfCancelled(signal, `${label} cancelled`);
+                this.budgetGuard?.(streamUsage, cached);
                 logger.warn(`${label} streaming returned empty content — retrying without streaming`);
-                return this.execute(input);
+                return this.execute(input, signal);
             }
 
-            // Estimate token count: ~4 chars per token
-            // TODO: use per-provider tokenizer for accuracy
-            const estimatedTokens = Math.ceil(accumulated.length / 4);
+            const usage = continued.usage ? addUsage(streamUsage, continued.usage) : streamUsage;
+            cached = cached && continued.cached;
+            const approx = reportedUsage ? '' : '~';
 
-            logger.success(`${label} complete (~${estimatedTokens} tokens)`);
+            logger.success(`${label} complete (${approx}${usage.totalTokens} tokens${cached ? ', cached' : ''})`);
 
             return {
                 content: accumulated,
                 role: this.role,
-                tokensUsed: estimatedTokens,
+                tokensUsed: usage.totalTokens,
+                usage,
                 success: true,
+                ...(cached && { cached }),
             };
         } catch (err) {
+            if (err instanceof CancelledError) throw err;
+            throwIfCancelled(signal, `${label} cancelled`);
             logger.warn(`${label} streaming failed, falling back to non-streaming`);
             logger.debug(`Stream error: ${err instanceof Error ? err.message : String(err)}`);
-            return this.execute(input);
+            return this.execute(input, signal);
+        }
+    }
+
+    /**
+     * Estimate the prompt tokens this agent would send for `input`
+     * (system prompt, reference context, history, and user prompt, ~4 chars per token).
+     */
+    estimatePromptTokens(input: AgentInput): number {
+        return estimateTokens(promptText(input, this.buildSystemPrompt(), this.buildUserPrompt(input)));
+    }
+
+    /**
+     * Ask for the rest of a reply that stopped at the output token limit, up to
+     * `maxContinuations` times, trimming each part before stitching it on so
+     * an unfinished `FILE:` block is completed rather than restarted.
+     *
+     * @param spent - What the calls for the reply so far used, for the budget guard
+     */
+    private async continueReply(
+        messages: ChatMessage[],
+        options: ChatOptions,
+        content: string,
+        finishReason: FinishReason | undefined,
+        spent: { usage: TokenUsage; cached: boolean },
+        onChunk?: (text: string) => void,
+    ): Promise<ContinuedReply> {
+        const { label } = this;
+        let reply = content;
+        let reason = finishReason;
+        let usage: TokenUsage | undefined;
+        let cached = true;
+
+        for (let round = 1; reason === 'length' && reply && round <= this.maxContinuations; round++) {
+            logger.info(`${label} reply hit the token limit — continuing (${round}/${this.maxContinuations})`);
+            this.budgetGuard?.(usage ? addUsage(spent.usage, usage) : spent.usage, spent.cached && cached);
+            const response = await this.provider.chat([
+                ...messages,
+                { role: 'assistant', content: reply },
+                { role: 'user', content: continuationPrompt(reply) },
+            ], this.withTools(options, MAX_TOOL_ROUNDS));
+
+            const addition = trimContinuation(reply, response.content);
+            onChunk?.(addition);
+            reply += addition;
+            reason = response.finishReason;
+            usage = usage ? addUsage(usage, response.usage) : response.usage;
+            cached = cached && response.cached === true;
+        }
+
+        if (reason === 'length') {
+            logger.warn(`${label} reply is still cut off at the token limit (${this.maxTokens} tokens) — consider raising ${isBuiltinRole(this.role) ? 'agents' : 'customRoles'}.${this.role}.maxTokens`);
+        }
+        return { content: reply, usage, cached };
+    }
+
+    /** The conversation history followed by the current user prompt. */
+    private buildMessages(input: AgentInput, userPrompt: string): ChatMessage[] {
+        return [
+            ...(input.history ?? []).map((turn): ChatMessage => ({ role: turn.role, content: turn.content })),
+            { role: 'user', content: userPrompt, images: input.images },
+        ];
+    }
+
+    /** Attach tool definitions to the request options, forcing a final answer after MAX_TOOL_ROUNDS. */
+    private withTools(options: ChatOptions, round: number): ChatOptions {
+        if (this.tools.length === 0) return options;
+        return {
+            ...options,
+            tools: this.tools.map((tool) => tool.definition),
+            toolChoice: round >= MAX_TOOL_ROUNDS ? 'none' : 'auto',
+        };
+    }
+
+    /** Execute one tool call. Unknown tools and tool failures are reported back to the model as text. */
+    private async runTool(call: ToolCall): Promise<string> {
+        const tool = this.tools.find((t) => t.definition.name === call.name);
+        if (!tool) {
+            return `Error: unknown tool "${call.name}"`;
+        }
+
+        logger.debug(`${this.label} tool call: ${call.name} ${JSON.stringify(call.arguments)}`);
+        try {
+            return await tool.execute(call.arguments);
+        } catch (err) {
+            return `Error: ${err instanceof Error ? err.message : String(err)}`;
         }
     }
 
@@ -186,3 +600,29 @@ export abstract class BaseAgent {
         return response.content;
     }
 }
+
+/** Sum two usage records (e.g. across tool-call rounds). */
+function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+    const cacheReadTokens = (a.cacheReadTokens ?? 0) + (b.cacheReadTokens ?? 0);
+    const cacheWriteTokens = (a.cacheWriteTokens ?? 0) + (b.cacheWriteTokens ?? 0);
+    return {
+        promptTokens: a.promptTokens + b.promptTokens,
+        completionTokens: a.completionTokens + b.completionTokens,
+        totalTokens: a.totalTokens + b.totalTokens,
+        ...(cacheReadTokens > 0 && { cacheReadTokens }),
+        ...(cacheWriteTokens > 0 && { cacheWriteTokens }),
+    };
+}
+
+/** All prompt text sent for an input, for token estimates. */
+function promptText(input: AgentInput, systemPrompt: string, userPrompt: string): string {
+    const history = (input.history ?? []).map((turn) => turn.content).join('');
+    return (input.referenceContext ?? '') + systemPrompt + history + userPrompt;
+}
+
+/** Rough usage estimate (~4 chars per token) for providers that report no usage while streaming. */
+function estimateUsage(prompt: string, completion: string): TokenUsage {
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(completion);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
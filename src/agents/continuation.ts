@@ -0,0 +1,93 @@
+/**
+ * Reply continuation — finishing replies cut off at the output token limit.
+ *
+ * When a reply stops with finish reason `length`, the agent sends it back as
+ * an assistant turn and asks for the rest. Models often repeat the last line
+ * or reopen the code block they were in, so each continuation is trimmed
+ * before it is appended; the stitched reply then has complete `FILE:` blocks.
+ *
+ * Dependency direction: continuation.ts → nothing
+ * Used by: agents/base.ts
+ */
+
+/** Shortest repeated text dropped from the start of a continuation (shorter matches may be real code). */
+const MIN_OVERLAP = 16;
+
+/** Longest repeated text looked for. */
+const MAX_OVERLAP = 2000;
+
+/** Where an unfinished reply stopped: inside a code block, and in which file. */
+export interface OpenBlock {
+    /** Path from the block's `FILE:` header, when it has one. */
+    path?: string;
+}
+
+/**
+ * Find the code block a reply stopped inside, if any (an odd number of
+ * ``` fence lines means the last one was never closed).
+ */
+export function findOpenBlock(text: string): OpenBlock | undefined {
+    const lines = text.split('\n');
+    const fences = lines
+        .map((line, index) => ({ line, index }))
+        .filter(({ line }) => line.trimStart().startsWith('```'));
+    if (fences.length % 2 === 0) return undefined;
+
+    const opening = fences[fences.length - 1]!;
+    const header = lines[opening.index - 1]?.match(/^\s*FILE:\s*(.+?)\s*$/);
+    return header?.[1] ? { path: header[1] } : {};
+}
+
+/** The follow-up prompt asking for the rest of a cut-off reply. */
+export function continuationPrompt(reply: string): string {
+    const base = 'Your reply was cut off at the output token limit. Continue exactly where it stopped — '
+        + 'do not repeat anything you already wrote and do not start over.';
+
+    const block = findOpenBlock(reply);
+    if (!block) return base;
+    if (block.path) {
+        return `${base} You stopped in the middle of FILE: ${block.path}. Continue its content from that exact point `
+            + '(no new FILE: header or opening ```), close the code block, then write any remaining files.';
+    }
+    return `${base} You stopped in the middle of a code block. Continue it without reopening it, then close it.`;
+}
+
+/**
+ * The part of a continuation to append to the reply so far: a reopened
+ * `FILE:` header or code fence is dropped, as is text repeated from the
+ * end of the reply.
+ */
+export function trimContinuation(previous: string, next: string): string {
+    let text = next;
+
+    const block = findOpenBlock(previous);
+    if (block) {
+        if (block.path) {
+            text = text.replace(new RegExp(`^\\s*FILE:\\s*${escapeRegExp(block.path)}\\s*\\n`), '');
+        }
+        // A fence with a language tag reopens the block; a bare one may legitimately close it
+        text = text.replace(/^\s*```\w+\s*\n/, '');
+    }
+
+    return text.slice(overlapLength(previous, text));
+}
+
+// ── Private helpers ──
+
+/**
+ * Length of the longest start of `next` that repeats the end of `previous`.
+ * Short repeats only count when they redo the whole unfinished last line.
+ */
+function overlapLength(previous: string, next: string): number {
+    const lastLine = previous.slice(previous.lastIndexOf('\n') + 1);
+
+    for (let length = Math.min(previous.length, next.length, MAX_OVERLAP); length > 0; length--) {
+        if (length < MIN_OVERLAP && (length !== lastLine.length || !lastLine.trim())) continue;
+        if (previous.endsWith(next.slice(0, length))) return length;
+    }
+    return 0;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -4,42 +4,78 @@
  * Wires together the provider registry + agent config + prompt library
  * to produce ready-to-use agent instances.
  *
- * Dependency direction: factory.ts → agents/roles/*, providers/registry
+ * Dependency direction: factory.ts → agents/roles/*, agents/types, providers/registry, providers/fallback, providers/cache, providers/transcript
  * Used by: workflow runner
  */
 
-import type { AgentRole } from './types.js';
-import type { BaseAgent } from './base.js';
-import type { AppConfig } from '../core/config/types.js';
+import { join } from 'node:path';
+import type { AgentRoleName } from './types.js';
+import { isBuiltinRole, roleLabel } from './types.js';
+import type { AgentOptions, BaseAgent, BudgetGuard } from './base.js';
+import type { AgentRoleConfig, AppConfig, PanelReviewerConfig } from '../core/config/types.js';
+import type { LLMProvider, ProviderFailover } from '../providers/types.js';
 import { createProvider } from '../providers/registry.js';
+import { FallbackProvider } from '../providers/fallback.js';
+import { CachedProvider, ResponseCache } from '../providers/cache.js';
+import { TranscriptProvider, type TranscriptRecorder } from '../providers/transcript.js';
+import { CONFIG_DIR_NAME } from '../core/config/defaults.js';
+import { createBuiltinTools } from './tools.js';
 import { ArchitectAgent } from './roles/architect.js';
 import { CoderAgent } from './roles/coder.js';
 import { ReviewerAgent } from './roles/reviewer.js';
 import { TesterAgent } from './roles/tester.js';
 import { FixerAgent } from './roles/fixer.js';
 import { JudgeAgent } from './roles/judge.js';
-import { WorkflowError } from '../core/errors.js';
+import { CustomAgent } from './roles/custom.js';
+import { ConfigError } from '../core/errors.js';
+
+/**
+ * Look up a role's config: `agents.<role>` for built-in roles, `customRoles.<role>` otherwise.
+ *
+ * @throws {ConfigError} if no custom role has that name
+ */
+export function getRoleConfig(config: AppConfig, role: AgentRoleName): AgentRoleConfig {
+    if (isBuiltinRole(role)) return config.agents[role];
+
+    const custom = config.customRoles[role];
+    if (!custom) {
+        const known = Object.keys(config.customRoles);
+        throw new ConfigError(
+            `Unknown agent role: "${role}". Custom roles: ${known.length > 0 ? known.join(', ') : '(none configured)'}`,
+            { role, customRoles: known },
+        );
+    }
+    return custom;
+}
 
 /**
  * Create an agent instance for the specified role using the app config.
  *
- * @param role - Which agent to create
+ * When the role has `fallbacks`, the agent talks to a FallbackProvider that
+ * moves down the chain on ProviderError; `onFailover` is told about each switch.
+ * When `cache.enabled` is set, responses are replayed from `.aiagentflow/cache/`.
+ * With a `transcript` recorder, every call (cache hits included) is logged to it.
+ *
+ * @param role - Which agent to create (a built-in role or a custom role from config)
  * @param config - Full application config
  * @param projectRoot - Project root directory for prompt loading
+ * @param onFailover - Called when the role switches to a fallback provider
+ * @param transcript - Records every request and response (when transcripts are enabled)
+ * @param budgetGuard - Stops the agent before a follow-up call once a budget is used up
+ * @param sample - Sample number, when several agents answer the same request (best-of-N)
  */
 export function createAgent(
-    role: AgentRole,
+    role: AgentRoleName,
     config: AppConfig,
     projectRoot: string,
+    onFailover?: (failover: ProviderFailover) => void,
+    transcript?: TranscriptRecorder,
+    budgetGuard?: BudgetGuard,
+    sample?: number,
 ): BaseAgent {
-    const agentConfig = config.agents[role];
-    const provider = createProvider(agentConfig.provider, config.providers);
-
-    const options = {
-        model: agentConfig.model,
-        temperature: agentConfig.temperature,
-        maxTokens: agentConfig.maxTokens,
-    };
+    const agentConfig = getRoleConfig(config, role);
+    const provider = buildProvider(agentConfig, config, projectRoot, onFailover, transcript);
+    const options = { ...buildOptions(agentConfig, projectRoot), budgetGuard, sample };
 
     switch (role) {
         case 'architect':
@@ -54,7 +90,80 @@ export function createAgent(
             return new FixerAgent(provider, options, projectRoot);
         case 'judge':
             return new JudgeAgent(provider, options, projectRoot);
-        default:
-            throw new WorkflowError(`Unknown agent role: ${role}`, { role });
+        default: {
+            const output = config.customRoles[role]?.output ?? 'notes';
+            return new CustomAgent(role, output, provider, { ...options, label: roleLabel(role, config.customRoles) }, projectRoot);
+        }
     }
 }
+
+/**
+ * Create one reviewer of the review panel from its own config (provider,
+ * model, fallbacks). It reviews like the `reviewer` role and is labelled
+ * with its model unless the config sets a label.
+ */
+export function createPanelReviewer(
+    reviewerConfig: PanelReviewerConfig,
+    config: AppConfig,
+    projectRoot: string,
+    onFailover?: (failover: ProviderFailover) => void,
+    transcript?: TranscriptRecorder,
+    budgetGuard?: BudgetGuard,
+): BaseAgent {
+    const provider = buildProvider(reviewerConfig, config, projectRoot, onFailover, transcript);
+    return new ReviewerAgent(provider, {
+        ...buildOptions(reviewerConfig, projectRoot),
+        budgetGuard,
+        label: reviewerConfig.label ?? `${roleLabel('reviewer')} (${reviewerConfig.model})`,
+    }, projectRoot);
+}
+
+// ── Private helpers ──
+
+/** The role's provider, wrapped for fallbacks, the response cache and transcripts as configured. */
+function buildProvider(
+    agentConfig: AgentRoleConfig,
+    config: AppConfig,
+    projectRoot: string,
+    onFailover?: (failover: ProviderFailover) => void,
+    transcript?: TranscriptRecorder,
+): LLMProvider {
+    let provider: LLMProvider;
+    if (agentConfig.fallbacks.length > 0) {
+        provider = new FallbackProvider(
+            [
+                { provider: agentConfig.provider, model: agentConfig.model, instance: agentConfig.instance },
+                ...agentConfig.fallbacks,
+            ],
+            (candidate) => createProvider(candidate.provider, config.providers, candidate.instance, projectRoot),
+            onFailover,
+        );
+    } else {
+        provider = createProvider(agentConfig.provider, config.providers, agentConfig.instance, projectRoot);
+    }
+
+    if (config.cache.enabled) {
+        provider = new CachedProvider(provider, new ResponseCache({
+            dir: join(projectRoot, CONFIG_DIR_NAME, 'cache'),
+            ttlMs: config.cache.ttlHours * 60 * 60 * 1000,
+            maxBytes: config.cache.maxSizeMb * 1024 * 1024,
+        }));
+    }
+
+    if (transcript) {
+        provider = new TranscriptProvider(provider, transcript);
+    }
+
+    return provider;
+}
+
+/** Agent options from a role's config. */
+function buildOptions(agentConfig: AgentRoleConfig, projectRoot: string): AgentOptions {
+    return {
+        model: agentConfig.model,
+        temperature: agentConfig.temperature,
+        maxTokens: agentConfig.maxTokens,
+        maxContinuations: agentConfig.maxContinuations,
+        tools: createBuiltinTools(agentConfig.tools, projectRoot),
+    };
+}
@@ -5,7 +5,7 @@
  * Used by: workflow runner
  */
 
-import { BaseAgent, type AgentInput } from '../base.js';
+import { BaseAgent, type AgentOptions, type AgentInput } from '../base.js';
 import { loadAgentPrompt, loadCodingStandards } from '../../prompts/library.js';
 import type { LLMProvider } from '../../providers/types.js';
 
@@ -14,7 +14,7 @@ export class CoderAgent extends BaseAgent {
 
     constructor(
         provider: LLMProvider,
-        options: { model: string; temperature?: number; maxTokens?: number },
+        options: AgentOptions,
         projectRoot: string,
     ) {
         // Lower temperature for deterministic code generation
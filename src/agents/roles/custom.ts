@@ -0,0 +1,79 @@
+/**
+ * Custom agent — a role defined by a prompt file and a `customRoles` config entry.
+ *
+ * The role's instructions come from `.aiagentflow/prompts/<role>.md`; the
+ * declared output kind adds the reply format the workflow needs to act on it.
+ *
+ * Dependency direction: custom.ts → agents/base, agents/types, agents/verdict, prompts/library
+ * Used by: agents/factory.ts
+ */
+
+import { BaseAgent, type AgentOptions, type AgentInput } from '../base.js';
+import type { AgentOutputKind, AgentRoleName } from '../types.js';
+import { loadAgentPrompt, loadCodingStandards } from '../../prompts/library.js';
+import { REVIEW_VERDICT } from '../verdict.js';
+import type { LLMProvider } from '../../providers/types.js';
+
+/** Reply format appended to the role's prompt, per output kind. */
+const OUTPUT_INSTRUCTIONS: Record<AgentOutputKind, string> = {
+    files: `## Output format:
+Output every file you create or change using this EXACT format:
+
+FILE: path/to/file.ext
+\`\`\`
+// complete file content here
+\`\`\`
+
+The word FILE: followed by the file path MUST appear on its own line BEFORE each code block.`,
+
+    verdict: `## Output format:
+1. **Issues** (if any): numbered list with severity (critical/warning/nit)
+2. **Verdict block** (see below)
+
+${REVIEW_VERDICT.format}`,
+
+    notes: `## Output format:
+Write concise notes for the agents that work on this task after you. Do not output code files.`,
+};
+
+export class CustomAgent extends BaseAgent {
+    public readonly output: AgentOutputKind;
+    private readonly projectRoot: string;
+
+    constructor(
+        role: AgentRoleName,
+        output: AgentOutputKind,
+        provider: LLMProvider,
+        options: AgentOptions,
+        projectRoot: string,
+    ) {
+        super(role, provider, options);
+        this.output = output;
+        this.projectRoot = projectRoot;
+    }
+
+    protected buildSystemPrompt(): string {
+        const rolePrompt = loadAgentPrompt(this.projectRoot, this.role);
+        const standards = loadCodingStandards(this.projectRoot);
+
+        let prompt = `${rolePrompt.trimEnd()}\n\n${OUTPUT_INSTRUCTIONS[this.output]}`;
+        if (standards) {
+            prompt += `\n\n## Project Coding Standards\n\n${standards}`;
+        }
+        return prompt;
+    }
+
+    protected buildUserPrompt(input: AgentInput): string {
+        let prompt = `## Task\n\n${input.task}\n\n`;
+
+        if (input.previousOutput) {
+            prompt += `## Previous Agent Output\n\n${input.previousOutput}\n`;
+        }
+
+        if (input.context) {
+            prompt += `\n## Context\n\n${input.context}\n`;
+        }
+
+        return prompt;
+    }
+}
@@ -1,12 +1,13 @@
 /**
  * Judge agent — evaluates if a task is complete and meets quality standards.
  *
- * Dependency direction: judge.ts → agents/base, prompts/library
+ * Dependency direction: judge.ts → agents/base, agents/verdict, prompts/library
  * Used by: workflow runner
  */
 
-import { BaseAgent, type AgentInput, type AgentOutput } from '../base.js';
+import { BaseAgent, type AgentOptions, type AgentInput, type AgentOutput } from '../base.js';
 import { loadAgentPrompt } from '../../prompts/library.js';
+import { QA_VERDICT, isPositiveVerdict, withVerdictFormat } from '../verdict.js';
 import type { LLMProvider } from '../../providers/types.js';
 
 export class JudgeAgent extends BaseAgent {
@@ -14,7 +15,7 @@ export class JudgeAgent extends BaseAgent {
 
     constructor(
         provider: LLMProvider,
-        options: { model: string; temperature?: number; maxTokens?: number },
+        options: AgentOptions,
         projectRoot: string,
     ) {
         // Low temperature for consistent pass/fail decisions
@@ -23,7 +24,7 @@ export class JudgeAgent extends BaseAgent {
     }
 
     protected buildSystemPrompt(): string {
-        return loadAgentPrompt(this.projectRoot, 'judge');
+        return withVerdictFormat(loadAgentPrompt(this.projectRoot, 'judge'), QA_VERDICT);
     }
 
     protected buildUserPrompt(input: AgentInput): string {
@@ -42,10 +43,9 @@ export class JudgeAgent extends BaseAgent {
 
     /**
      * Check if the judge approves.
-     * Looks for "PASS" in the output (case-insensitive).
+     * Only a valid verdict block saying "pass" does (see parseVerdict()).
      */
     static isPassed(output: AgentOutput): boolean {
-        const content = output.content.toUpperCase();
-        return content.includes('PASS') && !content.includes('FAIL');
+        return isPositiveVerdict(output.content, QA_VERDICT);
     }
 }
@@ -1,12 +1,13 @@
 /**
  * Reviewer agent — reviews code and provides feedback.
  *
- * Dependency direction: reviewer.ts → agents/base, prompts/library
+ * Dependency direction: reviewer.ts → agents/base, agents/verdict, prompts/library
  * Used by: workflow runner
  */
 
-import { BaseAgent, type AgentInput, type AgentOutput } from '../base.js';
+import { BaseAgent, type AgentOptions, type AgentInput, type AgentOutput } from '../base.js';
 import { loadAgentPrompt, loadCodingStandards } from '../../prompts/library.js';
+import { REVIEW_VERDICT, isPositiveVerdict, withVerdictFormat } from '../verdict.js';
 import type { LLMProvider, ChatResponse } from '../../providers/types.js';
 
 export class ReviewerAgent extends BaseAgent {
@@ -14,7 +15,7 @@ export class ReviewerAgent extends BaseAgent {
 
     constructor(
         provider: LLMProvider,
-        options: { model: string; temperature?: number; maxTokens?: number },
+        options: AgentOptions,
         projectRoot: string,
     ) {
         super('reviewer', provider, { ...options, temperature: options.temperature ?? 0.5 });
@@ -25,7 +26,7 @@ export class ReviewerAgent extends BaseAgent {
         const rolePrompt = loadAgentPrompt(this.projectRoot, 'reviewer');
         const standards = loadCodingStandards(this.projectRoot);
 
-        let prompt = rolePrompt;
+        let prompt = withVerdictFormat(rolePrompt, REVIEW_VERDICT);
         if (standards) {
             prompt += `\n\n## Project Coding Standards (use these when reviewing)\n\n${standards}`;
         }
@@ -55,10 +56,9 @@ export class ReviewerAgent extends BaseAgent {
 
     /**
      * Check if the review approves the code.
-     * Looks for "APPROVE" in the output (case-insensitive).
+     * Only a valid verdict block saying "approve" does (see parseVerdict()).
      */
     static isApproved(output: AgentOutput): boolean {
-        const content = output.content.toUpperCase();
-        return content.includes('APPROVE') && !content.includes('REQUEST_CHANGES');
+        return isPositiveVerdict(output.content, REVIEW_VERDICT);
     }
 }
@@ -0,0 +1,134 @@
+/**
+ * Structured agent output — zod schemas for machine-readable responses.
+ *
+ * A StructuredSpec pairs a name with a zod schema. The schema is converted
+ * to JSON Schema for the provider's `responseSchema`, and the model's reply
+ * is parsed and validated against it. Validation errors are formatted so
+ * they can be sent back to the model in a repair prompt.
+ *
+ * Dependency direction: structured.ts → zod, providers/types
+ * Used by: agents/base.ts, agents/verdict.ts, cli/commands/plan.ts
+ */
+
+import { z } from 'zod';
+import type { ResponseSchema } from '../providers/types.js';
+
+/** A named zod schema describing the JSON an agent must return. */
+export interface StructuredSpec<T> {
+    /** Short identifier (letters, digits, `_` and `-`), sent to providers that require one. */
+    readonly name: string;
+    readonly schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+}
+
+/** Result of parsing a model reply against a StructuredSpec. */
+export type StructuredParseResult<T> =
+    | { success: true; data: T }
+    | { success: false; error: string };
+
+/** Task list returned by `aiagentflow plan`. */
+export const TASK_LIST_SPEC: StructuredSpec<{ tasks: string[] }> = {
+    name: 'task_list',
+    schema: z.object({
+        tasks: z.array(z.string().min(1)).describe('Ordered implementation tasks, one sentence each'),
+    }),
+};
+
+/** Build the provider-facing ResponseSchema for a spec. */
+export function toResponseSchema(spec: StructuredSpec<unknown>): ResponseSchema {
+    return { name: spec.name, schema: zodToJsonSchema(spec.schema) };
+}
+
+/**
+ * Parse a model reply as JSON and validate it against the spec.
+ * Tolerates markdown code fences and prose around the JSON value.
+ */
+export function parseStructuredOutput<T>(content: string, spec: StructuredSpec<T>): StructuredParseResult<T> {
+    const json = extractJson(content);
+    if (json === undefined) {
+        return { success: false, error: 'The response is not valid JSON.' };
+    }
+
+    const result = spec.schema.safeParse(json);
+    if (result.success) {
+        return { success: true, data: result.data };
+    }
+
+    const issues = result.error.issues
+        .map((issue) => `- ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+        .join('\n');
+    return { success: false, error: `The JSON does not match the schema:\n${issues}` };
+}
+
+/** Follow-up prompt asking the model to fix an invalid structured reply. */
+export function repairPrompt(error: string): string {
+    return `${error}\n\nReply again with only the corrected JSON.`;
+}
+
+/**
+ * Convert a zod schema to JSON Schema.
+ *
+ * Covers the types used for agent output (objects, arrays, strings, numbers,
+ * booleans, enums, literals, unions, optional/nullable/default wrappers).
+ * Anything else becomes `{}` (any value) — zod validation still applies.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): Record<string, unknown> {
+    const described = (json: Record<string, unknown>) =>
+        schema.description ? { ...json, description: schema.description } : json;
+
+    if (schema instanceof z.ZodObject) {
+        const shape = schema.shape as Record<string, z.ZodTypeAny>;
+        const required = Object.keys(shape).filter((key) => !shape[key]!.isOptional());
+        return described({
+            type: 'object',
+            properties: Object.fromEntries(
+                Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)]),
+            ),
+            ...(required.length > 0 && { required }),
+            additionalProperties: false,
+        });
+    }
+    if (schema instanceof z.ZodArray) {
+        return described({ type: 'array', items: zodToJsonSchema(schema.element) });
+    }
+    if (schema instanceof z.ZodString) return described({ type: 'string' });
+    if (schema instanceof z.ZodNumber) return described({ type: schema.isInt ? 'integer' : 'number' });
+    if (schema instanceof z.ZodBoolean) return described({ type: 'boolean' });
+    if (schema instanceof z.ZodEnum) return described({ type: 'string', enum: schema.options });
+    if (schema instanceof z.ZodLiteral) return described({ const: schema.value });
+    if (schema instanceof z.ZodUnion) {
+        return described({ anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema) });
+    }
+    if (schema instanceof z.ZodNullable) {
+        return described({ anyOf: [zodToJsonSchema(schema.unwrap()), { type: 'null' }] });
+    }
+    if (schema instanceof z.ZodOptional) return described(zodToJsonSchema(schema.unwrap()));
+    if (schema instanceof z.ZodDefault) return described(zodToJsonSchema(schema.removeDefault()));
+    if (schema instanceof z.ZodEffects) return described(zodToJsonSchema(schema.innerType()));
+
+    return described({});
+}
+
+// ── Private helpers ──
+
+/** Parse the JSON value in a reply, stripping code fences and surrounding prose. */
+function extractJson(content: string): unknown {
+    const fenced = content.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+    const candidates = [content.trim(), fenced?.[1]?.trim()];
+
+    // Fall back to the outermost {...} or [...] span
+    const start = content.search(/[{[]/);
+    const end = Math.max(content.lastIndexOf('}'), content.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+        candidates.push(content.slice(start, end + 1));
+    }
+
+    for (const candidate of candidates) {
+        if (!candidate) continue;
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // Try the next candidate
+        }
+    }
+    return undefined;
+}
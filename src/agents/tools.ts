@@ -0,0 +1,235 @@
+/**
+ * Built-in agent tools — file reading, directory listing, search, and commands.
+ *
+ * Tools are offered to the model via the provider's native tool-calling API.
+ * Every tool is scoped to the project root and returns plain text; failures
+ * are reported back to the model as text instead of thrown, so the agent
+ * can recover and try something else.
+ *
+ * Dependency direction: tools.ts → providers/types, execa, node:fs
+ * Used by: agents/base.ts, agents/factory.ts
+ */
+
+import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import { isAbsolute, join, relative, resolve } from 'node:path';
+import { execa } from 'execa';
+import type { ToolDefinition } from '../providers/types.js';
+
+/** A tool an agent can call during its agentic loop. */
+export interface AgentTool {
+    /** The provider-neutral definition sent to the model. */
+    readonly definition: ToolDefinition;
+    /** Run the tool with the model-supplied arguments and return text for the model. */
+    execute(args: Record<string, unknown>): Promise<string>;
+}
+
+/** Names of the tools shipped with aiagentflow. */
+export type BuiltinToolName = 'read_file' | 'list_files' | 'search_files' | 'run_command';
+
+/** All built-in tool names (for iteration and validation). */
+export const BUILTIN_TOOL_NAMES: readonly BuiltinToolName[] = [
+    'read_file',
+    'list_files',
+    'search_files',
+    'run_command',
+] as const;
+
+/** Max characters of tool output returned to the model. */
+const MAX_TOOL_OUTPUT = 20_000;
+/** Max matches returned by search_files. */
+const MAX_SEARCH_MATCHES = 100;
+/** Timeout for run_command (1 minute). */
+const COMMAND_TIMEOUT_MS = 60_000;
+
+/**
+ * Create the requested built-in tools bound to a project root.
+ *
+ * @param names - Which tools to enable (from the agent's config)
+ * @param projectRoot - Directory the tools are confined to
+ */
+export function createBuiltinTools(names: readonly string[], projectRoot: string): AgentTool[] {
+    const root = resolve(projectRoot);
+    const factories: Record<BuiltinToolName, () => AgentTool> = {
+        read_file: () => readFileTool(root),
+        list_files: () => listFilesTool(root),
+        search_files: () => searchFilesTool(root),
+        run_command: () => runCommandTool(root),
+    };
+
+    return names
+        .filter((name): name is BuiltinToolName => name in factories)
+        .map((name) => factories[name]());
+}
+
+// ── Tool implementations ──
+
+function readFileTool(root: string): AgentTool {
+    return {
+        definition: {
+            name: 'read_file',
+            description: 'Read a text file from the project. Paths are relative to the project root.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    path: { type: 'string', description: 'File path relative to the project root' },
+                },
+                required: ['path'],
+            },
+        },
+        async execute(args) {
+            const target = resolveInsideRoot(root, args.path);
+            if (!target) return 'Error: path must be inside the project root';
+            if (!existsSync(target) || !statSync(target).isFile()) {
+                return `Error: file not found: ${String(args.path)}`;
+            }
+            return truncate(readFileSync(target, 'utf-8'));
+        },
+    };
+}
+
+function listFilesTool(root: string): AgentTool {
+    return {
+        definition: {
+            name: 'list_files',
+            description: 'List entries of a project directory. Directories are suffixed with "/".',
+            parameters: {
+                type: 'object',
+                properties: {
+                    path: { type: 'string', description: 'Directory relative to the project root (default: ".")' },
+                },
+            },
+        },
+        async execute(args) {
+            const target = resolveInsideRoot(root, args.path ?? '.');
+            if (!target) return 'Error: path must be inside the project root';
+            if (!existsSync(target) || !statSync(target).isDirectory()) {
+                return `Error: directory not found: ${String(args.path ?? '.')}`;
+            }
+
+            const entries = readdirSync(target, { withFileTypes: true })
+                .filter((e) => e.name !== 'node_modules' && e.name !== '.git')
+                .map((e) => (e.isDirectory() ? `${e.name}/` : e.name))
+                .sort();
+            return entries.length > 0 ? entries.join('\n') : '(empty directory)';
+        },
+    };
+}
+
+function searchFilesTool(root: string): AgentTool {
+    return {
+        definition: {
+            name: 'search_files',
+            description: 'Search project files for a regular expression. Returns "path:line: text" matches.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    pattern: { type: 'string', description: 'Regular expression to search for' },
+                    path: { type: 'string', description: 'Directory to search, relative to the project root (default: ".")' },
+                },
+                required: ['pattern'],
+            },
+        },
+        async execute(args) {
+            const target = resolveInsideRoot(root, args.path ?? '.');
+            if (!target) return 'Error: path must be inside the project root';
+
+            let regex: RegExp;
+            try {
+                regex = new RegExp(String(args.pattern ?? ''));
+            } catch (err) {
+                return `Error: invalid pattern: ${err instanceof Error ? err.message : String(err)}`;
+            }
+
+            const matches: string[] = [];
+            walkFiles(target, (filePath) => {
+                let content: string;
+                try {
+                    content = readFileSync(filePath, 'utf-8');
+                } catch {
+                    return true;
+                }
+                const lines = content.split('\n');
+                for (let i = 0; i < lines.length; i++) {
+                    if (regex.test(lines[i]!)) {
+                        matches.push(`${relative(root, filePath)}:${i + 1}: ${lines[i]!.trim()}`);
+                        if (matches.length >= MAX_SEARCH_MATCHES) return false;
+                    }
+                }
+                return true;
+            });
+
+            return matches.length > 0 ? truncate(matches.join('\n')) : 'No matches found.';
+        },
+    };
+}
+
+function runCommandTool(root: string): AgentTool {
+    return {
+        definition: {
+            name: 'run_command',
+            description: 'Run a command in the project root and return its exit code and output. Shell features (pipes, redirects) are not supported.',
+            parameters: {
+                type: 'object',
+                properties: {
+                    command: { type: 'string', description: 'Command line, e.g. "npm test"' },
+                },
+                required: ['command'],
+            },
+        },
+        async execute(args) {
+            const parts = String(args.command ?? '').trim().split(/\s+/).filter(Boolean);
+            const cmd = parts[0];
+            if (!cmd) return 'Error: command is required';
+
+            try {
+                const result = await execa(cmd, parts.slice(1), {
+                    cwd: root,
+                    reject: false,
+                    timeout: COMMAND_TIMEOUT_MS,
+                    env: { ...process.env, FORCE_COLOR: '0' },
+                });
+                const output = [result.stdout, result.stderr].filter(Boolean).join('\n');
+                return truncate(`Exit code: ${result.exitCode ?? 1}\n${output}`);
+            } catch (err) {
+                return `Error: ${err instanceof Error ? err.message : String(err)}`;
+            }
+        },
+    };
+}
+
+// ── Private helpers ──
+
+/** Resolve a model-supplied path, returning null if it escapes the project root. */
+function resolveInsideRoot(root: string, path: unknown): string | null {
+    const target = resolve(root, String(path ?? '.'));
+    const rel = relative(root, target);
+    if (rel.startsWith('..') || isAbsolute(rel)) return null;
+    return target;
+}
+
+/** Walk files below a directory, skipping dot-directories and node_modules. Stop when `visit` returns false. */
+function walkFiles(dir: string, visit: (filePath: string) => boolean): boolean {
+    let entries;
+    try {
+        entries = readdirSync(dir, { withFileTypes: true });
+    } catch {
+        return true;
+    }
+
+    for (const entry of entries) {
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+        const fullPath = join(dir, entry.name);
+        if (entry.isDirectory()) {
+            if (!walkFiles(fullPath, visit)) return false;
+        } else if (entry.isFile()) {
+            if (!visit(fullPath)) return false;
+        }
+    }
+    return true;
+}
+
+function truncate(text: string): string {
+    return text.length > MAX_TOOL_OUTPUT
+        ? `${text.slice(0, MAX_TOOL_OUTPUT)}\n... (truncated)`
+        : text;
+}
@@ -5,9 +5,28 @@
  * Used by: config schemas, workflow engine, provider registry
  */
 
-/** All supported agent roles in the workflow. */
+/** All built-in agent roles in the workflow. */
 export type AgentRole = 'architect' | 'coder' | 'reviewer' | 'tester' | 'fixer' | 'judge';
 
+declare const customRole: unique symbol;
+
+/**
+ * The name of a custom role from `customRoles` in config. Branded, so only
+ * names read from config (through toRoleName()) qualify — a misspelt
+ * built-in role like 'reviwer' fails to compile.
+ */
+export type CustomRoleName = string & { readonly [customRole]: true };
+
+/** A built-in role, or the name of a custom role. */
+export type AgentRoleName = AgentRole | CustomRoleName;
+
+/**
+ * What a custom role's reply is used for: `files` are written to disk,
+ * a `verdict` approves or rejects (like the reviewer), `notes` are passed
+ * on to later agents.
+ */
+export type AgentOutputKind = 'files' | 'verdict' | 'notes';
+
 /** Display-friendly labels for each agent role. */
 export const AGENT_ROLE_LABELS: Record<AgentRole, string> = {
     architect: '🧠 Architect',
@@ -18,6 +37,25 @@ export const AGENT_ROLE_LABELS: Record<AgentRole, string> = {
     judge: '✅ Judge',
 };
 
+/** Whether a role name is one of the built-in roles. */
+export function isBuiltinRole(role: string): role is AgentRole {
+    return (ALL_AGENT_ROLES as readonly string[]).includes(role);
+}
+
+/** A role name read from config or a pipeline file: a built-in role, else a custom role's name. */
+export function toRoleName(name: string): AgentRoleName {
+    return isBuiltinRole(name) ? name : name as CustomRoleName;
+}
+
+/**
+ * Display label for a role: the built-in label, else the custom role's
+ * configured label, else its name.
+ */
+export function roleLabel(role: AgentRoleName, customRoles: Record<string, { label?: string }> = {}): string {
+    if (isBuiltinRole(role)) return AGENT_ROLE_LABELS[role];
+    return customRoles[role]?.label ?? `🤖 ${role}`;
+}
+
 /** Callbacks for streaming agent execution. */
 export interface StreamCallbacks {
     /** Called for each text chunk as it arrives. */
@@ -26,6 +64,12 @@ export interface StreamCallbacks {
     onComplete?: (fullText: string) => void;
 }
 
+/** A prior turn of an agent's conversation, replayed before its current prompt. */
+export interface ConversationTurn {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
 /** All valid agent roles as an array (for iteration and validation). */
 export const ALL_AGENT_ROLES: readonly AgentRole[] = [
     'architect',
@@ -0,0 +1,221 @@
+/**
+ * Verdict blocks — the machine-readable decision at the end of a review or QA reply.
+ *
+ * Reviewers (built-in, panel and custom `verdict` roles) and the judge end
+ * their replies with a fenced JSON block holding the verdict, the issues
+ * found and per-aspect scores. The workflow decides on that block alone,
+ * never on keywords in the prose ("nothing to reject", "tests PASS but…").
+ *
+ * A reply whose block is missing, malformed or ambiguous gets no verdict:
+ * the agent is asked again for the block (BaseAgent.ensureVerdict()), and a
+ * reply that still has none counts as a rejection.
+ *
+ * Dependency direction: verdict.ts → zod, agents/structured
+ * Used by: agents/base.ts, agent roles, prompts/library, workflow runner, qa-policy, review-consensus
+ */
+
+import { z } from 'zod';
+import { parseStructuredOutput, type StructuredSpec } from './structured.js';
+
+/** An issue listed in a verdict block. */
+export interface VerdictIssue {
+    severity: 'critical' | 'warning' | 'nit';
+    description: string;
+    /** File the issue is in, when it is about one file. */
+    file?: string;
+}
+
+/** A validated verdict block. */
+export interface Verdict {
+    /** One of the spec's verdict values, lowercase. */
+    verdict: string;
+    issues: VerdictIssue[];
+    /** Scores from 1 to 5, keyed by aspect (e.g. `correctness`). */
+    scores: Record<string, number>;
+}
+
+/** The verdict block a kind of agent must give. */
+export interface VerdictSpec extends StructuredSpec<Verdict> {
+    /** The verdict that lets the work through; any other value rejects it. */
+    readonly positive: string;
+    /** Reply format instructions, for system prompts and re-asks. */
+    readonly format: string;
+}
+
+/** Result of looking for the verdict block in a reply. */
+export type VerdictParseResult =
+    | { status: 'ok'; verdict: Verdict }
+    | { status: 'missing' | 'invalid' | 'ambiguous'; error: string };
+
+/** Verdict blocks of reviewers and custom verdict roles. */
+export const REVIEW_VERDICT: VerdictSpec = {
+    name: 'review_verdict',
+    schema: verdictSchema(['approve', 'request_changes']),
+    positive: 'approve',
+    format: verdictFormat({
+        verdicts: ['approve', 'request_changes'],
+        example: {
+            verdict: 'request_changes',
+            issues: [{ severity: 'critical', description: 'User input reaches the SQL query unescaped', file: 'src/db.ts' }],
+            scores: { correctness: 2, quality: 4, security: 1 },
+        },
+        issues: 'every issue from your review',
+        contradiction: 'Never approve while listing a critical issue.',
+    }),
+};
+
+/** Verdict blocks of the judge. */
+export const QA_VERDICT: VerdictSpec = {
+    name: 'qa_verdict',
+    schema: verdictSchema(['pass', 'fail']),
+    positive: 'pass',
+    format: verdictFormat({
+        verdicts: ['pass', 'fail'],
+        example: {
+            verdict: 'fail',
+            issues: [{ severity: 'critical', description: 'Empty input is not handled as the task requires' }],
+            scores: { requirements: 2, tests: 3, quality: 4 },
+        },
+        issues: 'the issues that must be fixed before passing',
+        contradiction: 'Never pass while listing a critical issue.',
+    }),
+};
+
+/**
+ * Find and validate the verdict block of a reply.
+ *
+ * Verdict blocks are fenced code blocks (tagged `json` or untagged) whose
+ * body mentions `"verdict"`; a reply that is only a JSON object counts as
+ * one. The result is:
+ * - `missing` — no verdict block
+ * - `invalid` — a block that is not JSON or does not match the spec
+ * - `ambiguous` — blocks giving different verdicts, or a positive verdict
+ *   listing critical issues
+ * - `ok` — otherwise; with several agreeing blocks, the last one
+ */
+export function parseVerdict(content: string, spec: VerdictSpec): VerdictParseResult {
+    const bodies = verdictBlocks(content).map((block) => block.body);
+    if (bodies.length === 0 && content.trim().startsWith('{')) {
+        bodies.push(content.trim());
+    }
+    if (bodies.length === 0) {
+        return { status: 'missing', error: 'The reply has no verdict block.' };
+    }
+
+    const verdicts: Verdict[] = [];
+    for (const body of bodies) {
+        const parsed = parseStructuredOutput(body, spec);
+        if (!parsed.success) {
+            return { status: 'invalid', error: `The verdict block is invalid. ${parsed.error}` };
+        }
+        verdicts.push(parsed.data);
+    }
+
+    const values = [...new Set(verdicts.map((v) => v.verdict))];
+    if (values.length > 1) {
+        return { status: 'ambiguous', error: `The reply has conflicting verdict blocks (${values.join(', ')}).` };
+    }
+
+    const verdict = verdicts[verdicts.length - 1]!;
+    if (verdict.verdict === spec.positive && verdict.issues.some((issue) => issue.severity === 'critical')) {
+        return {
+            status: 'ambiguous',
+            error: `The verdict is "${spec.positive}" but the block lists critical issues.`,
+        };
+    }
+    return { status: 'ok', verdict };
+}
+
+/** Whether a reply's verdict block gives the positive verdict. Replies without a valid block never do. */
+export function isPositiveVerdict(content: string, spec: VerdictSpec): boolean {
+    const parsed = parseVerdict(content, spec);
+    return parsed.status === 'ok' && parsed.verdict.verdict === spec.positive;
+}
+
+/** A reply with its verdict blocks taken out (to replace them with a re-asked one). */
+export function removeVerdictBlocks(content: string): string {
+    const lines = content.split('\n');
+    for (const block of verdictBlocks(content).reverse()) {
+        lines.splice(block.start, block.end - block.start + 1);
+    }
+    return lines.join('\n').trimEnd();
+}
+
+/** Follow-up prompt asking for the verdict block alone. */
+export function verdictRepairPrompt(error: string, spec: VerdictSpec): string {
+    return `${error}\n\nReply with only the verdict block for your assessment above.\n\n${spec.format}`;
+}
+
+/**
+ * A system prompt that describes the verdict block: the prompt itself when it
+ * already does, else the prompt with the format appended. Prompt files
+ * written by `init` before verdict blocks existed still get a usable reply.
+ */
+export function withVerdictFormat(prompt: string, spec: VerdictSpec): string {
+    return prompt.includes('"verdict"') ? prompt : `${prompt.trimEnd()}\n\n${spec.format}\n`;
+}
+
+// ── Private helpers ──
+
+/** "Request changes" → "request_changes": verdicts and severities match loosely. */
+function lowercase(value: string): string {
+    return value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function verdictSchema(verdicts: [string, ...string[]]) {
+    return z.object({
+        verdict: z.string().transform(lowercase).pipe(z.enum(verdicts)),
+        issues: z.array(z.object({
+            severity: z.string().transform(lowercase).pipe(z.enum(['critical', 'warning', 'nit'])),
+            description: z.string().min(1),
+            file: z.string().optional(),
+        })).default([]),
+        scores: z.record(z.number().min(1).max(5)).default({}),
+    });
+}
+
+function verdictFormat(options: {
+    verdicts: readonly string[];
+    example: Verdict;
+    issues: string;
+    contradiction: string;
+}): string {
+    const choices = options.verdicts.map((v) => `"${v}"`).join(' or ');
+    return [
+        '## Verdict block:',
+        'End your reply with exactly one fenced JSON block giving your verdict, for example:',
+        '',
+        '```json',
+        JSON.stringify(options.example, null, 2),
+        '```',
+        '',
+        `- \`verdict\`: ${choices}`,
+        `- \`issues\`: ${options.issues}, each with \`severity\` "critical", "warning" or "nit", ` +
+        'a `description` and an optional `file` (an empty list when there are none)',
+        '- `scores`: 1 (poor) to 5 (excellent) for each aspect',
+        '',
+        options.contradiction,
+    ].join('\n');
+}
+
+/** Fenced blocks (tagged `json` or untagged) that mention a verdict, with their fence line numbers. */
+function verdictBlocks(content: string): Array<{ body: string; start: number; end: number }> {
+    const blocks: Array<{ body: string; start: number; end: number }> = [];
+    const lines = content.split('\n');
+    let open: { tag: string; start: number } | undefined;
+
+    for (const [index, line] of lines.entries()) {
+        const fence = line.match(/^\s*```\s*([\w-]*)\s*$/);
+        if (!fence) continue;
+        if (!open) {
+            open = { tag: fence[1]!.toLowerCase(), start: index };
+        } else if (fence[1] === '') {
+            const body = lines.slice(open.start + 1, index).join('\n');
+            if ((open.tag === 'json' || open.tag === '') && body.includes('"verdict"')) {
+                blocks.push({ body, start: open.start, end: index });
+            }
+            open = undefined;
+        }
+    }
+    return blocks;
+}
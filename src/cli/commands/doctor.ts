@@ -2,9 +2,10 @@
  * `aiagentflow doctor` — Health check for providers and setup.
  *
  * Verifies environment, config, prompt files, agent-provider mapping,
- * and provider connectivity.
+ * provider connectivity, and that configured Ollama models are pulled
+ * (offering to pull the missing ones).
  *
- * Dependency direction: doctor.ts → commander, ora, chalk, config module, registry
+ * Dependency direction: doctor.ts → commander, ora, chalk, config module, registry, cli/utils
  * Used by: cli/index.ts
  */
 
@@ -16,8 +17,12 @@ import ora from 'ora';
 import { configExists, loadConfig } from '../../core/config/manager.js';
 import { getPromptsDir, getPoliciesDir } from '../../prompts/library.js';
 import { validateAllProviders } from '../../providers/registry.js';
-import { ALL_AGENT_ROLES } from '../../agents/types.js';
-import type { AgentRole } from '../../agents/types.js';
+import { configuredOllamaModels, findMissingOllamaModels } from '../../providers/ollama-models.js';
+import { pullMissingOllamaModels, warmUpOllamaModels } from '../utils/ollama-setup.js';
+import { ALL_AGENT_ROLES, toRoleName } from '../../agents/types.js';
+import { getRoleConfig } from '../../agents/factory.js';
+import type { ProviderCandidate } from '../../providers/types.js';
+import type { AgentRoleConfig } from '../../core/config/types.js';
 import { logger } from '../../utils/logger.js';
 
 /** Result of a single check. */
@@ -73,8 +78,8 @@ function checkGit(): CheckResult {
     }
 }
 
-/** Check if prompt files exist for all agent roles. */
-function checkPromptFiles(projectRoot: string): CheckResult[] {
+/** Check if prompt files exist for all agent roles, built-in and custom. */
+function checkPromptFiles(projectRoot: string, customRoles: string[]): CheckResult[] {
     const promptsDir = getPromptsDir(projectRoot);
     const results: CheckResult[] = [];
 
@@ -102,6 +107,15 @@ function checkPromptFiles(projectRoot: string): CheckResult[] {
         ));
     }
 
+    // Custom roles have no built-in prompt to fall back to
+    for (const role of customRoles) {
+        if (existsSync(`${promptsDir}/${role}.md`)) {
+            results.push(pass(`Custom role prompt: ${role}`));
+        } else {
+            results.push(fail(`Custom role prompt missing: ${role}`, `Create .aiagentflow/prompts/${role}.md`));
+        }
+    }
+
     const policiesDir = getPoliciesDir(projectRoot);
     const standardsPath = `${policiesDir}/coding-standards.md`;
     if (existsSync(standardsPath)) {
@@ -122,21 +136,54 @@ function checkAgentProviderMapping(config: ReturnType<typeof loadConfig>): Check
         ),
     );
 
-    // Ollama is always "configured" (no API key needed)
+    // Ollama and mock are always "configured" (no API key needed)
     configuredProviders.add('ollama');
+    configuredProviders.add('mock');
 
-    for (const role of ALL_AGENT_ROLES) {
-        const agentConfig = config.agents[role as AgentRole];
-        const provider = agentConfig.provider;
-        const model = agentConfig.model;
+    const instances = Object.keys(config.providers['openai-compatible'] ?? {});
 
-        if (configuredProviders.has(provider)) {
-            results.push(pass(`${role} → ${provider}/${model}`));
-        } else {
-            results.push(fail(
-                `${role} → ${provider}/${model}`,
-                `Provider "${provider}" is not configured`,
-            ));
+    /** Why a provider/instance reference can't be used, or undefined if it can. */
+    const problem = (candidate: ProviderCandidate): string | undefined => {
+        if (candidate.provider === 'openai-compatible') {
+            if (candidate.instance) {
+                return instances.includes(candidate.instance)
+                    ? undefined
+                    : `Instance "${candidate.instance}" is not configured`;
+            }
+            if (instances.length === 1) return undefined;
+            return instances.length === 0
+                ? 'No openai-compatible instances are configured'
+                : `Several openai-compatible instances are configured (${instances.join(', ')}) — set "instance"`;
+        }
+        return configuredProviders.has(candidate.provider)
+            ? undefined
+            : `Provider "${candidate.provider}" is not configured`;
+    };
+
+    const describe = (candidate: ProviderCandidate): string =>
+        `${candidate.provider}${candidate.instance ? `:${candidate.instance}` : ''}/${candidate.model}`;
+
+    const roles = [...ALL_AGENT_ROLES, ...Object.keys(config.customRoles).map(toRoleName)];
+    const assignments: [string, AgentRoleConfig][] = [
+        ...roles.map((role): [string, AgentRoleConfig] => [role, getRoleConfig(config, role)]),
+        ...config.reviewPanel.reviewers.map((r, i): [string, AgentRoleConfig] => [`reviewer panel #${i + 1}`, r]),
+    ];
+
+    for (const [role, agentConfig] of assignments) {
+        const primary: ProviderCandidate = {
+            provider: agentConfig.provider,
+            model: agentConfig.model,
+            instance: agentConfig.instance,
+        };
+
+        const primaryProblem = problem(primary);
+        const label = `${role} → ${describe(primary)}`;
+        results.push(primaryProblem ? fail(label, primaryProblem) : pass(label));
+
+        for (const fallback of agentConfig.fallbacks) {
+            const fallbackLabel = `${role} ⤷ ${describe(fallback)} (fallback)`;
+            const fallbackProblem = problem(fallback);
+            results.push(fallbackProblem ? fail(fallbackLabel, fallbackProblem) : pass(fallbackLabel));
         }
     }
 
@@ -145,7 +192,8 @@ function checkAgentProviderMapping(config: ReturnType<typeof loadConfig>): Check
 
 export const doctorCommand = new Command('doctor')
     .description('Check project setup and provider health')
-    .action(async () => {
+    .option('--warm-up', 'Preload the configured Ollama models into memory')
+    .action(async (options: { warmUp?: boolean }) => {
         const projectRoot = process.cwd();
         let failures = 0;
 
@@ -182,7 +230,7 @@ export const doctorCommand = new Command('doctor')
         console.log();
         logger.header('Prompt Files');
 
-        const promptResults = checkPromptFiles(projectRoot);
+        const promptResults = checkPromptFiles(projectRoot, Object.keys(config.customRoles));
         for (const r of promptResults) {
             printResult(r);
             if (!r.ok) failures++;
@@ -203,11 +251,14 @@ export const doctorCommand = new Command('doctor')
         logger.header('Provider Connectivity');
 
         const spinner = ora('Testing providers...').start();
-        const results = await validateAllProviders(config.providers);
+        const results = await validateAllProviders(config.providers, projectRoot);
         spinner.stop();
 
         for (const [name, healthy] of Object.entries(results)) {
-            const isConfigured = name === 'ollama' || !!config.providers[name as keyof typeof config.providers];
+            // Named instances ("openai-compatible:<name>") are only listed when configured
+            const isConfigured = name === 'ollama'
+                || name.includes(':')
+                || !!config.providers[name as keyof typeof config.providers];
 
             if (healthy) {
                 printResult(pass(`${name} — connected`));
@@ -219,6 +270,31 @@ export const doctorCommand = new Command('doctor')
             }
         }
 
+        // ── Ollama Models ──
+        const ollamaModels = configuredOllamaModels(config);
+        if (ollamaModels.length > 0 && results.ollama) {
+            console.log();
+            logger.header('Ollama Models');
+
+            let missing = await findMissingOllamaModels(config);
+            for (const model of ollamaModels) {
+                printResult(missing.includes(model)
+                    ? fail(`${model} — not pulled`, `Run "ollama pull ${model}"`)
+                    : pass(`${model} — available`));
+            }
+
+            // Only offer downloads when someone is there to answer
+            if (missing.length > 0 && process.stdin.isTTY) {
+                console.log();
+                missing = await pullMissingOllamaModels(config, missing);
+            }
+            failures += missing.length;
+
+            if (options.warmUp) {
+                await warmUpOllamaModels(config, ollamaModels.filter((m) => !missing.includes(m)));
+            }
+        }
+
         // ── Summary ──
         console.log();
         if (failures === 0) {
@@ -2,9 +2,10 @@
  * `aiagentflow init` — Interactive setup wizard.
  *
  * Walks the user through configuring providers, models, and workflow settings.
- * Generates `.aiagentflow/config.json` in the current project directory.
+ * Generates `.aiagentflow/config.json` in the current project directory,
+ * then offers to pull any configured Ollama models that are missing.
  *
- * Dependency direction: init.ts → commander, prompts, ora, chalk, config module
+ * Dependency direction: init.ts → commander, prompts, ora, chalk, config module, providers, cli/utils
  * Used by: cli/index.ts
  */
 
@@ -22,6 +23,9 @@ import type { LLMProviderName } from '../../providers/types.js';
 import { getSupportedProviders } from '../../providers/registry.js';
 import { PROVIDER_LABELS, PROVIDER_DEFAULT_MODELS, PROVIDER_DESCRIPTIONS } from '../../providers/metadata.js';
 import { pickModel } from '../utils/model-picker.js';
+import { pullMissingOllamaModels, offerOllamaWarmUp } from '../utils/ollama-setup.js';
+import { OllamaProvider } from '../../providers/ollama.js';
+import { configuredOllamaModels, findMissingOllamaModels } from '../../providers/ollama-models.js';
 import { generateDefaultPrompts } from '../../prompts/library.js';
 import { ensureDir } from '../../utils/fs.js';
 import { detectPackageManager, buildTestCommand, detectScriptCommand } from '../../utils/package-manager.js';
@@ -59,6 +63,7 @@ export const initCommand = new Command('init')
             saveConfig(projectRoot, config);
             generateDefaultPrompts(projectRoot);
             spinner.succeed(`Configuration saved to ${getConfigPath(projectRoot)}`);
+            await setupOllamaModels(config, true);
             logger.success('Setup complete! Run "aiagentflow doctor" to verify your setup.');
             return;
         }
@@ -75,6 +80,7 @@ export const initCommand = new Command('init')
         saveConfig(projectRoot, config);
         generateDefaultPrompts(projectRoot);
         spinner.succeed(`Configuration saved to ${getConfigPath(projectRoot)}`);
+        await setupOllamaModels(config, false);
 
         console.log();
         logger.success('Setup complete!');
@@ -86,6 +92,30 @@ export const initCommand = new Command('init')
         console.log();
     });
 
+/**
+ * Pull the configured Ollama models that are missing, then offer to preload them.
+ * With `assumeYes` (init --yes) models are pulled without asking and not preloaded.
+ */
+async function setupOllamaModels(config: AppConfig, assumeYes: boolean): Promise<void> {
+    const models = configuredOllamaModels(config);
+    if (models.length === 0) return;
+
+    const provider = new OllamaProvider(config.providers.ollama);
+    if (!(await provider.validateConnection())) {
+        logger.warn('Ollama is not reachable — start it with "ollama serve", then run "aiagentflow doctor" to pull your models');
+        return;
+    }
+
+    const missing = await pullMissingOllamaModels(config, await findMissingOllamaModels(config), assumeYes);
+    if (missing.length > 0) {
+        logger.warn(`Not pulled: ${missing.join(', ')} — run "aiagentflow doctor" to pull them before running a task`);
+    }
+
+    if (!assumeYes) {
+        await offerOllamaWarmUp(config, models.filter((m) => !missing.includes(m)));
+    }
+}
+
 /**
  * Run the interactive setup wizard.
  */
@@ -252,6 +282,51 @@ async function runWizard(projectRoot: string): Promise<AppConfig | null> {
         };
     }
 
+    if (selectedProviders.includes('openai-compatible')) {
+        console.log(chalk.gray('  Add more instances later under providers["openai-compatible"] in config.json.'));
+        const compatAnswers = await prompts([
+            {
+                type: 'text',
+                name: 'instance',
+                message: 'OpenAI-compatible instance name:',
+                initial: 'local',
+            },
+            {
+                type: 'text',
+                name: 'baseUrl',
+                message: 'Server base URL:',
+                initial: 'http://localhost:8000/v1',
+            },
+            {
+                type: 'password',
+                name: 'apiKey',
+                message: 'API key (leave empty if none):',
+            },
+        ]);
+
+        config.providers['openai-compatible'] = {
+            [compatAnswers.instance || 'local']: {
+                baseUrl: compatAnswers.baseUrl || 'http://localhost:8000/v1',
+                ...(compatAnswers.apiKey && { apiKey: compatAnswers.apiKey }),
+                headers: {},
+                streamUsage: true,
+            },
+        };
+    }
+
+    if (selectedProviders.includes('mock')) {
+        const mockAnswers = await prompts({
+            type: 'text',
+            name: 'fixturesPath',
+            message: 'Mock fixtures file:',
+            initial: '.aiagentflow/fixtures/mock.json',
+        });
+
+        config.providers.mock = {
+            fixturesPath: mockAnswers.fixturesPath || '.aiagentflow/fixtures/mock.json',
+        };
+    }
+
     // ── Step 4: Agent Model Assignment ──
     logger.step(4, 6, 'Agent Model Assignment');
 
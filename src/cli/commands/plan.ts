@@ -15,6 +15,7 @@ import ora from 'ora';
 import { configExists, loadConfig } from '../../core/config/manager.js';
 import { loadContextDocuments, formatContextForAgent } from '../../core/workflow/context-loader.js';
 import { createAgent } from '../../agents/factory.js';
+import { TASK_LIST_SPEC } from '../../agents/structured.js';
 import { logger } from '../../utils/logger.js';
 
 export const planCommand = new Command('plan')
@@ -55,18 +56,17 @@ export const planCommand = new Command('plan')
             const agent = createAgent('architect', config, projectRoot);
             const spinner = ora('Generating task breakdown...').start();
 
-            const output = await agent.execute({
-                task: 'Break down the following reference documents into an ordered list of implementation tasks. Output one task per line, no numbers, no bullets, no commentary.',
+            const output = await agent.executeStructured({
+                task: 'Break down the following reference documents into an ordered list of implementation tasks. Each task is a single line of plain text — no numbers, no bullets, no commentary.',
                 context: formattedContext,
-            });
+            }, TASK_LIST_SPEC);
 
             spinner.succeed(`Task breakdown complete (${output.tokensUsed} tokens)`);
 
-            // Clean up output — filter empty lines
-            const taskLines = output.content
-                .split('\n')
-                .map(line => line.trim())
-                .filter(line => line.length > 0)
+            // One task per line, compatible with --batch
+            const taskLines = output.data.tasks
+                .map(task => task.replace(/\s+/g, ' ').trim())
+                .filter(task => task.length > 0)
                 .join('\n');
 
             if (options.output) {
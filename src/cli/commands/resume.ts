@@ -4,13 +4,14 @@
  * Loads a saved session and re-enters the workflow loop from the
  * last saved state. Useful after crashes, Ctrl+C, or transient errors.
  *
- * Dependency direction: resume.ts → commander, workflow/runner, config
+ * Dependency direction: resume.ts → commander, workflow/runner, config, cli/utils
  * Used by: cli/index.ts
  */
 
 import { Command } from 'commander';
 import { configExists } from '../../core/config/manager.js';
 import { resumeWorkflow } from '../../core/workflow/runner.js';
+import { parsePositiveInt, parsePositiveNumber } from '../utils/options.js';
 import { logger } from '../../utils/logger.js';
 
 export const resumeCommand = new Command('resume')
@@ -19,7 +20,13 @@ export const resumeCommand = new Command('resume')
     .option('--auto', 'Autonomous mode — skip all human approval gates')
     .option('--mode <mode>', 'Workflow mode override: fast, balanced, or strict')
     .option('--no-stream', 'Disable real-time streaming of agent output')
-    .action(async (sessionId: string | undefined, options: { auto?: boolean; mode?: string; stream: boolean }) => {
+    .option('--no-cache', 'Bypass the LLM response cache for this run')
+    .option('--transcript', 'Record every LLM request and response to the session\'s transcript')
+    .option('--max-tokens <n>', 'Token limit for the run, including usage before the resume', parsePositiveInt)
+    .option('--max-cost <usd>', 'Estimated cost limit in USD, including usage before the resume', parsePositiveNumber)
+    .action(async (sessionId: string | undefined, options: {
+        auto?: boolean; mode?: string; stream: boolean; cache: boolean; transcript?: boolean; maxTokens?: number; maxCost?: number;
+    }) => {
         const projectRoot = process.cwd();
 
         if (!configExists(projectRoot)) {
@@ -34,9 +41,17 @@ export const resumeCommand = new Command('resume')
                 auto: options.auto,
                 mode: options.mode,
                 streaming: options.stream,
+                cache: options.cache,
+                transcript: options.transcript,
+                maxTokens: options.maxTokens,
+                maxCostUsd: options.maxCost,
             });
 
-            if (result.state === 'failed') {
+            // 130 = terminated by Ctrl+C, by shell convention
+            if (result.interrupted) {
+                process.exit(130);
+            }
+            if (result.state === 'failed' || result.budgetExceeded) {
                 process.exit(1);
             }
         } catch (err) {
@@ -3,7 +3,7 @@
  *
  * Supports single tasks, batch mode from a file, and autonomous mode.
  *
- * Dependency direction: run.ts → commander, workflow/runner, task-queue, config
+ * Dependency direction: run.ts → commander, workflow/runner, task-queue, config, cli/utils
  * Used by: cli/index.ts
  */
 
@@ -12,6 +12,7 @@ import { readFileSync, existsSync } from 'node:fs';
 import { configExists } from '../../core/config/manager.js';
 import { runWorkflow } from '../../core/workflow/runner.js';
 import { runTaskQueue, parseTasks } from '../../core/workflow/task-queue.js';
+import { parsePositiveInt, parsePositiveNumber } from '../utils/options.js';
 import { logger } from '../../utils/logger.js';
 
 export const runCommand = new Command('run')
@@ -20,11 +21,22 @@ export const runCommand = new Command('run')
     .option('--auto', 'Autonomous mode — skip all human approval gates')
     .option('--batch', 'Treat the argument as a task list file (one task per line)')
     .option('--mode <mode>', 'Workflow mode override: fast, balanced, or strict')
+    .option('--pipeline <name>', 'Pipeline to follow, from .aiagentflow/pipelines/<name>.json (default: built-in)')
+    .option('--best-of <n>', 'Generate n coder candidates per code stage and keep the best (overrides config)', parsePositiveInt)
     .option('--stop-on-failure', 'Stop the queue on first failure (batch mode)')
-    .option('--context <paths...>', 'Context files to load as reference documents')
+    .option('--context <paths...>', 'Context files to load as reference documents (.png/.jpg are attached as images)')
     .option('--no-stream', 'Disable real-time streaming of agent output')
     .option('--dry-run', 'Preview the workflow plan without executing agents')
-    .action(async (task: string, options: { auto?: boolean; batch?: boolean; mode?: string; stopOnFailure?: boolean; context?: string[]; stream: boolean; dryRun?: boolean }) => {
+    .option('--no-cache', 'Bypass the LLM response cache for this run')
+    .option('--transcript', 'Record every LLM request and response to .aiagentflow/logs/<session-id>/')
+    .option('--max-tokens <n>', 'Stop the run (resumable) once agents have used this many tokens', parsePositiveInt)
+    .option('--max-cost <usd>', 'Stop the run (resumable) once its estimated cost reaches this many USD', parsePositiveNumber)
+    .option('--batch-max-tokens <n>', 'Stop the queue once all tasks together have used this many tokens (batch mode)', parsePositiveInt)
+    .option('--batch-max-cost <usd>', 'Stop the queue once all tasks together reach this estimated cost in USD (batch mode)', parsePositiveNumber)
+    .action(async (task: string, options: {
+        auto?: boolean; batch?: boolean; mode?: string; pipeline?: string; bestOf?: number; stopOnFailure?: boolean; context?: string[]; stream: boolean; dryRun?: boolean; cache: boolean; transcript?: boolean;
+        maxTokens?: number; maxCost?: number; batchMaxTokens?: number; batchMaxCost?: number;
+    }) => {
         const projectRoot = process.cwd();
 
         if (!configExists(projectRoot)) {
@@ -53,11 +65,20 @@ export const runCommand = new Command('run')
                     tasks,
                     auto: options.auto,
                     mode: options.mode,
+                    pipeline: options.pipeline,
+                    bestOf: options.bestOf,
                     stopOnFailure: options.stopOnFailure,
                     contextPaths: options.context,
                     dryRun: options.dryRun,
+                    cache: options.cache,
+                    transcript: options.transcript,
+                    maxTokens: options.maxTokens,
+                    maxCostUsd: options.maxCost,
+                    batchMaxTokens: options.batchMaxTokens,
+                    batchMaxCostUsd: options.batchMaxCost,
                 });
 
+                if (results.some(t => t.result?.interrupted)) process.exit(130);
                 const failed = results.filter(t => t.status === 'failed').length;
                 if (failed > 0) process.exit(1);
                 return;
@@ -69,12 +90,22 @@ export const runCommand = new Command('run')
                 task,
                 auto: options.auto,
                 mode: options.mode,
+                pipeline: options.pipeline,
+                bestOf: options.bestOf,
                 contextPaths: options.context,
                 streaming: options.stream,
                 dryRun: options.dryRun,
+                cache: options.cache,
+                transcript: options.transcript,
+                maxTokens: options.maxTokens,
+                maxCostUsd: options.maxCost,
             });
 
-            if (result.state === 'failed') {
+            // 130 = terminated by Ctrl+C, by shell convention
+            if (result.interrupted) {
+                process.exit(130);
+            }
+            if (result.state === 'failed' || result.budgetExceeded) {
                 process.exit(1);
             }
         } catch (err) {
@@ -0,0 +1,63 @@
+/**
+ * `aiagentflow undo` — Restore files an agent step overwrote.
+ *
+ * Every step that writes files saves the earlier contents as a checkpoint
+ * in its session. Undo puts them back — the latest step's by default, or
+ * every step from `--to-step N` on — without needing git. The session's
+ * workflow state is left as it is.
+ *
+ * Dependency direction: undo.ts → commander, workflow/checkpoint, workflow/session, cli/utils
+ * Used by: cli/index.ts
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { listCheckpoints, undoCheckpoints } from '../../core/workflow/checkpoint.js';
+import { listSessions } from '../../core/workflow/session.js';
+import { parsePositiveInt } from '../utils/options.js';
+import { logger } from '../../utils/logger.js';
+
+export const undoCommand = new Command('undo')
+    .description('Restore the files written by agent steps of a session')
+    .argument('[session-id]', 'Session to undo (default: most recent session with checkpoints)')
+    .option('--to-step <n>', 'Undo every step from checkpoint N on (default: the latest step only)', parsePositiveInt)
+    .option('--list', 'List the session\'s checkpoints without restoring anything')
+    .action((sessionId: string | undefined, options: { toStep?: number; list?: boolean }) => {
+        const projectRoot = process.cwd();
+
+        const id = sessionId
+            ?? listSessions(projectRoot).find((s) => listCheckpoints(projectRoot, s.id).length > 0)?.id;
+        if (!id) {
+            logger.error('No session has file checkpoints to undo.');
+            process.exit(1);
+        }
+
+        if (options.list) {
+            const checkpoints = listCheckpoints(projectRoot, id);
+            if (checkpoints.length === 0) {
+                logger.info(`Session ${id} has no checkpoints.`);
+                return;
+            }
+            logger.header(`Checkpoints of ${id}`);
+            console.log();
+            for (const checkpoint of checkpoints) {
+                const created = new Date(checkpoint.createdAt).toLocaleString();
+                console.log(`  ${chalk.bold(`Step ${checkpoint.step}`)}  ${checkpoint.role} (${checkpoint.stage})  ${chalk.gray(created)}`);
+                for (const file of checkpoint.files) {
+                    console.log(chalk.gray(`    ${file.existed ? 'modified' : 'created '}  ${file.path}`));
+                }
+            }
+            console.log();
+            return;
+        }
+
+        try {
+            const undone = undoCheckpoints(projectRoot, id, options.toStep);
+            for (const checkpoint of undone) {
+                logger.success(`Undid step ${checkpoint.step} (${checkpoint.role}): ${checkpoint.files.length} file(s)`);
+            }
+        } catch (err) {
+            logger.error(`Undo failed: ${err instanceof Error ? err.message : String(err)}`);
+            process.exit(1);
+        }
+    });
@@ -15,6 +15,7 @@ import { runCommand } from './commands/run.js';
 import { planCommand } from './commands/plan.js';
 import { resumeCommand } from './commands/resume.js';
 import { sessionsCommand } from './commands/sessions.js';
+import { undoCommand } from './commands/undo.js';
 
 const program = new Command();
 
@@ -31,5 +32,6 @@ program.addCommand(runCommand);
 program.addCommand(planCommand);
 program.addCommand(resumeCommand);
 program.addCommand(sessionsCommand);
+program.addCommand(undoCommand);
 
 program.parse();
@@ -0,0 +1,104 @@
+/**
+ * Ollama setup — pulls missing Ollama models and preloads them.
+ *
+ * Offers to download each configured Ollama model that is not pulled yet,
+ * with live progress, and to load models into memory so the first agent
+ * call does not wait for them.
+ *
+ * Dependency direction: ollama-setup.ts → providers/ollama, config/types, prompts, ora, chalk
+ * Used by: cli/commands/init.ts, cli/commands/doctor.ts
+ */
+
+import prompts from 'prompts';
+import ora from 'ora';
+import chalk from 'chalk';
+import type { AppConfig } from '../../core/config/types.js';
+import { OllamaProvider, type PullProgress } from '../../providers/ollama.js';
+
+/**
+ * Pull missing Ollama models, asking before each download unless `assumeYes` is set.
+ *
+ * @returns The models that are still missing (declined or failed)
+ */
+export async function pullMissingOllamaModels(
+    config: AppConfig,
+    missing: readonly string[],
+    assumeYes = false,
+): Promise<string[]> {
+    const provider = new OllamaProvider(config.providers.ollama);
+    const stillMissing: string[] = [];
+
+    for (const model of missing) {
+        if (!assumeYes) {
+            const { pull } = await prompts({
+                type: 'confirm',
+                name: 'pull',
+                message: `Ollama model "${model}" is not pulled. Download it now?`,
+                initial: true,
+            });
+            if (!pull) {
+                stillMissing.push(model);
+                continue;
+            }
+        }
+
+        const spinner = ora(`Pulling ${model}...`).start();
+        try {
+            await provider.pullModel(model, (progress) => {
+                spinner.text = `Pulling ${model} — ${describeProgress(progress)}`;
+            });
+            spinner.succeed(`Pulled ${model}`);
+        } catch (err) {
+            spinner.fail(`Could not pull ${model}: ${err instanceof Error ? err.message : String(err)}`);
+            stillMissing.push(model);
+        }
+    }
+
+    return stillMissing;
+}
+
+/**
+ * Offer to load Ollama models into memory (kept loaded for Ollama's keep-alive period).
+ */
+export async function offerOllamaWarmUp(config: AppConfig, models: readonly string[]): Promise<void> {
+    if (models.length === 0) return;
+
+    const { warmUp } = await prompts({
+        type: 'confirm',
+        name: 'warmUp',
+        message: `Preload ${models.length === 1 ? `"${models[0]}"` : `${models.length} Ollama models`} into memory now?`,
+        initial: false,
+    });
+    if (!warmUp) return;
+
+    await warmUpOllamaModels(config, models);
+}
+
+/**
+ * Load Ollama models into memory, one at a time.
+ */
+export async function warmUpOllamaModels(config: AppConfig, models: readonly string[]): Promise<void> {
+    const provider = new OllamaProvider(config.providers.ollama);
+
+    for (const model of models) {
+        const spinner = ora(`Loading ${model}...`).start();
+        try {
+            await provider.warmUp(model);
+            spinner.succeed(`Loaded ${model}`);
+        } catch (err) {
+            spinner.fail(`Could not load ${model}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+    }
+}
+
+// ── Private helpers ──
+
+/** "pulling 6a0746a1ec1a — 42% (1.2 of 2.0 GB)", or just the status when there is nothing to measure. */
+function describeProgress(progress: PullProgress): string {
+    if (!progress.total || progress.completed === undefined) {
+        return progress.status;
+    }
+    const percent = Math.floor((progress.completed / progress.total) * 100);
+    const gb = (bytes: number) => (bytes / 1024 ** 3).toFixed(1);
+    return `${progress.status} — ${percent}% ${chalk.gray(`(${gb(progress.completed)} of ${gb(progress.total)} GB)`)}`;
+}
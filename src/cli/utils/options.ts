@@ -0,0 +1,29 @@
+/**
+ * Option parsers — validate numeric CLI flags.
+ *
+ * Passed to commander's `.option()`; invalid values are reported by
+ * commander as usage errors before the command runs.
+ *
+ * Dependency direction: options.ts → commander
+ * Used by: cli/commands/run.ts, cli/commands/resume.ts, cli/commands/undo.ts
+ */
+
+import { InvalidArgumentError } from 'commander';
+
+/** Parse a positive integer flag value, e.g. `--max-tokens 200000`. */
+export function parsePositiveInt(value: string): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+        throw new InvalidArgumentError('Expected a positive integer.');
+    }
+    return parsed;
+}
+
+/** Parse a positive number flag value, e.g. `--max-cost 2.50`. */
+export function parsePositiveNumber(value: string): number {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+        throw new InvalidArgumentError('Expected a positive number.');
+    }
+    return parsed;
+}
@@ -9,23 +9,21 @@
  */
 
 import chalk from 'chalk';
-import type { StreamCallbacks, AgentRole } from '../../agents/types.js';
-import { AGENT_ROLE_LABELS } from '../../agents/types.js';
+import type { StreamCallbacks } from '../../agents/types.js';
 
 /** Max characters to show on the streaming preview line. */
 const PREVIEW_MAX = 80;
 
 /**
- * Create a streaming renderer for a given agent role.
+ * Create a streaming renderer for an agent, headed by its display label.
  *
  * @returns An object with `callbacks` (pass to executeStreaming) and
  *          `finish()` (call after the agent completes to clean up output).
  */
-export function createStreamRenderer(agentRole: AgentRole): {
+export function createStreamRenderer(label: string): {
     callbacks: StreamCallbacks;
     finish: () => void;
 } {
-    const label = AGENT_ROLE_LABELS[agentRole];
     let lineLength = 0;
     let headerPrinted = false;
 
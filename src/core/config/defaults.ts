@@ -19,6 +19,9 @@ const DEFAULT_AGENT_ROLE = {
     model: 'llama3.2:latest',
     temperature: 0.7,
     maxTokens: 4096,
+    maxContinuations: 2,
+    fallbacks: [],
+    tools: [],
 };
 
 /**
@@ -44,6 +47,8 @@ export const DEFAULT_CONFIG: AppConfig = {
         fixer: { ...DEFAULT_AGENT_ROLE, temperature: 0.3, maxTokens: 8192 },
         judge: { ...DEFAULT_AGENT_ROLE, temperature: 0.2 },
     },
+    customRoles: {},
+    reviewPanel: { reviewers: [], policy: 'majority' },
 
     project: {
         language: 'typescript',
@@ -63,6 +68,22 @@ export const DEFAULT_CONFIG: AppConfig = {
         autoCommit: false,
         autoCommitMessage: 'ai: {task}',
     },
+    bestOfN: {
+        candidates: 1,
+        temperatures: [],
+        selection: 'judge',
+    },
+
+    cache: {
+        enabled: false,
+        ttlHours: 168,
+        maxSizeMb: 50,
+    },
+    transcripts: {
+        enabled: false,
+        redactPatterns: [],
+    },
+    pricing: {},
 };
 
 /** The directory name where config is stored inside a project. */
@@ -9,21 +9,70 @@
  */
 
 import { z } from 'zod';
+import { toRoleName } from '../../agents/types.js';
+
+/**
+ * Schema for a supported provider name.
+ */
+export const providerNameSchema = z.enum(['anthropic', 'gemini', 'groq', 'mock', 'ollama', 'openai', 'openai-compatible', 'openrouter']);
+
+/**
+ * Schema for a fallback provider/model pair.
+ */
+export const providerCandidateSchema = z.object({
+    provider: providerNameSchema,
+    model: z.string().min(1),
+    instance: z.string().min(1).optional(),
+});
 
 /**
  * Schema for a single agent role's configuration.
  */
 export const agentRoleConfigSchema = z.object({
     /** Which provider to use for this agent role. */
-    provider: z.enum(['anthropic', 'gemini', 'groq', 'ollama', 'openai', 'openrouter']),
+    provider: providerNameSchema,
     /** The model identifier to use. */
     model: z.string().min(1),
+    /** Named instance for providers that support several (openai-compatible). */
+    instance: z.string().min(1).optional(),
+    /** Ordered provider/model pairs to fail over to when the primary provider errors. */
+    fallbacks: z.array(providerCandidateSchema).default([]),
     /** Sampling temperature (0.0 = deterministic, higher = more creative). */
     temperature: z.number().min(0).max(2).default(0.7),
     /** Maximum tokens the model can generate in a response. */
     maxTokens: z.number().int().min(1).max(200000).default(4096),
+    /** Follow-up requests for the rest of a reply cut off at maxTokens (0 = off). */
+    maxContinuations: z.number().int().min(0).max(10).default(2),
+    /** Model context window in tokens (default: reported by the provider; when unknown, context is not trimmed). */
+    contextWindow: z.number().int().min(1024).optional(),
+    /** Built-in tools the agent may call via native tool calling (empty = plain prompting). */
+    tools: z.array(z.enum(['read_file', 'list_files', 'search_files', 'run_command'])).default([]),
 });
 
+/** Built-in role names — custom roles may not reuse them. */
+const BUILTIN_ROLE_NAMES = ['architect', 'coder', 'reviewer', 'tester', 'fixer', 'judge'];
+
+/**
+ * Schema for a custom agent role, defined by a prompt file
+ * (`.aiagentflow/prompts/<name>.md`) and this config entry.
+ */
+export const customRoleConfigSchema = agentRoleConfigSchema.extend({
+    /** Display label (e.g. "🛡️ Security Auditor"). Defaults to the role name. */
+    label: z.string().min(1).optional(),
+    /** What the reply is used for: files to write, an approve/reject verdict, or notes for later agents. */
+    output: z.enum(['files', 'verdict', 'notes']).default('notes'),
+});
+
+/**
+ * Schema for custom agent roles, keyed by role name.
+ */
+export const customRolesConfigSchema = z.record(
+    z.string()
+        .regex(/^[a-z][a-z0-9-]*$/, 'Use lowercase letters, digits and "-"')
+        .refine((name) => !BUILTIN_ROLE_NAMES.includes(name), 'Built-in role names cannot be reused'),
+    customRoleConfigSchema,
+);
+
 /**
  * Schema for all agent configurations, keyed by role.
  */
@@ -36,6 +85,24 @@ export const agentConfigSchema = z.object({
     judge: agentRoleConfigSchema,
 });
 
+/**
+ * Schema for the review panel — extra reviewers that review in parallel with
+ * `agents.reviewer`, their verdicts merged under a consensus policy.
+ */
+export const reviewPanelConfigSchema = z.object({
+    /** Additional reviewer configurations (other providers or models). Empty = single reviewer. */
+    reviewers: z.array(agentRoleConfigSchema.extend({
+        /** Display label (default: "🔍 Reviewer (<model>)"). */
+        label: z.string().min(1).optional(),
+    })).default([]),
+    /**
+     * How verdicts combine: `unanimous` needs every reviewer to approve,
+     * `majority` more than half, `any-critical-blocks` a majority with no
+     * critical issue reported by any reviewer.
+     */
+    policy: z.enum(['unanimous', 'majority', 'any-critical-blocks']).default('majority'),
+});
+
 /**
  * Schema for Anthropic provider settings.
  */
@@ -45,6 +112,13 @@ export const anthropicProviderSchema = z.object({
     apiVersion: z.string().default('2023-06-01'),
 });
 
+/**
+ * Schema for mock provider settings (offline fixture replay).
+ */
+export const mockProviderSchema = z.object({
+    fixturesPath: z.string().min(1).default('.aiagentflow/fixtures/mock.json'),
+});
+
 /**
  * Schema for Ollama provider settings.
  */
@@ -78,8 +152,19 @@ export const openaiProviderSchema = z.object({
 });
 
 /**
- * Schema for provider configuration (all providers).
+ * Schema for one named OpenAI-compatible server (vLLM, llama.cpp, LM Studio, ...).
  */
+export const openaiCompatibleInstanceSchema = z.object({
+    baseUrl: z.string().url(),
+    apiKey: z.string().optional(),
+    /** Extra HTTP headers sent with every request. */
+    headers: z.record(z.string(), z.string()).default({}),
+    /** Static model list; when set, the server's /models endpoint is not queried. */
+    models: z.array(z.string().min(1)).optional(),
+    /** Ask for token usage on streamed responses (turn off for servers that reject stream_options). */
+    streamUsage: z.boolean().default(true),
+});
+
 /**
  * Schema for OpenRouter provider settings.
  */
@@ -90,12 +175,17 @@ export const openrouterProviderSchema = z.object({
     siteName: z.string().optional(),
 });
 
+/**
+ * Schema for provider configuration (all providers).
+ */
 export const providerConfigSchema = z.object({
     anthropic: anthropicProviderSchema.optional(),
     gemini: geminiProviderSchema.optional(),
     groq: groqProviderSchema.optional(),
+    mock: mockProviderSchema.optional(),
     ollama: ollamaProviderSchema.optional(),
     openai: openaiProviderSchema.optional(),
+    'openai-compatible': z.record(z.string(), openaiCompatibleInstanceSchema).optional(),
     openrouter: openrouterProviderSchema.optional(),
 });
 
@@ -121,7 +211,10 @@ export const projectConfigSchema = z.object({
 export const workflowConfigSchema = z.object({
     /** Workflow mode preset: fast, balanced, or strict. */
     mode: z.enum(['fast', 'balanced', 'strict']).default('balanced'),
-    /** Maximum number of fix iterations before stopping. */
+    /**
+     * Maximum number of fix iterations before stopping. Every failure outcome
+     * counts: a lint or test failure, and a reviewer or judge rejection.
+     */
     maxIterations: z.number().int().min(1).max(20).default(5),
     /** Whether to require human approval between stages. */
     humanApproval: z.boolean().default(true),
@@ -141,6 +234,100 @@ export const workflowConfigSchema = z.object({
     autoCommit: z.boolean().default(false),
     /** Commit message template. Supports {task} placeholder. */
     autoCommitMessage: z.string().default('ai: {task}'),
+    /** Stop a run once its agents have used this many tokens in total (resumable). */
+    maxTokens: z.number().int().positive().optional(),
+    /** Stop a run once its estimated cost reaches this many USD (resumable). */
+    maxCostUsd: z.number().positive().optional(),
+    /** Stop a batch once all of its runs together have used this many tokens. */
+    batchMaxTokens: z.number().int().positive().optional(),
+    /** Stop a batch once all of its runs together reach this estimated cost in USD. */
+    batchMaxCostUsd: z.number().positive().optional(),
+});
+
+/**
+ * Schema for best-of-N code generation: several coder samples, each checked
+ * in a scratch copy of the project, with only the winner written to it.
+ */
+export const bestOfNConfigSchema = z.object({
+    /** Coder samples per code stage (1 = off). */
+    candidates: z.number().int().min(1).max(8).default(1),
+    /** Temperature of each sample, in order; samples without one use the coder's temperature. */
+    temperatures: z.array(z.number().min(0).max(2)).default([]),
+    /** How the winner is picked: the judge chooses among the best-scoring candidates, or the score alone decides. */
+    selection: z.enum(['judge', 'score']).default('judge'),
+});
+
+/**
+ * Schema for the local LLM response cache.
+ */
+export const cacheConfigSchema = z.object({
+    /** Whether to replay identical LLM requests from `.aiagentflow/cache/`. */
+    enabled: z.boolean().default(false),
+    /** How long a cached response stays valid, in hours. */
+    ttlHours: z.number().positive().default(168),
+    /** Maximum total cache size in megabytes; oldest entries are evicted first. */
+    maxSizeMb: z.number().positive().default(50),
+});
+
+/** Whether a string compiles as a regular expression. */
+function isValidRegExp(pattern: string): boolean {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Schema for provider transcripts (full request/response logs for debugging).
+ */
+export const transcriptConfigSchema = z.object({
+    /** Whether to record every LLM request and response to `.aiagentflow/logs/<session-id>/`. */
+    enabled: z.boolean().default(false),
+    /** Extra regular expressions whose matches are redacted (API keys in config are always redacted). */
+    redactPatterns: z.array(z.string().refine(isValidRegExp, 'Invalid regular expression')).default([]),
+});
+
+/**
+ * Schema for one model's prices, in USD per 1M tokens.
+ */
+export const modelPricingSchema = z.object({
+    input: z.number().min(0),
+    output: z.number().min(0),
+    /** Prompt-cache reads (defaults to the input price). */
+    cacheRead: z.number().min(0).optional(),
+    /** Prompt-cache writes (defaults to the input price). */
+    cacheWrite: z.number().min(0).optional(),
+});
+
+/** Words with a meaning of their own as pipeline stage targets. */
+const RESERVED_STAGE_NAMES = ['next', 'complete', 'failed'];
+
+/**
+ * Schema for one stage of a workflow pipeline.
+ */
+export const pipelineStageSchema = z.object({
+    /** Unique stage name, used as a transition target. */
+    name: z.string()
+        .regex(/^[a-z][a-z0-9_-]*$/, 'Use lowercase letters, digits, "-" and "_"')
+        .refine((name) => !RESERVED_STAGE_NAMES.includes(name), 'Reserved name (next, complete and failed are targets)'),
+    /** Agent role that runs in this stage: a built-in role or a custom role from config. */
+    role: z.string().min(1).transform(toRoleName),
+    /** Shown in dry runs. */
+    description: z.string().optional(),
+    /** Extra instructions added to the agent's prompt in this stage. */
+    instructions: z.string().optional(),
+    /** Where each outcome of the stage leads: a stage name, "next", "complete" or "failed". */
+    on: z.record(z.string(), z.string().min(1)).default({}),
+});
+
+/**
+ * Schema for a workflow pipeline file (`.aiagentflow/pipelines/<name>.json`).
+ */
+export const pipelineSchema = z.object({
+    description: z.string().optional(),
+    stages: z.array(pipelineStageSchema).min(1, 'A pipeline needs at least one stage'),
 });
 
 /**
@@ -154,8 +341,20 @@ export const appConfigSchema = z.object({
     providers: providerConfigSchema,
     /** Per-agent model and parameter assignments. */
     agents: agentConfigSchema,
+    /** Custom agent roles, usable in pipelines. */
+    customRoles: customRolesConfigSchema.default({}),
+    /** Reviewers that review alongside agents.reviewer, and how their verdicts combine. */
+    reviewPanel: reviewPanelConfigSchema.default({}),
     /** Project-level settings. */
     project: projectConfigSchema,
     /** Workflow execution settings. */
     workflow: workflowConfigSchema,
+    /** Best-of-N code generation settings. */
+    bestOfN: bestOfNConfigSchema.default({}),
+    /** LLM response cache settings. */
+    cache: cacheConfigSchema.default({}),
+    /** Provider transcript settings. */
+    transcripts: transcriptConfigSchema.default({}),
+    /** Model prices keyed by "provider:model" or model ID; override the built-in prices. */
+    pricing: z.record(z.string(), modelPricingSchema).default({}),
 });
@@ -13,8 +13,15 @@ import type {
     agentConfigSchema,
     agentRoleConfigSchema,
     appConfigSchema,
+    bestOfNConfigSchema,
+    cacheConfigSchema,
+    customRoleConfigSchema,
+    pipelineSchema,
+    pipelineStageSchema,
     providerConfigSchema,
     projectConfigSchema,
+    reviewPanelConfigSchema,
+    transcriptConfigSchema,
     workflowConfigSchema,
 } from './schema.js';
 
@@ -35,3 +42,27 @@ export type AgentConfig = z.infer<typeof agentConfigSchema>;
 
 /** Configuration for a single agent role. */
 export type AgentRoleConfig = z.infer<typeof agentRoleConfigSchema>;
+
+/** Configuration for a custom agent role. */
+export type CustomRoleConfig = z.infer<typeof customRoleConfigSchema>;
+
+/** Review panel: extra reviewers and the consensus policy. */
+export type ReviewPanelConfig = z.infer<typeof reviewPanelConfigSchema>;
+
+/** One extra reviewer on the review panel. */
+export type PanelReviewerConfig = ReviewPanelConfig['reviewers'][number];
+
+/** Best-of-N code generation settings. */
+export type BestOfNConfig = z.infer<typeof bestOfNConfigSchema>;
+
+/** LLM response cache settings. */
+export type CacheConfig = z.infer<typeof cacheConfigSchema>;
+
+/** Provider transcript settings. */
+export type TranscriptConfig = z.infer<typeof transcriptConfigSchema>;
+
+/** A workflow pipeline: its stages, in order. */
+export type Pipeline = z.infer<typeof pipelineSchema>;
+
+/** One stage of a workflow pipeline. */
+export type PipelineStage = z.infer<typeof pipelineStageSchema>;
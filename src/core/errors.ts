@@ -58,6 +58,25 @@ export class WorkflowError extends AppError {
     }
 }
 
+/** Raised when work is cancelled through an AbortSignal (e.g. Ctrl+C). */
+export class CancelledError extends AppError {
+    constructor(message: string = 'Cancelled', context?: Record<string, unknown>) {
+        super(message, 'CANCELLED', context);
+        this.name = 'CancelledError';
+    }
+}
+
+/**
+ * Raised when an agent is stopped before its next LLM call because a token
+ * or cost budget is used up. A kind of cancellation: the step is abandoned.
+ */
+export class BudgetExceededError extends CancelledError {
+    constructor(message: string, context?: Record<string, unknown>) {
+        super(message, context);
+        this.name = 'BudgetExceededError';
+    }
+}
+
 /** Raised when user input fails validation. */
 export class ValidationError extends AppError {
     constructor(message: string, context?: Record<string, unknown>) {
@@ -2,27 +2,46 @@
  * Human approval — interactive prompts for stage gates.
  *
  * When `humanApproval` is enabled in config, the workflow pauses
- * between stages and asks the user to approve, edit, or abort.
+ * between stages and asks the user to approve, edit, retry, or abort.
  *
- * Dependency direction: approval.ts → prompts, chalk, utils
+ * Editing opens the agent's output (plan, review feedback or test failures)
+ * in the user's editor; the saved text replaces it in the workflow context
+ * before the next agent runs.
+ *
+ * Dependency direction: approval.ts → prompts, chalk, execa, workflow/engine, core/errors, utils
  * Used by: workflow runner
  */
 
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
 import prompts from 'prompts';
 import chalk from 'chalk';
-import type { WorkflowContext } from './engine.js';
+import { execa } from 'execa';
+import { recordOutputEdit, type EditableField, type WorkflowContext } from './engine.js';
+import { WorkflowError } from '../errors.js';
+import { logger } from '../../utils/logger.js';
 
 export type ApprovalDecision = 'approve' | 'edit' | 'retry' | 'abort';
 
+/** How each editable field is named in prompts and messages. */
+const FIELD_LABELS: Record<EditableField, string> = {
+    plan: 'plan',
+    reviewFeedback: 'review feedback',
+    testFailures: 'test failures',
+};
+
 /**
  * Ask the user to approve the current stage output.
  *
  * Shows a summary of what happened and gives options to proceed.
+ * Edit is offered only when the stage stored an `editable` field.
  */
 export async function requestApproval(
     ctx: WorkflowContext,
     agentRole: string,
     output: string,
+    editable?: EditableField,
 ): Promise<ApprovalDecision> {
     console.log();
     console.log(chalk.bold.cyan(`── ${agentRole.toUpperCase()} Output ──`));
@@ -44,6 +63,10 @@ export async function requestApproval(
         message: 'How would you like to proceed?',
         choices: [
             { title: chalk.green('✔ Approve') + ' — continue to next stage', value: 'approve' },
+            ...(editable ? [{
+                title: chalk.blue('✎ Edit') + ` — edit the ${FIELD_LABELS[editable]} in $EDITOR, then continue`,
+                value: 'edit',
+            }] : []),
             { title: chalk.yellow('↻ Retry') + ' — re-run this agent', value: 'retry' },
             { title: chalk.red('✘ Abort') + ' — stop the workflow', value: 'abort' },
         ],
@@ -55,6 +78,72 @@ export async function requestApproval(
     return decision as ApprovalDecision;
 }
 
+/**
+ * Ask for optional guidance for a retried agent step.
+ * Returns undefined when the user leaves it empty.
+ */
+export async function requestRetryHint(): Promise<string | undefined> {
+    const { hint } = await prompts({
+        type: 'text',
+        name: 'hint',
+        message: 'Hint for the retry (optional — press Enter to skip):',
+    });
+    const trimmed = typeof hint === 'string' ? hint.trim() : '';
+    return trimmed || undefined;
+}
+
+/**
+ * Let the user edit an agent's output stored in `field`, and put the saved
+ * text in its place (recorded in the history). The context is returned
+ * unchanged when nothing was edited or the editor failed.
+ */
+export async function editOutput(ctx: WorkflowContext, field: EditableField): Promise<WorkflowContext> {
+    const label = FIELD_LABELS[field];
+    const current = ctx[field] ?? '';
+
+    let edited: string;
+    try {
+        edited = await editText(current, field);
+    } catch (err) {
+        logger.warn(`${err instanceof Error ? err.message : String(err)} — keeping the ${label} as it was`);
+        return ctx;
+    }
+
+    if (edited.trim() === current.trim()) {
+        logger.info(`No changes to the ${label}`);
+        return ctx;
+    }
+    logger.success(`Updated the ${label}`);
+    return recordOutputEdit(ctx, field, edited.trim());
+}
+
+/**
+ * Open text in the user's editor — `$VISUAL`, else `$EDITOR`, else `vi` —
+ * through a temporary Markdown file, and return the saved text once the
+ * editor exits. The editor setting may include arguments (`code --wait`).
+ *
+ * @throws {WorkflowError} if the editor cannot be started or exits with an error
+ */
+export async function editText(text: string, name: string): Promise<string> {
+    const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+    const dir = mkdtempSync(join(tmpdir(), 'aiagentflow-edit-'));
+    const file = join(dir, `${name}.md`);
+    writeFileSync(file, text, 'utf-8');
+
+    try {
+        const result = await execa(`${editor} "${file}"`, { shell: true, stdio: 'inherit', reject: false });
+        if (result.failed) {
+            throw new WorkflowError(
+                `Editor "${editor}" failed${result.exitCode !== undefined ? ` (exit code ${result.exitCode})` : ''}`,
+                { editor, exitCode: result.exitCode },
+            );
+        }
+        return readFileSync(file, 'utf-8');
+    } finally {
+        rmSync(dir, { recursive: true, force: true });
+    }
+}
+
 /**
  * Check if approval is needed based on config and current state.
  */
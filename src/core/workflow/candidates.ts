@@ -0,0 +1,154 @@
+/**
+ * Best-of-N code generation — checking coder candidates in isolation and
+ * choosing between them.
+ *
+ * With `bestOfN.candidates` above 1, a code stage samples several coder
+ * replies. Each one is written into its own scratch copy of the project
+ * (everything except `.git`, `node_modules` and `.aiagentflow`, with
+ * `node_modules` linked back), where the format, lint and test commands run
+ * without touching the real tree. Candidates are scored on those results;
+ * the judge (or the score alone) picks the winner, and only the winner is
+ * written to the project.
+ *
+ * Dependency direction: candidates.ts → config/defaults, config/types, workflow/file-parser, workflow/lint-runner, workflow/test-runner
+ * Used by: workflow runner
+ */
+
+import { cpSync, existsSync, mkdtempSync, readdirSync, rmSync, symlinkSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { CONFIG_DIR_NAME } from '../config/defaults.js';
+import type { BestOfNConfig } from '../config/types.js';
+import { parseAndWriteFiles } from './file-parser.js';
+import { runFormat, runLint } from './lint-runner.js';
+import { runTests } from './test-runner.js';
+
+/** Top-level entries left out of scratch copies. */
+const SKIPPED_ENTRIES = new Set(['.git', 'node_modules', CONFIG_DIR_NAME]);
+
+/** Commands run on each candidate (each one optional). */
+export interface CandidateCommands {
+    formatCommand?: string;
+    lintCommand?: string;
+    testCommand?: string;
+}
+
+/** What checking a candidate in its scratch copy found. */
+export interface CandidateCheck {
+    /** Files the reply writes (empty when none could be parsed). */
+    files: string[];
+    /** Absent without a lint command. */
+    lintPassed?: boolean;
+    /** Absent without a test command. */
+    testsPassed?: boolean;
+    /** Higher is better: 0 without files, then +1 for lint and +2 for tests that did not fail. */
+    score: number;
+}
+
+/** Temperature of the candidate at a 0-based position: the configured one, else the coder's. */
+export function candidateTemperature(bestOfN: BestOfNConfig, coderTemperature: number, index: number): number {
+    return bestOfN.temperatures[index] ?? coderTemperature;
+}
+
+/**
+ * Copy the project into a new temporary directory for checking a candidate.
+ * The caller removes it with removeScratchCopy().
+ */
+export function createScratchCopy(projectRoot: string): string {
+    const dir = mkdtempSync(join(tmpdir(), 'aiagentflow-candidate-'));
+    for (const entry of readdirSync(projectRoot)) {
+        if (SKIPPED_ENTRIES.has(entry)) continue;
+        cpSync(join(projectRoot, entry), join(dir, entry), { recursive: true });
+    }
+
+    // Tests and linters need the dependencies; linking avoids copying them
+    const modules = join(projectRoot, 'node_modules');
+    if (existsSync(modules)) {
+        symlinkSync(modules, join(dir, 'node_modules'), 'junction');
+    }
+    return dir;
+}
+
+/** Delete a scratch copy made by createScratchCopy(). */
+export function removeScratchCopy(dir: string): void {
+    rmSync(dir, { recursive: true, force: true });
+}
+
+/**
+ * Write a coder reply into a scratch copy of the project and run the
+ * format, lint and test commands there. The project itself is not touched.
+ *
+ * @throws {CancelledError} if `signal` is aborted during lint or tests
+ */
+export async function checkCandidate(
+    projectRoot: string,
+    content: string,
+    commands: CandidateCommands,
+    signal?: AbortSignal,
+): Promise<CandidateCheck> {
+    const dir = createScratchCopy(projectRoot);
+    try {
+        const files = parseAndWriteFiles(dir, content);
+        if (files.length === 0) return { files, score: 0 };
+
+        if (commands.formatCommand) {
+            await runFormat(dir, commands.formatCommand);
+        }
+        const lintPassed = commands.lintCommand
+            ? (await runLint(dir, commands.lintCommand, signal)).passed
+            : undefined;
+        const testsPassed = commands.testCommand
+            ? (await runTests(dir, commands.testCommand, signal)).passed
+            : undefined;
+
+        const score = 1 + (lintPassed === false ? 0 : 1) + (testsPassed === false ? 0 : 2);
+        return { files, lintPassed, testsPassed, score };
+    } finally {
+        removeScratchCopy(dir);
+    }
+}
+
+/**
+ * Context for the judge when it picks between candidates: each candidate's
+ * check results and full reply, and the reply format to use.
+ *
+ * @param candidates - The contenders, with their 1-based candidate numbers
+ */
+export function formatCandidatesForJudge(
+    candidates: ReadonlyArray<{ index: number; content: string; lintPassed?: boolean; testsPassed?: boolean }>,
+): string {
+    const sections = [
+        '## Candidate Selection',
+        '',
+        'The coder produced several candidate implementations of the task. Compare them for correctness, ' +
+        'completeness and code quality, and pick the one to keep. Explain your choice briefly, then end ' +
+        'your reply with a line of the form `WINNER: <candidate number>`.',
+    ];
+    for (const candidate of candidates) {
+        sections.push('', `### Candidate ${candidate.index} (${describeChecks(candidate)})`, '', candidate.content.trim());
+    }
+    return sections.join('\n');
+}
+
+/**
+ * The candidate number the judge picked: the last `WINNER: <n>` line naming
+ * one of the contenders (bold markup and a "Candidate" prefix allowed), or
+ * undefined when there is none.
+ */
+export function parseWinner(content: string, contenders: readonly number[]): number | undefined {
+    const picks = [...content.matchAll(/WINNER\**\s*:\s*\**\s*(?:candidate\s*)?#?(\d+)/gi)]
+        .map((match) => Number(match[1]))
+        .filter((index) => contenders.includes(index));
+    return picks[picks.length - 1];
+}
+
+// ── Private helpers ──
+
+/** "lint passed, tests failed" — the check results of a candidate. */
+function describeChecks(candidate: { lintPassed?: boolean; testsPassed?: boolean }): string {
+    const results = [
+        candidate.lintPassed === undefined ? 'no lint' : `lint ${candidate.lintPassed ? 'passed' : 'failed'}`,
+        candidate.testsPassed === undefined ? 'no tests run' : `tests ${candidate.testsPassed ? 'passed' : 'failed'}`,
+    ];
+    return results.join(', ');
+}
@@ -0,0 +1,234 @@
+/**
+ * File checkpoints — the state of project files before an agent step wrote them.
+ *
+ * A checkpoint is taken before each step. Every file the step writes is
+ * captured first (its content, or that it did not exist), so the step's
+ * writes can be undone when the user retries it.
+ *
+ * Checkpoints of a session are also saved as the step runs, under
+ * `.aiagentflow/sessions/<id>/checkpoints/<step>/` — a `checkpoint.json`
+ * manifest and a copy of each earlier file under `files/` — so
+ * `aiagentflow undo` can put the tree back later, with or without git.
+ * Steps that write nothing leave no checkpoint.
+ *
+ * Dependency direction: checkpoint.ts → node:fs, workflow/session, agents/types, core/errors, utils/fs
+ * Used by: workflow/file-parser, workflow runner, cli/commands/undo.ts
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, rmdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import type { AgentRoleName } from '../../agents/types.js';
+import { WorkflowError } from '../errors.js';
+import { getSessionDir } from './session.js';
+import { readTextFile, writeJsonFile } from '../../utils/fs.js';
+import { logger } from '../../utils/logger.js';
+
+const CHECKPOINTS_DIR = 'checkpoints';
+const MANIFEST_FILE = 'checkpoint.json';
+const FILES_DIR = 'files';
+
+/** The session step a saved checkpoint belongs to. */
+export interface CheckpointStep {
+    sessionId: string;
+    role: AgentRoleName;
+    /** Pipeline stage name. */
+    stage: string;
+}
+
+/** A saved checkpoint's manifest. */
+export interface CheckpointManifest extends CheckpointStep {
+    /** 1-based number among the session's checkpoints. */
+    step: number;
+    createdAt: number;
+    /** Files the step wrote; `existed` is false for files it created. */
+    files: Array<{ path: string; existed: boolean }>;
+    /** Directories created for new files, relative to the project root. */
+    createdDirs: string[];
+}
+
+export class FileCheckpoint {
+    private readonly projectRoot: string;
+    /** Original content by relative path; null when the file did not exist. */
+    private readonly originals = new Map<string, Buffer | null>();
+    /** Directories created for new files, relative to the project root. */
+    private readonly createdDirs: string[] = [];
+    /** Where the checkpoint is saved (absent: memory only). */
+    private readonly target?: CheckpointStep;
+    /** The saved checkpoint's manifest, once the first file is captured. */
+    private manifest?: CheckpointManifest;
+
+    constructor(projectRoot: string, target?: CheckpointStep) {
+        this.projectRoot = projectRoot;
+        this.target = target;
+    }
+
+    /**
+     * Load a saved checkpoint, to restore it.
+     *
+     * @throws {WorkflowError} if the session has no checkpoint with that step number
+     */
+    static load(projectRoot: string, sessionId: string, step: number): FileCheckpoint {
+        const dir = checkpointDir(projectRoot, sessionId, step);
+        const manifestPath = join(dir, MANIFEST_FILE);
+        if (!existsSync(manifestPath)) {
+            throw new WorkflowError(`Session ${sessionId} has no checkpoint for step ${step}`, { sessionId, step });
+        }
+
+        const manifest = JSON.parse(readTextFile(manifestPath)) as CheckpointManifest;
+        const checkpoint = new FileCheckpoint(projectRoot, manifest);
+        checkpoint.manifest = manifest;
+        for (const file of manifest.files) {
+            checkpoint.originals.set(file.path, file.existed ? readFileSync(join(dir, FILES_DIR, file.path)) : null);
+        }
+        checkpoint.createdDirs.push(...manifest.createdDirs);
+        return checkpoint;
+    }
+
+    /** Relative paths of the files captured so far. */
+    get paths(): string[] {
+        return [...this.originals.keys()];
+    }
+
+    /** Step number of the saved checkpoint (absent until a file is captured, or without a session). */
+    get step(): number | undefined {
+        return this.manifest?.step;
+    }
+
+    /**
+     * Remember a file's current state before it is written. Only the first
+     * capture of a path counts, so the checkpoint keeps the state from before
+     * the step. Saved checkpoints are updated on disk right away.
+     */
+    capture(path: string): void {
+        if (this.originals.has(path)) return;
+
+        const absolutePath = join(this.projectRoot, path);
+        const original = existsSync(absolutePath) ? readFileSync(absolutePath) : null;
+        this.originals.set(path, original);
+
+        const missing: string[] = [];
+        for (let dir = dirname(path); dir !== '.' && !existsSync(join(this.projectRoot, dir)); dir = dirname(dir)) {
+            missing.push(dir);
+        }
+        this.createdDirs.push(...missing);
+
+        if (this.target) this.save(path, original);
+    }
+
+    /**
+     * Put every captured file back: earlier content is rewritten, files the
+     * step created are deleted along with directories created for them (when
+     * empty). The checkpoint is empty afterwards, and its saved copy deleted.
+     *
+     * @returns The restored paths
+     */
+    restore(): string[] {
+        const restored = this.paths;
+        for (const [path, content] of this.originals) {
+            const absolutePath = join(this.projectRoot, path);
+            if (content === null) {
+                rmSync(absolutePath, { force: true });
+            } else {
+                mkdirSync(dirname(absolutePath), { recursive: true });
+                writeFileSync(absolutePath, content);
+            }
+        }
+        for (const dir of [...this.createdDirs].sort((a, b) => b.length - a.length)) {
+            const absoluteDir = join(this.projectRoot, dir);
+            if (existsSync(absoluteDir) && readdirSync(absoluteDir).length === 0) rmdirSync(absoluteDir);
+        }
+
+        if (restored.length > 0) {
+            logger.info(`Restored ${restored.length} file(s)`);
+        }
+        if (this.target && this.manifest) {
+            rmSync(checkpointDir(this.projectRoot, this.target.sessionId, this.manifest.step), { recursive: true, force: true });
+        }
+        this.originals.clear();
+        this.createdDirs.length = 0;
+        this.manifest = undefined;
+        return restored;
+    }
+
+    // ── Private helpers ──
+
+    /** Add a captured file to the saved checkpoint, creating it on the first file. */
+    private save(path: string, original: Buffer | null): void {
+        const target = this.target!;
+        this.manifest ??= {
+            sessionId: target.sessionId,
+            role: target.role,
+            stage: target.stage,
+            step: (listCheckpoints(this.projectRoot, target.sessionId).at(-1)?.step ?? 0) + 1,
+            createdAt: Date.now(),
+            files: [],
+            createdDirs: [],
+        };
+        const dir = checkpointDir(this.projectRoot, target.sessionId, this.manifest.step);
+
+        if (original) {
+            const copyPath = join(dir, FILES_DIR, path);
+            mkdirSync(dirname(copyPath), { recursive: true });
+            writeFileSync(copyPath, original);
+        }
+        this.manifest.files.push({ path, existed: original !== null });
+        this.manifest.createdDirs = [...this.createdDirs];
+        mkdirSync(dir, { recursive: true });
+        writeJsonFile(join(dir, MANIFEST_FILE), this.manifest);
+    }
+}
+
+/** The saved checkpoints of a session, oldest step first. */
+export function listCheckpoints(projectRoot: string, sessionId: string): CheckpointManifest[] {
+    const dir = join(getSessionDir(projectRoot, sessionId), CHECKPOINTS_DIR);
+    if (!existsSync(dir)) return [];
+
+    const manifests: CheckpointManifest[] = [];
+    for (const entry of readdirSync(dir)) {
+        const manifestPath = join(dir, entry, MANIFEST_FILE);
+        if (!existsSync(manifestPath)) continue;
+        try {
+            manifests.push(JSON.parse(readTextFile(manifestPath)) as CheckpointManifest);
+        } catch {
+            logger.warn(`Skipping unreadable checkpoint: ${manifestPath}`);
+        }
+    }
+    return manifests.sort((a, b) => a.step - b.step);
+}
+
+/**
+ * Put the project tree back to how it was before a step of a session:
+ * restore the session's checkpoints from the latest one down to `toStep`
+ * (default: only the latest). Restored checkpoints are deleted.
+ * The session itself is not changed.
+ *
+ * @returns The undone checkpoints, latest first
+ * @throws {WorkflowError} if the session has no checkpoints, or none from `toStep` on
+ */
+export function undoCheckpoints(projectRoot: string, sessionId: string, toStep?: number): CheckpointManifest[] {
+    const checkpoints = listCheckpoints(projectRoot, sessionId);
+    const latest = checkpoints.at(-1);
+    if (!latest) {
+        throw new WorkflowError(`Session ${sessionId} has no file checkpoints`, { sessionId });
+    }
+
+    const from = toStep ?? latest.step;
+    const undone = checkpoints.filter((c) => c.step >= from).reverse();
+    if (undone.length === 0) {
+        throw new WorkflowError(
+            `Session ${sessionId} has no checkpoints from step ${from} on (latest: step ${latest.step})`,
+            { sessionId, toStep: from, latest: latest.step },
+        );
+    }
+
+    for (const checkpoint of undone) {
+        FileCheckpoint.load(projectRoot, sessionId, checkpoint.step).restore();
+    }
+    return undone;
+}
+
+// ── Private helpers ──
+
+function checkpointDir(projectRoot: string, sessionId: string, step: number): string {
+    return join(getSessionDir(projectRoot, sessionId), CHECKPOINTS_DIR, String(step));
+}
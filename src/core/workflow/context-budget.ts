@@ -0,0 +1,140 @@
+/**
+ * Context budget — fits agent context into the model's context window.
+ *
+ * The runner splits each agent's context into prioritized sections (project
+ * settings, reference docs, source files, plan, feedback, ...). When those
+ * sections do not fit in what the context window leaves after the system
+ * prompt, task, and reply reservation, the lowest-priority sections are
+ * truncated, replaced by their summary, or dropped. Context for a model
+ * whose window is unknown is sent as it is.
+ *
+ * Dependency direction: context-budget.ts → providers/model-info, config/types, utils
+ * Used by: workflow runner
+ */
+
+import type { AgentRoleConfig, ProviderConfig } from '../config/types.js';
+import { lookupModelInfo } from '../../providers/model-info.js';
+import { estimateTokens, CHARS_PER_TOKEN } from '../../utils/tokens.js';
+import { logger } from '../../utils/logger.js';
+
+/** A named block of agent context with a priority. */
+export interface ContextSection {
+    /** Display name used in logs, e.g. "Source Files". */
+    readonly name: string;
+    readonly content: string;
+    /** Sections with higher priority are kept longest. */
+    readonly priority: number;
+    /** Cut the section short (keeping its start) instead of dropping it. */
+    readonly truncatable?: boolean;
+    /** Shorter stand-in used when the full content does not fit. */
+    readonly summary?: string;
+}
+
+/** Result of fitting sections into a token budget. */
+export interface BudgetResult {
+    /** Surviving sections, in their original order. */
+    readonly sections: ContextSection[];
+    /** What was changed, e.g. "dropped Source Files" — empty when everything fit. */
+    readonly changes: string[];
+}
+
+/** Truncating below this many tokens leaves too little to be useful — drop instead. */
+const MIN_TRUNCATED_TOKENS = 256;
+
+const TRUNCATION_MARKER = '\n\n[... truncated to fit the context window]';
+
+/**
+ * Resolve an agent's context window: the `contextWindow` config setting, else
+ * what the provider's model list reports.
+ *
+ * @returns The window in tokens, or undefined when it is unknown
+ */
+export async function resolveContextWindow(
+    agentConfig: AgentRoleConfig,
+    providers: ProviderConfig,
+): Promise<number | undefined> {
+    if (agentConfig.contextWindow) return agentConfig.contextWindow;
+
+    const info = await lookupModelInfo(agentConfig, providers);
+    return info?.contextWindow;
+}
+
+/**
+ * Tokens available for context sections.
+ * The reply reservation is capped at half the window so small models keep room for input.
+ */
+export function contextBudget(contextWindow: number, maxTokens: number, promptTokens: number): number {
+    const reserved = Math.min(maxTokens, Math.floor(contextWindow / 2));
+    return Math.max(0, contextWindow - reserved - promptTokens);
+}
+
+/**
+ * Fit sections into `budget` tokens, shrinking the lowest-priority ones first.
+ *
+ * Each section over budget is truncated if it is truncatable and enough of it
+ * would remain, otherwise replaced by its summary, otherwise dropped.
+ */
+export function fitSections(sections: readonly ContextSection[], budget: number): BudgetResult {
+    const fitted: Array<ContextSection | undefined> = [...sections];
+    const changes: string[] = [];
+    let total = sections.reduce((sum, s) => sum + estimateTokens(s.content), 0);
+
+    const byPriority = sections
+        .map((section, index) => ({ section, index }))
+        .sort((a, b) => a.section.priority - b.section.priority);
+
+    for (const { section, index } of byPriority) {
+        if (total <= budget) break;
+
+        const tokens = estimateTokens(section.content);
+        const keep = tokens - (total - budget);
+
+        if (section.truncatable && keep >= MIN_TRUNCATED_TOKENS) {
+            const content = truncate(section.content, keep);
+            fitted[index] = { ...section, content };
+            total -= tokens - estimateTokens(content);
+            changes.push(`truncated ${section.name}`);
+            continue;
+        }
+
+        if (section.summary && estimateTokens(section.summary) <= keep) {
+            fitted[index] = { ...section, content: section.summary };
+            total -= tokens - estimateTokens(section.summary);
+            changes.push(`summarized ${section.name}`);
+            continue;
+        }
+
+        fitted[index] = undefined;
+        total -= tokens;
+        changes.push(`dropped ${section.name}`);
+    }
+
+    return {
+        sections: fitted.filter((s): s is ContextSection => s !== undefined),
+        changes,
+    };
+}
+
+/** Join sections into the markdown block handed to an agent. */
+export function joinSections(sections: readonly ContextSection[]): string {
+    return sections.map((s) => s.content).join('\n\n');
+}
+
+/** Log what fitSections() changed for an agent, and warn when the prompt alone fills the window. */
+export function logBudgetChanges(label: string, contextWindow: number, budget: number, result: BudgetResult): void {
+    const window = `${contextWindow.toLocaleString()}-token`;
+    if (result.changes.length > 0) {
+        logger.warn(`${label}: context trimmed to fit the ${window} window — ${result.changes.join(', ')}`);
+    }
+    if (budget === 0) {
+        logger.warn(`${label}: the prompt alone fills the ${window} window — consider a model with a larger context`);
+    }
+}
+
+// ── Private helpers ──
+
+/** Keep the start of `content` so that it fits in `maxTokens`, marking the cut. */
+function truncate(content: string, maxTokens: number): string {
+    const maxChars = maxTokens * CHARS_PER_TOKEN - TRUNCATION_MARKER.length;
+    return content.slice(0, Math.max(0, maxChars)) + TRUNCATION_MARKER;
+}
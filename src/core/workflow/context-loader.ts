@@ -4,14 +4,17 @@
  * Loads documents from explicit paths and auto-discovers files
  * in `.aiagentflow/context/`. These are injected into agent prompts
  * so agents can reference specs, PRDs, architecture docs, etc.
+ * PNG/JPEG files (wireframes, screenshots) are loaded separately as
+ * image attachments.
  *
- * Dependency direction: context-loader.ts → config/defaults, utils
+ * Dependency direction: context-loader.ts → config/defaults, providers/types, utils
  * Used by: workflow runner
  */
 
 import { join, basename, resolve, relative, extname } from 'node:path';
 import { existsSync, readdirSync, readFileSync, statSync } from 'node:fs';
 import { CONFIG_DIR_NAME } from '../config/defaults.js';
+import type { ImageAttachment, ImageMediaType } from '../../providers/types.js';
 import { readTextFile } from '../../utils/fs.js';
 import { logger } from '../../utils/logger.js';
 
@@ -27,6 +30,18 @@ export interface ContextDocument {
 
 const CONTEXT_DIR = 'context';
 
+/** Image extensions loaded as attachments, by media type. */
+const IMAGE_MEDIA_TYPES: Record<string, ImageMediaType> = {
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+};
+/**
+ * Max size per image once base64-encoded, in bytes (5MB — the smallest limit
+ * among providers, Anthropic's, applies to the encoded data).
+ */
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
 /**
  * Load context documents from explicit paths and auto-discover directory.
  *
@@ -49,6 +64,9 @@ export function loadContextDocuments(
             if (seen.has(resolved)) continue;
             seen.add(resolved);
 
+            // Images are picked up by loadContextImages()
+            if (isImageFile(resolved)) continue;
+
             if (!existsSync(resolved)) {
                 logger.warn(`Context file not found: ${filePath}`);
                 continue;
@@ -101,6 +119,65 @@ export function loadContextDocuments(
     return documents;
 }
 
+/**
+ * Load context images (.png/.jpg) from explicit paths and the auto-discover directory.
+ *
+ * @param projectRoot - Project root directory
+ * @param explicitPaths - Explicit file paths; non-image paths are ignored
+ * @returns Base64-encoded images (deduped by resolved path)
+ */
+export function loadContextImages(
+    projectRoot: string,
+    explicitPaths?: string[],
+): ImageAttachment[] {
+    const candidates = (explicitPaths ?? [])
+        .filter(isImageFile)
+        .map((filePath) => ({ path: resolve(projectRoot, filePath), label: filePath }));
+
+    const contextDir = join(projectRoot, CONFIG_DIR_NAME, CONTEXT_DIR);
+    if (existsSync(contextDir)) {
+        for (const entry of readdirSync(contextDir, { withFileTypes: true })) {
+            if (entry.isFile() && isImageFile(entry.name)) {
+                candidates.push({ path: join(contextDir, entry.name), label: entry.name });
+            }
+        }
+    }
+
+    const seen = new Set<string>();
+    const images: ImageAttachment[] = [];
+
+    for (const { path, label } of candidates) {
+        if (seen.has(path)) continue;
+        seen.add(path);
+
+        if (!existsSync(path)) {
+            logger.warn(`Context image not found: ${label}`);
+            continue;
+        }
+
+        try {
+            if (Math.ceil(statSync(path).size / 3) * 4 > MAX_IMAGE_SIZE) {
+                logger.warn(`Context image too large (max 5MB base64-encoded, about 3.75MB on disk), skipping: ${label}`);
+                continue;
+            }
+            images.push({
+                mediaType: IMAGE_MEDIA_TYPES[extname(path).toLowerCase()]!,
+                data: readFileSync(path).toString('base64'),
+                name: basename(path),
+            });
+            logger.debug(`Loaded context image: ${label}`);
+        } catch {
+            logger.warn(`Failed to read context image: ${label}`);
+        }
+    }
+
+    if (images.length > 0) {
+        logger.info(`Loaded ${images.length} context image(s)`);
+    }
+
+    return images;
+}
+
 /**
  * Format context documents as a markdown section for agent prompts.
  */
@@ -116,6 +193,10 @@ export function formatContextForAgent(documents: ContextDocument[]): string {
     return parts.join('\n');
 }
 
+function isImageFile(filePath: string): boolean {
+    return extname(filePath).toLowerCase() in IMAGE_MEDIA_TYPES;
+}
+
 // ── Source file loading ──
 
 /** Max number of source files to include in context. */
@@ -0,0 +1,119 @@
+/**
+ * Agent conversations — per-role chat history carried across fix iterations.
+ *
+ * Agents that keep a history see their earlier requests and replies as real
+ * user/assistant turns before the current prompt, so a fixer knows what it
+ * already tried and which errors that produced. Histories stay small: each
+ * request and reply is capped, and exchanges beyond the most recent few are
+ * folded into one-line summaries.
+ *
+ * Dependency direction: conversation.ts → agents/types, workflow/engine, workflow/file-parser, utils
+ * Used by: workflow runner
+ */
+
+import type { ConversationTurn } from '../../agents/types.js';
+import type { AgentConversation, WorkflowContext } from './engine.js';
+import { parseFiles } from './file-parser.js';
+import { estimateTokens, CHARS_PER_TOKEN } from '../../utils/tokens.js';
+
+/** Exchanges kept verbatim; older ones are folded into the summary. */
+const MAX_EXCHANGES = 3;
+
+/** Longest request or reply kept in history. */
+const MAX_TURN_TOKENS = 1000;
+
+/** Summary lines kept; the oldest are dropped beyond this. */
+const MAX_SUMMARY_LINES = 10;
+
+const TRUNCATION_MARKER = '\n\n[... truncated]';
+
+/** Describe what prompted the agent at this step — recorded as the user turn of the exchange. */
+export function describeRequest(ctx: WorkflowContext): string {
+    if (ctx.state === 'tests_failed') {
+        return `Fix these failures:\n\n${ctx.testFailures || '(the check failed without output)'}`;
+    }
+    if (ctx.state === 'review_rejected') {
+        return `Address this review feedback:\n\n${ctx.reviewFeedback || '(no feedback given)'}`;
+    }
+    return `Implement this task: ${ctx.task}`;
+}
+
+/**
+ * Add an exchange to a conversation, capping its request and reply and
+ * folding the oldest exchanges into the summary once there are too many.
+ */
+export function recordExchange(
+    conversation: AgentConversation | undefined,
+    request: string,
+    reply: string,
+): AgentConversation {
+    return foldOldest({
+        summary: conversation?.summary ?? [],
+        exchanges: [
+            ...(conversation?.exchanges ?? []),
+            { request: cap(request), reply: cap(reply) },
+        ],
+    }, MAX_EXCHANGES);
+}
+
+/**
+ * Turn a conversation into chat turns that fit in `maxTokens`, folding the
+ * oldest exchanges into the summary until they do. The summary is prepended
+ * to the first user turn; nothing is returned once no exchange fits.
+ */
+export function conversationTurns(conversation: AgentConversation | undefined, maxTokens: number): ConversationTurn[] {
+    if (!conversation) return [];
+
+    let fitted = conversation;
+    while (fitted.exchanges.length > 0 && estimateTokens(toTurns(fitted).map((t) => t.content).join('')) > maxTokens) {
+        fitted = foldOldest(fitted, fitted.exchanges.length - 1);
+    }
+    return toTurns(fitted);
+}
+
+// ── Private helpers ──
+
+/** Fold exchanges into the summary, oldest first, until at most `keep` remain. */
+function foldOldest(conversation: AgentConversation, keep: number): AgentConversation {
+    const folded = conversation.exchanges.slice(0, Math.max(0, conversation.exchanges.length - keep));
+    if (folded.length === 0) return conversation;
+
+    return {
+        summary: [...conversation.summary, ...folded.map(summarize)].slice(-MAX_SUMMARY_LINES),
+        exchanges: conversation.exchanges.slice(folded.length),
+    };
+}
+
+/** Alternating user/assistant turns, with the summary at the start of the first user turn. */
+function toTurns(conversation: AgentConversation): ConversationTurn[] {
+    const turns: ConversationTurn[] = [];
+    conversation.exchanges.forEach((exchange, index) => {
+        const summary = index === 0 && conversation.summary.length > 0
+            ? `Earlier attempts (summarized):\n${conversation.summary.map((line) => `- ${line}`).join('\n')}\n\n`
+            : '';
+        turns.push(
+            { role: 'user', content: summary + exchange.request },
+            { role: 'assistant', content: exchange.reply },
+        );
+    });
+    return turns;
+}
+
+/** One line for an exchange: what was asked, and which files were written (or how the reply began). */
+function summarize(exchange: { request: string; reply: string }): string {
+    const files = parseFiles(exchange.reply).map((f) => f.path);
+    const outcome = files.length > 0 ? `wrote ${files.join(', ')}` : `replied: ${brief(exchange.reply)}`;
+    return `${brief(exchange.request)} → ${outcome}`;
+}
+
+/** Collapse whitespace and shorten to one summary-sized line. */
+function brief(text: string, maxChars = 120): string {
+    const line = text.replace(/\s+/g, ' ').trim();
+    return line.length > maxChars ? `${line.slice(0, maxChars - 1)}…` : line;
+}
+
+/** Keep the start of a request or reply within MAX_TURN_TOKENS, marking the cut. */
+function cap(text: string): string {
+    if (estimateTokens(text) <= MAX_TURN_TOKENS) return text;
+    return text.slice(0, MAX_TURN_TOKENS * CHARS_PER_TOKEN - TRUNCATION_MARKER.length) + TRUNCATION_MARKER;
+}
@@ -4,13 +4,20 @@
  * Manages the lifecycle of a development task through stages:
  * Spec → Plan → Code → Review → Test → Fix → QA → Complete
  *
- * Dependency direction: engine.ts → core/errors, agents/types, providers/types, utils
+ * Which agent runs next, and where its outcome leads, comes from the run's
+ * pipeline (see pipeline.ts); the default pipeline follows the order above.
+ *
+ * Dependency direction: engine.ts → core/errors, workflow/pipeline, config/types, agents/types, providers/types, utils
  * Used by: cli/commands/run.ts
  */
 
 import { WorkflowError } from '../errors.js';
 import { logger } from '../../utils/logger.js';
-import type { AgentRole } from '../../agents/types.js';
+import type { AgentRole, AgentRoleName } from '../../agents/types.js';
+import type { PipelineStage } from '../config/types.js';
+import { isFailureOutcome, resolveTarget, roleOutcomes } from './pipeline.js';
+import type { NamedPipeline, StageOutcome } from './pipeline.js';
+import type { ProviderCandidate, ProviderFailover } from '../../providers/types.js';
 
 // ── Workflow State ──
 
@@ -45,10 +52,48 @@ export type WorkflowEvent =
     | { type: 'FIX_APPLIED'; payload: { files: string[] } }
     | { type: 'QA_APPROVED' }
     | { type: 'QA_REJECTED'; payload: { reason: string } }
+    | { type: 'PIPELINE_COMPLETE' }
+    | { type: 'NOTES_RECORDED'; payload: { role: AgentRoleName; notes: string } }
+    | { type: 'FAILURE_RECORDED'; payload: { output: string } }
+    | { type: 'OUTPUT_EDITED'; payload: { field: EditableField; content: string } }
     | { type: 'ABORT'; payload?: { reason: string } };
 
+/** Context fields holding agent output that the user can edit at an approval gate. */
+export type EditableField = 'plan' | 'reviewFeedback' | 'testFailures';
+
 // ── Workflow Context ──
 
+/** An agent's conversation so far: recent exchanges verbatim, older ones summarized. */
+export interface AgentConversation {
+    /** One line per exchange folded out of `exchanges`, oldest first. */
+    summary: string[];
+    /** Most recent exchanges — the request that prompted the agent and its (capped) reply. */
+    exchanges: Array<{ request: string; reply: string }>;
+}
+
+/** One coder sample from a best-of-N code stage, as recorded in the session. */
+export interface CodeCandidate {
+    /** Fix iteration the candidate was generated in. */
+    iteration: number;
+    /** 1-based position among the stage's candidates. */
+    index: number;
+    temperature: number;
+    /** The coder's reply. */
+    content: string;
+    /** Files the reply writes. */
+    files: string[];
+    /** Lint result in the candidate's scratch copy (absent without a lint command). */
+    lintPassed?: boolean;
+    /** Test result in the candidate's scratch copy (absent when tests do not run). */
+    testsPassed?: boolean;
+    /** Higher is better: lint and test results, weighted. */
+    score: number;
+    /** Whether this candidate was written to the project. */
+    selected: boolean;
+    /** Why the coder call for this sample failed (it was not checked or considered). */
+    error?: string;
+}
+
 /** All accumulated data during a workflow run. */
 export interface WorkflowContext {
     /** The original task description. */
@@ -69,12 +114,36 @@ export interface WorkflowContext {
     reviewFeedback?: string;
     /** Test files generated by the tester agent. */
     testFiles: string[];
+    /** Latest notes from custom roles with `notes` output, keyed by role. */
+    notes?: Partial<Record<AgentRoleName, string>>;
     /** Test failure details. */
     testFailures?: string;
     /** Previous test failure outputs (for detecting repeated errors). */
     previousFailures: string[];
     /** History of all state transitions. */
     history: Array<{ from: WorkflowStateValue; to: WorkflowStateValue; event: string; timestamp: number }>;
+    /** Provider failovers during the run (absent in sessions saved before fallback chains existed). */
+    providerSwitches?: Array<{
+        role: AgentRoleName;
+        from: ProviderCandidate;
+        to: ProviderCandidate;
+        reason: string;
+        timestamp: number;
+    }>;
+    /** Every best-of-N coder candidate, across iterations (absent unless best-of-N is on). */
+    candidates?: CodeCandidate[];
+    /** Per-role conversation history (only roles that keep one; absent in older sessions). */
+    conversations?: Partial<Record<AgentRoleName, AgentConversation>>;
+    /** Name of the pipeline the run follows (absent in older sessions: the default pipeline). */
+    pipeline?: string;
+    /** Pipeline stage that runs next (absent before the first stage, once finished, and in older sessions). */
+    stage?: string;
+    /** Guidance the user gave when retrying the current stage; cleared once the stage completes. */
+    retryHint?: string;
+    /** Set when the run was cancelled (Ctrl+C) mid-step; the session can be resumed from `state`. */
+    interrupted?: boolean;
+    /** Set when a token or cost budget stopped the run (describes the limit); the session can be resumed. */
+    budgetExceeded?: string;
 }
 
 // ── Valid Transitions ──
@@ -108,6 +177,12 @@ export const STATE_AGENT_MAP: Partial<Record<WorkflowStateValue, AgentRole>> = {
     tests_passed: 'judge',
 };
 
+/** What a pipeline stage produced: its outcome, and the events that record the agent's output. */
+export interface StageResult {
+    outcome: StageOutcome;
+    events: WorkflowEvent[];
+}
+
 // ── Workflow Engine ──
 
 /**
@@ -127,7 +202,8 @@ export function createWorkflowContext(task: string, maxIterations: number = 5):
 }
 
 /**
- * Transition the workflow to a new state.
+ * Transition the workflow to a new state, following the fixed default order
+ * (pipeline runs move between stages with completeStage()).
  *
  * @throws {WorkflowError} if the transition is invalid or max iterations exceeded.
  */
@@ -158,13 +234,174 @@ export function transition(
         );
     }
 
+    return applyEvent({ ...context, iteration: newIteration }, event);
+}
+
+/**
+ * The pipeline stage that runs next, or undefined once the run is finished.
+ *
+ * Sessions saved before pipelines existed have no `stage`; the stage is then
+ * the first one whose role the legacy state map picks.
+ *
+ * @throws {WorkflowError} if the context names a stage the pipeline does not have
+ */
+export function getCurrentStage(context: WorkflowContext, pipeline: NamedPipeline): PipelineStage | undefined {
+    if (isTerminal(context)) return undefined;
+
+    if (context.stage) {
+        const stage = pipeline.stages.find((s) => s.name === context.stage);
+        if (!stage) {
+            throw new WorkflowError(
+                `Stage "${context.stage}" is not in pipeline "${pipeline.name}"`,
+                { stage: context.stage, pipeline: pipeline.name },
+            );
+        }
+        return stage;
+    }
+
+    if (context.state === WorkflowState.Idle) return pipeline.stages[0];
+    const role = STATE_AGENT_MAP[context.state];
+    return role ? pipeline.stages.find((s) => s.role === role) : undefined;
+}
+
+/**
+ * Finish the current pipeline stage and move to the one its outcome leads to.
+ *
+ * The result's events are applied in order. Failure outcomes count as a fix
+ * iteration. A `complete` target ends the run in `qa_approved`; a `failed`
+ * target (or an ABORT event) ends it in `failed`.
+ *
+ * @throws {WorkflowError} if there is no current stage, the outcome is not one its role produces, or max iterations is exceeded
+ */
+export function completeStage(
+    context: WorkflowContext,
+    pipeline: NamedPipeline,
+    result: StageResult,
+): WorkflowContext {
+    const stage = getCurrentStage(context, pipeline);
+    if (!stage) {
+        throw new WorkflowError('No pipeline stage left to complete', { state: context.state, pipeline: pipeline.name });
+    }
+    if (!roleOutcomes(stage.role, pipeline.customOutputs)?.includes(result.outcome)) {
+        throw new WorkflowError(
+            `Stage "${stage.name}" (${stage.role}) cannot end with "${result.outcome}"`,
+            { stage: stage.name, role: stage.role, outcome: result.outcome },
+        );
+    }
+
+    let updated = context;
+    if (isFailureOutcome(result.outcome)) {
+        const iteration = context.iteration + 1;
+        if (iteration >= context.maxIterations) {
+            throw new WorkflowError(
+                `Max iterations (${context.maxIterations}) exceeded. Stopping workflow.`,
+                { iteration, maxIterations: context.maxIterations },
+            );
+        }
+        updated = { ...updated, iteration };
+    }
+
+    for (const event of result.events) {
+        updated = applyEvent(updated, event);
+    }
+    if (updated.state === WorkflowState.Failed) return { ...updated, stage: undefined };
+
+    const target = resolveTarget(pipeline, stage, result.outcome);
+    logger.debug(`Pipeline ${pipeline.name}: ${stage.name} → ${target} (${result.outcome})`);
+
+    if (target === 'failed') {
+        return abortWorkflow(updated, `Stage "${stage.name}" ended with "${result.outcome}"`);
+    }
+    if (target === 'complete') {
+        const finished = updated.state === WorkflowState.QAApproved
+            ? updated
+            : applyEvent(updated, { type: 'PIPELINE_COMPLETE' });
+        return { ...finished, stage: undefined };
+    }
+    return { ...updated, stage: target };
+}
+
+/**
+ * End the workflow as failed, from whatever state it is in.
+ */
+export function abortWorkflow(context: WorkflowContext, reason: string): WorkflowContext {
+    return { ...applyEvent(context, { type: 'ABORT', payload: { reason } }), stage: undefined };
+}
+
+/**
+ * Record that an agent role failed over to a fallback provider.
+ * Does not change the workflow state.
+ */
+export function recordProviderSwitch(
+    context: WorkflowContext,
+    role: AgentRoleName,
+    failover: ProviderFailover,
+): WorkflowContext {
+    return {
+        ...context,
+        providerSwitches: [
+            ...(context.providerSwitches ?? []),
+            { role, from: failover.from, to: failover.to, reason: failover.reason, timestamp: Date.now() },
+        ],
+    };
+}
+
+/**
+ * Record the candidates of a best-of-N code stage.
+ * Does not change the workflow state.
+ */
+export function recordCandidates(context: WorkflowContext, candidates: CodeCandidate[]): WorkflowContext {
+    return { ...context, candidates: [...(context.candidates ?? []), ...candidates] };
+}
+
+/**
+ * The editable field a stage's output was stored in: the plan, review
+ * feedback or test failures, or undefined when it produced none of them.
+ */
+export function editableField(result: StageResult): EditableField | undefined {
+    let field: EditableField | undefined;
+    for (const event of result.events) {
+        if (event.type === 'PLAN_APPROVED') field = 'plan';
+        else if (event.type === 'REVIEW_DONE') field = 'reviewFeedback';
+        else if (event.type === 'TESTS_FAILED') field = 'testFailures';
+    }
+    return field;
+}
+
+/**
+ * Replace an agent's output with the user's edited version, recorded in the
+ * history. Does not change the workflow state.
+ */
+export function recordOutputEdit(context: WorkflowContext, field: EditableField, content: string): WorkflowContext {
+    return applyEvent(context, { type: 'OUTPUT_EDITED', payload: { field, content } });
+}
+
+/**
+ * Check if the workflow is in a terminal state.
+ */
+export function isTerminal(context: WorkflowContext): boolean {
+    return context.state === 'complete' || context.state === 'failed';
+}
+
+/**
+ * Get the next agent that should run based on current state.
+ */
+export function getNextAgent(context: WorkflowContext): AgentRole | null {
+    return STATE_AGENT_MAP[context.state] ?? null;
+}
+
+// ── Private ──
+
+/** Move to the event's state, record it in the history and store its data (no validation). */
+function applyEvent(context: WorkflowContext, event: WorkflowEvent): WorkflowContext {
+    const currentState = context.state;
+    const nextState = resolveNextState(currentState, event);
+
     logger.debug(`Workflow: ${currentState} → ${nextState} (${event.type})`);
 
-    // Build updated context
     const updated: WorkflowContext = {
         ...context,
         state: nextState,
-        iteration: newIteration,
         history: [
             ...context.history,
             { from: currentState, to: nextState, event: event.type, timestamp: Date.now() },
@@ -194,6 +431,19 @@ export function transition(
         case 'FIX_APPLIED':
             updated.generatedFiles = dedup([...updated.generatedFiles, ...event.payload.files]);
             break;
+        case 'FAILURE_RECORDED':
+            updated.previousFailures = [...updated.previousFailures, event.payload.output];
+            break;
+        case 'NOTES_RECORDED':
+            updated.notes = { ...updated.notes, [event.payload.role]: event.payload.notes };
+            break;
+        case 'OUTPUT_EDITED':
+            // The architect's reply is both spec and plan — keep them in step
+            if (event.payload.field === 'plan' && updated.spec === updated.plan) {
+                updated.spec = event.payload.content;
+            }
+            updated[event.payload.field] = event.payload.content;
+            break;
         default:
             break;
     }
@@ -201,22 +451,6 @@ export function transition(
     return updated;
 }
 
-/**
- * Check if the workflow is in a terminal state.
- */
-export function isTerminal(context: WorkflowContext): boolean {
-    return context.state === 'complete' || context.state === 'failed';
-}
-
-/**
- * Get the next agent that should run based on current state.
- */
-export function getNextAgent(context: WorkflowContext): AgentRole | null {
-    return STATE_AGENT_MAP[context.state] ?? null;
-}
-
-// ── Private ──
-
 function resolveNextState(current: WorkflowStateValue, event: WorkflowEvent): WorkflowStateValue {
     switch (event.type) {
         case 'SPEC_READY': return WorkflowState.SpecCreated;
@@ -230,6 +464,10 @@ function resolveNextState(current: WorkflowStateValue, event: WorkflowEvent): Wo
         case 'FIX_APPLIED': return WorkflowState.FixApplied;
         case 'QA_APPROVED': return WorkflowState.QAApproved;
         case 'QA_REJECTED': return WorkflowState.CodeGenerated;
+        case 'PIPELINE_COMPLETE': return WorkflowState.QAApproved;
+        case 'NOTES_RECORDED': return current;
+        case 'FAILURE_RECORDED': return current;
+        case 'OUTPUT_EDITED': return current;
         case 'ABORT': return WorkflowState.Failed;
         default: return WorkflowState.Failed;
     }
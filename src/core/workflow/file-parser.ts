@@ -9,13 +9,14 @@
  *
  * This module parses that format and writes files to the project directory.
  *
- * Dependency direction: file-parser.ts → utils/fs, core/errors
+ * Dependency direction: file-parser.ts → utils/fs, core/errors, workflow/checkpoint
  * Used by: workflow runner
  */
 
 import { writeFileSync, mkdirSync } from 'node:fs';
 import { join, dirname } from 'node:path';
 import { logger } from '../../utils/logger.js';
+import type { FileCheckpoint } from './checkpoint.js';
 
 /** A parsed file extracted from agent output. */
 export interface ParsedFile {
@@ -122,8 +123,9 @@ export function parseFiles(output: string): ParsedFile[] {
  * Write parsed files to disk under the project root.
  *
  * Creates parent directories as needed. Returns the list of written file paths.
+ * With a checkpoint, each file is captured before it is overwritten.
  */
-export function writeFiles(projectRoot: string, files: ParsedFile[]): string[] {
+export function writeFiles(projectRoot: string, files: ParsedFile[], checkpoint?: FileCheckpoint): string[] {
     const writtenPaths: string[] = [];
 
     for (const file of files) {
@@ -136,6 +138,7 @@ export function writeFiles(projectRoot: string, files: ParsedFile[]): string[] {
         const absolutePath = join(projectRoot, file.path);
         const dir = dirname(absolutePath);
 
+        checkpoint?.capture(file.path);
         mkdirSync(dir, { recursive: true });
         writeFileSync(absolutePath, file.content, 'utf-8');
 
@@ -154,7 +157,7 @@ export function writeFiles(projectRoot: string, files: ParsedFile[]): string[] {
  * Parse agent output and write extracted files to disk.
  * Combines parseFiles + writeFiles in one call.
  */
-export function parseAndWriteFiles(projectRoot: string, output: string): string[] {
+export function parseAndWriteFiles(projectRoot: string, output: string, checkpoint?: FileCheckpoint): string[] {
     const files = parseFiles(output);
 
     if (files.length === 0) {
@@ -162,5 +165,5 @@ export function parseAndWriteFiles(projectRoot: string, output: string): string[
         return [];
     }
 
-    return writeFiles(projectRoot, files);
+    return writeFiles(projectRoot, files, checkpoint);
 }
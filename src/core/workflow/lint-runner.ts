@@ -6,11 +6,12 @@
  * - runLint: runs the configured lint command after code generation.
  *   Returns pass/fail + output so the runner can feed failures to the Fixer.
  *
- * Dependency direction: lint-runner.ts → execa, utils/logger
+ * Dependency direction: lint-runner.ts → execa, core/errors, utils/logger
  * Used by: workflow/runner.ts
  */
 
 import { execa } from 'execa';
+import { CancelledError } from '../errors.js';
 import { logger } from '../../utils/logger.js';
 
 export interface LintResult {
@@ -25,12 +26,14 @@ export interface LintResult {
 /**
  * Run the project's lint command.
  *
- * Returns a result object — never throws. Lint failures are surfaced
- * to the caller so they can be fed back to the Fixer agent.
+ * Returns a result object — lint failures are surfaced to the caller so
+ * they can be fed back to the Fixer agent. The only thing it throws is
+ * CancelledError, when `signal` is aborted before lint finishes.
  */
 export async function runLint(
     projectRoot: string,
     lintCommand: string,
+    signal?: AbortSignal,
 ): Promise<LintResult> {
     const parts = lintCommand.split(' ');
     const cmd = parts[0] ?? 'npx';
@@ -44,8 +47,13 @@ export async function runLint(
             reject: false,
             timeout: 60_000,
             env: { ...process.env, FORCE_COLOR: '0' },
+            cancelSignal: signal,
         });
 
+        if (result.isCanceled) {
+            throw new CancelledError('Lint run cancelled');
+        }
+
         const output = [result.stdout, result.stderr].filter(Boolean).join('\n');
         const exitCode = result.exitCode ?? (result.failed ? 1 : 0);
         const passed = exitCode === 0;
@@ -58,6 +66,7 @@ export async function runLint(
 
         return { passed, output, exitCode };
     } catch (err) {
+        if (err instanceof CancelledError) throw err;
         const message = err instanceof Error ? err.message : String(err);
         logger.error(`Failed to run lint: ${message}`);
         return { passed: false, output: message, exitCode: 1 };
@@ -0,0 +1,200 @@
+/**
+ * Workflow pipelines — which agents run, in what order, and where each outcome leads.
+ *
+ * A pipeline is a list of stages, each running one agent role. The stage's
+ * outcome (a reviewer approves or rejects, tests pass or fail, ...) is looked
+ * up in its `on` map to find the next stage, or `complete` / `failed` to end
+ * the run. Unmapped success outcomes go on to the next stage (or complete
+ * after the last one); unmapped failures end the run as failed.
+ *
+ * The built-in `default` pipeline is Architect → Coder → Reviewer → Tester →
+ * Judge with a Fixer loop. Projects add their own as
+ * `.aiagentflow/pipelines/<name>.json`; a `default.json` there replaces it.
+ * Stages may run custom roles from `customRoles` in config; their outcomes
+ * depend on the role's declared output kind.
+ *
+ * Dependency direction: pipeline.ts → config/schema, config/types, config/defaults, core/errors, agents/types, utils/fs
+ * Used by: workflow engine, workflow runner
+ */
+
+import { existsSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { pipelineSchema } from '../config/schema.js';
+import type { CustomRoleConfig, Pipeline, PipelineStage } from '../config/types.js';
+import { CONFIG_DIR_NAME } from '../config/defaults.js';
+import { ConfigError } from '../errors.js';
+import { isBuiltinRole, type AgentOutputKind, type AgentRole, type AgentRoleName } from '../../agents/types.js';
+import { readJsonFile } from '../../utils/fs.js';
+
+const PIPELINES_DIR = 'pipelines';
+
+export const DEFAULT_PIPELINE_NAME = 'default';
+
+/** What a stage can end with. */
+export type StageOutcome = 'done' | 'lint_failed' | 'approved' | 'rejected' | 'passed' | 'failed';
+
+/** A stage's target: another stage's name, or one of these. */
+export type StageTarget = string | 'complete' | 'failed';
+
+/** The outcomes each role's stage can produce. The first is its success outcome. */
+export const ROLE_OUTCOMES: Record<AgentRole, readonly StageOutcome[]> = {
+    architect: ['done'],
+    coder: ['done', 'lint_failed'],
+    reviewer: ['approved', 'rejected'],
+    tester: ['passed', 'failed'],
+    fixer: ['done'],
+    judge: ['approved', 'rejected'],
+};
+
+/** The outcomes a custom role's stage can produce, by its output kind. */
+const OUTPUT_OUTCOMES: Record<AgentOutputKind, readonly StageOutcome[]> = {
+    files: ['done'],
+    verdict: ['approved', 'rejected'],
+    notes: ['done'],
+};
+
+/** Outcomes that send work back for another attempt — each one counts toward maxIterations. */
+const FAILURE_OUTCOMES: readonly StageOutcome[] = ['lint_failed', 'rejected', 'failed'];
+
+/** A pipeline together with the name it was loaded as. */
+export interface NamedPipeline extends Pipeline {
+    name: string;
+    /** Output kinds of the custom roles its stages may use, from config. */
+    customOutputs?: Record<string, AgentOutputKind>;
+}
+
+/** Architect → Coder → Reviewer → Tester → Judge, with every rejection or failure going through the Fixer. */
+export const DEFAULT_PIPELINE: NamedPipeline = {
+    name: DEFAULT_PIPELINE_NAME,
+    description: 'Plan, code, review, test and QA, with a fix loop',
+    stages: [
+        { name: 'plan', role: 'architect', on: {} },
+        { name: 'code', role: 'coder', on: { lint_failed: 'fix' } },
+        { name: 'review', role: 'reviewer', on: { rejected: 'fix' } },
+        { name: 'test', role: 'tester', on: { failed: 'fix' } },
+        { name: 'qa', role: 'judge', on: { approved: 'complete', rejected: 'review' } },
+        { name: 'fix', role: 'fixer', on: { done: 'review' } },
+    ],
+};
+
+/**
+ * The outcomes a role's stage can produce, or undefined for a role that is
+ * neither built in nor among the custom roles.
+ */
+export function roleOutcomes(
+    role: AgentRoleName,
+    customOutputs: Record<string, AgentOutputKind> = {},
+): readonly StageOutcome[] | undefined {
+    if (isBuiltinRole(role)) return ROLE_OUTCOMES[role];
+    const output = customOutputs[role];
+    return output ? OUTPUT_OUTCOMES[output] : undefined;
+}
+
+/** Whether an outcome sends work back for another attempt. */
+export function isFailureOutcome(outcome: StageOutcome): boolean {
+    return FAILURE_OUTCOMES.includes(outcome);
+}
+
+/**
+ * Where a stage's outcome leads: the mapped target (with `next` resolved),
+ * else the next stage for success outcomes and `failed` for failures.
+ */
+export function resolveTarget(pipeline: Pipeline, stage: PipelineStage, outcome: StageOutcome): StageTarget {
+    const target = stage.on[outcome];
+    if (target && target !== 'next') return target;
+    if (!target && isFailureOutcome(outcome)) return 'failed';
+
+    const index = pipeline.stages.findIndex((s) => s.name === stage.name);
+    return pipeline.stages[index + 1]?.name ?? 'complete';
+}
+
+/**
+ * Check what the schema cannot: unique stage names, known roles, outcomes
+ * the role can produce, and targets that exist.
+ *
+ * @param customOutputs - Output kinds of the custom roles in config
+ * @returns One message per problem (empty when the pipeline is valid)
+ */
+export function validatePipeline(pipeline: Pipeline, customOutputs: Record<string, AgentOutputKind> = {}): string[] {
+    const issues: string[] = [];
+    const names = new Set<string>();
+
+    for (const [index, stage] of pipeline.stages.entries()) {
+        const where = `stages.${index} (${stage.name})`;
+        if (names.has(stage.name)) issues.push(`${where}: duplicate stage name`);
+        names.add(stage.name);
+
+        const outcomes = roleOutcomes(stage.role, customOutputs);
+        if (!outcomes) {
+            issues.push(`${where}.role: unknown role "${stage.role}" (add it to customRoles in config.json)`);
+            continue;
+        }
+        for (const outcome of Object.keys(stage.on)) {
+            if (!outcomes.includes(outcome as StageOutcome)) {
+                issues.push(`${where}.on.${outcome}: ${stage.role} stages end with ${outcomes.join(' or ')}`);
+            }
+        }
+    }
+
+    for (const [index, stage] of pipeline.stages.entries()) {
+        for (const [outcome, target] of Object.entries(stage.on)) {
+            if (!['next', 'complete', 'failed'].includes(target) && !names.has(target)) {
+                issues.push(`stages.${index} (${stage.name}).on.${outcome}: no stage named "${target}"`);
+            }
+        }
+    }
+
+    return issues;
+}
+
+/** Names of the pipelines available in a project, including the built-in default. */
+export function listPipelines(projectRoot: string): string[] {
+    const dir = join(projectRoot, CONFIG_DIR_NAME, PIPELINES_DIR);
+    const names = existsSync(dir)
+        ? readdirSync(dir).filter((f) => f.endsWith('.json')).map((f) => f.slice(0, -'.json'.length))
+        : [];
+    return [...new Set([DEFAULT_PIPELINE_NAME, ...names])].sort();
+}
+
+/**
+ * Load and validate a pipeline by name.
+ *
+ * @param customRoles - Custom roles from config, which stages may use
+ * @throws {ConfigError} if the pipeline does not exist or is invalid
+ */
+export function loadPipeline(
+    projectRoot: string,
+    name: string = DEFAULT_PIPELINE_NAME,
+    customRoles: Record<string, CustomRoleConfig> = {},
+): NamedPipeline {
+    if (!/^[\w-]+$/.test(name)) {
+        throw new ConfigError(`Invalid pipeline name: "${name}"`, { name });
+    }
+
+    const filePath = join(projectRoot, CONFIG_DIR_NAME, PIPELINES_DIR, `${name}.json`);
+    if (!existsSync(filePath)) {
+        if (name === DEFAULT_PIPELINE_NAME) return DEFAULT_PIPELINE;
+        const available = listPipelines(projectRoot);
+        throw new ConfigError(
+            `Pipeline "${name}" not found. Available pipelines: ${available.join(', ')}`,
+            { name, filePath, available },
+        );
+    }
+
+    const customOutputs = Object.fromEntries(
+        Object.entries(customRoles).map(([role, roleConfig]) => [role, roleConfig.output]),
+    );
+    const result = pipelineSchema.safeParse(readJsonFile<unknown>(filePath));
+    const issues = result.success
+        ? validatePipeline(result.data, customOutputs)
+        : result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`);
+
+    if (!result.success || issues.length > 0) {
+        throw new ConfigError(
+            `Invalid pipeline "${name}":\n${issues.map((i) => `  - ${i}`).join('\n')}`,
+            { name, filePath, issues },
+        );
+    }
+
+    return { name, ...result.data, customOutputs };
+}
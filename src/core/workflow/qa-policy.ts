@@ -5,7 +5,7 @@
  * Users can customize these via `.aiagentflow/policies/qa-rules.md`
  * or through config options.
  *
- * Dependency direction: qa-policy.ts → config/types, utils
+ * Dependency direction: qa-policy.ts → config/types, agents/verdict, utils
  * Used by: judge agent, workflow runner
  */
 
@@ -14,6 +14,7 @@ import { existsSync } from 'node:fs';
 import { CONFIG_DIR_NAME } from '../config/defaults.js';
 import { readTextFile } from '../../utils/fs.js';
 import { logger } from '../../utils/logger.js';
+import { REVIEW_VERDICT, parseVerdict } from '../../agents/verdict.js';
 
 /** QA policy configuration. */
 export interface QAPolicy {
@@ -127,7 +128,7 @@ export interface QAEvaluation {
     issues: ReviewIssue[];
 }
 
-interface ReviewIssue {
+export interface ReviewIssue {
     severity: 'critical' | 'warning' | 'nit';
     description: string;
 }
@@ -135,7 +136,8 @@ interface ReviewIssue {
 /**
  * Parse a review output to extract issues with severity.
  *
- * Matches only structured issue markers where the severity keyword
+ * The issues of a valid verdict block are used as given. Replies without
+ * one fall back to issue markers in the text: only structured markers where the severity keyword
  * appears as a label at the start of a line (optionally bulleted/numbered),
  * e.g.:
  * - **CRITICAL**: description
@@ -146,6 +148,14 @@ interface ReviewIssue {
  * Does NOT match casual mentions like "no critical issues found".
  */
 function parseReviewIssues(content: string): ReviewIssue[] {
+    const verdict = parseVerdict(content, REVIEW_VERDICT);
+    if (verdict.status === 'ok') {
+        return verdict.verdict.issues.map((issue) => ({
+            severity: issue.severity,
+            description: issue.file ? `${issue.file}: ${issue.description}` : issue.description,
+        }));
+    }
+
     const issues: ReviewIssue[] = [];
     const lines = content.split('\n');
 
@@ -0,0 +1,126 @@
+/**
+ * Review consensus — merges the replies of a review panel into one verdict.
+ *
+ * Each reviewer's reply ends with a verdict block (approve / request_changes)
+ * listing its issues, read through the QA policy's issue parser. The panel's
+ * verdict follows the configured consensus policy; the issues of all
+ * reviewers are deduplicated into the single review the fixer receives.
+ *
+ * Dependency direction: review-consensus.ts → qa-policy, agents/verdict, config/types
+ * Used by: workflow runner
+ */
+
+import { evaluateReview, type QAPolicy, type ReviewIssue } from './qa-policy.js';
+import type { ReviewPanelConfig } from '../config/types.js';
+import { REVIEW_VERDICT, isPositiveVerdict } from '../../agents/verdict.js';
+
+/** How the panel's verdicts combine. */
+export type ConsensusPolicy = ReviewPanelConfig['policy'];
+
+/** One reviewer's reply. */
+export interface PanelReview {
+    /** Display label of the reviewer. */
+    reviewer: string;
+    content: string;
+}
+
+/** An issue reported by one or more reviewers. */
+export interface MergedIssue {
+    severity: ReviewIssue['severity'];
+    /** The issue text without its bullet and severity label. */
+    description: string;
+    /** Labels of the reviewers that reported it. */
+    reviewers: string[];
+}
+
+/** The panel's combined verdict. */
+export interface ConsensusResult {
+    approved: boolean;
+    /** How many reviewers approved. */
+    approvals: number;
+    /** Issues across all reviewers, deduplicated, most severe first. */
+    issues: MergedIssue[];
+    /** The merged review, fed to the fixer like a single reviewer's reply. */
+    feedback: string;
+}
+
+const SEVERITY_ORDER: readonly ReviewIssue['severity'][] = ['critical', 'warning', 'nit'];
+
+/** Leading bullet or number, optional bold, and the severity label of an issue line. */
+const ISSUE_PREFIX = /^\s*(?:[-*•]|\d+[.)]\s*)?\s*\*{0,2}(?:CRITICAL|WARNING|NIT)\*{0,2}\s*:\s*/i;
+
+/**
+ * Merge a panel's reviews under a consensus policy.
+ *
+ * - `unanimous` — every reviewer approves
+ * - `majority` — more than half of the reviewers approve
+ * - `any-critical-blocks` — a majority approves and no reviewer reports a critical issue
+ *
+ * Issues reported by several reviewers (same text, ignoring case, markup
+ * and punctuation) are listed once with the most severe label given.
+ * Rejections without any issue are passed on in full. A reply without a
+ * valid verdict block counts as a rejection.
+ */
+export function mergeReviews(reviews: PanelReview[], policy: ConsensusPolicy, qaPolicy: QAPolicy): ConsensusResult {
+    const verdicts = reviews.map((review) => ({
+        ...review,
+        approved: isPositiveVerdict(review.content, REVIEW_VERDICT),
+        evaluation: evaluateReview(review.content, qaPolicy),
+    }));
+
+    const approvals = verdicts.filter((v) => v.approved).length;
+    const majority = approvals > reviews.length / 2;
+    const approved = policy === 'unanimous'
+        ? approvals === reviews.length
+        : policy === 'majority'
+            ? majority
+            : majority && verdicts.every((v) => v.evaluation.criticalCount === 0);
+
+    const merged = new Map<string, MergedIssue>();
+    for (const verdict of verdicts) {
+        for (const issue of verdict.evaluation.issues) {
+            const description = issue.description.replace(ISSUE_PREFIX, '').trim();
+            const key = issueKey(description);
+            const existing = merged.get(key);
+            if (!existing) {
+                merged.set(key, { severity: issue.severity, description, reviewers: [verdict.reviewer] });
+                continue;
+            }
+            if (!existing.reviewers.includes(verdict.reviewer)) existing.reviewers.push(verdict.reviewer);
+            if (SEVERITY_ORDER.indexOf(issue.severity) < SEVERITY_ORDER.indexOf(existing.severity)) {
+                existing.severity = issue.severity;
+            }
+        }
+    }
+    const issues = [...merged.values()]
+        .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+    const lines = [
+        `Verdict: ${approved ? 'APPROVE' : 'REQUEST_CHANGES'} ` +
+        `(${approvals} of ${reviews.length} reviewers approved, ${policy} policy)`,
+    ];
+    if (issues.length > 0) {
+        lines.push('', 'Issues:');
+        for (const [index, issue] of issues.entries()) {
+            lines.push(`${index + 1}. ${issue.severity.toUpperCase()}: ${issue.description} (${issue.reviewers.join(', ')})`);
+        }
+    }
+    lines.push('', 'Reviewers:');
+    for (const verdict of verdicts) {
+        lines.push(`- ${verdict.reviewer}: ${verdict.approved ? 'APPROVE' : 'REQUEST_CHANGES'}`);
+    }
+    for (const verdict of verdicts) {
+        if (!verdict.approved && verdict.evaluation.totalIssues === 0) {
+            lines.push('', `Comments from ${verdict.reviewer}:`, verdict.content.trim());
+        }
+    }
+
+    return { approved, approvals, issues, feedback: lines.join('\n') };
+}
+
+// ── Private helpers ──
+
+/** Comparison key for an issue: lowercase words only. */
+function issueKey(description: string): string {
+    return description.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
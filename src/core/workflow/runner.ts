@@ -3,43 +3,112 @@
  *
  * This is the main "brain" that:
  * 1. Creates a workflow context for a task
- * 2. Determines which agent to run next
- * 3. Executes agents and feeds output to the workflow engine
+ * 2. Determines which pipeline stage (and agent) runs next
+ * 3. Executes agents and feeds their outcome to the workflow engine
  * 4. Handles transitions, loops, and terminal states
  * 5. Tracks token usage and persists session state
  *
- * Dependency direction: runner.ts → engine, agents/factory, git/client, config
+ * Dependency direction: runner.ts → engine, pipeline, agents/factory, git/client, config
  * Used by: cli/commands/run.ts
  */
 
+import { existsSync } from 'node:fs';
+import { relative } from 'node:path';
 import chalk from 'chalk';
 import ora from 'ora';
 import {
     createWorkflowContext,
-    transition,
+    abortWorkflow,
+    completeStage,
+    editableField,
+    getCurrentStage,
     isTerminal,
-    getNextAgent,
+    recordCandidates,
+    recordProviderSwitch,
+    type CodeCandidate,
+    type EditableField,
+    type StageResult,
     type WorkflowContext,
 } from './engine.js';
-import type { AgentRole } from '../../agents/types.js';
-import { AGENT_ROLE_LABELS } from '../../agents/types.js';
-import { createAgent } from '../../agents/factory.js';
+import { loadPipeline, resolveTarget, roleOutcomes, DEFAULT_PIPELINE_NAME, type NamedPipeline } from './pipeline.js';
+import type { AgentRole, AgentRoleName } from '../../agents/types.js';
+import type { AgentInput, BaseAgent, BudgetGuard } from '../../agents/base.js';
+import { isBuiltinRole, roleLabel } from '../../agents/types.js';
+import { QA_VERDICT, REVIEW_VERDICT, isPositiveVerdict, type VerdictSpec } from '../../agents/verdict.js';
+import { createAgent, createPanelReviewer, getRoleConfig } from '../../agents/factory.js';
 import { GitClient } from '../../git/client.js';
 import { parseAndWriteFiles } from './file-parser.js';
+import { FileCheckpoint } from './checkpoint.js';
 import { runTests } from './test-runner.js';
 import { runLint, runFormat } from './lint-runner.js';
-import { requestApproval, needsApproval } from './approval.js';
-import { TokenTracker } from './token-tracker.js';
-import { saveSession, loadSession, listSessions } from './session.js';
+import { requestApproval, requestRetryHint, needsApproval, editOutput } from './approval.js';
+import { TokenTracker, type PendingUsage, type TokenBudget } from './token-tracker.js';
+import { saveSession, loadSession, listSessions, generateSessionId } from './session.js';
 import { loadQAPolicy, evaluateReview, formatPolicyForAgent, type QAPolicy } from './qa-policy.js';
-import { loadContextDocuments, formatContextForAgent, loadSourceFiles, formatSourcesForAgent, type ContextDocument } from './context-loader.js';
+import { mergeReviews } from './review-consensus.js';
+import { candidateTemperature, checkCandidate, formatCandidatesForJudge, parseWinner } from './candidates.js';
+import { describeRequest, recordExchange, conversationTurns } from './conversation.js';
+import {
+    loadContextDocuments,
+    loadContextImages,
+    formatContextForAgent,
+    loadSourceFiles,
+    formatSourcesForAgent,
+    type ContextDocument,
+} from './context-loader.js';
+import {
+    resolveContextWindow,
+    contextBudget,
+    fitSections,
+    joinSections,
+    logBudgetChanges,
+    type BudgetResult,
+    type ContextSection,
+} from './context-budget.js';
 import { loadConfig } from '../config/manager.js';
-import type { AppConfig } from '../config/types.js';
+import type { AgentRoleConfig, AppConfig, PanelReviewerConfig, PipelineStage } from '../config/types.js';
+import type { ImageAttachment, ProviderCandidate, ProviderFailover, TokenUsage } from '../../providers/types.js';
+import { resolvePricing, unpricedModels } from '../../providers/pricing.js';
+import { findMissingOllamaModels } from '../../providers/ollama-models.js';
+import { TranscriptRecorder, collectSecrets, transcriptPath } from '../../providers/transcript.js';
 import { logger } from '../../utils/logger.js';
 import { buildTestCommand } from '../../utils/package-manager.js';
 import { WORKFLOW_PRESETS, type WorkflowMode } from '../config/defaults.js';
-import { WorkflowError } from '../errors.js';
+import { BudgetExceededError, CancelledError, ProviderError, WorkflowError } from '../errors.js';
 import { createStreamRenderer } from '../../cli/utils/stream-renderer.js';
+import { anySignal } from '../../utils/abort.js';
+
+/** Agents that receive context images (wireframes, screenshots) — the ones that design and build UI. */
+const IMAGE_AGENTS: AgentRoleName[] = ['architect', 'coder'];
+
+/** Agents that keep a conversation history across fix iterations. */
+const HISTORY_AGENTS: AgentRoleName[] = ['coder', 'fixer'];
+
+/** Share of the context window that conversation history may take. */
+const HISTORY_WINDOW_SHARE = 0.25;
+
+/** What each role does, shown in dry runs for stages without a description. */
+const ROLE_DESCRIPTIONS: Record<AgentRole, string> = {
+    architect: 'Analyze task and create implementation plan',
+    coder: 'Generate code from the plan',
+    reviewer: 'Review generated code',
+    tester: 'Write and run tests',
+    fixer: 'Fix review feedback, lint errors and failing tests',
+    judge: 'Final QA verdict',
+};
+
+/** Context section priorities — when the context window is tight, the lowest are trimmed first. */
+const SECTION_PRIORITY = {
+    projectSettings: 100,
+    stageInstructions: 90,
+    qaPolicy: 90,
+    spec: 80,
+    plan: 80,
+    feedback: 70,
+    modifiedFiles: 60,
+    referenceDocs: 40,
+    sourceFiles: 20,
+} as const;
 
 export interface RunOptions {
     /** Project root directory. */
@@ -50,12 +119,28 @@ export interface RunOptions {
     auto?: boolean;
     /** Workflow mode override (fast, balanced, strict). Overrides config. */
     mode?: string;
+    /** Pipeline to follow, from `.aiagentflow/pipelines/<name>.json` (default: the built-in pipeline). */
+    pipeline?: string;
     /** Explicit context file paths to load. */
     contextPaths?: string[];
+    /** Coder candidates per code stage (best-of-N). Overrides config. */
+    bestOf?: number;
     /** Stream agent output in real time (default: true, use --no-stream to disable). */
     streaming?: boolean;
     /** Preview workflow plan without executing agents. */
     dryRun?: boolean;
+    /** Use the LLM response cache when enabled in config (default: true, use --no-cache to disable). */
+    cache?: boolean;
+    /** Token limit for the run. Overrides config. */
+    maxTokens?: number;
+    /** Estimated cost limit for the run, in USD. Overrides config. */
+    maxCostUsd?: number;
+    /** Record every LLM request and response to a transcript. Overrides config. */
+    transcript?: boolean;
+    /** Usage and limits shared with the other runs of a batch. */
+    batch?: BatchBudget;
+    /** Cancels the run like Ctrl+C does: the in-flight step is dropped and the session left resumable. */
+    signal?: AbortSignal;
 }
 
 export interface ResumeOptions {
@@ -69,39 +154,73 @@ export interface ResumeOptions {
     mode?: string;
     /** Stream agent output in real time (default: true). */
     streaming?: boolean;
+    /** Use the LLM response cache when enabled in config (default: true). */
+    cache?: boolean;
+    /** Token limit for the run, counting usage before the resume. Overrides config. */
+    maxTokens?: number;
+    /** Estimated cost limit for the run in USD, counting usage before the resume. Overrides config. */
+    maxCostUsd?: number;
+    /** Record every LLM request and response to the session's transcript. Overrides config. */
+    transcript?: boolean;
+    /** Cancels the run like Ctrl+C does. */
+    signal?: AbortSignal;
+}
+
+/** Token usage shared by the runs of a batch, checked against the batch-wide limits. */
+export interface BatchBudget {
+    /** Records every agent call of every run in the batch. */
+    tracker: TokenTracker;
+    limits: TokenBudget;
 }
 
 /**
  * Run a full workflow for a task.
  *
- * Orchestrates the agent pipeline: Architect → Coder → Reviewer → Tester → Fixer → Judge.
- * Returns the final workflow context with all accumulated data.
+ * Orchestrates the agent pipeline — by default Architect → Coder → Reviewer →
+ * Tester → Judge, with the Fixer handling rejections and failures. Returns the final workflow context with all accumulated data.
  */
 export async function runWorkflow(options: RunOptions): Promise<WorkflowContext> {
-    const { projectRoot, task, auto = false, mode, contextPaths, streaming = true, dryRun = false } = options;
+    const { projectRoot, task, auto = false, mode, contextPaths, streaming = true, dryRun = false, cache = true } = options;
     const config = loadConfig(projectRoot);
 
     // Apply mode preset override from --mode flag
     if (mode) {
         applyModePreset(config, mode);
     }
+    if (!cache) {
+        config.cache.enabled = false;
+    }
+    if (options.transcript) {
+        config.transcripts.enabled = true;
+    }
+    applyBudgetOverrides(config, options);
+    if (options.bestOf !== undefined) {
+        config.bestOfN.candidates = options.bestOf;
+    }
 
-    const tokenTracker = new TokenTracker();
+    const pipeline = loadPipeline(projectRoot, options.pipeline, config.customRoles);
     const qaPolicy = loadQAPolicy(projectRoot);
     const contextDocs = loadContextDocuments(projectRoot, contextPaths);
+    const contextImages = loadContextImages(projectRoot, contextPaths);
     const sourceDocs = loadSourceFiles(projectRoot, config.project.sourceGlobs);
 
     // Dry-run: show execution plan and exit
     if (dryRun) {
-        printDryRun(task, config, contextDocs, sourceDocs, auto);
+        printDryRun(task, config, pipeline, contextDocs, contextImages, sourceDocs, auto);
         return createWorkflowContext(task, config.workflow.maxIterations);
     }
 
+    await checkOllamaModels(config);
+    const tokenTracker = await createTokenTracker(config, options.batch);
+
     logger.header('AI Workflow — Running Task');
     console.log(chalk.gray(`Task: ${task}`));
     if (mode) {
         console.log(chalk.blue(`Mode: ${mode}`));
     }
+    if (pipeline.name !== DEFAULT_PIPELINE_NAME) {
+        console.log(chalk.blue(`Pipeline: ${pipeline.name}`));
+    }
     if (auto) {
         console.log(chalk.yellow('⚡ Autonomous mode — no human approval required'));
     }
@@ -119,18 +238,22 @@ export async function runWorkflow(options: RunOptions): Promise<WorkflowContext>
     }
 
     // Create workflow context
-    const ctx = createWorkflowContext(task, config.workflow.maxIterations);
+    const ctx = { ...createWorkflowContext(task, config.workflow.maxIterations), pipeline: pipeline.name };
 
     return executeWorkflowLoop({
         ctx,
         projectRoot,
         config,
+        pipeline,
         tokenTracker,
         qaPolicy,
         contextDocs,
+        contextImages,
         sourceDocs,
         auto,
         streaming,
+        batch: options.batch,
+        signal: options.signal,
     });
 }
 
@@ -140,7 +263,7 @@ export async function runWorkflow(options: RunOptions): Promise<WorkflowContext>
  * Loads the session, restores state, and re-enters the workflow loop.
  */
 export async function resumeWorkflow(options: ResumeOptions): Promise<WorkflowContext> {
-    const { projectRoot, auto = false, mode, streaming = true } = options;
+    const { projectRoot, auto = false, mode, streaming = true, cache = true } = options;
     let { sessionId } = options;
 
     // If no session ID, find the most recent non-terminal session
@@ -169,11 +292,22 @@ export async function resumeWorkflow(options: ResumeOptions): Promise<WorkflowCo
     if (mode) {
         applyModePreset(config, mode);
     }
+    if (!cache) {
+        config.cache.enabled = false;
+    }
+    if (options.transcript) {
+        config.transcripts.enabled = true;
+    }
+    applyBudgetOverrides(config, options);
 
-    const tokenTracker = new TokenTracker();
+    const pipeline = loadPipeline(projectRoot, session.context.pipeline, config.customRoles);
+
+    await checkOllamaModels(config);
+    const tokenTracker = await createTokenTracker(config);
     tokenTracker.restoreEntries(session.tokenUsage);
     const qaPolicy = loadQAPolicy(projectRoot);
     const contextDocs = loadContextDocuments(projectRoot);
+    const contextImages = loadContextImages(projectRoot);
     const sourceDocs = loadSourceFiles(projectRoot, config.project.sourceGlobs);
 
     logger.header('AI Workflow — Resuming Session');
@@ -193,12 +327,15 @@ export async function resumeWorkflow(options: ResumeOptions): Promise<WorkflowCo
         sessionId,
         projectRoot,
         config,
+        pipeline,
         tokenTracker,
         qaPolicy,
         contextDocs,
+        contextImages,
         sourceDocs,
         auto,
         streaming,
+        signal: options.signal,
     });
 }
 
@@ -209,102 +346,213 @@ interface WorkflowLoopParams {
     sessionId?: string;
     projectRoot: string;
     config: AppConfig;
+    pipeline: NamedPipeline;
     tokenTracker: TokenTracker;
     qaPolicy: QAPolicy;
     contextDocs: ContextDocument[];
+    contextImages: ImageAttachment[];
     sourceDocs: ContextDocument[];
     auto: boolean;
     streaming: boolean;
+    batch?: BatchBudget;
+    signal?: AbortSignal;
 }
 
 /**
  * Core workflow loop — shared by runWorkflow() and resumeWorkflow().
  *
- * Executes agents in sequence, handles transitions, saves sessions,
- * and applies post-loop logic (auto-commit, summaries).
+ * Runs the pipeline's stages in the order their outcomes lead to, saves
+ * sessions, and applies post-loop logic (auto-commit, summaries).
+ *
+ * The first Ctrl+C (SIGINT) cancels the in-flight LLM call or test/lint
+ * run, discards that step, and saves the session in the state it had
+ * before the step so `aiagentflow resume` can pick it up. A second Ctrl+C
+ * falls through to Node's default handler and exits immediately.
+ *
+ * Token and cost budgets are checked before each stage and before every
+ * further LLM call within one (tool rounds, continuations, verdict re-asks,
+ * the best-of-N judge). Once one is reached the loop stops with
+ * `budgetExceeded` set and the session saved — a stage stopped midway is
+ * discarded, as on Ctrl+C — so the run can be resumed with a higher limit.
+ *
+ * With transcripts enabled, every LLM call is appended to
+ * `.aiagentflow/logs/<session-id>/transcript.jsonl`; a resumed run keeps
+ * appending to the same file.
  */
 async function executeWorkflowLoop(params: WorkflowLoopParams): Promise<WorkflowContext> {
-    const { projectRoot, config, tokenTracker, qaPolicy, contextDocs, sourceDocs, auto, streaming } = params;
-    let ctx = params.ctx;
-    let sessionId = params.sessionId;
+    const { projectRoot, config, pipeline, tokenTracker, qaPolicy, auto, streaming } = params;
+    let ctx: WorkflowContext = { ...params.ctx, interrupted: undefined, budgetExceeded: undefined };
+    // Chosen up front so the transcript has a home before the first call
+    const sessionId = params.sessionId ?? generateSessionId(ctx.task);
     let lastOutput = '';
 
+    const transcript = config.transcripts.enabled
+        ? new TranscriptRecorder(
+            transcriptPath(projectRoot, sessionId),
+            collectSecrets(config.providers),
+            config.transcripts.redactPatterns,
+        )
+        : undefined;
+
+    const interrupt = new AbortController();
+    const onSigint = () => {
+        console.log();
+        logger.warn('Cancelling — press Ctrl+C again to force quit');
+        interrupt.abort();
+    };
+    process.once('SIGINT', onSigint);
+    const signal = anySignal(interrupt.signal, params.signal);
+
+    // A resumed run may already be over budget
+    ctx = withBudgetCheck(ctx, pipeline, config, tokenTracker, params.batch);
+
     try {
-        while (!isTerminal(ctx)) {
-            const agentRole = getNextAgent(ctx);
+        while (!isTerminal(ctx) && !signal.aborted && !ctx.budgetExceeded) {
+            const stage = getCurrentStage(ctx, pipeline);
 
-            if (!agentRole) {
+            if (!stage) {
                 if (ctx.state === 'qa_approved') {
                     logger.success('Workflow complete!');
                     break;
                 }
-                logger.warn('No agent mapped to current state — stopping.');
+                logger.warn('No pipeline stage for the current state — stopping.');
                 break;
             }
-
-            const agent = createAgent(agentRole, config, projectRoot);
-            const agentConfig = config.agents[agentRole];
+            const agentRole = stage.role;
             const spinner = ora(`Running ${agentRole} agent...`).start();
+            // Snapshot for cancellation and retries: the context, and each file before the step writes it
+            // (the files are also saved in the session, for `aiagentflow undo`)
+            const beforeStep = ctx;
+            const checkpoint = new FileCheckpoint(projectRoot, { sessionId, role: agentRole, stage: stage.name });
+            let editable: EditableField | undefined;
 
             try {
-                const agentInput = {
-                    task: ctx.task,
-                    context: buildAgentContext(ctx, config, agentRole, qaPolicy, contextDocs, sourceDocs),
-                    previousOutput: getLatestOutput(ctx),
-                };
-
-                let output;
-                if (streaming) {
-                    spinner.stop();
-                    const renderer = createStreamRenderer(agentRole);
-                    output = await agent.executeStreaming(agentInput, renderer.callbacks);
-                    renderer.finish();
+                let result: StageResult;
+                if (usesReviewPanel(stage, config)) {
+                    // Several reviewers in parallel, merged into one verdict
+                    spinner.text = `Running review panel (${config.reviewPanel.reviewers.length + 1} reviewers)...`;
+                    const panel = await runReviewPanel(ctx, stage, params, transcript, signal, (failover) => {
+                        ctx = recordProviderSwitch(ctx, agentRole, failover);
+                    });
+                    spinner.succeed(`review panel complete (${panel.summary})`);
+                    if (streaming) console.log(panel.feedback);
+                    lastOutput = panel.feedback;
+                    result = panel.result;
+                } else if (usesBestOfN(stage, config)) {
+                    // Several coder samples, checked in scratch copies; only the winner reaches the tree
+                    spinner.text = `Running ${agentRole} agent (${config.bestOfN.candidates} candidates)...`;
+                    const best = await runCoderCandidates(ctx, stage, params, transcript, signal, (role, failover) => {
+                        ctx = recordProviderSwitch(ctx, role, failover);
+                    });
+                    const winner = best.candidates.find((c) => c.selected);
+                    spinner.succeed(`${agentRole} complete (candidate ${winner?.index} of ${best.candidates.length} selected)`);
+                    ctx = recordCandidates(ctx, best.candidates);
+                    lastOutput = best.content;
+                    ctx = withExchange(ctx, agentRole, best.content);
+                    result = await applyAgentOutput(ctx, agentRole, best.content, config, projectRoot, qaPolicy, checkpoint, signal);
                 } else {
-                    output = await agent.execute(agentInput);
-                    spinner.succeed(`${agentRole} complete (${output.tokensUsed} tokens)`);
-                }
-                lastOutput = output.content;
+                    const agentConfig = getRoleConfig(config, agentRole);
+                    const primary: ProviderCandidate = {
+                        provider: agentConfig.provider,
+                        model: agentConfig.model,
+                        instance: agentConfig.instance,
+                    };
+                    let served = primary;
+                    const agent = createAgent(agentRole, config, projectRoot, (failover) => {
+                        served = failover.to;
+                        ctx = recordProviderSwitch(ctx, agentRole, failover);
+                    }, transcript, budgetGuard(params, agentRole, () => ({ served, fallback: served !== primary })));
+                    const agentInput = await buildAgentInput(ctx, agent, stage, params);
+
+                    let output;
+                    if (streaming) {
+                        spinner.stop();
+                        const renderer = createStreamRenderer(agent.label);
+                        output = await agent.executeStreaming(agentInput, renderer.callbacks, signal);
+                        renderer.finish();
+                    } else {
+                        output = await agent.execute(agentInput, signal);
+                        spinner.succeed(`${agentRole} complete (${output.tokensUsed} tokens)`);
+                    }
+                    const verdictSpec = verdictSpecFor(agentRole, config);
+                    if (verdictSpec) {
+                        output = await agent.ensureVerdict(agentInput, output, verdictSpec, signal);
+                    }
+                    lastOutput = output.content;
+                    ctx = withExchange(ctx, agentRole, output.content);
 
-                // Track token usage
-                tokenTracker.record(agentRole, agentConfig.model, {
-                    promptTokens: 0, // TODO: Get from provider response
-                    completionTokens: output.tokensUsed,
-                    totalTokens: output.tokensUsed,
-                });
+                    trackUsage(params, agentRole, served, served !== primary, output.usage, output.cached);
 
-                // Transition based on agent output
-                ctx = await applyAgentOutput(ctx, agentRole, output.content, config, projectRoot, qaPolicy);
+                    result = await applyAgentOutput(ctx, agentRole, output.content, config, projectRoot, qaPolicy, checkpoint, signal);
+                }
+
+                // Move to the stage the agent's outcome leads to (a retry hint is for one attempt)
+                ctx = completeStage({ ...ctx, retryHint: undefined }, pipeline, result);
+                editable = editableField(result);
             } catch (err) {
+                if (err instanceof BudgetExceededError) {
+                    // Drop the half-finished step, files included, so it re-runs on resume (its usage is recorded)
+                    spinner.fail(`${agentRole} stopped`);
+                    checkpoint.restore();
+                    ctx = { ...beforeStep, budgetExceeded: err.message };
+                    break;
+                }
+                if (signal.aborted) {
+                    // Drop the half-finished step, files included, so it re-runs on resume
+                    spinner.fail(`${agentRole} cancelled`);
+                    checkpoint.restore();
+                    ctx = beforeStep;
+                    break;
+                }
                 spinner.fail(`${agentRole} failed`);
 
                 if (err instanceof WorkflowError) throw err;
                 logger.error(err instanceof Error ? err.message : String(err));
 
-                ctx = transition(ctx, { type: 'ABORT', payload: { reason: String(err) } });
+                ctx = abortWorkflow(ctx, String(err));
             }
 
             // Save session after each step (crash recovery)
-            sessionId = saveSession(projectRoot, ctx, tokenTracker.getEntries(), sessionId);
+            saveSession(projectRoot, ctx, tokenTracker.getEntries(), sessionId);
+
+            // Stop before the next agent once a budget is used up (no approval needed)
+            ctx = withBudgetCheck(ctx, pipeline, config, tokenTracker, params.batch);
+            if (ctx.budgetExceeded) break;
 
             // Human approval gate (skipped in autonomous mode)
             const shouldApprove = !auto && needsApproval(config.workflow.humanApproval, ctx.state);
-            if (shouldApprove && !isTerminal(ctx)) {
-                const decision = await requestApproval(ctx, agentRole!, lastOutput);
+            if (shouldApprove && !isTerminal(ctx) && !signal.aborted) {
+                const decision = await requestApproval(ctx, agentRole!, lastOutput, editable);
 
                 if (decision === 'abort') {
-                    ctx = transition(ctx, { type: 'ABORT', payload: { reason: 'User aborted' } });
+                    ctx = abortWorkflow(ctx, 'User aborted');
+                } else if (decision === 'edit' && editable) {
+                    ctx = await editOutput(ctx, editable);
+                    saveSession(projectRoot, ctx, tokenTracker.getEntries(), sessionId);
                 } else if (decision === 'retry') {
-                    logger.info('Retrying agent...');
+                    const hint = await requestRetryHint();
+                    checkpoint.restore();
+                    ctx = { ...beforeStep, retryHint: hint };
+                    saveSession(projectRoot, ctx, tokenTracker.getEntries(), sessionId);
+                    logger.info(`Retrying ${agentRole}...`);
                 }
             }
         }
     } catch (err) {
         logger.error(`Workflow failed: ${err instanceof Error ? err.message : String(err)}`);
         if (!isTerminal(ctx)) {
-            ctx = transition(ctx, { type: 'ABORT', payload: { reason: String(err) } });
+            ctx = abortWorkflow(ctx, String(err));
         }
     }
 
+    process.removeListener('SIGINT', onSigint);
+    if (signal.aborted && !isTerminal(ctx)) {
+        ctx = { ...ctx, interrupted: true };
+    }
+    if (ctx.budgetExceeded) {
+        logger.warn(`${ctx.budgetExceeded} — stopping`);
+    }
+
     // Auto-commit if QA passed and autoCommit is enabled
     if (config.workflow.autoCommit && ctx.state === 'qa_approved') {
         try {
@@ -326,6 +574,15 @@ async function executeWorkflowLoop(params: WorkflowLoopParams): Promise<Workflow
     // Print summaries
     printWorkflowSummary(ctx);
     tokenTracker.printSummary();
+    if (transcript && existsSync(transcript.filePath)) {
+        logger.info(`Transcript: ${relative(projectRoot, transcript.filePath)}`);
+    }
+
+    if (ctx.interrupted) {
+        logger.info(`Session saved. Resume with: aiagentflow resume ${sessionId}`);
+    } else if (ctx.budgetExceeded) {
+        logger.info(`Session saved. Resume with a higher limit: aiagentflow resume ${sessionId} --max-tokens <n> --max-cost <usd>`);
+    }
 
     return ctx;
 }
@@ -338,7 +595,9 @@ async function executeWorkflowLoop(params: WorkflowLoopParams): Promise<Workflow
 function printDryRun(
     task: string,
     config: AppConfig,
+    pipeline: NamedPipeline,
     contextDocs: ContextDocument[],
+    contextImages: ImageAttachment[],
     sourceDocs: ContextDocument[],
     auto: boolean,
 ): void {
@@ -348,38 +607,46 @@ function printDryRun(
     console.log(chalk.gray(`Max iterations: ${config.workflow.maxIterations}`));
     console.log();
 
-    // Show the happy-path agent pipeline
-    const happyPath: { state: string; role: AgentRole; description: string }[] = [
-        { state: 'idle', role: 'architect', description: 'Analyze task and create implementation plan' },
-        { state: 'plan_approved', role: 'coder', description: 'Generate code from the plan' },
-        { state: 'code_generated', role: 'reviewer', description: 'Review generated code' },
-        { state: 'review_done', role: 'tester', description: 'Write and run tests' },
-        { state: 'tests_passed', role: 'judge', description: 'Final QA verdict' },
-    ];
-
-    console.log(chalk.bold('  Agent Pipeline'));
+    // Show the pipeline's stages and where each outcome leads
+    console.log(chalk.bold(`  Agent Pipeline (${pipeline.name})`));
+    if (pipeline.description) {
+        console.log(chalk.gray(`  ${pipeline.description}`));
+    }
     console.log();
 
-    for (let i = 0; i < happyPath.length; i++) {
-        const step = happyPath[i]!;
-        const agentConfig = config.agents[step.role];
-        const label = AGENT_ROLE_LABELS[step.role];
-
-        console.log(chalk.bold(`  ${i + 1}. ${label}`));
+    pipeline.stages.forEach((stage, i) => {
+        const agentConfig = getRoleConfig(config, stage.role);
+        const label = roleLabel(stage.role, config.customRoles);
+        const transitions = (roleOutcomes(stage.role, pipeline.customOutputs) ?? [])
+            .map((outcome) => `${outcome} → ${resolveTarget(pipeline, stage, outcome)}`)
+            .join(', ');
+        const description = stage.description ?? (isBuiltinRole(stage.role)
+            ? ROLE_DESCRIPTIONS[stage.role]
+            : `Custom role (${config.customRoles[stage.role]?.output} output)`);
+
+        console.log(chalk.bold(`  ${i + 1}. ${stage.name} — ${label}`));
         console.log(chalk.gray(`     Provider: ${agentConfig.provider} / ${agentConfig.model}`));
         console.log(chalk.gray(`     Temperature: ${agentConfig.temperature} | Max tokens: ${agentConfig.maxTokens}`));
-        console.log(chalk.gray(`     ${step.description}`));
+        console.log(chalk.gray(`     ${description}`));
+        if (usesBestOfN(stage, config)) {
+            const temperatures = Array.from(
+                { length: config.bestOfN.candidates },
+                (_, i) => candidateTemperature(config.bestOfN, agentConfig.temperature, i),
+            );
+            console.log(chalk.gray(
+                `     Best of ${config.bestOfN.candidates}: temperatures ${temperatures.join(', ')}, ` +
+                `selected by ${config.bestOfN.selection}`,
+            ));
+        }
+        if (usesReviewPanel(stage, config)) {
+            const models = config.reviewPanel.reviewers.map((r) => `${r.provider} / ${r.model}`).join(', ');
+            console.log(chalk.gray(`     Review panel: + ${models} (${config.reviewPanel.policy} policy)`));
+        }
+        console.log(chalk.gray(`     On: ${transitions}`));
         console.log();
-    }
-
-    // Show fix loops
-    console.log(chalk.bold('  Fix Loops'));
-    console.log();
+    });
 
-    const fixerConfig = config.agents.fixer;
-    console.log(chalk.gray(`  If review is rejected or tests fail, the ${AGENT_ROLE_LABELS.fixer} agent retries.`));
-    console.log(chalk.gray(`  Provider: ${fixerConfig.provider} / ${fixerConfig.model}`));
-    console.log(chalk.gray(`  Max iterations: ${config.workflow.maxIterations}`));
+    console.log(chalk.gray(`  Rejections and failures loop back at most ${config.workflow.maxIterations} time(s).`));
     console.log();
 
     // Context documents
@@ -391,6 +658,14 @@ function printDryRun(
         console.log();
     }
 
+    // Context images
+    if (contextImages.length > 0) {
+        console.log(chalk.bold('  Context Images'));
+        console.log(chalk.gray(`    ${contextImages.map((image) => image.name).join(', ')}`));
+        console.log(chalk.gray(`    Attached for: ${IMAGE_AGENTS.map((role) => roleLabel(role)).join(', ')}`));
+        console.log();
+    }
+
     // Source files
     if (sourceDocs.length > 0) {
         console.log(chalk.bold('  Source Files'));
@@ -437,6 +712,119 @@ function getTestCommand(config: AppConfig, projectRoot: string): string {
     return buildTestCommand(config.project.testFramework, projectRoot);
 }
 
+/** Apply --max-tokens / --max-cost overrides to the run's budget. */
+function applyBudgetOverrides(config: AppConfig, overrides: TokenBudget): void {
+    if (overrides.maxTokens !== undefined) {
+        config.workflow.maxTokens = overrides.maxTokens;
+    }
+    if (overrides.maxCostUsd !== undefined) {
+        config.workflow.maxCostUsd = overrides.maxCostUsd;
+    }
+}
+
+/** Fail before any agent runs when a configured Ollama model has not been pulled. */
+async function checkOllamaModels(config: AppConfig): Promise<void> {
+    const missing = await findMissingOllamaModels(config);
+    if (missing.length > 0) {
+        throw new ProviderError(
+            `Ollama model(s) not pulled: ${missing.join(', ')}. Run "aiagentflow doctor" to pull them, or "ollama pull ${missing[0]}".`,
+            { provider: 'ollama', missing },
+        );
+    }
+}
+
+/** Create the run's token tracker, warning when a cost budget cannot see some configured models. */
+async function createTokenTracker(config: AppConfig, batch?: BatchBudget): Promise<TokenTracker> {
+    const pricing = await resolvePricing(config);
+
+    const costLimited = config.workflow.maxCostUsd !== undefined || batch?.limits.maxCostUsd !== undefined;
+    const unpriced = costLimited ? unpricedModels(config, pricing) : [];
+    if (unpriced.length > 0) {
+        logger.warn(`Cost budget does not count models without pricing: ${unpriced.join(', ')} — add them under "pricing" in config.json`);
+    }
+
+    return new TokenTracker(pricing);
+}
+
+/**
+ * Mark the context as over budget when the run or batch has used up a limit.
+ * Finished workflows (nothing left to run) are never marked.
+ */
+function withBudgetCheck(
+    ctx: WorkflowContext,
+    pipeline: NamedPipeline,
+    config: AppConfig,
+    tokenTracker: TokenTracker,
+    batch?: BatchBudget,
+): WorkflowContext {
+    if (isTerminal(ctx) || !getCurrentStage(ctx, pipeline)) return ctx;
+
+    const exceeded = exceededBudget({ config, tokenTracker, batch });
+    return exceeded ? { ...ctx, budgetExceeded: exceeded } : ctx;
+}
+
+/**
+ * The first run or batch limit that is used up, counting `pending` usage
+ * (an agent call in progress) as if it were recorded.
+ */
+function exceededBudget(
+    params: Pick<WorkflowLoopParams, 'config' | 'tokenTracker' | 'batch'>,
+    pending?: PendingUsage,
+): string | undefined {
+    const { config, tokenTracker, batch } = params;
+    const runBudget = { maxTokens: config.workflow.maxTokens, maxCostUsd: config.workflow.maxCostUsd };
+    return tokenTracker.checkBudget(runBudget, 'Run', pending)
+        ?? batch?.tracker.checkBudget(batch.limits, 'Batch', pending);
+}
+
+/** Record an agent's usage in the run's token tracker and the batch's. */
+function trackUsage(
+    params: Pick<WorkflowLoopParams, 'tokenTracker' | 'batch'>,
+    role: AgentRoleName,
+    served: ProviderCandidate,
+    fallback: boolean,
+    usage: TokenUsage,
+    cached?: boolean,
+): void {
+    const source = { provider: served.provider, fallback, cached };
+    params.tokenTracker.record(role, served.model, usage, source);
+    params.batch?.tracker.record(role, served.model, usage, source);
+}
+
+/**
+ * An agent's budget guard: before each follow-up call, check the budget with
+ * what the agent has used so far. Once a limit is reached, that usage is
+ * recorded and the agent is stopped with a BudgetExceededError.
+ *
+ * @param source - The candidate serving the agent right now, and whether it is a fallback
+ */
+function budgetGuard(
+    params: Pick<WorkflowLoopParams, 'config' | 'tokenTracker' | 'batch'>,
+    role: AgentRoleName,
+    source: () => { served: ProviderCandidate; fallback: boolean },
+): BudgetGuard {
+    return (usage, cached) => {
+        const { served, fallback } = source();
+        const exceeded = exceededBudget(params, cached ? undefined : { model: served.model, provider: served.provider, usage });
+        if (!exceeded) return;
+
+        trackUsage(params, role, served, fallback, usage, cached);
+        throw new BudgetExceededError(exceeded, { role });
+    };
+}
+
+/**
+ * Promise.all that waits for every promise to settle before rejecting with
+ * the first error, so parallel agents are done (and their usage recorded)
+ * before the step is given up.
+ */
+async function settleAll<T>(promises: Array<Promise<T>>): Promise<T[]> {
+    const results = await Promise.allSettled(promises);
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failed) throw failed.reason;
+    return results.map((r) => (r as PromiseFulfilledResult<T>).value);
+}
+
 /** Apply a workflow mode preset to the config, overriding relevant fields. */
 function applyModePreset(config: AppConfig, mode: string): void {
     const validModes = Object.keys(WORKFLOW_PRESETS);
@@ -460,52 +848,150 @@ function applyModePreset(config: AppConfig, mode: string): void {
     }
 }
 
-/** Build context string for the current agent based on workflow state. */
-function buildAgentContext(
+/**
+ * Build an agent's input. Its conversation history (for HISTORY_AGENTS) takes
+ * up to HISTORY_WINDOW_SHARE of the model's context window; the context
+ * sections are fitted into what remains, trimming the lowest-priority sections
+ * first. Without a known window nothing is trimmed. The stable sections become
+ * `referenceContext` so providers can cache them.
+ */
+async function buildAgentInput(
     ctx: WorkflowContext,
+    agent: BaseAgent,
+    stage: PipelineStage,
+    params: Pick<WorkflowLoopParams, 'config' | 'qaPolicy' | 'contextDocs' | 'contextImages' | 'sourceDocs'>,
+    agentConfig: AgentRoleConfig = getRoleConfig(params.config, stage.role),
+): Promise<AgentInput> {
+    const { config, qaPolicy, contextDocs, contextImages, sourceDocs } = params;
+    const agentRole = stage.role;
+
+    const contextWindow = await resolveContextWindow(agentConfig, config.providers);
+
+    const input: AgentInput = {
+        task: ctx.task,
+        previousOutput: getLatestOutput(ctx),
+        images: IMAGE_AGENTS.includes(agentRole) ? contextImages : undefined,
+        history: HISTORY_AGENTS.includes(agentRole)
+            ? conversationTurns(
+                ctx.conversations?.[agentRole],
+                contextWindow ? Math.floor(contextWindow * HISTORY_WINDOW_SHARE) : Number.POSITIVE_INFINITY,
+            )
+            : undefined,
+    };
+
+    const referenceSections = buildReferenceSections(config, agentRole, contextDocs, sourceDocs);
+    const stepSections = buildStepSections(ctx, stage, qaPolicy);
+
+    let result: BudgetResult = { sections: [...referenceSections, ...stepSections], changes: [] };
+    if (contextWindow) {
+        const budget = contextBudget(contextWindow, agentConfig.maxTokens, agent.estimatePromptTokens(input));
+        result = fitSections(result.sections, budget);
+        logBudgetChanges(agent.label, contextWindow, budget, result);
+    }
+
+    const referenceNames = new Set(referenceSections.map((s) => s.name));
+    return {
+        ...input,
+        context: joinSections(result.sections.filter((s) => !referenceNames.has(s.name))),
+        referenceContext: joinSections(result.sections.filter((s) => referenceNames.has(s.name))),
+    };
+}
+
+/**
+ * Build the stable context sections for an agent — project settings,
+ * reference documents, and source files. They are identical on every step
+ * for a given role.
+ */
+function buildReferenceSections(
     config: AppConfig,
-    agentRole: string,
-    qaPolicy?: QAPolicy,
-    contextDocs?: ContextDocument[],
-    sourceDocs?: ContextDocument[],
-): string {
-    const parts: string[] = [];
+    agentRole: AgentRoleName,
+    contextDocs: ContextDocument[],
+    sourceDocs: ContextDocument[],
+): ContextSection[] {
+    const sections: ContextSection[] = [];
 
     // Inject project settings so agents know the language, framework, and test tools
-    parts.push([
-        '## Project Settings',
-        `- Language: ${config.project.language}`,
-        `- Framework: ${config.project.framework}`,
-        `- Test framework: ${config.project.testFramework}`,
-        '',
-        'IMPORTANT: All code MUST be written in the language and framework specified above.',
-    ].join('\n'));
+    sections.push({
+        name: 'Project Settings',
+        priority: SECTION_PRIORITY.projectSettings,
+        content: [
+            '## Project Settings',
+            `- Language: ${config.project.language}`,
+            `- Framework: ${config.project.framework}`,
+            `- Test framework: ${config.project.testFramework}`,
+            '',
+            'IMPORTANT: All code MUST be written in the language and framework specified above.',
+        ].join('\n'),
+    });
 
     // Inject reference documents so all agents see them
-    if (contextDocs && contextDocs.length > 0) {
-        parts.push(formatContextForAgent(contextDocs));
+    if (contextDocs.length > 0) {
+        sections.push({
+            name: 'Reference Documents',
+            priority: SECTION_PRIORITY.referenceDocs,
+            content: formatContextForAgent(contextDocs),
+            truncatable: true,
+        });
     }
 
-    // Inject existing source files for agents that generate code
+    // Inject existing source files for agents that generate code, and for custom roles (auditors, writers)
     const codeAgents = ['coder', 'fixer', 'tester'];
-    if (sourceDocs && sourceDocs.length > 0 && codeAgents.includes(agentRole)) {
-        parts.push(formatSourcesForAgent(sourceDocs));
+    if (sourceDocs.length > 0 && (codeAgents.includes(agentRole) || !isBuiltinRole(agentRole))) {
+        sections.push({
+            name: 'Existing Source Files',
+            priority: SECTION_PRIORITY.sourceFiles,
+            content: formatSourcesForAgent(sourceDocs),
+            summary: [
+                '## Existing Source Files',
+                '',
+                'Contents omitted to fit the context window. Files:',
+                ...sourceDocs.map((doc) => `- ${doc.name}`),
+            ].join('\n'),
+        });
     }
 
-    if (ctx.spec) parts.push(`## Spec\n${ctx.spec}`);
-    if (ctx.plan) parts.push(`## Plan\n${ctx.plan}`);
-    if (ctx.reviewFeedback) parts.push(`## Review Feedback\n${ctx.reviewFeedback}`);
-    if (ctx.testFailures) parts.push(`## Test Failures\n${ctx.testFailures}`);
+    return sections;
+}
+
+/** Build the per-step context sections for the current stage's agent based on workflow state. */
+function buildStepSections(ctx: WorkflowContext, stage: PipelineStage, qaPolicy: QAPolicy): ContextSection[] {
+    const sections: ContextSection[] = [];
+    const add = (name: string, priority: number, body: string) =>
+        sections.push({ name, priority, content: `## ${name}\n${body}`, truncatable: true });
+
+    if (stage.instructions) {
+        sections.push({
+            name: 'Stage Instructions',
+            priority: SECTION_PRIORITY.stageInstructions,
+            content: `## Stage Instructions\n${stage.instructions}`,
+        });
+    }
+
+    if (ctx.retryHint) {
+        sections.push({
+            name: 'Retry Instructions',
+            priority: SECTION_PRIORITY.stageInstructions,
+            content: `## Retry Instructions\nThe user asked for this step to be redone. Their guidance:\n${ctx.retryHint}`,
+        });
+    }
+
+    if (ctx.spec) add('Spec', SECTION_PRIORITY.spec, ctx.spec);
+    if (ctx.plan) add('Plan', SECTION_PRIORITY.plan, ctx.plan);
+    if (ctx.reviewFeedback) add('Review Feedback', SECTION_PRIORITY.feedback, ctx.reviewFeedback);
+    if (ctx.testFailures) add('Test Failures', SECTION_PRIORITY.feedback, ctx.testFailures);
+    for (const [role, notes] of Object.entries(ctx.notes ?? {})) {
+        if (notes) add(`Notes from ${role}`, SECTION_PRIORITY.feedback, notes);
+    }
     if (ctx.generatedFiles.length > 0) {
-        parts.push(`## Modified Files\n${ctx.generatedFiles.join('\n')}`);
+        add('Modified Files', SECTION_PRIORITY.modifiedFiles, ctx.generatedFiles.join('\n'));
     }
 
     // Include QA policy for the judge agent
-    if (qaPolicy && ctx.state === 'tests_passed') {
-        parts.push(formatPolicyForAgent(qaPolicy));
+    if (stage.role === 'judge') {
+        sections.push({ name: 'QA Policy', priority: SECTION_PRIORITY.qaPolicy, content: formatPolicyForAgent(qaPolicy) });
     }
 
-    return parts.join('\n\n');
+    return sections;
 }
 
 /** Get the most recent output relevant to the next agent. */
@@ -517,56 +1003,256 @@ function getLatestOutput(ctx: WorkflowContext): string | undefined {
     return undefined;
 }
 
+/** Whether a stage runs on the review panel: a reviewer stage with extra reviewers configured. */
+function usesReviewPanel(stage: PipelineStage, config: AppConfig): boolean {
+    return stage.role === 'reviewer' && config.reviewPanel.reviewers.length > 0;
+}
+
+/**
+ * Run a review stage on the review panel: `agents.reviewer` and every
+ * `reviewPanel.reviewers` entry review in parallel, each with its own
+ * provider chain and context budget. Their replies are merged under the
+ * panel's policy into one review, which is what later agents see.
+ */
+async function runReviewPanel(
+    ctx: WorkflowContext,
+    stage: PipelineStage,
+    params: WorkflowLoopParams,
+    transcript: TranscriptRecorder | undefined,
+    signal: AbortSignal,
+    onFailover: (failover: ProviderFailover) => void,
+): Promise<{ feedback: string; summary: string; result: StageResult }> {
+    const { config, projectRoot, qaPolicy } = params;
+    const reviewers: PanelReviewerConfig[] = [config.agents.reviewer, ...config.reviewPanel.reviewers];
+
+    const reviews = await settleAll(reviewers.map(async (reviewerConfig) => {
+        const primary: ProviderCandidate = {
+            provider: reviewerConfig.provider,
+            model: reviewerConfig.model,
+            instance: reviewerConfig.instance,
+        };
+        let served = primary;
+        const agent = createPanelReviewer(reviewerConfig, config, projectRoot, (failover) => {
+            served = failover.to;
+            onFailover(failover);
+        }, transcript, budgetGuard(params, stage.role, () => ({ served, fallback: served !== primary })));
+
+        const input = await buildAgentInput(ctx, agent, stage, params, reviewerConfig);
+        const output = await agent.ensureVerdict(input, await agent.execute(input, signal), REVIEW_VERDICT, signal);
+
+        trackUsage(params, stage.role, served, served !== primary, output.usage, output.cached);
+        return { reviewer: agent.label, content: output.content };
+    }));
+
+    const consensus = mergeReviews(reviews, config.reviewPanel.policy, qaPolicy);
+    return {
+        feedback: consensus.feedback,
+        summary: `${consensus.approvals}/${reviews.length} approved, ${consensus.approved ? 'approved' : 'changes requested'}`,
+        result: {
+            outcome: consensus.approved ? 'approved' : 'rejected',
+            events: [{ type: 'REVIEW_DONE', payload: { approved: consensus.approved, feedback: consensus.feedback } }],
+        },
+    };
+}
+
+/** Whether a stage runs best-of-N: a coder stage with more than one candidate configured. */
+function usesBestOfN(stage: PipelineStage, config: AppConfig): boolean {
+    return stage.role === 'coder' && config.bestOfN.candidates > 1;
+}
+
 /**
- * Apply an agent's output to the workflow context via state transition.
+ * Run a code stage best-of-N: the coder samples `bestOfN.candidates` replies
+ * in parallel, at the configured temperatures, and each reply is checked in
+ * its own scratch copy of the project (one at a time, as test suites may not
+ * run side by side). The best-scoring candidate wins; when several tie, the
+ * judge picks between them unless selection is `score`. A sample whose
+ * coder call fails is recorded with its error and left out; the stage only
+ * fails when every sample does.
+ *
+ * @returns The winning reply, and every candidate for the session
+ */
+async function runCoderCandidates(
+    ctx: WorkflowContext,
+    stage: PipelineStage,
+    params: WorkflowLoopParams,
+    transcript: TranscriptRecorder | undefined,
+    signal: AbortSignal,
+    onFailover: (role: AgentRoleName, failover: ProviderFailover) => void,
+): Promise<{ content: string; candidates: CodeCandidate[] }> {
+    const { config, projectRoot } = params;
+    const coderConfig = config.agents.coder;
+    const temperatures = Array.from(
+        { length: config.bestOfN.candidates },
+        (_, i) => candidateTemperature(config.bestOfN, coderConfig.temperature, i),
+    );
+
+    const samples = await Promise.allSettled(temperatures.map(async (temperature, i) => {
+        const sampleConfig = { ...config, agents: { ...config.agents, coder: { ...coderConfig, temperature } } };
+        const primary: ProviderCandidate = {
+            provider: coderConfig.provider,
+            model: coderConfig.model,
+            instance: coderConfig.instance,
+        };
+        let served = primary;
+        const agent = createAgent('coder', sampleConfig, projectRoot, (failover) => {
+            served = failover.to;
+            onFailover('coder', failover);
+        }, transcript, budgetGuard(params, 'coder', () => ({ served, fallback: served !== primary })), i + 1);
+
+        const input = await buildAgentInput(ctx, agent, stage, params);
+        const output = await agent.execute(input, signal);
+
+        trackUsage(params, 'coder', served, served !== primary, output.usage, output.cached);
+        return output.content;
+    }));
+
+    // A failed sample only drops out; a cancelled or over-budget run stops the stage
+    const failures = samples.filter((s): s is PromiseRejectedResult => s.status === 'rejected');
+    const stopped = failures.find((f) => f.reason instanceof CancelledError);
+    if (stopped) throw stopped.reason;
+    if (failures.length === samples.length) throw failures[0]!.reason;
+
+    const commands = {
+        formatCommand: config.workflow.formatCommand,
+        lintCommand: config.workflow.lintCommand,
+        testCommand: config.workflow.autoRunTests ? getTestCommand(config, projectRoot) : undefined,
+    };
+    const candidates: CodeCandidate[] = [];
+    for (const [i, sample] of samples.entries()) {
+        const base = { iteration: ctx.iteration, index: i + 1, temperature: temperatures[i]!, selected: false };
+        if (sample.status === 'rejected') {
+            const error = sample.reason instanceof Error ? sample.reason.message : String(sample.reason);
+            logger.warn(`Candidate ${i + 1} of ${samples.length} failed: ${error}`);
+            candidates.push({ ...base, content: '', files: [], score: 0, error });
+            continue;
+        }
+        logger.info(`Checking candidate ${i + 1} of ${samples.length}`);
+        const check = await checkCandidate(projectRoot, sample.value, commands, signal);
+        candidates.push({ ...base, content: sample.value, ...check });
+    }
+
+    const checked = candidates.filter((c) => c.error === undefined);
+    const bestScore = Math.max(...checked.map((c) => c.score));
+    const contenders = checked.filter((c) => c.score === bestScore);
+    let winner = contenders[0]!;
+    if (contenders.length > 1 && config.bestOfN.selection === 'judge') {
+        winner = await judgeCandidates(ctx, contenders, params, transcript, signal, onFailover) ?? winner;
+    }
+
+    winner.selected = true;
+    logger.info(`Selected candidate ${winner.index} (score ${winner.score})`);
+    return { content: winner.content, candidates };
+}
+
+/**
+ * Ask the judge to pick between equally scored candidates.
+ * Returns undefined when its reply names none of them.
+ *
+ * @throws {BudgetExceededError} if the budget is used up before the judge is asked
+ */
+async function judgeCandidates(
+    ctx: WorkflowContext,
+    contenders: CodeCandidate[],
+    params: WorkflowLoopParams,
+    transcript: TranscriptRecorder | undefined,
+    signal: AbortSignal,
+    onFailover: (role: AgentRoleName, failover: ProviderFailover) => void,
+): Promise<CodeCandidate | undefined> {
+    const { config, projectRoot } = params;
+    const exceeded = exceededBudget(params);
+    if (exceeded) throw new BudgetExceededError(exceeded);
+
+    const judgeConfig = config.agents.judge;
+    const primary: ProviderCandidate = {
+        provider: judgeConfig.provider,
+        model: judgeConfig.model,
+        instance: judgeConfig.instance,
+    };
+    let served = primary;
+    const agent = createAgent('judge', config, projectRoot, (failover) => {
+        served = failover.to;
+        onFailover('judge', failover);
+    }, transcript, budgetGuard(params, 'judge', () => ({ served, fallback: served !== primary })));
+
+    const output = await agent.execute({ task: ctx.task, context: formatCandidatesForJudge(contenders) }, signal);
+
+    trackUsage(params, 'judge', served, served !== primary, output.usage, output.cached);
+
+    const pick = parseWinner(output.content, contenders.map((c) => c.index));
+    if (pick === undefined) {
+        logger.warn(`Judge named no winner among candidates ${contenders.map((c) => c.index).join(', ')}`);
+    }
+    return contenders.find((c) => c.index === pick);
+}
+
+/** Record the agent's reply in its conversation, for roles that keep one. */
+function withExchange(ctx: WorkflowContext, role: AgentRoleName, reply: string): WorkflowContext {
+    if (!HISTORY_AGENTS.includes(role)) return ctx;
+    return {
+        ...ctx,
+        conversations: {
+            ...ctx.conversations,
+            [role]: recordExchange(ctx.conversations?.[role], describeRequest(ctx), reply),
+        },
+    };
+}
+
+/**
+ * Act on an agent's output (write files, run lint and tests) and work out
+ * the stage's outcome, with the events that record it in the workflow context.
+ * Files are captured in `checkpoint` before they are written.
  */
 async function applyAgentOutput(
     ctx: WorkflowContext,
-    role: string,
+    role: AgentRoleName,
     content: string,
     config: AppConfig,
     projectRoot: string,
     qaPolicy: QAPolicy,
-): Promise<WorkflowContext> {
+    checkpoint: FileCheckpoint,
+    signal?: AbortSignal,
+): Promise<StageResult> {
     switch (role) {
         case 'architect':
-            if (ctx.state === 'idle') {
-                ctx = transition(ctx, { type: 'SPEC_READY', payload: { spec: content } });
-                ctx = transition(ctx, { type: 'PLAN_APPROVED', payload: { plan: content } });
-            }
-            return ctx;
+            return {
+                outcome: 'done',
+                events: [
+                    { type: 'SPEC_READY', payload: { spec: content } },
+                    { type: 'PLAN_APPROVED', payload: { plan: content } },
+                ],
+            };
 
         case 'coder': {
-            const files = parseAndWriteFiles(projectRoot, content);
+            const files = parseAndWriteFiles(projectRoot, content, checkpoint);
+            const generated = { type: 'CODE_GENERATED', payload: { files: files.length > 0 ? files : ['(no files parsed)'] } } as const;
 
             // Format silently, then lint as a gate
             if (config.workflow.formatCommand) {
                 await runFormat(projectRoot, config.workflow.formatCommand);
             }
             if (config.workflow.lintCommand) {
-                const lintResult = await runLint(projectRoot, config.workflow.lintCommand);
+                const lintResult = await runLint(projectRoot, config.workflow.lintCommand, signal);
                 if (!lintResult.passed) {
                     if (isRepeatedFailure(lintResult.output, ctx.previousFailures)) {
                         logger.warn('Repeated lint failure — fixer could not resolve lint errors. Continuing.');
                     } else {
-                        ctx.previousFailures.push(lintResult.output);
-                        ctx = transition(ctx, { type: 'CODE_GENERATED', payload: { files: files.length > 0 ? files : ['(no files parsed)'] } });
-                        return transition(ctx, { type: 'TESTS_FAILED', payload: { failures: `Lint errors:\n${lintResult.output}` } });
+                        return {
+                            outcome: 'lint_failed',
+                            events: [
+                                generated,
+                                { type: 'FAILURE_RECORDED', payload: { output: lintResult.output } },
+                                { type: 'TESTS_FAILED', payload: { failures: `Lint errors:\n${lintResult.output}` } },
+                            ],
+                        };
                     }
                 }
             }
 
-            return transition(ctx, {
-                type: 'CODE_GENERATED',
-                payload: { files: files.length > 0 ? files : ['(no files parsed)'] },
-            });
+            return { outcome: 'done', events: [generated] };
         }
 
         case 'reviewer': {
-            const upper = content.toUpperCase();
-            const reviewApproved = upper.includes('APPROVE') &&
-                !upper.includes('REQUEST_CHANGES') &&
-                !upper.includes('REJECT');
+            const reviewApproved = isPositiveVerdict(content, REVIEW_VERDICT);
 
             // Evaluate review against QA policy (informational when reviewer approves)
             const evaluation = evaluateReview(content, qaPolicy);
@@ -577,78 +1263,129 @@ async function applyAgentOutput(
             // Trust the reviewer's explicit verdict.
             // QA policy only blocks when the reviewer did NOT approve.
             const approved = reviewApproved;
-            return transition(ctx, { type: 'REVIEW_DONE', payload: { approved, feedback: content } });
+            return {
+                outcome: approved ? 'approved' : 'rejected',
+                events: [{ type: 'REVIEW_DONE', payload: { approved, feedback: content } }],
+            };
         }
 
         case 'tester': {
-            const testFiles = parseAndWriteFiles(projectRoot, content);
-            ctx = transition(ctx, {
+            const testFiles = parseAndWriteFiles(projectRoot, content, checkpoint);
+            const written = {
                 type: 'TESTS_WRITTEN',
                 payload: { testFiles: testFiles.length > 0 ? testFiles : ['(no test files parsed)'] },
-            });
+            } as const;
 
-            // Auto-run tests and transition based on results
-            if (config.workflow.autoRunTests) {
-                const testResult = await runTests(projectRoot, getTestCommand(config, projectRoot));
-                if (testResult.passed) {
-                    ctx = transition(ctx, { type: 'TESTS_PASSED' });
-                } else {
-                    // Detect repeated failures — break infinite fix loops
-                    if (isRepeatedFailure(testResult.output, ctx.previousFailures)) {
-                        logger.warn('Repeated test failure detected — same errors after fix attempt. Stopping.');
-                        ctx = transition(ctx, { type: 'ABORT', payload: { reason: 'Repeated test failure — fixer could not resolve the issue' } });
-                    } else {
-                        ctx.previousFailures.push(testResult.output);
-                        ctx = transition(ctx, { type: 'TESTS_FAILED', payload: { failures: testResult.output } });
-                    }
-                }
-            } else {
-                // Skip test execution — assume tests pass
-                ctx = transition(ctx, { type: 'TESTS_PASSED' });
+            // Skip test execution — assume tests pass
+            if (!config.workflow.autoRunTests) {
+                return { outcome: 'passed', events: [written, { type: 'TESTS_PASSED' }] };
+            }
+
+            const testResult = await runTests(projectRoot, getTestCommand(config, projectRoot), signal);
+            if (testResult.passed) {
+                return { outcome: 'passed', events: [written, { type: 'TESTS_PASSED' }] };
             }
 
-            return ctx;
+            // Detect repeated failures — break infinite fix loops
+            if (isRepeatedFailure(testResult.output, ctx.previousFailures)) {
+                logger.warn('Repeated test failure detected — same errors after fix attempt. Stopping.');
+                return {
+                    outcome: 'failed',
+                    events: [written, { type: 'ABORT', payload: { reason: 'Repeated test failure — fixer could not resolve the issue' } }],
+                };
+            }
+            return {
+                outcome: 'failed',
+                events: [
+                    written,
+                    { type: 'FAILURE_RECORDED', payload: { output: testResult.output } },
+                    { type: 'TESTS_FAILED', payload: { failures: testResult.output } },
+                ],
+            };
         }
 
         case 'fixer': {
-            const fixedFiles = parseAndWriteFiles(projectRoot, content);
+            const fixedFiles = parseAndWriteFiles(projectRoot, content, checkpoint);
+            const files = fixedFiles.length > 0 ? fixedFiles : ['(no files parsed)'];
 
             // Re-format after fixes
             if (config.workflow.formatCommand) {
                 await runFormat(projectRoot, config.workflow.formatCommand);
             }
 
-            ctx = transition(ctx, {
-                type: 'FIX_APPLIED',
-                payload: { files: fixedFiles.length > 0 ? fixedFiles : ['(no files parsed)'] },
-            });
-            // Auto-transition back to code_generated for re-review
-            return transition(ctx, {
-                type: 'CODE_GENERATED',
-                payload: { files: fixedFiles.length > 0 ? fixedFiles : ['(no files parsed)'] },
-            });
+            // Back to code_generated for re-review
+            return {
+                outcome: 'done',
+                events: [
+                    { type: 'FIX_APPLIED', payload: { files } },
+                    { type: 'CODE_GENERATED', payload: { files } },
+                ],
+            };
         }
 
         case 'judge': {
-            const passed = content.toUpperCase().includes('PASS') &&
-                !content.toUpperCase().includes('FAIL');
-            if (passed) {
-                return transition(ctx, { type: 'QA_APPROVED' });
-            } else {
-                return transition(ctx, { type: 'QA_REJECTED', payload: { reason: content } });
+            const passed = isPositiveVerdict(content, QA_VERDICT);
+            return passed
+                ? { outcome: 'approved', events: [{ type: 'QA_APPROVED' }] }
+                : { outcome: 'rejected', events: [{ type: 'QA_REJECTED', payload: { reason: content } }] };
+        }
+
+        default:
+            return applyCustomRoleOutput(role, content, config, projectRoot, checkpoint);
+    }
+}
+
+/**
+ * Act on a custom role's output according to its declared kind: write its
+ * files, take its verdict like a review, or keep its notes for later agents.
+ */
+async function applyCustomRoleOutput(
+    role: AgentRoleName,
+    content: string,
+    config: AppConfig,
+    projectRoot: string,
+    checkpoint: FileCheckpoint,
+): Promise<StageResult> {
+    switch (config.customRoles[role]?.output) {
+        case 'files': {
+            const files = parseAndWriteFiles(projectRoot, content, checkpoint);
+            if (config.workflow.formatCommand) {
+                await runFormat(projectRoot, config.workflow.formatCommand);
             }
+            return {
+                outcome: 'done',
+                events: [{ type: 'CODE_GENERATED', payload: { files: files.length > 0 ? files : ['(no files parsed)'] } }],
+            };
+        }
+
+        case 'verdict': {
+            const approved = isPositiveVerdict(content, REVIEW_VERDICT);
+            return {
+                outcome: approved ? 'approved' : 'rejected',
+                events: [{ type: 'REVIEW_DONE', payload: { approved, feedback: content } }],
+            };
         }
 
         default:
-            return ctx;
+            return { outcome: 'done', events: [{ type: 'NOTES_RECORDED', payload: { role, notes: content } }] };
     }
 }
 
+/** The verdict block a role's replies must end with, if it gives verdicts. */
+function verdictSpecFor(role: AgentRoleName, config: AppConfig): VerdictSpec | undefined {
+    if (role === 'reviewer') return REVIEW_VERDICT;
+    if (role === 'judge') return QA_VERDICT;
+    return config.customRoles[role]?.output === 'verdict' ? REVIEW_VERDICT : undefined;
+}
+
 /** Print a colored summary of the workflow execution. */
 function printWorkflowSummary(ctx: WorkflowContext): void {
     console.log();
     logger.header('Workflow Summary');
     console.log(chalk.gray(`Task: ${ctx.task}`));
+    if (ctx.pipeline && ctx.pipeline !== DEFAULT_PIPELINE_NAME) {
+        console.log(chalk.gray(`Pipeline: ${ctx.pipeline}`));
+    }
     console.log(chalk.gray(`Final state: ${ctx.state}`));
     console.log(chalk.gray(`Iterations: ${ctx.iteration}/${ctx.maxIterations}`));
     console.log(chalk.gray(`Steps: ${ctx.history.length}`));
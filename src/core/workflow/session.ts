@@ -5,7 +5,7 @@
  * can survive crashes, restarts, and be resumed later.
  *
  * Dependency direction: session.ts → utils/fs, core/errors
- * Used by: workflow runner
+ * Used by: workflow runner, workflow/checkpoint
  */
 
 import { join } from 'node:path';
@@ -39,10 +39,17 @@ function getSessionsDir(projectRoot: string): string {
     return join(projectRoot, CONFIG_DIR_NAME, SESSIONS_DIR);
 }
 
+/**
+ * Get the directory for a session's own files (next to its `<id>.json`).
+ */
+export function getSessionDir(projectRoot: string, sessionId: string): string {
+    return join(getSessionsDir(projectRoot), sessionId);
+}
+
 /**
  * Generate a short session ID from the task description.
  */
-function generateSessionId(task: string): string {
+export function generateSessionId(task: string): string {
     const timestamp = Date.now().toString(36);
     const slug = task
         .toLowerCase()
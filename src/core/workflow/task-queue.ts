@@ -3,14 +3,19 @@
  *
  * Allows users to feed multiple tasks at once. The queue processes
  * them one by one, tracking results and continuing on failure.
+ * Token and cost usage is tracked across the whole batch so a batch
+ * budget can stop the queue.
  *
- * Dependency direction: task-queue.ts → workflow/runner, core/errors, utils
+ * Dependency direction: task-queue.ts → workflow/runner, workflow/token-tracker, config, providers/pricing, utils
  * Used by: cli/commands/run.ts (batch mode)
  */
 
 import chalk from 'chalk';
-import { runWorkflow } from './runner.js';
+import { runWorkflow, type BatchBudget } from './runner.js';
 import type { WorkflowContext } from './engine.js';
+import { TokenTracker } from './token-tracker.js';
+import { loadConfig } from '../config/manager.js';
+import { resolvePricing } from '../../providers/pricing.js';
 import { logger } from '../../utils/logger.js';
 
 /** A task in the queue with its result. */
@@ -37,12 +42,28 @@ export interface QueueOptions {
     auto?: boolean;
     /** Workflow mode override (fast, balanced, strict). */
     mode?: string;
+    /** Pipeline every task follows (default: the built-in pipeline). */
+    pipeline?: string;
+    /** Coder candidates per code stage (best-of-N). Overrides config. */
+    bestOf?: number;
     /** Stop the queue on first failure. */
     stopOnFailure?: boolean;
     /** Explicit context file paths to load. */
     contextPaths?: string[];
     /** Preview workflow plan without executing agents. */
     dryRun?: boolean;
+    /** Use the LLM response cache when enabled in config (default: true). */
+    cache?: boolean;
+    /** Record a transcript for each run. Overrides config. */
+    transcript?: boolean;
+    /** Token limit for each run. Overrides config. */
+    maxTokens?: number;
+    /** Estimated cost limit for each run, in USD. Overrides config. */
+    maxCostUsd?: number;
+    /** Token limit for the whole batch. Overrides config. */
+    batchMaxTokens?: number;
+    /** Estimated cost limit for the whole batch, in USD. Overrides config. */
+    batchMaxCostUsd?: number;
 }
 
 /**
@@ -51,7 +72,8 @@ export interface QueueOptions {
  * Returns the queue with all results after completion.
  */
 export async function runTaskQueue(options: QueueOptions): Promise<QueuedTask[]> {
-    const { projectRoot, tasks, auto = false, mode, stopOnFailure = false, contextPaths, dryRun } = options;
+    const { projectRoot, tasks, auto = false, mode, pipeline, bestOf, stopOnFailure = false, contextPaths, dryRun, cache, transcript, maxTokens, maxCostUsd } = options;
+    const batch = dryRun ? undefined : await createBatchBudget(options);
 
     const queue: QueuedTask[] = tasks.map(task => ({
         task,
@@ -61,6 +83,7 @@ export async function runTaskQueue(options: QueueOptions): Promise<QueuedTask[]>
     logger.header('AI Workflow — Task Queue');
     console.log(chalk.gray(`${queue.length} task(s) queued`));
     if (mode) console.log(chalk.blue(`Mode: ${mode}`));
+    if (pipeline) console.log(chalk.blue(`Pipeline: ${pipeline}`));
     if (auto) console.log(chalk.yellow('⚡ Autonomous mode'));
     console.log();
 
@@ -79,13 +102,44 @@ export async function runTaskQueue(options: QueueOptions): Promise<QueuedTask[]>
                 task: item.task,
                 auto,
                 mode,
+                pipeline,
+                bestOf,
                 contextPaths,
                 dryRun,
+                cache,
+                transcript,
+                maxTokens,
+                maxCostUsd,
+                batch,
             });
 
             item.result = result;
             item.duration = Date.now() - startTime;
 
+            if (result.interrupted) {
+                // Ctrl+C stops the whole queue, not just the current task
+                item.status = 'failed';
+                item.error = 'Cancelled';
+                for (let j = i + 1; j < queue.length; j++) {
+                    queue[j]!.status = 'skipped';
+                }
+                break;
+            }
+
+            if (result.budgetExceeded) {
+                // The session stays resumable; a spent batch budget also stops the queue
+                item.status = 'failed';
+                item.error = result.budgetExceeded;
+                const batchSpent = batch?.tracker.checkBudget(batch.limits) !== undefined;
+                if (batchSpent || stopOnFailure) {
+                    for (let j = i + 1; j < queue.length; j++) {
+                        queue[j]!.status = 'skipped';
+                    }
+                    break;
+                }
+                continue;
+            }
+
             if (result.state === 'failed') {
                 item.status = 'failed';
                 item.error = 'Workflow ended in failed state';
@@ -115,7 +169,7 @@ export async function runTaskQueue(options: QueueOptions): Promise<QueuedTask[]>
     }
 
     // Print queue summary
-    printQueueSummary(queue);
+    printQueueSummary(queue, batch);
 
     return queue;
 }
@@ -131,8 +185,20 @@ export function parseTasks(input: string): string[] {
         .filter(line => line.length > 0 && !line.startsWith('#'));
 }
 
+/** Shared usage tracker for the batch, with limits from options or config. */
+async function createBatchBudget(options: QueueOptions): Promise<BatchBudget> {
+    const config = loadConfig(options.projectRoot);
+    return {
+        tracker: new TokenTracker(await resolvePricing(config)),
+        limits: {
+            maxTokens: options.batchMaxTokens ?? config.workflow.batchMaxTokens,
+            maxCostUsd: options.batchMaxCostUsd ?? config.workflow.batchMaxCostUsd,
+        },
+    };
+}
+
 /** Print a colored summary of the queue results. */
-function printQueueSummary(queue: QueuedTask[]): void {
+function printQueueSummary(queue: QueuedTask[], batch?: BatchBudget): void {
     console.log();
     logger.header('Queue Summary');
 
@@ -156,4 +222,9 @@ function printQueueSummary(queue: QueuedTask[]): void {
 
     console.log();
     console.log(chalk.bold(`  ${completed} completed, ${failed} failed, ${skipped} skipped`));
+
+    if (batch && batch.tracker.getEntries().length > 0) {
+        const tokens = batch.tracker.getTotalTokens().toLocaleString();
+        console.log(chalk.gray(`  Batch usage: ${tokens} tokens, ~$${batch.tracker.estimateCost().toFixed(4)}`));
+    }
 }
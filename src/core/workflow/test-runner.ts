@@ -9,6 +9,7 @@
  */
 
 import { execa } from 'execa';
+import { CancelledError } from '../errors.js';
 import { logger } from '../../utils/logger.js';
 
 export interface TestResult {
@@ -25,10 +26,13 @@ export interface TestResult {
  *
  * @param projectRoot - Root directory of the project
  * @param testCommand - The test command to run (default: 'npm test')
+ * @param signal - Terminates the test process when aborted
+ * @throws {CancelledError} if `signal` is aborted before the tests finish
  */
 export async function runTests(
     projectRoot: string,
     testCommand: string = 'npm test',
+    signal?: AbortSignal,
 ): Promise<TestResult> {
     const parts = testCommand.split(' ');
     const cmd = parts[0] ?? 'pnpm';
@@ -42,8 +46,13 @@ export async function runTests(
             reject: false, // Don't throw on non-zero exit
             timeout: 120_000, // 2 minute timeout
             env: { ...process.env, FORCE_COLOR: '0' }, // Disable color for cleaner output
+            cancelSignal: signal,
         });
 
+        if (result.isCanceled) {
+            throw new CancelledError('Test run cancelled');
+        }
+
         const output = [result.stdout, result.stderr].filter(Boolean).join('\n');
         const exitCode = result.exitCode ?? (result.failed ? 1 : 0);
         const passed = exitCode === 0;
@@ -56,6 +65,7 @@ export async function runTests(
 
         return { passed, output, exitCode };
     } catch (err) {
+        if (err instanceof CancelledError) throw err;
         const message = err instanceof Error ? err.message : String(err);
         logger.error(`Failed to run tests: ${message}`);
 
@@ -4,50 +4,74 @@
  * Tracks per-agent and total token consumption for cost estimation
  * and usage visibility.
  *
- * Dependency direction: token-tracker.ts → utils
+ * Dependency direction: token-tracker.ts → providers/pricing, utils
  * Used by: workflow runner
  */
 
 import chalk from 'chalk';
-import type { AgentRole } from '../../agents/types.js';
-import { AGENT_ROLE_LABELS } from '../../agents/types.js';
+import type { AgentRoleName } from '../../agents/types.js';
+import type { LLMProviderName, TokenUsage } from '../../providers/types.js';
+import { roleLabel, toRoleName } from '../../agents/types.js';
+import { DEFAULT_MODEL_PRICING, findPricing, type PricingTable } from '../../providers/pricing.js';
 import { logger } from '../../utils/logger.js';
 
 /** Token usage for a single agent call. */
 export interface TokenUsageEntry {
-    role: AgentRole;
+    role: AgentRoleName;
     model: string;
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    /** Prompt tokens read from the provider's prompt cache (part of promptTokens). */
+    cacheReadTokens?: number;
+    /** Prompt tokens written to the provider's prompt cache (part of promptTokens). */
+    cacheWriteTokens?: number;
     timestamp: number;
+    /** Provider that served the call (absent in entries saved before fallback chains existed). */
+    provider?: LLMProviderName;
+    /** True when the call was served by a fallback rather than the role's primary provider. */
+    fallback?: boolean;
+    /** True when the response was replayed from the local cache (not billed). */
+    cached?: boolean;
 }
 
-/** Estimated cost per 1M tokens for known models. */
-const COST_PER_1M_TOKENS: Record<string, { input: number; output: number }> = {
-    // Anthropic
-    'claude-sonnet-4-20250514': { input: 3.00, output: 15.00 },
-    'claude-3-5-haiku-20241022': { input: 1.00, output: 5.00 },
-    'claude-3-opus-20240229': { input: 15.00, output: 75.00 },
-    // Ollama (local — free)
-    'llama3.2:latest': { input: 0, output: 0 },
-    'codellama:latest': { input: 0, output: 0 },
-    'deepseek-coder:latest': { input: 0, output: 0 },
-};
+/** Billed usage of an agent call still in progress, not recorded yet. */
+export interface PendingUsage {
+    model: string;
+    provider?: LLMProviderName;
+    usage: TokenUsage;
+}
+
+/** Token and cost limits for a run or batch. Unset limits are not enforced. */
+export interface TokenBudget {
+    maxTokens?: number;
+    maxCostUsd?: number;
+}
 
 /**
  * Token usage tracker for a workflow run.
  */
 export class TokenTracker {
     private readonly entries: TokenUsageEntry[] = [];
+    private readonly pricing: PricingTable;
+
+    /**
+     * @param pricing - Model prices for cost estimates (see resolvePricing())
+     */
+    constructor(pricing: PricingTable = DEFAULT_MODEL_PRICING) {
+        this.pricing = pricing;
+    }
 
     /**
      * Record a token usage entry.
+     *
+     * @param source - Which provider served the call, whether it was a fallback, and whether it was a cache hit
      */
     record(
-        role: AgentRole,
+        role: AgentRoleName,
         model: string,
-        usage: { promptTokens: number; completionTokens: number; totalTokens: number },
+        usage: TokenUsage,
+        source?: { provider: LLMProviderName; fallback: boolean; cached?: boolean },
     ): void {
         this.entries.push({
             role,
@@ -55,7 +79,11 @@ export class TokenTracker {
             promptTokens: usage.promptTokens,
             completionTokens: usage.completionTokens,
             totalTokens: usage.totalTokens,
+            ...(usage.cacheReadTokens && { cacheReadTokens: usage.cacheReadTokens }),
+            ...(usage.cacheWriteTokens && { cacheWriteTokens: usage.cacheWriteTokens }),
             timestamp: Date.now(),
+            ...(source && { provider: source.provider, fallback: source.fallback }),
+            ...(source?.cached && { cached: true }),
         });
     }
 
@@ -69,38 +97,85 @@ export class TokenTracker {
     }
 
     /**
-     * Get total tokens used across all agents.
+     * Get total tokens used across all agents (cache hits excluded).
      */
     getTotalTokens(): number {
-        return this.entries.reduce((sum, e) => sum + e.totalTokens, 0);
+        return this.billedEntries().reduce((sum, e) => sum + e.totalTokens, 0);
     }
 
     /**
-     * Get tokens used per agent role.
+     * Get tokens used per agent role (cache hits excluded).
      */
     getTokensByRole(): Record<string, number> {
         const byRole: Record<string, number> = {};
-        for (const entry of this.entries) {
+        for (const entry of this.billedEntries()) {
             byRole[entry.role] = (byRole[entry.role] ?? 0) + entry.totalTokens;
         }
         return byRole;
     }
 
+    /**
+     * Get the number of cache hits and the tokens they would have cost.
+     */
+    getCacheHits(): { calls: number; tokens: number } {
+        const hits = this.entries.filter((e) => e.cached);
+        return { calls: hits.length, tokens: hits.reduce((sum, e) => sum + e.totalTokens, 0) };
+    }
+
+    /**
+     * Get prompt tokens read from and written to provider prompt caches.
+     */
+    getPromptCacheUsage(): { readTokens: number; writeTokens: number } {
+        const billed = this.billedEntries();
+        return {
+            readTokens: billed.reduce((sum, e) => sum + (e.cacheReadTokens ?? 0), 0),
+            writeTokens: billed.reduce((sum, e) => sum + (e.cacheWriteTokens ?? 0), 0),
+        };
+    }
+
     /**
      * Estimate total cost in USD based on known model pricing.
+     * Prompt-cache reads and writes are priced separately from regular input.
+     * Models without a price are left out — see getUnpricedModels().
      */
     estimateCost(): number {
-        let totalCost = 0;
+        return this.billedEntries().reduce((sum, e) => sum + this.costOf(e.provider, e.model, e), 0);
+    }
 
-        for (const entry of this.entries) {
-            const pricing = COST_PER_1M_TOKENS[entry.model];
-            if (pricing) {
-                totalCost += (entry.promptTokens / 1_000_000) * pricing.input;
-                totalCost += (entry.completionTokens / 1_000_000) * pricing.output;
+    /**
+     * Get the models used in billed calls that have no known price,
+     * as "provider:model" (or the bare model for entries without a provider).
+     */
+    getUnpricedModels(): string[] {
+        const unpriced = new Set<string>();
+        for (const entry of this.billedEntries()) {
+            if (!findPricing(this.pricing, entry.provider, entry.model)) {
+                unpriced.add(entry.provider ? `${entry.provider}:${entry.model}` : entry.model);
             }
         }
+        return [...unpriced];
+    }
+
+    /**
+     * Check usage against a budget.
+     * Cost limits only see priced models — see getUnpricedModels().
+     *
+     * @param scope - Prefix for the message, e.g. "Run" or "Batch"
+     * @param pending - Usage of a call in progress, counted as if it were recorded
+     * @returns A description of the first limit reached, or undefined if usage is within budget
+     */
+    checkBudget(budget: TokenBudget, scope = 'Run', pending?: PendingUsage): string | undefined {
+        const tokens = this.getTotalTokens() + (pending?.usage.totalTokens ?? 0);
+        if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+            return `${scope} token budget reached (${tokens.toLocaleString()} of ${budget.maxTokens.toLocaleString()} tokens)`;
+        }
 
-        return totalCost;
+        const cost = this.estimateCost() + (pending ? this.costOf(pending.provider, pending.model, pending.usage) : 0);
+        if (budget.maxCostUsd !== undefined && cost >= budget.maxCostUsd) {
+            return `${scope} cost budget reached ($${cost.toFixed(4)} of $${budget.maxCostUsd.toFixed(2)})`;
+        }
+
+        return undefined;
     }
 
     /**
@@ -121,15 +196,56 @@ export class TokenTracker {
 
         const byRole = this.getTokensByRole();
         for (const [role, tokens] of Object.entries(byRole)) {
-            const label = AGENT_ROLE_LABELS[role as AgentRole] ?? role;
+            const label = roleLabel(toRoleName(role));
             console.log(chalk.gray(`  ${label}: ${tokens.toLocaleString()} tokens`));
         }
 
+        const cacheHits = this.getCacheHits();
+        if (cacheHits.calls > 0) {
+            console.log(chalk.cyan(`  Cache hits: ${cacheHits.calls} call(s), ${cacheHits.tokens.toLocaleString()} tokens not billed`));
+        }
+
+        const promptCache = this.getPromptCacheUsage();
+        if (promptCache.readTokens > 0 || promptCache.writeTokens > 0) {
+            console.log(chalk.cyan(
+                `  Prompt cache: ${promptCache.readTokens.toLocaleString()} tokens read, ` +
+                `${promptCache.writeTokens.toLocaleString()} written`,
+            ));
+        }
+
+        const fallbackCalls = this.entries.filter((e) => e.fallback).length;
+        if (fallbackCalls > 0) {
+            console.log(chalk.yellow(`  Fallback providers served ${fallbackCalls} call(s)`));
+        }
+
         console.log(chalk.bold(`  Total: ${this.getTotalTokens().toLocaleString()} tokens`));
 
         const cost = this.estimateCost();
-        if (cost > 0) {
-            console.log(chalk.yellow(`  Estimated cost: $${cost.toFixed(4)}`));
+        const unpriced = this.getUnpricedModels();
+        if (cost > 0 || unpriced.length > 0) {
+            console.log(chalk.yellow(`  Estimated cost: $${cost.toFixed(4)}${unpriced.length > 0 ? ' (incomplete)' : ''}`));
+        }
+        if (unpriced.length > 0) {
+            console.log(chalk.yellow(`  No pricing for: ${unpriced.join(', ')} — add them under "pricing" in config.json`));
         }
     }
+
+    /** Entries that actually hit a provider (everything except cache hits). */
+    private billedEntries(): TokenUsageEntry[] {
+        return this.entries.filter((e) => !e.cached);
+    }
+
+    /** Cost in USD of one call's usage (0 for models without a price). */
+    private costOf(provider: LLMProviderName | undefined, model: string, usage: TokenUsage): number {
+        const pricing = findPricing(this.pricing, provider, model);
+        if (!pricing) return 0;
+
+        const cacheRead = usage.cacheReadTokens ?? 0;
+        const cacheWrite = usage.cacheWriteTokens ?? 0;
+        const uncached = usage.promptTokens - cacheRead - cacheWrite;
+        return (uncached / 1_000_000) * pricing.input
+            + (cacheRead / 1_000_000) * (pricing.cacheRead ?? pricing.input)
+            + (cacheWrite / 1_000_000) * (pricing.cacheWrite ?? pricing.input)
+            + (usage.completionTokens / 1_000_000) * pricing.output;
+    }
 }
@@ -5,7 +5,7 @@
  * `.aiagentflow/prompts/`. Users can edit these to customize agent behavior.
  * Agents read their prompts from these files at runtime.
  *
- * Dependency direction: prompts.ts → utils/fs, core/errors, agents/types
+ * Dependency direction: prompts.ts → utils/fs, core/errors, agents/types, agents/verdict
  * Used by: agent implementations, init command
  */
 
@@ -14,8 +14,10 @@ import { existsSync } from 'node:fs';
 import { CONFIG_DIR_NAME } from '../core/config/defaults.js';
 import { ensureDir, readTextFile } from '../utils/fs.js';
 import { writeFileSync } from 'node:fs';
-import type { AgentRole } from '../agents/types.js';
-import { ALL_AGENT_ROLES } from '../agents/types.js';
+import type { AgentRole, AgentRoleName } from '../agents/types.js';
+import { ALL_AGENT_ROLES, isBuiltinRole } from '../agents/types.js';
+import { QA_VERDICT, REVIEW_VERDICT } from '../agents/verdict.js';
+import { ConfigError } from '../core/errors.js';
 import { logger } from '../utils/logger.js';
 
 const PROMPTS_DIR = 'prompts';
@@ -87,11 +89,13 @@ You are a senior code reviewer. You review code changes for quality, correctness
 - Missing tests
 
 ## Output format:
-1. **Verdict**: APPROVE or REQUEST_CHANGES
-2. **Issues** (if any): numbered list with severity (critical/warning/nit)
-3. **Suggestions**: improvements that aren't blocking
+1. **Issues** (if any): numbered list with severity (critical/warning/nit)
+2. **Suggestions**: improvements that aren't blocking
+3. **Verdict block** (see below)
 
 Be constructive. Explain WHY something is a problem, not just WHAT.
+
+${REVIEW_VERDICT.format}
 `,
 
     tester: `# Tester Agent
@@ -153,9 +157,11 @@ You are a QA lead who decides if a task is complete and meets quality standards.
 - Is the code production-ready?
 
 ## Output format:
-1. **Verdict**: PASS or FAIL
-2. **Rationale** — why you made this decision
-3. **Remaining issues** (if FAIL) — what needs to be fixed before passing
+1. **Rationale** — why you made this decision
+2. **Remaining issues** (if failing) — what needs to be fixed before passing
+3. **Verdict block** (see below)
+
+${QA_VERDICT.format}
 `,
 };
 
@@ -237,15 +243,25 @@ export function generateDefaultPrompts(projectRoot: string): void {
 
 /**
  * Load an agent's prompt from the project's prompt files.
- * Falls back to the built-in default if the file doesn't exist.
+ * Built-in roles fall back to their default if the file doesn't exist;
+ * custom roles have no default.
+ *
+ * @throws {ConfigError} if a custom role has no prompt file
  */
-export function loadAgentPrompt(projectRoot: string, role: AgentRole): string {
+export function loadAgentPrompt(projectRoot: string, role: AgentRoleName): string {
     const filePath = join(getPromptsDir(projectRoot), `${role}.md`);
 
     if (existsSync(filePath)) {
         return readTextFile(filePath);
     }
 
+    if (!isBuiltinRole(role)) {
+        throw new ConfigError(
+            `No prompt for custom role "${role}". Create ${join(CONFIG_DIR_NAME, PROMPTS_DIR, `${role}.md`)}.`,
+            { role, filePath },
+        );
+    }
+
     // Fall back to built-in default
     return DEFAULT_PROMPTS[role];
 }
@@ -17,9 +17,12 @@ import type {
     ChatChunk,
     ModelInfo,
     TokenUsage,
+    ToolCall,
 } from './types.js';
 import { logger } from '../utils/logger.js';
 import { fetchWithRetry, PROVIDER_TIMEOUT_MS } from './provider-errors.js';
+import { normalizeFinishReason } from './finish-reason.js';
+import { withSchemaInstructions } from './structured-output.js';
 
 /** Configuration required to create an Anthropic provider. */
 export interface AnthropicProviderConfig {
@@ -61,6 +64,8 @@ export class AnthropicProvider implements LLMProvider {
      * Send a non-streaming chat completion request.
      */
     async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+        // No native JSON mode — describe the schema in the system prompt
+        options = withSchemaInstructions(options);
         const { systemPrompt, apiMessages } = this.prepareMessages(messages, options);
         const model = options?.model ?? DEFAULTS.model;
         const maxTokens = options?.maxTokens ?? DEFAULTS.maxTokens;
@@ -71,8 +76,9 @@ export class AnthropicProvider implements LLMProvider {
             messages: apiMessages,
         };
 
-        if (systemPrompt) {
-            body.system = systemPrompt;
+        const system = this.buildSystem(systemPrompt, options);
+        if (system) {
+            body.system = system;
         }
         if (options?.temperature !== undefined) {
             body.temperature = options.temperature;
@@ -80,10 +86,18 @@ export class AnthropicProvider implements LLMProvider {
         if (options?.stopSequences?.length) {
             body.stop_sequences = options.stopSequences;
         }
+        if (options?.tools?.length) {
+            body.tools = options.tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.parameters,
+            }));
+            body.tool_choice = toAnthropicToolChoice(options.toolChoice);
+        }
 
         logger.debug(`Anthropic chat request: model=${model}, messages=${apiMessages.length}`);
 
-        const response = await this.request('/v1/messages', body);
+        const response = await this.request('/v1/messages', body, options?.signal);
 
         // Extract text content from response
         const content = this.extractContent(response);
@@ -93,7 +107,8 @@ export class AnthropicProvider implements LLMProvider {
             content,
             model: (response.model as string | undefined) ?? model,
             usage,
-            finishReason: (response.stop_reason as string | undefined) ?? 'unknown',
+            finishReason: normalizeFinishReason(response.stop_reason),
+            toolCalls: this.extractToolCalls(response),
         };
     }
 
@@ -112,8 +127,9 @@ export class AnthropicProvider implements LLMProvider {
             stream: true,
         };
 
-        if (systemPrompt) {
-            body.system = systemPrompt;
+        const system = this.buildSystem(systemPrompt, options);
+        if (system) {
+            body.system = system;
         }
         if (options?.temperature !== undefined) {
             body.temperature = options.temperature;
@@ -122,7 +138,7 @@ export class AnthropicProvider implements LLMProvider {
         const response = await fetchWithRetry(
             `${this.baseUrl}/v1/messages`,
             { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(body) },
-            { provider: 'anthropic', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS },
+            { provider: 'anthropic', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS, signal: options?.signal },
         );
 
         if (!response.body) {
@@ -132,6 +148,11 @@ export class AnthropicProvider implements LLMProvider {
         const reader = response.body.getReader();
         const decoder = new TextDecoder();
         let buffer = '';
+        // Input tokens arrive on message_start, output tokens on message_delta
+        let inputUsage: Record<string, number> = {};
+        let completionTokens = 0;
+        let stopReason: unknown;
+        const usage = (): TokenUsage => this.extractUsage({ usage: { ...inputUsage, output_tokens: completionTokens } });
 
         try {
             while (true) {
@@ -146,7 +167,7 @@ export class AnthropicProvider implements LLMProvider {
                     if (!line.startsWith('data: ')) continue;
                     const data = line.slice(6).trim();
                     if (data === '[DONE]') {
-                        yield { content: '', done: true };
+                        yield { content: '', done: true, usage: usage(), finishReason: normalizeFinishReason(stopReason) };
                         return;
                     }
 
@@ -154,8 +175,13 @@ export class AnthropicProvider implements LLMProvider {
                         const event = JSON.parse(data);
                         if (event.type === 'content_block_delta' && event.delta?.text) {
                             yield { content: event.delta.text, done: false };
+                        } else if (event.type === 'message_start') {
+                            inputUsage = event.message?.usage ?? inputUsage;
+                        } else if (event.type === 'message_delta') {
+                            completionTokens = event.usage?.output_tokens ?? completionTokens;
+                            stopReason = event.delta?.stop_reason ?? stopReason;
                         } else if (event.type === 'message_stop') {
-                            yield { content: '', done: true };
+                            yield { content: '', done: true, usage: usage(), finishReason: normalizeFinishReason(stopReason) };
                             return;
                         }
                     } catch {
@@ -167,7 +193,7 @@ export class AnthropicProvider implements LLMProvider {
             reader.releaseLock();
         }
 
-        yield { content: '', done: true };
+        yield { content: '', done: true, usage: usage(), finishReason: normalizeFinishReason(stopReason) };
     }
 
     /**
@@ -215,11 +241,15 @@ export class AnthropicProvider implements LLMProvider {
         };
     }
 
-    private async request(path: string, body: Record<string, unknown>): Promise<Record<string, unknown>> {
+    private async request(
+        path: string,
+        body: Record<string, unknown>,
+        signal?: AbortSignal,
+    ): Promise<Record<string, unknown>> {
         const response = await fetchWithRetry(
             `${this.baseUrl}${path}`,
             { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(body) },
-            { provider: 'anthropic', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS },
+            { provider: 'anthropic', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS, signal },
         );
 
         return response.json() as Promise<Record<string, unknown>>;
@@ -227,18 +257,48 @@ export class AnthropicProvider implements LLMProvider {
 
     /**
      * Separate system prompt from messages (Anthropic uses a top-level field).
+     *
+     * Tool calls become `tool_use` content blocks on the assistant turn, and
+     * tool results become `tool_result` blocks on a user turn. Consecutive
+     * tool results are merged into one user message as the API requires.
+     * Images become base64 `image` blocks.
      */
     private prepareMessages(
         messages: ChatMessage[],
         options?: ChatOptions,
-    ): { systemPrompt: string | undefined; apiMessages: Array<{ role: string; content: string }> } {
+    ): { systemPrompt: string | undefined; apiMessages: Array<{ role: string; content: unknown }> } {
         let systemPrompt = options?.systemPrompt;
-        const apiMessages: Array<{ role: string; content: string }> = [];
+        const apiMessages: Array<{ role: string; content: unknown }> = [];
 
         for (const msg of messages) {
             if (msg.role === 'system') {
                 // Anthropic doesn't support system role in messages array
                 systemPrompt = systemPrompt ? `${systemPrompt}\n\n${msg.content}` : msg.content;
+            } else if (msg.role === 'tool') {
+                const block = { type: 'tool_result', tool_use_id: msg.toolCallId, content: msg.content };
+                const last = apiMessages[apiMessages.length - 1];
+                if (last?.role === 'user' && Array.isArray(last.content)) {
+                    last.content.push(block);
+                } else {
+                    apiMessages.push({ role: 'user', content: [block] });
+                }
+            } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+                const blocks: Array<Record<string, unknown>> = [];
+                if (msg.content) {
+                    blocks.push({ type: 'text', text: msg.content });
+                }
+                for (const call of msg.toolCalls) {
+                    blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+                }
+                apiMessages.push({ role: 'assistant', content: blocks });
+            } else if (msg.images?.length) {
+                // Images go before the text, as Anthropic recommends
+                const blocks: Array<Record<string, unknown>> = msg.images.map((image) => ({
+                    type: 'image',
+                    source: { type: 'base64', media_type: image.mediaType, data: image.data },
+                }));
+                blocks.push({ type: 'text', text: msg.content });
+                apiMessages.push({ role: msg.role, content: blocks });
             } else {
                 apiMessages.push({ role: msg.role, content: msg.content });
             }
@@ -258,12 +318,61 @@ export class AnthropicProvider implements LLMProvider {
         return String(content ?? '');
     }
 
+    private extractToolCalls(response: Record<string, unknown>): ToolCall[] | undefined {
+        const content = response.content;
+        if (!Array.isArray(content)) return undefined;
+
+        const calls = content
+            .filter((block: Record<string, unknown>) => block.type === 'tool_use')
+            .map((block: Record<string, unknown>) => ({
+                id: block.id as string,
+                name: block.name as string,
+                arguments: (block.input as Record<string, unknown> | undefined) ?? {},
+            }));
+
+        return calls.length > 0 ? calls : undefined;
+    }
+
+    /**
+     * Build the top-level `system` field. Reference context becomes its own
+     * block marked with `cache_control`, so later calls read it from the
+     * prompt cache instead of paying full price for it again.
+     */
+    private buildSystem(
+        systemPrompt: string | undefined,
+        options?: ChatOptions,
+    ): string | Array<Record<string, unknown>> | undefined {
+        if (!options?.referenceContext) return systemPrompt;
+
+        const blocks: Array<Record<string, unknown>> = [
+            { type: 'text', text: options.referenceContext, cache_control: { type: 'ephemeral' } },
+        ];
+        if (systemPrompt) {
+            blocks.push({ type: 'text', text: systemPrompt });
+        }
+        return blocks;
+    }
+
+    /** `input_tokens` excludes cached tokens — fold them back into promptTokens. */
     private extractUsage(response: Record<string, unknown>): TokenUsage {
         const usage = response.usage as Record<string, number> | undefined;
+        const cacheReadTokens = usage?.cache_read_input_tokens ?? 0;
+        const cacheWriteTokens = usage?.cache_creation_input_tokens ?? 0;
+        const promptTokens = (usage?.input_tokens ?? 0) + cacheReadTokens + cacheWriteTokens;
+        const completionTokens = usage?.output_tokens ?? 0;
         return {
-            promptTokens: usage?.input_tokens ?? 0,
-            completionTokens: usage?.output_tokens ?? 0,
-            totalTokens: (usage?.input_tokens ?? 0) + (usage?.output_tokens ?? 0),
+            promptTokens,
+            completionTokens,
+            totalTokens: promptTokens + completionTokens,
+            ...(cacheReadTokens > 0 && { cacheReadTokens }),
+            ...(cacheWriteTokens > 0 && { cacheWriteTokens }),
         };
     }
 }
+
+/** Map the provider-neutral tool choice onto Anthropic's `tool_choice` object. */
+function toAnthropicToolChoice(choice: ChatOptions['toolChoice']): Record<string, string> {
+    if (choice === 'required') return { type: 'any' };
+    if (choice === 'none') return { type: 'none' };
+    return { type: 'auto' };
+}
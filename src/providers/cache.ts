@@ -0,0 +1,237 @@
+/**
+ * Response cache — content-addressed, on-disk cache for LLM responses.
+ *
+ * `CachedProvider` wraps any LLMProvider. Each request is hashed from the
+ * provider, model, system prompt, messages, tools, response schema,
+ * temperature and max tokens; identical requests are answered from
+ * `.aiagentflow/cache/<hash>.json` instead of the API. Entries expire after
+ * a TTL and the directory is trimmed (oldest first) to stay under a size limit.
+ *
+ * Over a fallback chain, the key names the candidate that answered: a reply
+ * from a fallback is stored under the fallback's provider and model, so it
+ * is never served as the primary's.
+ *
+ * Dependency direction: cache.ts → providers/types, utils/fs, node:crypto
+ * Used by: agents/factory.ts
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, readdirSync, statSync, unlinkSync } from 'node:fs';
+import { join } from 'node:path';
+import type {
+    ChatChunk,
+    ChatMessage,
+    ChatOptions,
+    ChatResponse,
+    FinishReason,
+    LLMProvider,
+    LLMProviderName,
+    ModelInfo,
+    ProviderCandidate,
+    TokenUsage,
+} from './types.js';
+import { ensureDir, readJsonFile, writeJsonFile } from '../utils/fs.js';
+import { logger } from '../utils/logger.js';
+
+/** Settings for an on-disk response cache. */
+export interface ResponseCacheOptions {
+    /** Directory holding cache entries. */
+    readonly dir: string;
+    /** Entry lifetime in milliseconds. */
+    readonly ttlMs: number;
+    /** Maximum total size of the cache directory in bytes. */
+    readonly maxBytes: number;
+}
+
+/** A single cached response on disk. */
+interface CacheEntry {
+    createdAt: number;
+    response: ChatResponse;
+}
+
+/**
+ * Content-addressed store of chat responses.
+ */
+export class ResponseCache {
+    private readonly options: ResponseCacheOptions;
+
+    constructor(options: ResponseCacheOptions) {
+        this.options = options;
+    }
+
+    /** Return the cached response for a key, or null on a miss or expired entry. */
+    get(key: string): ChatResponse | null {
+        const path = this.entryPath(key);
+        if (!existsSync(path)) return null;
+
+        try {
+            const entry = readJsonFile<CacheEntry>(path);
+            if (Date.now() - entry.createdAt > this.options.ttlMs) {
+                unlinkSync(path);
+                return null;
+            }
+            return entry.response;
+        } catch {
+            logger.debug(`Ignoring unreadable cache entry: ${key}`);
+            return null;
+        }
+    }
+
+    /** Store a response and trim the cache to its limits. */
+    set(key: string, response: ChatResponse): void {
+        ensureDir(this.options.dir);
+        const entry: CacheEntry = { createdAt: Date.now(), response };
+        writeJsonFile(this.entryPath(key), entry);
+        this.prune();
+    }
+
+    /** Remove expired entries, then the oldest entries until the cache fits in maxBytes. */
+    prune(): void {
+        if (!existsSync(this.options.dir)) return;
+
+        const now = Date.now();
+        const files = readdirSync(this.options.dir)
+            .filter((name) => name.endsWith('.json'))
+            .map((name) => {
+                const path = join(this.options.dir, name);
+                const stats = statSync(path);
+                return { path, size: stats.size, mtime: stats.mtimeMs };
+            })
+            .sort((a, b) => a.mtime - b.mtime);
+
+        let total = files.reduce((sum, f) => sum + f.size, 0);
+        for (const file of files) {
+            const expired = now - file.mtime > this.options.ttlMs;
+            if (!expired && total <= this.options.maxBytes) continue;
+            unlinkSync(file.path);
+            total -= file.size;
+        }
+    }
+
+    private entryPath(key: string): string {
+        return join(this.options.dir, `${key}.json`);
+    }
+}
+
+/**
+ * LLMProvider that answers identical requests from a ResponseCache.
+ *
+ * Hits are marked with `cached: true` on the response (or final stream chunk)
+ * so callers can report them separately from billed calls.
+ */
+export class CachedProvider implements LLMProvider {
+    private readonly inner: LLMProvider;
+    private readonly cache: ResponseCache;
+
+    constructor(inner: LLMProvider, cache: ResponseCache) {
+        this.inner = inner;
+        this.cache = cache;
+    }
+
+    get name(): LLMProviderName {
+        return this.inner.name;
+    }
+
+    get instance(): string | undefined {
+        return this.inner.instance;
+    }
+
+    get active(): ProviderCandidate | undefined {
+        return this.inner.active;
+    }
+
+    async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+        const key = this.keyFor(messages, options);
+        const hit = this.cache.get(key);
+        if (hit) {
+            logger.debug(`Cache hit: ${key}`);
+            return { ...hit, cached: true };
+        }
+
+        const response = await this.inner.chat(messages, options);
+        // Keyed again: a failover during the call changes who answered
+        this.cache.set(this.keyFor(messages, options), response);
+        return response;
+    }
+
+    /**
+     * Replay a hit as one chunk; on a miss, pass chunks through and cache the
+     * assembled response once the stream completes.
+     */
+    async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
+        const key = this.keyFor(messages, options);
+        const hit = this.cache.get(key);
+        if (hit) {
+            logger.debug(`Cache hit: ${key}`);
+            yield { content: hit.content, done: false };
+            yield { content: '', done: true, usage: hit.usage, cached: true, finishReason: hit.finishReason };
+            return;
+        }
+
+        let content = '';
+        let usage: TokenUsage | undefined;
+        let finishReason: FinishReason = 'unknown';
+        for await (const chunk of this.inner.stream(messages, options)) {
+            content += chunk.content;
+            if (chunk.usage) usage = chunk.usage;
+            if (chunk.finishReason) finishReason = chunk.finishReason;
+            yield chunk;
+        }
+
+        if (content) {
+            this.cache.set(this.keyFor(messages, options), {
+                content,
+                model: this.inner.active?.model ?? options?.model ?? '',
+                usage: usage ?? { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+                finishReason,
+            });
+        }
+    }
+
+    listModels(): Promise<ModelInfo[]> {
+        return this.inner.listModels();
+    }
+
+    validateConnection(): Promise<boolean> {
+        return this.inner.validateConnection();
+    }
+
+    // ── Private helpers ──
+
+    /** Cache key for a request as the inner provider would send it now (to its active candidate, if any). */
+    private keyFor(messages: ChatMessage[], options?: ChatOptions): string {
+        const served = this.inner.active;
+        return served
+            ? cacheKey(served.provider, messages, { ...options, model: served.model }, served.instance)
+            : cacheKey(this.inner.name, messages, options, this.inner.instance);
+    }
+}
+
+/**
+ * Hash everything that determines a response: provider (and its named
+ * instance), model, system prompt, messages (including tool calls/results),
+ * tools, response schema, temperature, max tokens and sample number.
+ */
+export function cacheKey(
+    provider: LLMProviderName,
+    messages: ChatMessage[],
+    options?: ChatOptions,
+    instance?: string,
+): string {
+    const payload = JSON.stringify({
+        provider,
+        instance,
+        model: options?.model,
+        systemPrompt: options?.systemPrompt,
+        referenceContext: options?.referenceContext,
+        messages,
+        tools: options?.tools,
+        toolChoice: options?.toolChoice,
+        responseSchema: options?.responseSchema,
+        temperature: options?.temperature,
+        maxTokens: options?.maxTokens,
+        stopSequences: options?.stopSequences,
+        sample: options?.sample,
+    });
+    return createHash('sha256').update(payload).digest('hex');
+}
@@ -0,0 +1,137 @@
+/**
+ * Fallback provider — tries an ordered chain of provider/model candidates.
+ *
+ * Wraps several providers behind the LLMProvider interface. A request goes
+ * to the active candidate; if it fails with a ProviderError (rate limit,
+ * server down, missing config), the chain moves on to the next candidate
+ * and stays there for the rest of this instance's lifetime.
+ *
+ * Dependency direction: fallback.ts → providers/types, core/errors, utils
+ * Used by: agents/factory.ts
+ */
+
+import { ProviderError } from '../core/errors.js';
+import { logger } from '../utils/logger.js';
+import type {
+    ChatChunk,
+    ChatMessage,
+    ChatOptions,
+    ChatResponse,
+    LLMProvider,
+    LLMProviderName,
+    ModelInfo,
+    ProviderCandidate,
+    ProviderFailover,
+} from './types.js';
+
+/** Resolves a candidate to a provider instance (normally via registry.createProvider). */
+export type ProviderResolver = (candidate: ProviderCandidate) => LLMProvider;
+
+/**
+ * LLMProvider that fails over through a list of candidates.
+ *
+ * The model in ChatOptions is replaced by the active candidate's model,
+ * so each candidate runs with the model it was configured with.
+ */
+export class FallbackProvider implements LLMProvider {
+    private readonly candidates: readonly ProviderCandidate[];
+    private readonly resolve: ProviderResolver;
+    private readonly onFailover?: (failover: ProviderFailover) => void;
+    private activeIndex = 0;
+
+    constructor(
+        candidates: readonly ProviderCandidate[],
+        resolve: ProviderResolver,
+        onFailover?: (failover: ProviderFailover) => void,
+    ) {
+        if (candidates.length === 0) {
+            throw new ProviderError('Fallback chain needs at least one provider candidate');
+        }
+        this.candidates = candidates;
+        this.resolve = resolve;
+        this.onFailover = onFailover;
+    }
+
+    /** Name of the active candidate's provider. */
+    get name(): LLMProviderName {
+        return this.active.provider;
+    }
+
+    /** The candidate currently serving requests. */
+    get active(): ProviderCandidate {
+        return this.candidates[this.activeIndex]!;
+    }
+
+    async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+        while (true) {
+            const candidate = this.active;
+            try {
+                const provider = this.resolve(candidate);
+                return await provider.chat(messages, { ...options, model: candidate.model });
+            } catch (err) {
+                this.failOver(err);
+            }
+        }
+    }
+
+    /**
+     * Stream from the active candidate. Failover only happens before the first
+     * chunk — once text has been yielded, switching models mid-answer would
+     * produce garbage, so later errors propagate.
+     */
+    async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
+        while (true) {
+            const candidate = this.active;
+            let started = false;
+            try {
+                const provider = this.resolve(candidate);
+                for await (const chunk of provider.stream(messages, { ...options, model: candidate.model })) {
+                    started = true;
+                    yield chunk;
+                }
+                return;
+            } catch (err) {
+                if (started) throw err;
+                this.failOver(err);
+            }
+        }
+    }
+
+    async listModels(): Promise<ModelInfo[]> {
+        return this.resolve(this.active).listModels();
+    }
+
+    async validateConnection(): Promise<boolean> {
+        try {
+            return await this.resolve(this.active).validateConnection();
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Advance to the next candidate, or rethrow when the error is not a
+     * ProviderError or the chain is exhausted.
+     */
+    private failOver(err: unknown): void {
+        const next = this.candidates[this.activeIndex + 1];
+        if (!(err instanceof ProviderError) || !next) {
+            throw err;
+        }
+
+        const failover: ProviderFailover = { from: this.active, to: next, reason: err.message };
+        logger.warn(
+            `${describe(failover.from)} failed — falling back to ${describe(next)}`,
+        );
+        logger.debug(`Failover reason: ${err.message}`);
+
+        this.activeIndex++;
+        this.onFailover?.(failover);
+    }
+}
+
+/** "provider/model", with the instance name when there is one. */
+function describe(candidate: ProviderCandidate): string {
+    const provider = candidate.instance ? `${candidate.provider}:${candidate.instance}` : candidate.provider;
+    return `${provider}/${candidate.model}`;
+}
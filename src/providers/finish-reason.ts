@@ -0,0 +1,44 @@
+/**
+ * Finish reason normalization — maps each API's stop reason to one vocabulary.
+ *
+ * OpenAI says `length`, Anthropic `max_tokens`, Gemini `MAX_TOKENS`; agents
+ * only need to know whether a reply is complete, was cut off, stopped for
+ * tool calls, or was blocked.
+ *
+ * Dependency direction: finish-reason.ts → providers/types.ts
+ * Used by: all provider adapters
+ */
+
+import type { FinishReason } from './types.js';
+
+/** Known provider stop reasons, lowercased. */
+const FINISH_REASONS: Record<string, FinishReason> = {
+    // Natural end of the reply or a stop sequence
+    stop: 'stop',
+    end_turn: 'stop',
+    stop_sequence: 'stop',
+    // Output token limit
+    length: 'length',
+    max_tokens: 'length',
+    // Tool calls requested
+    tool_calls: 'tool_use',
+    function_call: 'tool_use',
+    tool_use: 'tool_use',
+    // Blocked by a safety or policy filter
+    content_filter: 'content_filter',
+    refusal: 'content_filter',
+    safety: 'content_filter',
+    recitation: 'content_filter',
+    blocklist: 'content_filter',
+    prohibited_content: 'content_filter',
+    spii: 'content_filter',
+};
+
+/**
+ * Normalize a provider's raw stop reason (`finish_reason`, `stop_reason`,
+ * `finishReason`, `done_reason`). Unknown or missing values become 'unknown'.
+ */
+export function normalizeFinishReason(raw: unknown): FinishReason {
+    if (typeof raw !== 'string') return 'unknown';
+    return FINISH_REASONS[raw.toLowerCase()] ?? 'unknown';
+}
@@ -17,9 +17,13 @@ import type {
     ChatChunk,
     ModelInfo,
     TokenUsage,
+    ToolCall,
 } from './types.js';
 import { logger } from '../utils/logger.js';
 import { fetchWithRetry, PROVIDER_TIMEOUT_MS } from './provider-errors.js';
+import { normalizeFinishReason } from './finish-reason.js';
+import { withSchemaInstructions } from './structured-output.js';
+import { systemPromptWithContext } from './reference-context.js';
 
 /** Configuration required to create a Gemini provider. */
 export interface GeminiProviderConfig {
@@ -27,6 +31,14 @@ export interface GeminiProviderConfig {
     readonly baseUrl?: string;
 }
 
+/** A single content part in a Gemini request or response. */
+interface GeminiPart {
+    text?: string;
+    inlineData?: { mimeType: string; data: string };
+    functionCall?: { name: string; args?: Record<string, unknown> };
+    functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
 /** Default Gemini API settings. */
 const DEFAULTS = {
     baseUrl: 'https://generativelanguage.googleapis.com',
@@ -59,6 +71,9 @@ export class GeminiProvider implements LLMProvider {
      */
     async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
         const model = options?.model ?? DEFAULTS.model;
+        // Gemini's responseSchema only accepts an OpenAPI subset, so request JSON
+        // output and describe the schema in the system prompt instead
+        options = withSchemaInstructions(options);
         const { contents, systemInstruction } = this.prepareMessages(messages, options);
 
         const body: Record<string, unknown> = { contents };
@@ -77,23 +92,37 @@ export class GeminiProvider implements LLMProvider {
         if (options?.stopSequences?.length) {
             generationConfig.stopSequences = options.stopSequences;
         }
+        if (options?.responseSchema) {
+            generationConfig.responseMimeType = 'application/json';
+        }
         if (Object.keys(generationConfig).length > 0) {
             body.generationConfig = generationConfig;
         }
+        if (options?.tools?.length) {
+            body.tools = [{
+                functionDeclarations: options.tools.map((tool) => ({
+                    name: tool.name,
+                    description: tool.description,
+                    parameters: tool.parameters,
+                })),
+            }];
+            body.toolConfig = { functionCallingConfig: { mode: toGeminiToolMode(options.toolChoice) } };
+        }
 
         logger.debug(`Gemini chat request: model=${model}, contents=${contents.length}`);
 
         const response = await this.request(
             `/v1beta/models/${model}:generateContent`,
             body,
+            options?.signal,
         );
 
         const candidates = response.candidates as Array<Record<string, unknown>> | undefined;
         const firstCandidate = candidates?.[0];
         const content = firstCandidate?.content as Record<string, unknown> | undefined;
-        const parts = content?.parts as Array<{ text?: string }> | undefined;
+        const parts = content?.parts as GeminiPart[] | undefined;
         const text = parts?.map((p) => p.text ?? '').join('') ?? '';
-        const finishReason = (firstCandidate?.finishReason as string) ?? 'unknown';
+        const finishReason = normalizeFinishReason(firstCandidate?.finishReason);
         const usage = this.extractUsage(response);
 
         return {
@@ -101,6 +130,7 @@ export class GeminiProvider implements LLMProvider {
             model,
             usage,
             finishReason,
+            toolCalls: this.extractToolCalls(parts),
         };
     }
 
@@ -133,7 +163,7 @@ export class GeminiProvider implements LLMProvider {
         const response = await fetchWithRetry(
             url,
             { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
-            { provider: 'gemini', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS },
+            { provider: 'gemini', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS, signal: options?.signal },
         );
 
         if (!response.body) {
@@ -143,6 +173,7 @@ export class GeminiProvider implements LLMProvider {
         const reader = response.body.getReader();
         const decoder = new TextDecoder();
         let buffer = '';
+        let usage: TokenUsage | undefined;
 
         try {
             while (true) {
@@ -160,6 +191,10 @@ export class GeminiProvider implements LLMProvider {
 
                     try {
                         const event = JSON.parse(data);
+                        // usageMetadata is cumulative; the last one seen is the final count
+                        if (event.usageMetadata) {
+                            usage = this.extractUsage(event);
+                        }
                         const candidates = event.candidates as Array<Record<string, unknown>> | undefined;
                         const parts = (candidates?.[0]?.content as Record<string, unknown>)?.parts as Array<{ text?: string }> | undefined;
                         const text = parts?.map((p) => p.text ?? '').join('') ?? '';
@@ -169,12 +204,8 @@ export class GeminiProvider implements LLMProvider {
                         }
 
                         const finishReason = candidates?.[0]?.finishReason as string | undefined;
-                        if (finishReason && finishReason !== 'STOP') {
-                            yield { content: '', done: true };
-                            return;
-                        }
-                        if (finishReason === 'STOP') {
-                            yield { content: '', done: true };
+                        if (finishReason) {
+                            yield { content: '', done: true, usage, finishReason: normalizeFinishReason(finishReason) };
                             return;
                         }
                     } catch {
@@ -186,7 +217,7 @@ export class GeminiProvider implements LLMProvider {
             reader.releaseLock();
         }
 
-        yield { content: '', done: true };
+        yield { content: '', done: true, usage };
     }
 
     /**
@@ -200,13 +231,16 @@ export class GeminiProvider implements LLMProvider {
             { provider: 'gemini', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS },
         );
 
-        const body = await response.json() as { models?: Array<{ name: string; displayName?: string }> };
+        const body = await response.json() as {
+            models?: Array<{ name: string; displayName?: string; inputTokenLimit?: number }>;
+        };
         const models = body.models ?? [];
 
         return models.map((m) => ({
             id: m.name.replace(/^models\//, ''),
             name: m.displayName ?? m.name.replace(/^models\//, ''),
             provider: 'gemini' as const,
+            contextWindow: m.inputTokenLimit,
         }));
     }
 
@@ -233,12 +267,16 @@ export class GeminiProvider implements LLMProvider {
         return `${this.baseUrl}${path}?key=${this.apiKey}`;
     }
 
-    private async request(path: string, body: Record<string, unknown>): Promise<Record<string, unknown>> {
+    private async request(
+        path: string,
+        body: Record<string, unknown>,
+        signal?: AbortSignal,
+    ): Promise<Record<string, unknown>> {
         const url = this.buildUrl(path);
         const response = await fetchWithRetry(
             url,
             { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
-            { provider: 'gemini', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS },
+            { provider: 'gemini', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS, signal },
         );
 
         return response.json() as Promise<Record<string, unknown>>;
@@ -248,19 +286,22 @@ export class GeminiProvider implements LLMProvider {
      * Prepare messages for the Gemini API.
      * Gemini uses `user` and `model` roles (not `assistant`).
      * System messages are extracted to a separate `system_instruction` field.
+     * Tool calls map to `functionCall` parts and tool results to `functionResponse` parts.
+     * Images map to `inlineData` parts.
      */
     private prepareMessages(
         messages: ChatMessage[],
         options?: ChatOptions,
     ): {
-        contents: Array<{ role: string; parts: Array<{ text: string }> }>;
+        contents: Array<{ role: string; parts: GeminiPart[] }>;
         systemInstruction?: { parts: Array<{ text: string }> };
     } {
-        const contents: Array<{ role: string; parts: Array<{ text: string }> }> = [];
+        const contents: Array<{ role: string; parts: GeminiPart[] }> = [];
         const systemParts: string[] = [];
 
-        if (options?.systemPrompt) {
-            systemParts.push(options.systemPrompt);
+        const systemPrompt = systemPromptWithContext(options);
+        if (systemPrompt) {
+            systemParts.push(systemPrompt);
         }
 
         for (const msg of messages) {
@@ -269,11 +310,31 @@ export class GeminiProvider implements LLMProvider {
                 continue;
             }
 
+            if (msg.role === 'tool') {
+                const part: GeminiPart = {
+                    functionResponse: { name: msg.toolName ?? '', response: { content: msg.content } },
+                };
+                const last = contents[contents.length - 1];
+                if (last?.role === 'user' && last.parts.every((p) => p.functionResponse)) {
+                    last.parts.push(part);
+                } else {
+                    contents.push({ role: 'user', parts: [part] });
+                }
+                continue;
+            }
+
             const role = msg.role === 'assistant' ? 'model' : 'user';
-            contents.push({
-                role,
-                parts: [{ text: msg.content }],
-            });
+            const parts: GeminiPart[] = [];
+            if (msg.content || !msg.toolCalls?.length) {
+                parts.push({ text: msg.content });
+            }
+            for (const image of msg.images ?? []) {
+                parts.push({ inlineData: { mimeType: image.mediaType, data: image.data } });
+            }
+            for (const call of msg.toolCalls ?? []) {
+                parts.push({ functionCall: { name: call.name, args: call.arguments } });
+            }
+            contents.push({ role, parts });
         }
 
         const systemInstruction = systemParts.length > 0
@@ -283,6 +344,19 @@ export class GeminiProvider implements LLMProvider {
         return { contents, systemInstruction };
     }
 
+    /** Gemini has no call IDs — synthesize stable ones from the part index. */
+    private extractToolCalls(parts: GeminiPart[] | undefined): ToolCall[] | undefined {
+        const calls = (parts ?? [])
+            .filter((p) => p.functionCall)
+            .map((p, index) => ({
+                id: `call_${index}`,
+                name: p.functionCall!.name,
+                arguments: p.functionCall!.args ?? {},
+            }));
+
+        return calls.length > 0 ? calls : undefined;
+    }
+
     private extractUsage(response: Record<string, unknown>): TokenUsage {
         const usage = response.usageMetadata as Record<string, number> | undefined;
         return {
@@ -292,3 +366,10 @@ export class GeminiProvider implements LLMProvider {
         };
     }
 }
+
+/** Map the provider-neutral tool choice onto Gemini's function-calling mode. */
+function toGeminiToolMode(choice: ChatOptions['toolChoice']): string {
+    if (choice === 'required') return 'ANY';
+    if (choice === 'none') return 'NONE';
+    return 'AUTO';
+}
@@ -4,7 +4,7 @@
  * Uses Groq's OpenAI-compatible Chat Completions API directly via fetch().
  * Matches the existing OpenAI adapter flow but uses Groq defaults and paths.
  *
- * Dependency direction: groq.ts → providers/types.ts, core/errors.ts
+ * Dependency direction: groq.ts → providers/types.ts, providers/metadata.ts, core/errors.ts
  * Used by: providers/registry.ts
  */
 
@@ -20,6 +20,10 @@ import type {
 } from './types.js';
 import { logger } from '../utils/logger.js';
 import { fetchWithRetry, PROVIDER_TIMEOUT_MS } from './provider-errors.js';
+import { normalizeFinishReason } from './finish-reason.js';
+import { knownContextWindow } from './metadata.js';
+import { toOpenAIMessages, applyOpenAITools, parseOpenAIToolCalls } from './openai-format.js';
+import { withSchemaInstructions } from './structured-output.js';
 
 /** Configuration required to create a Groq provider. */
 export interface GroqProviderConfig {
@@ -65,7 +69,9 @@ export class GroqProvider implements LLMProvider {
      * Send a non-streaming chat completion request.
      */
     async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
-        const apiMessages = this.prepareMessages(messages, options);
+        // json_schema mode is only available on a few Groq models — use JSON mode plus instructions
+        options = withSchemaInstructions(options);
+        const apiMessages = toOpenAIMessages(messages, options);
         const model = options?.model ?? DEFAULTS.model;
 
         const body: Record<string, unknown> = {
@@ -82,6 +88,10 @@ export class GroqProvider implements LLMProvider {
         if (options?.stopSequences?.length) {
             body.stop = options.stopSequences;
         }
+        applyOpenAITools(body, options);
+        if (options?.responseSchema) {
+            body.response_format = { type: 'json_object' };
+        }
 
         if (COMPOUND_MODELS.has(model)) {
             logger.warn(
@@ -91,7 +101,7 @@ export class GroqProvider implements LLMProvider {
         }
         logger.debug(`Groq chat request: model=${model}, messages=${apiMessages.length}`);
 
-        const response = await this.request('/chat/completions', body);
+        const response = await this.request('/chat/completions', body, options?.signal);
 
         const choice = (response.choices as Array<Record<string, unknown>>)?.[0];
         const message = choice?.message as Record<string, unknown> | undefined;
@@ -102,7 +112,8 @@ export class GroqProvider implements LLMProvider {
             content,
             model: (response.model as string) ?? model,
             usage,
-            finishReason: (choice?.finish_reason as string) ?? 'unknown',
+            finishReason: normalizeFinishReason(choice?.finish_reason),
+            toolCalls: parseOpenAIToolCalls(message),
         };
     }
 
@@ -110,13 +121,14 @@ export class GroqProvider implements LLMProvider {
      * Send a streaming chat completion request.
      */
     async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
-        const apiMessages = this.prepareMessages(messages, options);
+        const apiMessages = toOpenAIMessages(messages, options);
         const model = options?.model ?? DEFAULTS.model;
 
         const body: Record<string, unknown> = {
             model,
             messages: apiMessages,
             stream: true,
+            stream_options: { include_usage: true },
         };
 
         if (options?.maxTokens !== undefined) {
@@ -136,7 +148,7 @@ export class GroqProvider implements LLMProvider {
         const response = await fetchWithRetry(
             `${this.baseUrl}/chat/completions`,
             { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(body) },
-            { provider: 'groq', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS },
+            { provider: 'groq', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS, signal: options?.signal },
         );
 
         if (!response.body) {
@@ -146,6 +158,8 @@ export class GroqProvider implements LLMProvider {
         const reader = response.body.getReader();
         const decoder = new TextDecoder();
         let buffer = '';
+        let usage: TokenUsage | undefined;
+        let finishReason: unknown;
 
         try {
             while (true) {
@@ -160,13 +174,19 @@ export class GroqProvider implements LLMProvider {
                     if (!line.startsWith('data: ')) continue;
                     const data = line.slice(6).trim();
                     if (data === '[DONE]') {
-                        yield { content: '', done: true };
+                        yield { content: '', done: true, usage, finishReason: normalizeFinishReason(finishReason) };
                         return;
                     }
 
                     try {
                         const event = JSON.parse(data);
+                        // Groq reports usage under x_groq on the final chunk
+                        const eventUsage = event.usage ?? event.x_groq?.usage;
+                        if (eventUsage) {
+                            usage = this.extractUsage({ usage: eventUsage });
+                        }
                         const delta = event.choices?.[0]?.delta;
+                        finishReason = event.choices?.[0]?.finish_reason ?? finishReason;
                         if (delta?.content) {
                             yield { content: delta.content, done: false };
                         }
@@ -183,7 +203,7 @@ export class GroqProvider implements LLMProvider {
             reader.releaseLock();
         }
 
-        yield { content: '', done: true };
+        yield { content: '', done: true, usage, finishReason: normalizeFinishReason(finishReason) };
     }
 
     /**
@@ -196,13 +216,14 @@ export class GroqProvider implements LLMProvider {
             { provider: 'groq', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS },
         );
 
-        const body = await response.json() as { data?: Array<{ id: string }> };
+        const body = await response.json() as { data?: Array<{ id: string; context_window?: number }> };
         const models = body.data ?? [];
 
         return models.map((m) => ({
             id: m.id,
             name: m.id,
             provider: 'groq' as const,
+            contextWindow: m.context_window ?? knownContextWindow(m.id),
         }));
     }
 
@@ -229,33 +250,20 @@ export class GroqProvider implements LLMProvider {
         };
     }
 
-    private async request(path: string, body: Record<string, unknown>): Promise<Record<string, unknown>> {
+    private async request(
+        path: string,
+        body: Record<string, unknown>,
+        signal?: AbortSignal,
+    ): Promise<Record<string, unknown>> {
         const response = await fetchWithRetry(
             `${this.baseUrl}${path}`,
             { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(body) },
-            { provider: 'groq', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS },
+            { provider: 'groq', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS, signal },
         );
 
         return response.json() as Promise<Record<string, unknown>>;
     }
 
-    private prepareMessages(
-        messages: ChatMessage[],
-        options?: ChatOptions,
-    ): Array<{ role: string; content: string }> {
-        const apiMessages: Array<{ role: string; content: string }> = [];
-
-        if (options?.systemPrompt) {
-            apiMessages.push({ role: 'system', content: options.systemPrompt });
-        }
-
-        for (const msg of messages) {
-            apiMessages.push({ role: msg.role, content: msg.content });
-        }
-
-        return apiMessages;
-    }
-
     private extractUsage(response: Record<string, unknown>): TokenUsage {
         const usage = response.usage as Record<string, number> | undefined;
         return {
@@ -3,10 +3,11 @@
  *
  * Replaces scattered ternary chains in init.ts, doctor.ts, and registry.ts
  * with a single source of truth for provider labels, default models, and
- * description text used in the CLI wizard.
+ * description text used in the CLI wizard — plus the context windows of
+ * well-known models whose provider's model list does not report them.
  *
  * Dependency direction: metadata.ts → providers/types.ts (leaf-ish module)
- * Used by: cli/commands/init.ts, cli/commands/doctor.ts, providers/registry.ts
+ * Used by: cli/commands/init.ts, cli/commands/doctor.ts, providers/registry.ts, providers/openai.ts, providers/groq.ts
  */
 
 import type { LLMProviderName } from './types.js';
@@ -16,8 +17,10 @@ export const PROVIDER_LABELS: Record<LLMProviderName, string> = {
     anthropic: 'Anthropic (Claude)',
     gemini: 'Google Gemini',
     groq: 'Groq',
+    mock: 'Mock (Fixtures)',
     ollama: 'Ollama (Local)',
     openai: 'OpenAI (GPT)',
+    'openai-compatible': 'OpenAI-compatible (Self-hosted)',
     openrouter: 'OpenRouter',
 };
 
@@ -26,8 +29,10 @@ export const PROVIDER_DEFAULT_MODELS: Record<LLMProviderName, string> = {
     anthropic: 'claude-sonnet-4-20250514',
     gemini: 'gemini-2.0-flash',
     groq: 'llama-3.3-70b-versatile',
+    mock: 'mock',
     ollama: 'llama3.2:latest',
     openai: 'gpt-4o-mini',
+    'openai-compatible': 'local-model',
     openrouter: 'meta-llama/llama-3.1-8b-instruct:free',
 };
 
@@ -36,7 +41,46 @@ export const PROVIDER_DESCRIPTIONS: Record<LLMProviderName, string> = {
     anthropic: 'Anthropic (Claude) — requires API key',
     gemini: 'Google Gemini — requires API key',
     groq: 'Groq — fast OpenAI-compatible inference, requires API key',
+    mock: 'Mock — replays responses from a fixture file, for offline tests and CI',
     ollama: 'Ollama (Local Models) — free, no API key needed',
     openai: 'OpenAI (GPT) — requires API key',
+    'openai-compatible': 'OpenAI-compatible server — vLLM, llama.cpp, LM Studio, LocalAI, ...',
     openrouter: 'OpenRouter — access 100+ models, free tier available, requires API key',
 };
+
+/**
+ * Context windows (tokens) of well-known models, for providers whose model
+ * list does not report them. Set `contextWindow` in config for others.
+ */
+export const KNOWN_CONTEXT_WINDOWS: Readonly<Record<string, number>> = {
+    // OpenAI
+    'gpt-4o': 128_000,
+    'gpt-4o-mini': 128_000,
+    'gpt-4.1': 1_047_576,
+    'gpt-4.1-mini': 1_047_576,
+    'gpt-4.1-nano': 1_047_576,
+    'gpt-4-turbo': 128_000,
+    'gpt-4': 8192,
+    'gpt-3.5-turbo': 16_385,
+    'o1': 200_000,
+    'o3': 200_000,
+    'o3-mini': 200_000,
+    'o4-mini': 200_000,
+    // Groq
+    'llama-3.3-70b-versatile': 131_072,
+    'llama-3.1-8b-instant': 131_072,
+    'gemma2-9b-it': 8192,
+};
+
+/**
+ * The known context window of a model. Dated snapshots count as their model
+ * ("gpt-4o-2024-08-06" is "gpt-4o"); the longest matching name wins.
+ *
+ * @returns The window in tokens, or undefined for unknown models
+ */
+export function knownContextWindow(model: string): number | undefined {
+    const matches = Object.keys(KNOWN_CONTEXT_WINDOWS)
+        .filter((name) => model === name || model.startsWith(`${name}-`))
+        .sort((a, b) => b.length - a.length);
+    return matches[0] ? KNOWN_CONTEXT_WINDOWS[matches[0]] : undefined;
+}
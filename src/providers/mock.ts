@@ -0,0 +1,188 @@
+/**
+ * Mock provider adapter — replays scripted responses from a fixture file.
+ *
+ * Lets prompts and `.aiagentflow` setups be exercised offline and
+ * deterministically (e.g. in CI). No network calls are made.
+ *
+ * Fixture file format (JSON):
+ *
+ *   {
+ *     "roles":  { "architect": ["plan…"], "coder": ["FILE: …", "FILE: …"] },
+ *     "hashes": { "<request hash>": "response…" }
+ *   }
+ *
+ * A request is answered by, in order:
+ * 1. `hashes` — exact match on the request hash (system prompt + messages)
+ * 2. `roles`  — the Nth entry for the request's tag (the agent role) on its
+ *    Nth call; the last entry repeats once the list is exhausted
+ *
+ * An entry is either a string or `{ "content": "…", "toolCalls": [...], "finishReason": "length" }`
+ * (`finishReason` defaults to `tool_use` with tool calls, else `stop`).
+ *
+ * Dependency direction: mock.ts → providers/types.ts, core/errors.ts, utils/fs, utils/tokens
+ * Used by: providers/registry.ts
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { ProviderError } from '../core/errors.js';
+import type {
+    LLMProvider,
+    ChatMessage,
+    ChatOptions,
+    ChatResponse,
+    ChatChunk,
+    ModelInfo,
+    FinishReason,
+    TokenUsage,
+    ToolCall,
+} from './types.js';
+import { readJsonFile } from '../utils/fs.js';
+import { logger } from '../utils/logger.js';
+import { throwIfCancelled } from '../utils/abort.js';
+import { estimateTokens } from '../utils/tokens.js';
+import { systemPromptWithContext } from './reference-context.js';
+
+/** Configuration required to create a mock provider. */
+export interface MockProviderConfig {
+    /** Path to the fixture file (relative paths resolve against the project root). */
+    readonly fixturesPath?: string;
+}
+
+/** A single scripted response. */
+export type MockFixtureEntry = string | { content: string; toolCalls?: ToolCall[]; finishReason?: FinishReason };
+
+/** Shape of the fixture file. */
+export interface MockFixtures {
+    /** Responses per agent role, consumed in call order. */
+    roles?: Record<string, MockFixtureEntry[]>;
+    /** Responses keyed by request hash (see `hashRequest`). */
+    hashes?: Record<string, MockFixtureEntry>;
+}
+
+/** Default mock settings. */
+const DEFAULTS = {
+    fixturesPath: '.aiagentflow/fixtures/mock.json',
+    model: 'mock',
+} as const;
+
+/**
+ * Mock provider implementation.
+ *
+ * Fixtures are read lazily on the first request, so a missing file only
+ * fails runs that actually use the mock provider.
+ */
+export class MockProvider implements LLMProvider {
+    public readonly name = 'mock' as const;
+    private readonly fixturesPath: string;
+    private fixtures: MockFixtures | null = null;
+    /** How many times each tag has been answered from `roles`. */
+    private readonly callCounts = new Map<string, number>();
+
+    /**
+     * @param projectRoot - Root that a relative `fixturesPath` is resolved against (default: the working directory)
+     */
+    constructor(config?: MockProviderConfig, projectRoot = process.cwd()) {
+        this.fixturesPath = resolve(projectRoot, config?.fixturesPath ?? DEFAULTS.fixturesPath);
+    }
+
+    /**
+     * Answer from the fixture file.
+     * @throws {ProviderError} if the fixture file is missing or no fixture matches.
+     */
+    async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+        throwIfCancelled(options?.signal, 'mock request cancelled');
+        const entry = this.resolveEntry(messages, options);
+        const content = typeof entry === 'string' ? entry : entry.content;
+        const toolCalls = typeof entry === 'string' ? undefined : entry.toolCalls;
+        const finishReason = typeof entry === 'string' ? undefined : entry.finishReason;
+
+        return {
+            content,
+            model: options?.model ?? DEFAULTS.model,
+            usage: estimateUsage(messages, options, content),
+            finishReason: finishReason ?? (toolCalls?.length ? 'tool_use' : 'stop'),
+            ...(toolCalls?.length && { toolCalls }),
+        };
+    }
+
+    /**
+     * Yield the fixture response as a single chunk.
+     * @throws {ProviderError} if the fixture file is missing or no fixture matches.
+     */
+    async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
+        const response = await this.chat(messages, options);
+        yield { content: response.content, done: false };
+        yield { content: '', done: true, usage: response.usage, finishReason: response.finishReason };
+    }
+
+    async listModels(): Promise<ModelInfo[]> {
+        return [{ id: DEFAULTS.model, name: 'Mock (fixture replay)', provider: 'mock' }];
+    }
+
+    async validateConnection(): Promise<boolean> {
+        return existsSync(this.fixturesPath);
+    }
+
+    // ── Private helpers ──
+
+    private resolveEntry(messages: ChatMessage[], options?: ChatOptions): MockFixtureEntry {
+        const fixtures = this.loadFixtures();
+        const hash = hashRequest(messages, options);
+
+        const byHash = fixtures.hashes?.[hash];
+        if (byHash !== undefined) {
+            logger.debug(`Mock: matched request hash ${hash}`);
+            return byHash;
+        }
+
+        const tag = options?.tag ?? 'default';
+        const sequence = fixtures.roles?.[tag];
+        if (sequence?.length) {
+            const call = this.callCounts.get(tag) ?? 0;
+            this.callCounts.set(tag, call + 1);
+            logger.debug(`Mock: replaying ${tag} response #${call + 1}`);
+            return sequence[Math.min(call, sequence.length - 1)]!;
+        }
+
+        throw new ProviderError(
+            `Mock provider has no fixture for "${tag}" (request hash ${hash}). Add it to ${this.fixturesPath}.`,
+            { provider: 'mock', tag, hash, fixturesPath: this.fixturesPath },
+        );
+    }
+
+    private loadFixtures(): MockFixtures {
+        if (this.fixtures) return this.fixtures;
+
+        try {
+            this.fixtures = readJsonFile<MockFixtures>(this.fixturesPath);
+        } catch (err) {
+            throw new ProviderError(
+                `Failed to load mock fixtures: ${err instanceof Error ? err.message : String(err)}`,
+                { provider: 'mock', fixturesPath: this.fixturesPath },
+            );
+        }
+        return this.fixtures;
+    }
+}
+
+/**
+ * Stable hash of a request: system prompt (with any reference context) plus
+ * every message's role and content.
+ * The first 16 hex chars of a SHA-256 are used as the fixture key.
+ */
+export function hashRequest(messages: ChatMessage[], options?: ChatOptions): string {
+    const payload = JSON.stringify({
+        system: systemPromptWithContext(options) ?? '',
+        messages: messages.map((m) => ({ role: m.role, content: m.content })),
+    });
+    return createHash('sha256').update(payload).digest('hex').slice(0, 16);
+}
+
+/** Deterministic usage estimate (see estimateTokens). */
+function estimateUsage(messages: ChatMessage[], options: ChatOptions | undefined, content: string): TokenUsage {
+    const promptTokens = estimateTokens((systemPromptWithContext(options) ?? '') + messages.map((m) => m.content).join(''));
+    const completionTokens = estimateTokens(content);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
@@ -0,0 +1,50 @@
+/**
+ * Model info lookup — cached access to provider model lists.
+ *
+ * Model lists carry metadata the workflow needs at run time (context
+ * window, pricing). Each provider's list is fetched at most once per
+ * process; unreachable or unconfigured providers yield no info.
+ *
+ * Dependency direction: model-info.ts → providers/registry, providers/types, config/types
+ * Used by: providers/pricing.ts, workflow context budget
+ */
+
+import type { ModelInfo, ProviderCandidate } from './types.js';
+import type { ProviderConfig } from '../core/config/types.js';
+import { createProvider } from './registry.js';
+
+/** Model lists keyed by provider (and instance). */
+const modelListCache = new Map<string, Promise<ModelInfo[]>>();
+
+/**
+ * Look up a model in its provider's model list.
+ *
+ * @returns The model's info, or undefined if the provider cannot list it
+ */
+export async function lookupModelInfo(
+    candidate: ProviderCandidate,
+    providers: ProviderConfig,
+): Promise<ModelInfo | undefined> {
+    const key = candidate.instance ? `${candidate.provider}:${candidate.instance}` : candidate.provider;
+
+    let models = modelListCache.get(key);
+    if (!models) {
+        models = listModelsSafely(candidate, providers);
+        modelListCache.set(key, models);
+    }
+
+    return (await models).find((m) => m.id === candidate.model);
+}
+
+/** Clear cached model lists (for tests). */
+export function clearModelInfoCache(): void {
+    modelListCache.clear();
+}
+
+async function listModelsSafely(candidate: ProviderCandidate, providers: ProviderConfig): Promise<ModelInfo[]> {
+    try {
+        return await createProvider(candidate.provider, providers, candidate.instance).listModels();
+    } catch {
+        return [];
+    }
+}
@@ -0,0 +1,45 @@
+/**
+ * Ollama model availability — which configured Ollama models are not pulled yet.
+ *
+ * A model that was never pulled otherwise surfaces as a 404 on the first
+ * agent call that uses it, deep into a run.
+ *
+ * Dependency direction: ollama-models.ts → providers/ollama, config/types
+ * Used by: workflow runner, cli/utils/ollama-setup.ts
+ */
+
+import type { AppConfig } from '../core/config/types.js';
+import { OllamaProvider } from './ollama.js';
+
+/** Ollama models used by any agent (built-in, custom or on the review panel), as primary or fallback (deduplicated, in config order). */
+export function configuredOllamaModels(config: AppConfig): string[] {
+    const models = [
+        ...Object.values(config.agents),
+        ...Object.values(config.customRoles),
+        ...config.reviewPanel.reviewers,
+    ].flatMap((agent) => [
+        ...(agent.provider === 'ollama' ? [agent.model] : []),
+        ...agent.fallbacks.filter((f) => f.provider === 'ollama').map((f) => f.model),
+    ]);
+    return [...new Set(models)];
+}
+
+/**
+ * Configured Ollama models that have not been pulled.
+ *
+ * @returns The missing models — empty when none are configured or Ollama cannot be reached
+ */
+export async function findMissingOllamaModels(config: AppConfig): Promise<string[]> {
+    const models = configuredOllamaModels(config);
+    if (models.length === 0) return [];
+
+    const provider = new OllamaProvider(config.providers.ollama);
+    // Check reachability without retries — an unreachable Ollama is reported elsewhere
+    if (!(await provider.validateConnection())) return [];
+
+    try {
+        return await provider.findMissingModels(models);
+    } catch {
+        return [];
+    }
+}
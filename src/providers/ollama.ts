@@ -2,7 +2,8 @@
  * Ollama local model provider adapter.
  *
  * Connects to the Ollama HTTP API (default: http://localhost:11434).
- * Supports chat completion, streaming, model listing, and health checks.
+ * Supports chat completion, streaming, model listing, and health checks,
+ * plus pulling missing models and preloading them into memory.
  *
  * Dependency direction: ollama.ts → providers/types.ts, core/errors.ts
  * Used by: providers/registry.ts
@@ -17,21 +18,43 @@ import type {
     ChatChunk,
     ModelInfo,
     TokenUsage,
+    ToolCall,
 } from './types.js';
 import { logger } from '../utils/logger.js';
 import { fetchWithRetry, OLLAMA_TIMEOUT_MS } from './provider-errors.js';
+import { normalizeFinishReason } from './finish-reason.js';
+import { parseToolArguments } from './openai-format.js';
+import { systemPromptWithContext } from './reference-context.js';
 
 /** Configuration required to create an Ollama provider. */
 export interface OllamaProviderConfig {
     readonly baseUrl?: string;
 }
 
+/** Progress reported while pulling a model. */
+export interface PullProgress {
+    /** Ollama's status line, e.g. "pulling manifest" or "pulling 6a0746a1ec1a". */
+    status: string;
+    /** Bytes downloaded and total bytes of the current layer, when downloading. */
+    completed?: number;
+    total?: number;
+}
+
 /** Default Ollama settings. */
 const DEFAULTS = {
     baseUrl: 'http://localhost:11434',
     model: 'llama3.2:latest',
+    keepAlive: '30m',
 } as const;
 
+/** Pulls download gigabytes — allow far longer than a chat request. */
+const PULL_TIMEOUT_MS = 2 * 60 * 60_000;
+
+/** Ollama treats a model name without a tag as ":latest". */
+export function normalizeOllamaModel(model: string): string {
+    return model.includes(':') ? model : `${model}:latest`;
+}
+
 /**
  * Ollama local model provider implementation.
  *
@@ -64,16 +87,29 @@ export class OllamaProvider implements LLMProvider {
         if (options?.maxTokens !== undefined) {
             body.options = { ...(body.options as Record<string, unknown> ?? {}), num_predict: options.maxTokens };
         }
+        if (options?.responseSchema) {
+            body.format = options.responseSchema.schema;
+        }
+        // Ollama has no tool_choice parameter — 'none' simply omits the tools
+        if (options?.tools?.length && options.toolChoice !== 'none') {
+            body.tools = options.tools.map((tool) => ({
+                type: 'function',
+                function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+            }));
+        }
 
         logger.debug(`Ollama chat request: model=${model}, messages=${ollamaMessages.length}`);
 
-        const response = await this.request('/api/chat', body);
+        const response = await this.request('/api/chat', body, options?.signal);
+
+        const message = response.message as Record<string, unknown> | undefined;
 
         return {
-            content: (response.message as Record<string, string>)?.content ?? '',
+            content: (message?.content as string | undefined) ?? '',
             model: (response.model as string) ?? model,
             usage: this.extractUsage(response),
-            finishReason: (response.done_reason as string) ?? 'stop',
+            finishReason: normalizeFinishReason(response.done_reason ?? 'stop'),
+            toolCalls: this.extractToolCalls(message),
         };
     }
 
@@ -100,7 +136,7 @@ export class OllamaProvider implements LLMProvider {
         const response = await fetchWithRetry(
             `${this.baseUrl}/api/chat`,
             { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
-            { provider: 'ollama', baseUrl: this.baseUrl, timeoutMs: OLLAMA_TIMEOUT_MS },
+            { provider: 'ollama', baseUrl: this.baseUrl, timeoutMs: OLLAMA_TIMEOUT_MS, signal: options?.signal },
         );
 
         if (!response.body) {
@@ -128,8 +164,16 @@ export class OllamaProvider implements LLMProvider {
                         const content = data.message?.content ?? '';
                         const isDone = data.done === true;
 
-                        if (content || isDone) {
-                            yield { content, done: isDone };
+                        if (isDone) {
+                            // The final line carries prompt_eval_count / eval_count
+                            yield {
+                                content,
+                                done: true,
+                                usage: this.extractUsage(data),
+                                finishReason: normalizeFinishReason(data.done_reason ?? 'stop'),
+                            };
+                        } else if (content) {
+                            yield { content, done: false };
                         }
 
                         if (isDone) return;
@@ -146,23 +190,98 @@ export class OllamaProvider implements LLMProvider {
     }
 
     /**
-     * List available models from the local Ollama instance.
+     * List available models from the local Ollama instance, with the context
+     * length each one was trained for (from `/api/show`, when it reports one).
      */
     async listModels(): Promise<ModelInfo[]> {
+        const models = await this.pulledModels();
+        return Promise.all(models.map(async (model) => ({
+            id: model,
+            name: model,
+            provider: 'ollama' as const,
+            contextWindow: await this.contextLength(model),
+        })));
+    }
+
+    /**
+     * Find which of `models` have not been pulled to the local Ollama instance.
+     * "llama3.2" and "llama3.2:latest" name the same model.
+     */
+    async findMissingModels(models: readonly string[]): Promise<string[]> {
+        const pulled = new Set((await this.pulledModels()).map(normalizeOllamaModel));
+        return models.filter((model) => !pulled.has(normalizeOllamaModel(model)));
+    }
+
+    /**
+     * Download a model with `/api/pull`, reporting progress as it goes.
+     *
+     * @throws ProviderError if Ollama reports an error (e.g. unknown model)
+     */
+    async pullModel(model: string, onProgress?: (progress: PullProgress) => void, signal?: AbortSignal): Promise<void> {
         const response = await fetchWithRetry(
-            `${this.baseUrl}/api/tags`,
-            { method: 'GET' },
-            { provider: 'ollama', baseUrl: this.baseUrl, timeoutMs: OLLAMA_TIMEOUT_MS },
+            `${this.baseUrl}/api/pull`,
+            { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ model, stream: true }) },
+            { provider: 'ollama', baseUrl: this.baseUrl, timeoutMs: PULL_TIMEOUT_MS, signal },
         );
 
-        const data = await response.json() as { models?: Array<Record<string, unknown>> };
-        const models = data.models ?? [];
+        if (!response.body) {
+            throw new ProviderError('Ollama response has no body', { provider: 'ollama' });
+        }
 
-        return models.map((m) => ({
-            id: String(m.name ?? m.model ?? ''),
-            name: String(m.name ?? m.model ?? 'Unknown'),
-            provider: 'ollama' as const,
-        }));
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let succeeded = false;
+
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+
+                for (const line of lines) {
+                    if (!line.trim()) continue;
+
+                    let data: Record<string, unknown>;
+                    try {
+                        data = JSON.parse(line) as Record<string, unknown>;
+                    } catch {
+                        continue;
+                    }
+
+                    if (typeof data.error === 'string') {
+                        throw new ProviderError(`Ollama could not pull "${model}": ${data.error}`, { provider: 'ollama', model });
+                    }
+
+                    const status = String(data.status ?? '');
+                    if (status === 'success') succeeded = true;
+                    onProgress?.({
+                        status,
+                        ...(typeof data.completed === 'number' && { completed: data.completed }),
+                        ...(typeof data.total === 'number' && { total: data.total }),
+                    });
+                }
+            }
+        } finally {
+            reader.releaseLock();
+        }
+
+        if (!succeeded) {
+            throw new ProviderError(`Ollama pull of "${model}" ended before it completed`, { provider: 'ollama', model });
+        }
+    }
+
+    /**
+     * Load a model into memory so the first agent call does not pay the load time.
+     *
+     * @param keepAlive - How long Ollama keeps the model loaded, e.g. "30m" or "1h"
+     */
+    async warmUp(model: string, keepAlive: string = DEFAULTS.keepAlive): Promise<void> {
+        // A generate request without a prompt only loads the model
+        await this.request('/api/generate', { model, keep_alive: keepAlive });
     }
 
     /**
@@ -182,26 +301,84 @@ export class OllamaProvider implements LLMProvider {
     private prepareMessages(
         messages: ChatMessage[],
         options?: ChatOptions,
-    ): Array<{ role: string; content: string }> {
-        const result: Array<{ role: string; content: string }> = [];
+    ): Array<Record<string, unknown>> {
+        const result: Array<Record<string, unknown>> = [];
 
         // Add system prompt if provided via options
-        if (options?.systemPrompt) {
-            result.push({ role: 'system', content: options.systemPrompt });
+        const systemPrompt = systemPromptWithContext(options);
+        if (systemPrompt) {
+            result.push({ role: 'system', content: systemPrompt });
         }
 
         for (const msg of messages) {
-            result.push({ role: msg.role, content: msg.content });
+            if (msg.role === 'tool') {
+                result.push({ role: 'tool', content: msg.content, tool_name: msg.toolName });
+            } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+                result.push({
+                    role: 'assistant',
+                    content: msg.content,
+                    tool_calls: msg.toolCalls.map((call) => ({
+                        function: { name: call.name, arguments: call.arguments },
+                    })),
+                });
+            } else {
+                result.push({
+                    role: msg.role,
+                    content: msg.content,
+                    // Vision models (llava, llama3.2-vision, ...) take raw base64 images
+                    ...(msg.images?.length && { images: msg.images.map((image) => image.data) }),
+                });
+            }
         }
 
         return result;
     }
 
-    private async request(path: string, body: Record<string, unknown>): Promise<Record<string, unknown>> {
+    /** Ollama returns arguments as an object and has no call IDs — synthesize them. */
+    private extractToolCalls(message: Record<string, unknown> | undefined): ToolCall[] | undefined {
+        const rawCalls = message?.tool_calls as Array<{ function?: { name?: string; arguments?: unknown } }> | undefined;
+        if (!rawCalls?.length) return undefined;
+
+        return rawCalls.map((raw, index) => ({
+            id: `call_${index}`,
+            name: raw.function?.name ?? '',
+            arguments: parseToolArguments(raw.function?.arguments),
+        }));
+    }
+
+    /** Names of the models pulled to the local Ollama instance. */
+    private async pulledModels(): Promise<string[]> {
+        const response = await fetchWithRetry(
+            `${this.baseUrl}/api/tags`,
+            { method: 'GET' },
+            { provider: 'ollama', baseUrl: this.baseUrl, timeoutMs: OLLAMA_TIMEOUT_MS },
+        );
+
+        const data = await response.json() as { models?: Array<Record<string, unknown>> };
+        return (data.models ?? []).map((m) => String(m.name ?? m.model ?? ''));
+    }
+
+    /** A model's `<architecture>.context_length`, or undefined when Ollama does not report one. */
+    private async contextLength(model: string): Promise<number | undefined> {
+        try {
+            const info = (await this.request('/api/show', { model })).model_info as Record<string, unknown> | undefined;
+            const key = Object.keys(info ?? {}).find((k) => k.endsWith('.context_length'));
+            const length = key ? info?.[key] : undefined;
+            return typeof length === 'number' ? length : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async request(
+        path: string,
+        body: Record<string, unknown>,
+        signal?: AbortSignal,
+    ): Promise<Record<string, unknown>> {
         const response = await fetchWithRetry(
             `${this.baseUrl}${path}`,
             { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) },
-            { provider: 'ollama', baseUrl: this.baseUrl, timeoutMs: OLLAMA_TIMEOUT_MS },
+            { provider: 'ollama', baseUrl: this.baseUrl, timeoutMs: OLLAMA_TIMEOUT_MS, signal },
         );
 
         return response.json() as Promise<Record<string, unknown>>;
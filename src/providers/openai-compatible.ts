@@ -0,0 +1,291 @@
+/**
+ * Generic OpenAI-compatible provider adapter.
+ *
+ * Talks to any server that implements the OpenAI Chat Completions API —
+ * vLLM, llama.cpp server, LM Studio, LocalAI, and similar. Several named
+ * instances can be configured side by side, each with its own base URL,
+ * headers, and model-list behavior.
+ *
+ * Dependency direction: openai-compatible.ts → providers/types.ts, core/errors.ts
+ * Used by: providers/registry.ts
+ */
+
+import { ProviderError } from '../core/errors.js';
+import type {
+    LLMProvider,
+    ChatMessage,
+    ChatOptions,
+    ChatResponse,
+    ChatChunk,
+    ModelInfo,
+    TokenUsage,
+} from './types.js';
+import { logger } from '../utils/logger.js';
+import { fetchWithRetry, OLLAMA_TIMEOUT_MS } from './provider-errors.js';
+import { normalizeFinishReason } from './finish-reason.js';
+import {
+    toOpenAIMessages,
+    applyOpenAITools,
+    applyOpenAIResponseFormat,
+    parseOpenAIToolCalls,
+} from './openai-format.js';
+
+/** Configuration for one named OpenAI-compatible instance. */
+export interface OpenAICompatibleProviderConfig {
+    /** Server base URL, e.g. http://localhost:8000/v1 ("/v1" is appended if missing). */
+    readonly baseUrl: string;
+    /** Bearer token, if the server requires one. */
+    readonly apiKey?: string;
+    /** Extra HTTP headers sent with every request. */
+    readonly headers?: Record<string, string>;
+    /** Static model list. When set, `/models` is never queried. */
+    readonly models?: readonly string[];
+    /** Request usage on streamed responses via `stream_options` (disable for servers that reject it). */
+    readonly streamUsage?: boolean;
+}
+
+/**
+ * OpenAI-compatible provider implementation.
+ *
+ * Self-hosted servers are often slow on first load, so requests use the
+ * same long timeout as Ollama.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    public readonly name = 'openai-compatible' as const;
+    /** Instance name from config, e.g. "vllm". */
+    public readonly instance: string;
+    private readonly baseUrl: string;
+    private readonly apiKey?: string;
+    private readonly headers: Record<string, string>;
+    private readonly models?: readonly string[];
+    private readonly streamUsage: boolean;
+
+    constructor(instance: string, config: OpenAICompatibleProviderConfig) {
+        if (!config.baseUrl) {
+            throw new ProviderError(
+                `OpenAI-compatible instance "${instance}" needs a baseUrl`,
+                { provider: 'openai-compatible', instance },
+            );
+        }
+        this.instance = instance;
+        this.baseUrl = normalizeBaseUrl(config.baseUrl);
+        this.apiKey = config.apiKey;
+        this.headers = config.headers ?? {};
+        this.models = config.models;
+        this.streamUsage = config.streamUsage ?? true;
+    }
+
+    /**
+     * Send a non-streaming chat completion request.
+     */
+    async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+        const apiMessages = toOpenAIMessages(messages, options);
+        const model = this.resolveModel(options);
+
+        const body: Record<string, unknown> = {
+            model,
+            messages: apiMessages,
+        };
+
+        if (options?.maxTokens !== undefined) {
+            body.max_tokens = options.maxTokens;
+        }
+        if (options?.temperature !== undefined) {
+            body.temperature = options.temperature;
+        }
+        if (options?.stopSequences?.length) {
+            body.stop = options.stopSequences;
+        }
+        applyOpenAITools(body, options);
+        applyOpenAIResponseFormat(body, options);
+
+        logger.debug(`${this.label} chat request: model=${model}, messages=${apiMessages.length}`);
+
+        const response = await this.request('/chat/completions', body, options?.signal);
+
+        const choice = (response.choices as Array<Record<string, unknown>>)?.[0];
+        const message = choice?.message as Record<string, unknown> | undefined;
+        const content = (message?.content as string) ?? '';
+
+        return {
+            content,
+            model: (response.model as string) ?? model,
+            usage: this.extractUsage(response),
+            finishReason: normalizeFinishReason(choice?.finish_reason),
+            toolCalls: parseOpenAIToolCalls(message),
+        };
+    }
+
+    /**
+     * Send a streaming chat completion request.
+     */
+    async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
+        const apiMessages = toOpenAIMessages(messages, options);
+        const model = this.resolveModel(options);
+
+        const body: Record<string, unknown> = {
+            model,
+            messages: apiMessages,
+            stream: true,
+        };
+
+        if (this.streamUsage) {
+            body.stream_options = { include_usage: true };
+        }
+        if (options?.maxTokens !== undefined) {
+            body.max_tokens = options.maxTokens;
+        }
+        if (options?.temperature !== undefined) {
+            body.temperature = options.temperature;
+        }
+
+        const response = await fetchWithRetry(
+            `${this.baseUrl}/chat/completions`,
+            { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(body) },
+            { provider: this.label, baseUrl: this.baseUrl, timeoutMs: OLLAMA_TIMEOUT_MS, signal: options?.signal },
+        );
+
+        if (!response.body) {
+            throw new ProviderError(`${this.label} response has no body`, { provider: this.label });
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let usage: TokenUsage | undefined;
+        let finishReason: unknown;
+
+        try {
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true });
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+
+                for (const line of lines) {
+                    if (!line.startsWith('data: ')) continue;
+                    const data = line.slice(6).trim();
+                    if (data === '[DONE]') {
+                        yield { content: '', done: true, usage, finishReason: normalizeFinishReason(finishReason) };
+                        return;
+                    }
+
+                    try {
+                        const event = JSON.parse(data);
+                        if (event.usage) {
+                            usage = this.extractUsage(event);
+                        }
+                        const delta = event.choices?.[0]?.delta;
+                        finishReason = event.choices?.[0]?.finish_reason ?? finishReason;
+                        if (delta?.content) {
+                            yield { content: delta.content, done: false };
+                        }
+                    } catch {
+                        // Skip unparseable lines
+                    }
+                }
+            }
+        } finally {
+            reader.releaseLock();
+        }
+
+        yield { content: '', done: true, usage, finishReason: normalizeFinishReason(finishReason) };
+    }
+
+    /**
+     * List models — the static list from config if set, otherwise `/models`.
+     */
+    async listModels(): Promise<ModelInfo[]> {
+        if (this.models) {
+            return this.models.map((id) => ({ id, name: id, provider: this.name }));
+        }
+
+        const response = await fetchWithRetry(
+            `${this.baseUrl}/models`,
+            { method: 'GET', headers: this.getHeaders() },
+            { provider: this.label, baseUrl: this.baseUrl, timeoutMs: OLLAMA_TIMEOUT_MS },
+        );
+
+        // vLLM reports each model's window as `max_model_len`
+        const body = await response.json() as { data?: Array<{ id: string; max_model_len?: number }> };
+        return (body.data ?? []).map((m) => ({
+            id: m.id,
+            name: m.id,
+            provider: this.name,
+            contextWindow: m.max_model_len,
+        }));
+    }
+
+    /**
+     * Validate that the server is reachable. With a static model list, any
+     * HTTP response counts — the server may not implement `/models`.
+     */
+    async validateConnection(): Promise<boolean> {
+        try {
+            const response = await fetch(`${this.baseUrl}/models`, {
+                method: 'GET',
+                headers: this.getHeaders(),
+            });
+
+            return this.models ? true : response.ok;
+        } catch {
+            return false;
+        }
+    }
+
+    // ── Private helpers ──
+
+    /** Label used in logs and errors, e.g. "openai-compatible:vllm". */
+    private get label(): string {
+        return `${this.name}:${this.instance}`;
+    }
+
+    private resolveModel(options?: ChatOptions): string {
+        const model = options?.model ?? this.models?.[0];
+        if (!model) {
+            throw new ProviderError(
+                `No model given for ${this.label} — set "model" on the agent or "models" on the instance`,
+                { provider: this.label },
+            );
+        }
+        return model;
+    }
+
+    private getHeaders(): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+            ...this.headers,
+        };
+    }
+
+    private async request(
+        path: string,
+        body: Record<string, unknown>,
+        signal?: AbortSignal,
+    ): Promise<Record<string, unknown>> {
+        const response = await fetchWithRetry(
+            `${this.baseUrl}${path}`,
+            { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(body) },
+            { provider: this.label, baseUrl: this.baseUrl, timeoutMs: OLLAMA_TIMEOUT_MS, signal },
+        );
+
+        return response.json() as Promise<Record<string, unknown>>;
+    }
+
+    private extractUsage(response: Record<string, unknown>): TokenUsage {
+        const usage = response.usage as Record<string, number> | undefined;
+        return {
+            promptTokens: usage?.prompt_tokens ?? 0,
+            completionTokens: usage?.completion_tokens ?? 0,
+            totalTokens: usage?.total_tokens ?? 0,
+        };
+    }
+}
+
+function normalizeBaseUrl(baseUrl: string): string {
+    const trimmed = baseUrl.replace(/\/+$/, '');
+    return trimmed.endsWith('/v1') ? trimmed : `${trimmed}/v1`;
+}
@@ -0,0 +1,125 @@
+/**
+ * Shared request/response mapping for OpenAI-style Chat Completions APIs.
+ *
+ * OpenAI, Groq, and OpenRouter all speak the same wire format for messages
+ * and tool calls, so the conversion lives here instead of in each adapter.
+ *
+ * Dependency direction: openai-format.ts → providers/types.ts
+ * Used by: openai.ts, groq.ts, openrouter.ts, openai-compatible.ts
+ */
+
+import type { ChatMessage, ChatOptions, ToolCall, ToolDefinition } from './types.js';
+import { systemPromptWithContext } from './reference-context.js';
+
+/**
+ * Convert provider-neutral messages into OpenAI `messages` entries.
+ * The system prompt (after any reference context) is prepended as a `system` message.
+ * Images become `image_url` parts carrying a base64 data URL.
+ */
+export function toOpenAIMessages(
+    messages: ChatMessage[],
+    options?: ChatOptions,
+): Array<Record<string, unknown>> {
+    const apiMessages: Array<Record<string, unknown>> = [];
+
+    const systemPrompt = systemPromptWithContext(options);
+    if (systemPrompt) {
+        apiMessages.push({ role: 'system', content: systemPrompt });
+    }
+
+    for (const msg of messages) {
+        if (msg.role === 'tool') {
+            apiMessages.push({ role: 'tool', tool_call_id: msg.toolCallId, content: msg.content });
+        } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+            apiMessages.push({
+                role: 'assistant',
+                content: msg.content || null,
+                tool_calls: msg.toolCalls.map((call) => ({
+                    id: call.id,
+                    type: 'function',
+                    function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+                })),
+            });
+        } else if (msg.images?.length) {
+            apiMessages.push({
+                role: msg.role,
+                content: [
+                    { type: 'text', text: msg.content },
+                    ...msg.images.map((image) => ({
+                        type: 'image_url',
+                        image_url: { url: `data:${image.mediaType};base64,${image.data}` },
+                    })),
+                ],
+            });
+        } else {
+            apiMessages.push({ role: msg.role, content: msg.content });
+        }
+    }
+
+    return apiMessages;
+}
+
+/**
+ * Add `tools` / `tool_choice` to a request body when tools are supplied.
+ */
+export function applyOpenAITools(body: Record<string, unknown>, options?: ChatOptions): void {
+    if (!options?.tools?.length) return;
+
+    body.tools = options.tools.map((tool: ToolDefinition) => ({
+        type: 'function',
+        function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.parameters,
+        },
+    }));
+    body.tool_choice = options.toolChoice ?? 'auto';
+}
+
+/**
+ * Add a `json_schema` response_format when a response schema is supplied.
+ * Non-strict, since strict mode rejects schemas with optional properties.
+ */
+export function applyOpenAIResponseFormat(body: Record<string, unknown>, options?: ChatOptions): void {
+    if (!options?.responseSchema) return;
+
+    body.response_format = {
+        type: 'json_schema',
+        json_schema: {
+            name: options.responseSchema.name,
+            schema: options.responseSchema.schema,
+            strict: false,
+        },
+    };
+}
+
+/**
+ * Extract tool calls from an OpenAI response message.
+ * Arguments arrive as a JSON string; unparseable arguments become an empty object.
+ */
+export function parseOpenAIToolCalls(message: Record<string, unknown> | undefined): ToolCall[] | undefined {
+    const rawCalls = message?.tool_calls as Array<Record<string, unknown>> | undefined;
+    if (!rawCalls?.length) return undefined;
+
+    return rawCalls.map((raw, index) => {
+        const fn = raw.function as { name?: string; arguments?: string } | undefined;
+        return {
+            id: (raw.id as string | undefined) ?? `call_${index}`,
+            name: fn?.name ?? '',
+            arguments: parseToolArguments(fn?.arguments),
+        };
+    });
+}
+
+/** Parse a JSON-encoded argument string into an object. */
+export function parseToolArguments(raw: unknown): Record<string, unknown> {
+    if (raw && typeof raw === 'object') return raw as Record<string, unknown>;
+    if (typeof raw !== 'string' || !raw.trim()) return {};
+
+    try {
+        const parsed = JSON.parse(raw);
+        return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : {};
+    } catch {
+        return {};
+    }
+}
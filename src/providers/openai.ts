@@ -4,7 +4,7 @@
  * Uses the OpenAI Chat Completions API directly via fetch() — no SDK dependency.
  * Matches the existing pattern established by the Anthropic adapter.
  *
- * Dependency direction: openai.ts → providers/types.ts, core/errors.ts
+ * Dependency direction: openai.ts → providers/types.ts, providers/metadata.ts, core/errors.ts
  * Used by: providers/registry.ts
  */
 
@@ -20,6 +20,14 @@ import type {
 } from './types.js';
 import { logger } from '../utils/logger.js';
 import { fetchWithRetry, PROVIDER_TIMEOUT_MS } from './provider-errors.js';
+import { normalizeFinishReason } from './finish-reason.js';
+import { knownContextWindow } from './metadata.js';
+import {
+    toOpenAIMessages,
+    applyOpenAITools,
+    applyOpenAIResponseFormat,
+    parseOpenAIToolCalls,
+} from './openai-format.js';
 
 /** Configuration required to create an OpenAI provider. */
 export interface OpenAIProviderConfig {
@@ -60,7 +68,7 @@ export class OpenAIProvider implements LLMProvider {
      * Send a non-streaming chat completion request.
      */
     async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
-        const apiMessages = this.prepareMessages(messages, options);
+        const apiMessages = toOpenAIMessages(messages, options);
         const model = options?.model ?? DEFAULTS.model;
 
         const body: Record<string, unknown> = {
@@ -77,10 +85,12 @@ export class OpenAIProvider implements LLMProvider {
         if (options?.stopSequences?.length) {
             body.stop = options.stopSequences;
         }
+        applyOpenAITools(body, options);
+        applyOpenAIResponseFormat(body, options);
 
         logger.debug(`OpenAI chat request: model=${model}, messages=${apiMessages.length}`);
 
-        const response = await this.request('/v1/chat/completions', body);
+        const response = await this.request('/v1/chat/completions', body, options?.signal);
 
         const choice = (response.choices as Array<Record<string, unknown>>)?.[0];
         const message = choice?.message as Record<string, unknown> | undefined;
@@ -91,7 +101,8 @@ export class OpenAIProvider implements LLMProvider {
             content,
             model: (response.model as string) ?? model,
             usage,
-            finishReason: (choice?.finish_reason as string) ?? 'unknown',
+            finishReason: normalizeFinishReason(choice?.finish_reason),
+            toolCalls: parseOpenAIToolCalls(message),
         };
     }
 
@@ -99,13 +110,14 @@ export class OpenAIProvider implements LLMProvider {
      * Send a streaming chat completion request.
      */
     async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
-        const apiMessages = this.prepareMessages(messages, options);
+        const apiMessages = toOpenAIMessages(messages, options);
         const model = options?.model ?? DEFAULTS.model;
 
         const body: Record<string, unknown> = {
             model,
             messages: apiMessages,
             stream: true,
+            stream_options: { include_usage: true },
         };
 
         if (options?.maxTokens !== undefined) {
@@ -118,7 +130,7 @@ export class OpenAIProvider implements LLMProvider {
         const response = await fetchWithRetry(
             `${this.baseUrl}/v1/chat/completions`,
             { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(body) },
-            { provider: 'openai', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS },
+            { provider: 'openai', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS, signal: options?.signal },
         );
 
         if (!response.body) {
@@ -128,6 +140,8 @@ export class OpenAIProvider implements LLMProvider {
         const reader = response.body.getReader();
         const decoder = new TextDecoder();
         let buffer = '';
+        let usage: TokenUsage | undefined;
+        let finishReason: unknown;
 
         try {
             while (true) {
@@ -142,20 +156,21 @@ export class OpenAIProvider implements LLMProvider {
                     if (!line.startsWith('data: ')) continue;
                     const data = line.slice(6).trim();
                     if (data === '[DONE]') {
-                        yield { content: '', done: true };
+                        yield { content: '', done: true, usage, finishReason: normalizeFinishReason(finishReason) };
                         return;
                     }
 
                     try {
                         const event = JSON.parse(data);
+                        // With include_usage, usage arrives on a final chunk with no choices
+                        if (event.usage) {
+                            usage = this.extractUsage(event);
+                        }
                         const delta = event.choices?.[0]?.delta;
+                        finishReason = event.choices?.[0]?.finish_reason ?? finishReason;
                         if (delta?.content) {
                             yield { content: delta.content, done: false };
                         }
-                        if (event.choices?.[0]?.finish_reason) {
-                            yield { content: '', done: true };
-                            return;
-                        }
                     } catch {
                         // Skip unparseable lines
                     }
@@ -165,7 +180,7 @@ export class OpenAIProvider implements LLMProvider {
             reader.releaseLock();
         }
 
-        yield { content: '', done: true };
+        yield { content: '', done: true, usage, finishReason: normalizeFinishReason(finishReason) };
     }
 
     /**
@@ -185,6 +200,7 @@ export class OpenAIProvider implements LLMProvider {
             id: m.id,
             name: m.id,
             provider: 'openai' as const,
+            contextWindow: knownContextWindow(m.id),
         }));
     }
 
@@ -219,37 +235,20 @@ export class OpenAIProvider implements LLMProvider {
         return headers;
     }
 
-    private async request(path: string, body: Record<string, unknown>): Promise<Record<string, unknown>> {
+    private async request(
+        path: string,
+        body: Record<string, unknown>,
+        signal?: AbortSignal,
+    ): Promise<Record<string, unknown>> {
         const response = await fetchWithRetry(
             `${this.baseUrl}${path}`,
             { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(body) },
-            { provider: 'openai', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS },
+            { provider: 'openai', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS, signal },
         );
 
         return response.json() as Promise<Record<string, unknown>>;
     }
 
-    /**
-     * Prepare messages for the OpenAI API.
-     * OpenAI supports system role natively in the messages array.
-     */
-    private prepareMessages(
-        messages: ChatMessage[],
-        options?: ChatOptions,
-    ): Array<{ role: string; content: string }> {
-        const apiMessages: Array<{ role: string; content: string }> = [];
-
-        if (options?.systemPrompt) {
-            apiMessages.push({ role: 'system', content: options.systemPrompt });
-        }
-
-        for (const msg of messages) {
-            apiMessages.push({ role: msg.role, content: msg.content });
-        }
-
-        return apiMessages;
-    }
-
     private extractUsage(response: Record<string, unknown>): TokenUsage {
         const usage = response.usage as Record<string, number> | undefined;
         return {
@@ -20,10 +20,18 @@ import type {
     ChatResponse,
     ChatChunk,
     ModelInfo,
+    ModelPricing,
     TokenUsage,
 } from './types.js';
 import { logger } from '../utils/logger.js';
 import { fetchWithRetry, PROVIDER_TIMEOUT_MS } from './provider-errors.js';
+import { normalizeFinishReason } from './finish-reason.js';
+import {
+    toOpenAIMessages,
+    applyOpenAITools,
+    applyOpenAIResponseFormat,
+    parseOpenAIToolCalls,
+} from './openai-format.js';
 
 /** Configuration required to create an OpenRouter provider. */
 export interface OpenRouterProviderConfig {
@@ -71,7 +79,7 @@ export class OpenRouterProvider implements LLMProvider {
      * Send a non-streaming chat completion request.
      */
     async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
-        const apiMessages = this.prepareMessages(messages, options);
+        const apiMessages = toOpenAIMessages(messages, options);
         const model = options?.model ?? DEFAULTS.model;
 
         const body: Record<string, unknown> = {
@@ -88,13 +96,15 @@ export class OpenRouterProvider implements LLMProvider {
         if (options?.stopSequences?.length) {
             body.stop = options.stopSequences;
         }
+        applyOpenAITools(body, options);
+        applyOpenAIResponseFormat(body, options);
 
         logger.debug(`OpenRouter chat request: model=${model}, messages=${apiMessages.length}`);
 
         const response = await fetchWithRetry(
             `${this.baseUrl}/chat/completions`,
             { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(body) },
-            { provider: 'openrouter', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS },
+            { provider: 'openrouter', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS, signal: options?.signal },
         );
 
         const data = await response.json() as Record<string, unknown>;
@@ -107,7 +117,8 @@ export class OpenRouterProvider implements LLMProvider {
             content,
             model: (data.model as string) ?? model,
             usage,
-            finishReason: (choice?.finish_reason as string) ?? 'unknown',
+            finishReason: normalizeFinishReason(choice?.finish_reason),
+            toolCalls: parseOpenAIToolCalls(message),
         };
     }
 
@@ -115,13 +126,14 @@ export class OpenRouterProvider implements LLMProvider {
      * Send a streaming chat completion request.
      */
     async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
-        const apiMessages = this.prepareMessages(messages, options);
+        const apiMessages = toOpenAIMessages(messages, options);
         const model = options?.model ?? DEFAULTS.model;
 
         const body: Record<string, unknown> = {
             model,
             messages: apiMessages,
             stream: true,
+            stream_options: { include_usage: true },
         };
 
         if (options?.maxTokens !== undefined) {
@@ -134,7 +146,7 @@ export class OpenRouterProvider implements LLMProvider {
         const response = await fetchWithRetry(
             `${this.baseUrl}/chat/completions`,
             { method: 'POST', headers: this.getHeaders(), body: JSON.stringify(body) },
-            { provider: 'openrouter', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS },
+            { provider: 'openrouter', baseUrl: this.baseUrl, timeoutMs: PROVIDER_TIMEOUT_MS, signal: options?.signal },
         );
 
         if (!response.body) {
@@ -144,6 +156,8 @@ export class OpenRouterProvider implements LLMProvider {
         const reader = response.body.getReader();
         const decoder = new TextDecoder();
         let buffer = '';
+        let usage: TokenUsage | undefined;
+        let finishReason: unknown;
 
         try {
             while (true) {
@@ -158,13 +172,18 @@ export class OpenRouterProvider implements LLMProvider {
                     if (!line.startsWith('data: ')) continue;
                     const data = line.slice(6).trim();
                     if (data === '[DONE]') {
-                        yield { content: '', done: true };
+                        yield { content: '', done: true, usage, finishReason: normalizeFinishReason(finishReason) };
                         return;
                     }
 
                     try {
                         const event = JSON.parse(data);
+                        // With include_usage, usage arrives on a final chunk with no choices
+                        if (event.usage) {
+                            usage = this.extractUsage(event);
+                        }
                         const delta = event.choices?.[0]?.delta;
+                        finishReason = event.choices?.[0]?.finish_reason ?? finishReason;
                         if (delta?.content) {
                             yield { content: delta.content, done: false };
                         }
@@ -177,11 +196,12 @@ export class OpenRouterProvider implements LLMProvider {
             reader.releaseLock();
         }
 
-        yield { content: '', done: true };
+        yield { content: '', done: true, usage, finishReason: normalizeFinishReason(finishReason) };
     }
 
     /**
      * List available models from OpenRouter (filtered to text generation models).
+     * Per-token prices from the API are converted to USD per 1M tokens.
      */
     async listModels(): Promise<ModelInfo[]> {
         const response = await fetchWithRetry(
@@ -191,7 +211,7 @@ export class OpenRouterProvider implements LLMProvider {
         );
 
         const body = await response.json() as {
-            data?: Array<{ id: string; context_length?: number }>;
+            data?: Array<{ id: string; context_length?: number; pricing?: Record<string, string | undefined> }>;
         };
         const models = body.data ?? [];
 
@@ -200,6 +220,7 @@ export class OpenRouterProvider implements LLMProvider {
             name: m.id,
             provider: 'openrouter' as const,
             contextWindow: m.context_length,
+            pricing: toModelPricing(m.pricing),
         }));
     }
 
@@ -229,23 +250,6 @@ export class OpenRouterProvider implements LLMProvider {
         };
     }
 
-    private prepareMessages(
-        messages: ChatMessage[],
-        options?: ChatOptions,
-    ): Array<{ role: string; content: string }> {
-        const apiMessages: Array<{ role: string; content: string }> = [];
-
-        if (options?.systemPrompt) {
-            apiMessages.push({ role: 'system', content: options.systemPrompt });
-        }
-
-        for (const msg of messages) {
-            apiMessages.push({ role: msg.role, content: msg.content });
-        }
-
-        return apiMessages;
-    }
-
     private extractUsage(response: Record<string, unknown>): TokenUsage {
         const usage = response.usage as Record<string, number> | undefined;
         return {
@@ -255,3 +259,24 @@ export class OpenRouterProvider implements LLMProvider {
         };
     }
 }
+
+/** Convert OpenRouter's per-token price strings into USD per 1M tokens. */
+function toModelPricing(pricing: Record<string, string | undefined> | undefined): ModelPricing | undefined {
+    const perMillion = (value: string | undefined) => {
+        const parsed = Number(value);
+        return value !== undefined && Number.isFinite(parsed) && parsed >= 0 ? parsed * 1_000_000 : undefined;
+    };
+
+    const input = perMillion(pricing?.prompt);
+    const output = perMillion(pricing?.completion);
+    if (input === undefined || output === undefined) return undefined;
+
+    const cacheRead = perMillion(pricing?.input_cache_read);
+    const cacheWrite = perMillion(pricing?.input_cache_write);
+    return {
+        input,
+        output,
+        ...(cacheRead !== undefined && { cacheRead }),
+        ...(cacheWrite !== undefined && { cacheWrite }),
+    };
+}
@@ -0,0 +1,107 @@
+/**
+ * Model pricing — built-in prices, config overrides, and discovery.
+ *
+ * Prices are USD per 1M tokens. Built-in prices cover each provider's
+ * default model plus common alternatives; entries under `pricing` in
+ * config.json override them. OpenRouter reports prices in its model
+ * list, so those are discovered at run time for the configured models.
+ *
+ * Dependency direction: pricing.ts → providers/model-info, providers/types, config/types
+ * Used by: workflow runner, workflow token tracker
+ */
+
+import type { LLMProviderName, ModelPricing, ProviderCandidate } from './types.js';
+import type { AppConfig } from '../core/config/types.js';
+import { lookupModelInfo } from './model-info.js';
+
+/** Pricing table keyed by "provider:model" or bare model ID. */
+export type PricingTable = Readonly<Record<string, ModelPricing>>;
+
+/** Approximate list prices for well-known models. Override them in config when they change. */
+export const DEFAULT_MODEL_PRICING: PricingTable = {
+    // Anthropic (cache reads 0.1x input, 5-minute cache writes 1.25x input)
+    'claude-sonnet-4-20250514': { input: 3.00, output: 15.00, cacheRead: 0.30, cacheWrite: 3.75 },
+    'claude-3-5-sonnet-20241022': { input: 3.00, output: 15.00, cacheRead: 0.30, cacheWrite: 3.75 },
+    'claude-3-5-haiku-20241022': { input: 0.80, output: 4.00, cacheRead: 0.08, cacheWrite: 1.00 },
+    'claude-3-opus-20240229': { input: 15.00, output: 75.00, cacheRead: 1.50, cacheWrite: 18.75 },
+    // OpenAI (cached input billed at a discount)
+    'gpt-4o-mini': { input: 0.15, output: 0.60, cacheRead: 0.075 },
+    'gpt-4o': { input: 2.50, output: 10.00, cacheRead: 1.25 },
+    'gpt-4.1': { input: 2.00, output: 8.00, cacheRead: 0.50 },
+    'gpt-4.1-mini': { input: 0.40, output: 1.60, cacheRead: 0.10 },
+    // Google Gemini
+    'gemini-2.0-flash': { input: 0.10, output: 0.40, cacheRead: 0.025 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50, cacheRead: 0.075 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.00, cacheRead: 0.31 },
+    // Groq
+    'groq:llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+    'groq:llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+};
+
+/** Providers that run locally or self-hosted — never billed per token. */
+const FREE_PROVIDERS: ReadonlySet<LLMProviderName> = new Set(['mock', 'ollama', 'openai-compatible']);
+
+const FREE: ModelPricing = { input: 0, output: 0 };
+
+/**
+ * Find the price for a model: "provider:model" first, then the bare model ID.
+ * Unlisted models on local providers and OpenRouter ":free" variants cost nothing.
+ *
+ * @returns The pricing, or undefined if the model is unknown
+ */
+export function findPricing(
+    table: PricingTable,
+    provider: LLMProviderName | undefined,
+    model: string,
+): ModelPricing | undefined {
+    const listed = (provider && table[`${provider}:${model}`]) || table[model];
+    if (listed) return listed;
+
+    if (provider && FREE_PROVIDERS.has(provider)) return FREE;
+    if (provider === 'openrouter' && model.endsWith(':free')) return FREE;
+    return undefined;
+}
+
+/**
+ * Build the pricing table for a run: built-in prices, then prices discovered
+ * from OpenRouter for configured models without a price, then config overrides.
+ */
+export async function resolvePricing(config: AppConfig): Promise<PricingTable> {
+    const known: PricingTable = { ...DEFAULT_MODEL_PRICING, ...config.pricing };
+    const discovered: Record<string, ModelPricing> = {};
+
+    for (const candidate of configuredCandidates(config)) {
+        if (candidate.provider !== 'openrouter') continue;
+        if (findPricing(known, candidate.provider, candidate.model)) continue;
+
+        const info = await lookupModelInfo(candidate, config.providers);
+        if (info?.pricing) {
+            discovered[`${candidate.provider}:${candidate.model}`] = info.pricing;
+        }
+    }
+
+    return { ...discovered, ...known };
+}
+
+/**
+ * Configured models (primaries and fallbacks) with no price in `table`,
+ * as "provider:model". Cost estimates and cost budgets do not count them.
+ */
+export function unpricedModels(config: AppConfig, table: PricingTable): string[] {
+    const unpriced = configuredCandidates(config)
+        .filter((c) => !findPricing(table, c.provider, c.model))
+        .map((c) => `${c.provider}:${c.model}`);
+    return [...new Set(unpriced)];
+}
+
+/** Every provider/model pair an agent (built-in, custom or on the review panel) may use — primaries and fallbacks. */
+function configuredCandidates(config: AppConfig): ProviderCandidate[] {
+    return [
+        ...Object.values(config.agents),
+        ...Object.values(config.customRoles),
+        ...config.reviewPanel.reviewers,
+    ].flatMap((agent) => [
+        { provider: agent.provider, model: agent.model, instance: agent.instance },
+        ...agent.fallbacks,
+    ]);
+}
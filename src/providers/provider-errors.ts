@@ -8,8 +8,9 @@
  * Used by: anthropic.ts, openai.ts, gemini.ts, groq.ts, ollama.ts
  */
 
-import { ProviderError } from '../core/errors.js';
+import { CancelledError, ProviderError } from '../core/errors.js';
 import { logger } from '../utils/logger.js';
+import { anySignal } from '../utils/abort.js';
 
 /** Default timeout for cloud provider requests (60 seconds). */
 export const PROVIDER_TIMEOUT_MS = 60_000;
@@ -129,33 +130,38 @@ export interface FetchRetryOptions {
     baseUrl: string;
     timeoutMs: number;
     maxRetries?: number;
+    /** Caller's cancellation signal — aborts the request and stops retrying. */
+    signal?: AbortSignal;
 }
 
 /**
  * Fetch with automatic retry, timeout, and actionable error messages.
  *
  * Retries on 429, 5xx, and transient network errors with exponential backoff.
- * Throws ProviderError with actionable hints on final failure.
+ * Throws ProviderError with actionable hints on final failure, or
+ * CancelledError as soon as `options.signal` is aborted.
  */
 export async function fetchWithRetry(
     url: string,
     init: RequestInit,
     options: FetchRetryOptions,
 ): Promise<Response> {
-    const { provider, baseUrl, timeoutMs, maxRetries = 3 } = options;
+    const { provider, baseUrl, timeoutMs, maxRetries = 3, signal } = options;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
         try {
+            if (signal?.aborted) throw new CancelledError(`${provider} request cancelled`, { provider });
+
             const response = await fetch(url, {
                 ...init,
-                signal: AbortSignal.timeout(timeoutMs),
+                signal: anySignal(AbortSignal.timeout(timeoutMs), signal),
             });
 
             if (!response.ok) {
                 if (isRetryableStatus(response.status) && attempt < maxRetries) {
                     const delay = getRetryDelay(response, attempt);
                     logger.debug(`${provider} returned ${response.status}, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries + 1})`);
-                    await sleep(delay);
+                    await sleep(delay, signal);
                     continue;
                 }
 
@@ -166,12 +172,13 @@ export async function fetchWithRetry(
             return response;
         } catch (err) {
             // Re-throw our own errors
-            if (err instanceof ProviderError) throw err;
+            if (err instanceof ProviderError || err instanceof CancelledError) throw err;
+            if (signal?.aborted) throw new CancelledError(`${provider} request cancelled`, { provider });
 
             if (isRetryableNetworkError(err) && attempt < maxRetries) {
                 const delay = 1000 * 2 ** attempt; // 1s, 2s, 4s
                 logger.debug(`${provider} connection failed, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries + 1})`);
-                await sleep(delay);
+                await sleep(delay, signal);
                 continue;
             }
 
@@ -222,6 +229,14 @@ function getRetryDelay(response: Response, attempt: number): number {
     return 1000 * 2 ** attempt;
 }
 
-function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+/** Wait for `ms`, resolving early if the signal aborts (the next attempt then throws). */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        if (signal?.aborted) return resolve();
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
 }
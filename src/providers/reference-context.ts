@@ -0,0 +1,22 @@
+/**
+ * Reference context placement — keeps stable context in a cacheable prefix.
+ *
+ * Reference documents and source files are identical on every agent call,
+ * so they are sent ahead of the system prompt. Anthropic marks them with
+ * `cache_control`; providers with automatic prefix caching (OpenAI, Gemini)
+ * benefit simply from the identical prefix.
+ *
+ * Dependency direction: reference-context.ts → providers/types.ts
+ * Used by: openai-format.ts, gemini.ts, ollama.ts, mock.ts
+ */
+
+import type { ChatOptions } from './types.js';
+
+/**
+ * The system prompt with `referenceContext` prepended, for providers that
+ * take a single system text. Returns undefined when both are empty.
+ */
+export function systemPromptWithContext(options?: ChatOptions): string | undefined {
+    const parts = [options?.referenceContext, options?.systemPrompt].filter((part) => !!part);
+    return parts.length > 0 ? parts.join('\n\n') : undefined;
+}
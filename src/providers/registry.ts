@@ -14,8 +14,10 @@ import type { LLMProvider, LLMProviderName } from './types.js';
 import { AnthropicProvider, type AnthropicProviderConfig } from './anthropic.js';
 import { GeminiProvider, type GeminiProviderConfig } from './gemini.js';
 import { GroqProvider, type GroqProviderConfig } from './groq.js';
+import { MockProvider, type MockProviderConfig } from './mock.js';
 import { OllamaProvider, type OllamaProviderConfig } from './ollama.js';
 import { OpenAIProvider, type OpenAIProviderConfig } from './openai.js';
+import { OpenAICompatibleProvider, type OpenAICompatibleProviderConfig } from './openai-compatible.js';
 import { OpenRouterProvider, type OpenRouterProviderConfig } from './openrouter.js';
 import type { ProviderConfig } from '../core/config/types.js';
 import { ProviderError } from '../core/errors.js';
@@ -24,8 +26,15 @@ import { logger } from '../utils/logger.js';
 /**
  * Factory functions for each provider.
  * Add new providers here — this is the ONLY place that needs to change.
+ *
+ * `instance` is only meaningful for providers with named instances
+ * (openai-compatible), and `projectRoot` for providers that read project
+ * files (mock); the others ignore them.
  */
-const PROVIDER_FACTORIES: Record<LLMProviderName, (config: ProviderConfig) => LLMProvider> = {
+const PROVIDER_FACTORIES: Record<
+    LLMProviderName,
+    (config: ProviderConfig, instance?: string, projectRoot?: string) => LLMProvider
+> = {
     anthropic: (config: ProviderConfig) => {
         const anthropicConfig = config.anthropic;
         if (!anthropicConfig) {
@@ -59,6 +68,11 @@ const PROVIDER_FACTORIES: Record<LLMProviderName, (config: ProviderConfig) => LL
         return new GroqProvider(groqConfig as GroqProviderConfig);
     },
 
+    mock: (config: ProviderConfig, _instance?: string, projectRoot?: string) => {
+        const mockConfig = config.mock;
+        return new MockProvider(mockConfig as MockProviderConfig | undefined, projectRoot);
+    },
+
     ollama: (config: ProviderConfig) => {
         const ollamaConfig = config.ollama;
         return new OllamaProvider(ollamaConfig as OllamaProviderConfig | undefined);
@@ -75,6 +89,25 @@ const PROVIDER_FACTORIES: Record<LLMProviderName, (config: ProviderConfig) => LL
         return new OpenAIProvider(openaiConfig as OpenAIProviderConfig);
     },
 
+    'openai-compatible': (config: ProviderConfig, instance?: string) => {
+        const instances = config['openai-compatible'] ?? {};
+        const names = Object.keys(instances);
+        const name = instance ?? (names.length === 1 ? names[0] : undefined);
+        const instanceConfig = name ? instances[name] : undefined;
+        if (!name || !instanceConfig) {
+            const detail = instance
+                ? `Instance "${instance}" is not configured`
+                : names.length === 0
+                    ? 'No instances are configured'
+                    : 'Several instances are configured — set "instance" on the agent';
+            throw new ProviderError(
+                `OpenAI-compatible provider: ${detail}. Available: ${names.join(', ') || 'none'}`,
+                { provider: 'openai-compatible', instance, available: names },
+            );
+        }
+        return new OpenAICompatibleProvider(name, instanceConfig as OpenAICompatibleProviderConfig);
+    },
+
     openrouter: (config: ProviderConfig) => {
         const openrouterConfig = config.openrouter;
         if (!openrouterConfig) {
@@ -87,20 +120,29 @@ const PROVIDER_FACTORIES: Record<LLMProviderName, (config: ProviderConfig) => LL
     },
 };
 
-/** Cache of created provider instances (one per provider name). */
-const providerCache = new Map<LLMProviderName, LLMProvider>();
+/** Cache of created provider instances (keyed by provider name, plus instance name and project root if any). */
+const providerCache = new Map<string, LLMProvider>();
 
 /**
  * Create (or return cached) a provider instance by name.
  *
  * @param name - The provider name
  * @param config - The providers section of the app config
+ * @param instance - Named instance, for providers that support several (openai-compatible)
+ * @param projectRoot - Project root, for providers that read project files (mock fixtures)
  * @returns An LLMProvider instance
  * @throws {ProviderError} if the provider name is unknown or config is missing
  */
-export function createProvider(name: LLMProviderName, config: ProviderConfig): LLMProvider {
+export function createProvider(
+    name: LLMProviderName,
+    config: ProviderConfig,
+    instance?: string,
+    projectRoot?: string,
+): LLMProvider {
     // Return cached instance if available
-    const cached = providerCache.get(name);
+    const label = instance ? `${name}:${instance}` : name;
+    const key = projectRoot ? `${label}@${projectRoot}` : label;
+    const cached = providerCache.get(key);
     if (cached) return cached;
 
     const factory = PROVIDER_FACTORIES[name];
@@ -111,9 +153,9 @@ export function createProvider(name: LLMProviderName, config: ProviderConfig): L
         );
     }
 
-    logger.debug(`Creating provider: ${name}`);
-    const provider = factory(config);
-    providerCache.set(name, provider);
+    logger.debug(`Creating provider: ${label}`);
+    const provider = factory(config, instance, projectRoot);
+    providerCache.set(key, provider);
     return provider;
 }
 
@@ -132,15 +174,29 @@ export function getSupportedProviders(): LLMProviderName[] {
 }
 
 /**
- * Validate all configured providers can connect.
- * Returns a map of provider name → connection status.
+ * Validate all configured providers can connect (`projectRoot` locates mock fixtures).
+ * Returns a map of provider name → connection status. Named instances are
+ * reported as "openai-compatible:<instance>".
  */
 export async function validateAllProviders(
     config: ProviderConfig,
+    projectRoot?: string,
 ): Promise<Record<string, boolean>> {
     const results: Record<string, boolean> = {};
 
     for (const name of getSupportedProviders()) {
+        if (name === 'openai-compatible') {
+            for (const instance of Object.keys(config['openai-compatible'] ?? {})) {
+                const key = `${name}:${instance}`;
+                try {
+                    results[key] = await createProvider(name, config, instance).validateConnection();
+                } catch {
+                    results[key] = false;
+                }
+            }
+            continue;
+        }
+
         try {
             // Only validate providers that are actually configured
             if (name !== 'ollama' && !config[name as keyof typeof config]) {
@@ -148,7 +204,7 @@ export async function validateAllProviders(
                 continue;
             }
 
-            const provider = createProvider(name, config);
+            const provider = createProvider(name, config, undefined, projectRoot);
             results[name] = await provider.validateConnection();
         } catch {
             results[name] = false;
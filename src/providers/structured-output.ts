@@ -0,0 +1,36 @@
+/**
+ * Structured-output helpers shared by provider adapters.
+ *
+ * Adapters with a native JSON-schema mode send `ChatOptions.responseSchema`
+ * to the API directly. The rest describe the schema in the system prompt
+ * instead, via withSchemaInstructions().
+ *
+ * Dependency direction: structured-output.ts → providers/types.ts
+ * Used by: anthropic.ts, gemini.ts, groq.ts
+ */
+
+import type { ChatOptions, ResponseSchema } from './types.js';
+
+/** Prompt text asking for a JSON value that matches the schema. */
+export function schemaInstructions(responseSchema: ResponseSchema): string {
+    return [
+        `Respond with a single JSON value that matches this JSON Schema ("${responseSchema.name}").`,
+        'Output only the JSON — no prose, no markdown code fences.',
+        '',
+        JSON.stringify(responseSchema.schema, null, 2),
+    ].join('\n');
+}
+
+/**
+ * Return options whose system prompt ends with the schema instructions.
+ * Options without a responseSchema are returned unchanged.
+ */
+export function withSchemaInstructions(options?: ChatOptions): ChatOptions | undefined {
+    if (!options?.responseSchema) return options;
+
+    const instructions = schemaInstructions(options.responseSchema);
+    return {
+        ...options,
+        systemPrompt: options.systemPrompt ? `${options.systemPrompt}\n\n${instructions}` : instructions,
+    };
+}
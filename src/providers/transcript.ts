@@ -0,0 +1,268 @@
+/**
+ * Transcripts — opt-in JSONL log of every LLM request and response.
+ *
+ * `TranscriptProvider` wraps any LLMProvider and appends one record per call
+ * (role, model, latency, usage, finishReason, the full request and reply) to
+ * `.aiagentflow/logs/<session-id>/transcript.jsonl`. Configured API keys,
+ * well-known key formats and user-supplied patterns are redacted before
+ * anything is written; image data is replaced by its size.
+ *
+ * Dependency direction: transcript.ts → providers/types, config/types, config/defaults, utils/fs
+ * Used by: agents/factory.ts, workflow runner
+ */
+
+import { appendFileSync } from 'node:fs';
+import { join } from 'node:path';
+import type {
+    ChatChunk,
+    ChatMessage,
+    ChatOptions,
+    ChatResponse,
+    FinishReason,
+    LLMProvider,
+    LLMProviderName,
+    ModelInfo,
+    ProviderCandidate,
+    TokenUsage,
+    ToolCall,
+} from './types.js';
+import type { ProviderConfig } from '../core/config/types.js';
+import { CONFIG_DIR_NAME } from '../core/config/defaults.js';
+import { ensureDir } from '../utils/fs.js';
+
+/** One request/response pair in a transcript. */
+export interface TranscriptRecord {
+    timestamp: string;
+    /** Agent role that made the call (from `ChatOptions.tag`). */
+    role?: string;
+    provider: LLMProviderName;
+    model: string;
+    latencyMs: number;
+    stream: boolean;
+    request: {
+        systemPrompt?: string;
+        referenceContext?: string;
+        messages: ChatMessage[];
+        tools?: string[];
+        responseSchema?: string;
+        temperature?: number;
+        maxTokens?: number;
+    };
+    response?: { content: string; toolCalls?: readonly ToolCall[] };
+    usage?: TokenUsage;
+    finishReason?: FinishReason;
+    cached?: boolean;
+    /** Set when the call failed. */
+    error?: string;
+}
+
+const REDACTED = '[REDACTED]';
+
+/** Key formats redacted even when they are not in the config (e.g. pasted into a prompt). */
+const BUILTIN_SECRET_PATTERNS: readonly RegExp[] = [
+    /sk-[A-Za-z0-9_-]{20,}/g, // OpenAI, Anthropic (sk-ant-), OpenRouter (sk-or-)
+    /gsk_[A-Za-z0-9]{20,}/g, // Groq
+    /AIza[0-9A-Za-z_-]{35}/g, // Google
+    /Bearer\s+[A-Za-z0-9._~+/-]+=*/g,
+];
+
+/** Config keys whose string values are treated as secrets. */
+const SECRET_KEY_PATTERN = /key|token|secret|password|authorization/i;
+
+/**
+ * Shorter values are placeholders (`"x"`, `"none"`), not secrets — redacting
+ * them would blank out every occurrence of that text in prompts and replies.
+ */
+const MIN_SECRET_LENGTH = 8;
+
+/** Path of the transcript file for a session. */
+export function transcriptPath(projectRoot: string, sessionId: string): string {
+    return join(projectRoot, CONFIG_DIR_NAME, 'logs', sessionId, 'transcript.jsonl');
+}
+
+/** Collect secret values (API keys, tokens, auth headers) from the provider config, skipping placeholders. */
+export function collectSecrets(providers: ProviderConfig): string[] {
+    const secrets: string[] = [];
+    const visit = (value: unknown, key: string): void => {
+        if (typeof value === 'string') {
+            if (SECRET_KEY_PATTERN.test(key) && value.length >= MIN_SECRET_LENGTH) secrets.push(value);
+        } else if (value && typeof value === 'object') {
+            for (const [childKey, child] of Object.entries(value)) visit(child, childKey);
+        }
+    };
+    visit(providers, '');
+    return secrets;
+}
+
+/**
+ * Appends redacted records to a transcript file.
+ */
+export class TranscriptRecorder {
+    public readonly filePath: string;
+    private readonly secrets: readonly string[];
+    private readonly patterns: readonly RegExp[];
+
+    /**
+     * @param secrets - Literal values to redact (see collectSecrets())
+     * @param patterns - Extra regular expressions to redact, from config
+     */
+    constructor(filePath: string, secrets: readonly string[], patterns: readonly string[] = []) {
+        this.filePath = filePath;
+        // Longest first, so a secret containing another is redacted whole
+        this.secrets = [...secrets].sort((a, b) => b.length - a.length);
+        this.patterns = [...BUILTIN_SECRET_PATTERNS, ...patterns.map((p) => new RegExp(p, 'g'))];
+    }
+
+    /** Redact secrets from a string. */
+    redact(text: string): string {
+        let result = text;
+        for (const secret of this.secrets) {
+            result = result.split(secret).join(REDACTED);
+        }
+        for (const pattern of this.patterns) {
+            result = result.replace(pattern, REDACTED);
+        }
+        return result;
+    }
+
+    /** Append a record, redacting every string in it. */
+    record(record: TranscriptRecord): void {
+        ensureDir(join(this.filePath, '..'));
+        appendFileSync(this.filePath, JSON.stringify(this.redactDeep(record)) + '\n', 'utf-8');
+    }
+
+    private redactDeep(value: unknown): unknown {
+        if (typeof value === 'string') return this.redact(value);
+        if (Array.isArray(value)) return value.map((item) => this.redactDeep(item));
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, this.redactDeep(child)]));
+        }
+        return value;
+    }
+}
+
+/**
+ * LLMProvider that records every call to a TranscriptRecorder.
+ *
+ * Failed calls are recorded with `error` and the error is rethrown.
+ * Streams are recorded once they finish, with the assembled content.
+ * Over a fallback chain, the record names the candidate that answered.
+ */
+export class TranscriptProvider implements LLMProvider {
+    private readonly inner: LLMProvider;
+    private readonly recorder: TranscriptRecorder;
+
+    constructor(inner: LLMProvider, recorder: TranscriptRecorder) {
+        this.inner = inner;
+        this.recorder = recorder;
+    }
+
+    get name(): LLMProviderName {
+        return this.inner.name;
+    }
+
+    get instance(): string | undefined {
+        return this.inner.instance;
+    }
+
+    get active(): ProviderCandidate | undefined {
+        return this.inner.active;
+    }
+
+    async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+        const started = Date.now();
+        let response: ChatResponse;
+        try {
+            response = await this.inner.chat(messages, options);
+        } catch (err) {
+            this.write(messages, options, started, false, { error: err instanceof Error ? err.message : String(err) });
+            throw err;
+        }
+
+        this.write(messages, options, started, false, {
+            model: response.model,
+            response: { content: response.content, ...(response.toolCalls && { toolCalls: response.toolCalls }) },
+            usage: response.usage,
+            finishReason: response.finishReason,
+            ...(response.cached && { cached: true }),
+        });
+        return response;
+    }
+
+    async *stream(messages: ChatMessage[], options?: ChatOptions): AsyncIterable<ChatChunk> {
+        const started = Date.now();
+        let content = '';
+        let usage: TokenUsage | undefined;
+        let finishReason: FinishReason | undefined;
+        let cached = false;
+
+        try {
+            for await (const chunk of this.inner.stream(messages, options)) {
+                content += chunk.content;
+                if (chunk.usage) usage = chunk.usage;
+                if (chunk.finishReason) finishReason = chunk.finishReason;
+                if (chunk.cached) cached = true;
+                yield chunk;
+            }
+        } catch (err) {
+            this.write(messages, options, started, true, {
+                response: { content },
+                error: err instanceof Error ? err.message : String(err),
+            });
+            throw err;
+        }
+
+        this.write(messages, options, started, true, {
+            response: { content },
+            usage,
+            finishReason,
+            ...(cached && { cached: true }),
+        });
+    }
+
+    listModels(): Promise<ModelInfo[]> {
+        return this.inner.listModels();
+    }
+
+    validateConnection(): Promise<boolean> {
+        return this.inner.validateConnection();
+    }
+
+    private write(
+        messages: ChatMessage[],
+        options: ChatOptions | undefined,
+        started: number,
+        stream: boolean,
+        outcome: Partial<TranscriptRecord>,
+    ): void {
+        // Written after the call, so a fallback chain's active candidate is the one that answered
+        const served = this.inner.active;
+        this.recorder.record({
+            timestamp: new Date(started).toISOString(),
+            role: options?.tag,
+            provider: served?.provider ?? this.inner.name,
+            model: served?.model ?? options?.model ?? '',
+            latencyMs: Date.now() - started,
+            stream,
+            request: {
+                systemPrompt: options?.systemPrompt,
+                referenceContext: options?.referenceContext,
+                messages: messages.map(withoutImageData),
+                tools: options?.tools?.map((tool) => tool.name),
+                responseSchema: options?.responseSchema?.name,
+                temperature: options?.temperature,
+                maxTokens: options?.maxTokens,
+            },
+            ...outcome,
+        });
+    }
+}
+
+/** Replace base64 image data with its size — it is large and useless in a log. */
+function withoutImageData(message: ChatMessage): ChatMessage {
+    if (!message.images?.length) return message;
+    return {
+        ...message,
+        images: message.images.map((image) => ({ ...image, data: `[${Math.round(image.data.length * 0.75)} bytes]` })),
+    };
+}
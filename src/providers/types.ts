@@ -10,17 +10,85 @@
  */
 
 /** Supported LLM provider names. Add new providers here. */
-export type LLMProviderName = 'anthropic' | 'gemini' | 'groq' | 'ollama' | 'openai' | 'openrouter';
+export type LLMProviderName = 'anthropic' | 'gemini' | 'groq' | 'mock' | 'ollama' | 'openai' | 'openai-compatible' | 'openrouter';
+
+/** One provider/model pair in an agent's fallback chain. */
+export interface ProviderCandidate {
+    readonly provider: LLMProviderName;
+    readonly model: string;
+    /** Named instance, for providers that support several (openai-compatible). */
+    readonly instance?: string;
+}
+
+/** Emitted when a fallback chain moves from one candidate to the next. */
+export interface ProviderFailover {
+    /** The candidate that failed. */
+    readonly from: ProviderCandidate;
+    /** The candidate that will be tried next. */
+    readonly to: ProviderCandidate;
+    /** The ProviderError message that triggered the switch. */
+    readonly reason: string;
+}
 
 /** Role in a chat conversation. */
-export type ChatRole = 'system' | 'user' | 'assistant';
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
 
-/** A single message in a chat conversation. */
+/** Image formats that can be attached to a message. */
+export type ImageMediaType = 'image/png' | 'image/jpeg';
+
+/** An image attached to a message, e.g. a UI mockup or screenshot. */
+export interface ImageAttachment {
+    readonly mediaType: ImageMediaType;
+    /** Base64-encoded image bytes (no `data:` URL prefix). */
+    readonly data: string;
+    /** Display name, usually the file it was loaded from. */
+    readonly name?: string;
+}
+
+/**
+ * A single message in a chat conversation.
+ *
+ * A `user` message may carry `images`, sent alongside the text as
+ * multi-part content by providers that support vision input.
+ *
+ * Besides plain text, two tool-calling variants exist:
+ * - an `assistant` message carrying `toolCalls` the model wants executed
+ * - a `tool` message carrying the result for one of those calls (`toolCallId`)
+ */
 export interface ChatMessage {
     readonly role: ChatRole;
     readonly content: string;
+    /** Images sent after the text (user messages only). */
+    readonly images?: readonly ImageAttachment[];
+    /** Tool invocations requested by the model (assistant messages only). */
+    readonly toolCalls?: readonly ToolCall[];
+    /** ID of the tool call this message answers (tool messages only). */
+    readonly toolCallId?: string;
+    /** Name of the tool that produced this result (tool messages only). */
+    readonly toolName?: string;
+}
+
+/**
+ * A provider-neutral tool (function) the model may call.
+ * `parameters` is a JSON Schema object describing the arguments.
+ */
+export interface ToolDefinition {
+    readonly name: string;
+    readonly description: string;
+    readonly parameters: Record<string, unknown>;
 }
 
+/** A single tool invocation requested by the model. */
+export interface ToolCall {
+    /** Call ID used to pair the result with the request. Synthesized when the provider has none. */
+    readonly id: string;
+    readonly name: string;
+    readonly arguments: Record<string, unknown>;
+}
+
+/** How the model may use the supplied tools. */
+export type ToolChoice = 'auto' | 'required' | 'none';
+
 /** Options for a chat completion request. */
 export interface ChatOptions {
     /** Model to use (overrides default from config). */
@@ -33,8 +101,51 @@ export interface ChatOptions {
     readonly stopSequences?: readonly string[];
     /** System prompt (some providers handle this separately). */
     readonly systemPrompt?: string;
+    /**
+     * Stable context (reference docs, source files) that is identical across
+     * calls. Sent ahead of the system prompt so providers can cache it.
+     */
+    readonly referenceContext?: string;
+    /** Tools the model may call. Only honored by `chat()` — `stream()` yields text only. */
+    readonly tools?: readonly ToolDefinition[];
+    /** Tool usage policy (default: 'auto' when tools are supplied). */
+    readonly toolChoice?: ToolChoice;
+    /** Caller label for the request, e.g. the agent role. Never sent to an API. */
+    readonly tag?: string;
+    /**
+     * Number of this sample when one request is sent several times for
+     * different replies (best-of-N). Only part of the cache key, so samples
+     * are cached apart. Never sent to an API.
+     */
+    readonly sample?: number;
+    /** Cancels the request (and any retries) when aborted. Never sent to an API. */
+    readonly signal?: AbortSignal;
+    /**
+     * Ask for a JSON response matching this schema. Mapped to the provider's
+     * native JSON mode where one exists, otherwise to prompt instructions.
+     * Only honored by `chat()`.
+     */
+    readonly responseSchema?: ResponseSchema;
+}
+
+/** A JSON Schema that a structured response must match. */
+export interface ResponseSchema {
+    /** Short identifier (letters, digits, `_` and `-`), required by some APIs. */
+    readonly name: string;
+    /** The JSON Schema itself. */
+    readonly schema: Record<string, unknown>;
 }
 
+/**
+ * Why the model stopped, normalized across providers:
+ * - `stop` — the reply is complete (natural end or a stop sequence)
+ * - `length` — cut off at the output token limit
+ * - `tool_use` — stopped to let tools run
+ * - `content_filter` — blocked by a safety or policy filter
+ * - `unknown` — the provider did not say
+ */
+export type FinishReason = 'stop' | 'length' | 'tool_use' | 'content_filter' | 'unknown';
+
 /** Response from a non-streaming chat completion. */
 export interface ChatResponse {
     /** The generated text content. */
@@ -43,8 +154,12 @@ export interface ChatResponse {
     readonly model: string;
     /** Token usage statistics. */
     readonly usage: TokenUsage;
-    /** Provider-specific finish reason. */
-    readonly finishReason: string;
+    /** Why the model stopped. */
+    readonly finishReason: FinishReason;
+    /** Tool calls requested by the model, if any. */
+    readonly toolCalls?: readonly ToolCall[];
+    /** True when the response was replayed from the local response cache. */
+    readonly cached?: boolean;
 }
 
 /** A single chunk in a streaming response. */
@@ -53,13 +168,24 @@ export interface ChatChunk {
     readonly content: string;
     /** Whether this is the final chunk. */
     readonly done: boolean;
+    /** Token usage for the whole request. Set on the final chunk when the provider reports it. */
+    readonly usage?: TokenUsage;
+    /** True on the final chunk when the response was replayed from the local response cache. */
+    readonly cached?: boolean;
+    /** Why the model stopped. Set on the final chunk. */
+    readonly finishReason?: FinishReason;
 }
 
 /** Token usage statistics for a request. */
 export interface TokenUsage {
+    /** All input tokens, including any read from or written to the provider's prompt cache. */
     readonly promptTokens: number;
     readonly completionTokens: number;
     readonly totalTokens: number;
+    /** Input tokens served from the provider's prompt cache (billed at a discount). */
+    readonly cacheReadTokens?: number;
+    /** Input tokens written to the provider's prompt cache (billed at a premium). */
+    readonly cacheWriteTokens?: number;
 }
 
 /** Information about an available model. */
@@ -69,6 +195,18 @@ export interface ModelInfo {
     readonly provider: LLMProviderName;
     /** Context window size in tokens, if known. */
     readonly contextWindow?: number;
+    /** Prices reported by the provider, if any. */
+    readonly pricing?: ModelPricing;
+}
+
+/** Model prices in USD per 1M tokens. */
+export interface ModelPricing {
+    readonly input: number;
+    readonly output: number;
+    /** Prompt-cache reads (defaults to the input price). */
+    readonly cacheRead?: number;
+    /** Prompt-cache writes (defaults to the input price). */
+    readonly cacheWrite?: number;
 }
 
 /**
@@ -85,6 +223,15 @@ export interface LLMProvider {
     /** The provider's unique identifier. */
     readonly name: LLMProviderName;
 
+    /** Named instance, for providers that support several (openai-compatible). */
+    readonly instance?: string;
+
+    /**
+     * The candidate requests go to, for providers that route between several
+     * (fallback chains) — its model replaces the requested one.
+     */
+    readonly active?: ProviderCandidate;
+
     /**
      * Send a chat completion request and get the full response.
      * @throws {ProviderError} on API failure, network error, or invalid response.
@@ -23,6 +23,12 @@ export type {
     WorkflowConfig,
     AgentConfig,
     AgentRoleConfig,
+    CustomRoleConfig,
+    ReviewPanelConfig,
+    BestOfNConfig,
+    CacheConfig,
+    Pipeline,
+    PipelineStage,
 } from '../core/config/types.js';
 
 // Re-export provider types
@@ -34,7 +40,12 @@ export type {
     ChatChunk,
     ModelInfo,
     LLMProviderName,
+    ToolDefinition,
+    ToolCall,
+    ToolChoice,
+    ProviderCandidate,
+    ProviderFailover,
 } from '../providers/types.js';
 
 // Re-export agent types
-export type { AgentRole } from '../agents/types.js';
+export type { AgentRole, AgentRoleName, AgentOutputKind, CustomRoleName } from '../agents/types.js';
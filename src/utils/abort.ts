@@ -0,0 +1,37 @@
+/**
+ * AbortSignal helpers for cancelling in-flight work (e.g. on Ctrl+C).
+ *
+ * Dependency direction: abort.ts → core/errors.ts
+ * Used by: providers, agents/base.ts, workflow runner, test/lint runners
+ */
+
+import { CancelledError } from '../core/errors.js';
+
+/**
+ * Combine signals into one that aborts when any of them does.
+ * (AbortSignal.any() only exists from Node 20.3.)
+ */
+export function anySignal(...signals: Array<AbortSignal | undefined>): AbortSignal {
+    const controller = new AbortController();
+
+    for (const signal of signals) {
+        if (!signal) continue;
+        if (signal.aborted) {
+            controller.abort(signal.reason);
+            break;
+        }
+        signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+    }
+
+    return controller.signal;
+}
+
+/**
+ * Throw a CancelledError if the signal has been aborted.
+ * @throws {CancelledError}
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined, message = 'Cancelled'): void {
+    if (signal?.aborted) {
+        throw new CancelledError(message);
+    }
+}
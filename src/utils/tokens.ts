@@ -0,0 +1,14 @@
+/**
+ * Token estimation helpers.
+ *
+ * Dependency direction: tokens.ts → nothing (leaf module)
+ * Used by: agents/base.ts, workflow context budget
+ */
+
+/** Approximate characters per token for English text and code. */
+export const CHARS_PER_TOKEN = 4;
+
+/** Rough token count for a string (~4 chars per token). */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
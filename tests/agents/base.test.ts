@@ -0,0 +1,425 @@
+/**
+ * Tests for the BaseAgent agentic tool loop and built-in tools.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { BaseAgent, type AgentInput } from '../../src/agents/base.js';
+import { createBuiltinTools, type AgentTool } from '../../src/agents/tools.js';
+import { TASK_LIST_SPEC } from '../../src/agents/structured.js';
+import { REVIEW_VERDICT } from '../../src/agents/verdict.js';
+import { BudgetExceededError, CancelledError, ProviderError } from '../../src/core/errors.js';
+import type { LLMProvider, ChatMessage, ChatOptions, ChatResponse } from '../../src/providers/types.js';
+
+class TestAgent extends BaseAgent {
+    protected buildSystemPrompt(): string {
+        return 'system';
+    }
+
+    protected buildUserPrompt(input: AgentInput): string {
+        return input.task;
+    }
+}
+
+/** A provider that replays scripted responses and records every request. */
+function scriptedProvider(responses: Array<Partial<ChatResponse>>) {
+    const calls: Array<{ messages: ChatMessage[]; options?: ChatOptions }> = [];
+    const provider: LLMProvider = {
+        name: 'ollama',
+        async chat(messages, options) {
+            calls.push({ messages: [...messages], options });
+            const next = responses.shift() ?? {};
+            return {
+                content: '',
+                model: 'test',
+                usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+                finishReason: 'stop',
+                ...next,
+            };
+        },
+        async *stream() {
+            yield { content: 'streamed', done: true };
+        },
+        async listModels() {
+            return [];
+        },
+        async validateConnection() {
+            return true;
+        },
+    };
+    return { provider, calls };
+}
+
+const echoTool: AgentTool = {
+    definition: { name: 'echo', description: 'Echo input', parameters: { type: 'object' } },
+    async execute(args) {
+        return `echo:${String(args.text)}`;
+    },
+};
+
+describe('BaseAgent tool loop', () => {
+    it('executes tool calls and feeds results back until a final answer', async () => {
+        const { provider, calls } = scriptedProvider([
+            { toolCalls: [{ id: 'c1', name: 'echo', arguments: { text: 'hi' } }], finishReason: 'tool_use' },
+            { content: 'done' },
+        ]);
+        const agent = new TestAgent('coder', provider, { model: 'test', tools: [echoTool] });
+
+        const output = await agent.execute({ task: 'do it' });
+
+        expect(output.content).toBe('done');
+        expect(output.tokensUsed).toBe(4);
+        expect(calls).toHaveLength(2);
+        expect(calls[0]!.options?.tools?.[0]?.name).toBe('echo');
+
+        const followUp = calls[1]!.messages;
+        expect(followUp[1]).toMatchObject({ role: 'assistant', toolCalls: [{ id: 'c1' }] });
+        expect(followUp[2]).toMatchObject({ role: 'tool', toolCallId: 'c1', toolName: 'echo', content: 'echo:hi' });
+    });
+
+    it('reports unknown tools back to the model instead of throwing', async () => {
+        const { provider, calls } = scriptedProvider([
+            { toolCalls: [{ id: 'c1', name: 'missing', arguments: {} }] },
+            { content: 'ok' },
+        ]);
+        const agent = new TestAgent('coder', provider, { model: 'test', tools: [echoTool] });
+
+        await agent.execute({ task: 'x' });
+
+        expect(calls[1]!.messages[2]!.content).toContain('unknown tool');
+    });
+
+    it('stops after the last tool round even if the provider keeps asking for tools', async () => {
+        const toolCall = { toolCalls: [{ id: 'c1', name: 'echo', arguments: { text: 'hi' } }], content: 'partial' };
+        const { provider, calls } = scriptedProvider(Array.from({ length: 20 }, () => ({ ...toolCall })));
+        const agent = new TestAgent('coder', provider, { model: 'test', tools: [echoTool] });
+
+        const output = await agent.execute({ task: 'x' });
+
+        expect(calls).toHaveLength(11);
+        expect(calls.at(-1)?.options?.toolChoice).toBe('none');
+        expect(output.content).toBe('partial');
+    });
+
+    it('sends no tools when none are configured', async () => {
+        const { provider, calls } = scriptedProvider([{ content: 'plain' }]);
+        const agent = new TestAgent('architect', provider, { model: 'test' });
+
+        const output = await agent.execute({ task: 'x' });
+
+        expect(output.content).toBe('plain');
+        expect(calls[0]!.options?.tools).toBeUndefined();
+    });
+
+    it('sends conversation history as turns before the current prompt', async () => {
+        const { provider, calls } = scriptedProvider([{ content: 'second try' }]);
+        const agent = new TestAgent('fixer', provider, { model: 'test' });
+
+        await agent.execute({
+            task: 'fix again',
+            history: [
+                { role: 'user', content: 'fix it' },
+                { role: 'assistant', content: 'first try' },
+            ],
+        });
+
+        expect(calls[0]!.messages.map((m) => [m.role, m.content])).toEqual([
+            ['user', 'fix it'],
+            ['assistant', 'first try'],
+            ['user', 'fix again'],
+        ]);
+    });
+
+    it('uses the non-streaming loop when tools are configured', async () => {
+        const { provider } = scriptedProvider([{ content: 'via chat' }]);
+        const agent = new TestAgent('coder', provider, { model: 'test', tools: [echoTool] });
+
+        const output = await agent.executeStreaming({ task: 'x' });
+        expect(output.content).toBe('via chat');
+    });
+});
+
+describe('BaseAgent streaming usage', () => {
+    it('uses the usage reported on the final stream chunk', async () => {
+        const { provider } = scriptedProvider([]);
+        provider.stream = async function* () {
+            yield { content: 'hello', done: false };
+            yield { content: '', done: true, usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 } };
+        };
+        const agent = new TestAgent('coder', provider, { model: 'test' });
+
+        const output = await agent.executeStreaming({ task: 'x' });
+
+        expect(output.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+        expect(output.tokensUsed).toBe(15);
+    });
+
+    it('estimates usage when the stream reports none', async () => {
+        const { provider } = scriptedProvider([]);
+        const agent = new TestAgent('coder', provider, { model: 'test' });
+
+        const output = await agent.executeStreaming({ task: 'a task' });
+
+        expect(output.usage.promptTokens).toBeGreaterThan(0);
+        expect(output.usage.completionTokens).toBeGreaterThan(0);
+        expect(output.tokensUsed).toBe(output.usage.promptTokens + output.usage.completionTokens);
+    });
+});
+
+describe('BaseAgent continuation', () => {
+    const CUT = 'FILE: src/a.ts\n```ts\nexport const a = 1;\n';
+
+    it('asks for the rest of a reply cut off at the token limit and stitches it on', async () => {
+        const { provider, calls } = scriptedProvider([
+            { content: CUT, finishReason: 'length' },
+            { content: 'FILE: src/a.ts\n```ts\nexport const b = 2;\n```\n' },
+        ]);
+        const agent = new TestAgent('coder', provider, { model: 'test' });
+
+        const output = await agent.execute({ task: 'write a' });
+
+        expect(output.content).toBe(`${CUT}export const b = 2;\n\`\`\`\n`);
+        expect(output.tokensUsed).toBe(4);
+        expect(calls[1]?.messages.at(-2)).toEqual({ role: 'assistant', content: CUT });
+        expect(calls[1]?.messages.at(-1)?.content).toContain('FILE: src/a.ts');
+    });
+
+    it('stops after maxContinuations', async () => {
+        const { provider, calls } = scriptedProvider([
+            { content: CUT, finishReason: 'length' },
+            { content: 'more\n', finishReason: 'length' },
+            { content: 'never requested' },
+        ]);
+        const agent = new TestAgent('coder', provider, { model: 'test', maxContinuations: 1 });
+
+        const output = await agent.execute({ task: 'write a' });
+
+        expect(output.content).toBe(`${CUT}more\n`);
+        expect(calls).toHaveLength(2);
+    });
+
+    it('continues a truncated stream and passes the continuation to onChunk', async () => {
+        const { provider } = scriptedProvider([{ content: '```\n' }]);
+        provider.stream = async function* () {
+            yield { content: CUT, done: false };
+            yield { content: '', done: true, usage: { promptTokens: 5, completionTokens: 5, totalTokens: 10 }, finishReason: 'length' };
+        };
+        const agent = new TestAgent('coder', provider, { model: 'test' });
+        const chunks: string[] = [];
+
+        const output = await agent.executeStreaming({ task: 'write a' }, { onChunk: (text) => chunks.push(text) });
+
+        expect(output.content).toBe(`${CUT}\`\`\`\n`);
+        expect(chunks).toEqual([CUT, '```\n']);
+        expect(output.tokensUsed).toBe(12);
+    });
+});
+
+describe('BaseAgent structured output', () => {
+    it('sends the response schema and returns validated data', async () => {
+        const { provider, calls } = scriptedProvider([{ content: '{"tasks": ["one", "two"]}' }]);
+        const agent = new TestAgent('architect', provider, { model: 'test' });
+
+        const output = await agent.executeStructured({ task: 'plan' }, TASK_LIST_SPEC);
+
+        expect(output.data).toEqual({ tasks: ['one', 'two'] });
+        expect(calls[0]?.options?.responseSchema).toMatchObject({ name: 'task_list', schema: { type: 'object' } });
+    });
+
+    it('re-prompts with the validation errors until the reply is valid', async () => {
+        const { provider, calls } = scriptedProvider([
+            { content: 'here are the tasks: one, two' },
+            { content: '{"tasks": ["one", "two"]}' },
+        ]);
+        const agent = new TestAgent('architect', provider, { model: 'test' });
+
+        const output = await agent.executeStructured({ task: 'plan' }, TASK_LIST_SPEC);
+
+        expect(output.data.tasks).toEqual(['one', 'two']);
+        expect(output.tokensUsed).toBe(4);
+        expect(calls[1]?.messages.at(-1)?.content).toContain('not valid JSON');
+    });
+
+    it('gives up after the repair budget is spent', async () => {
+        const { provider, calls } = scriptedProvider([
+            { content: '{}' },
+            { content: '{}' },
+            { content: '{}' },
+            { content: '{"tasks": []}' },
+        ]);
+        const agent = new TestAgent('architect', provider, { model: 'test' });
+
+        await expect(agent.executeStructured({ task: 'plan' }, TASK_LIST_SPEC)).rejects.toThrow(ProviderError);
+        expect(calls).toHaveLength(3);
+    });
+});
+
+describe('BaseAgent verdicts', () => {
+    const usage = { promptTokens: 1, completionTokens: 1, totalTokens: 2 };
+    const output = (content: string) => ({ content, role: 'reviewer' as const, tokensUsed: 2, usage, success: true });
+
+    it('returns replies with a valid verdict block unchanged', async () => {
+        const { provider, calls } = scriptedProvider([]);
+        const agent = new TestAgent('reviewer', provider, { model: 'test' });
+        const reply = output('Fine.\n```json\n{"verdict": "approve"}\n```');
+
+        expect(await agent.ensureVerdict({ task: 'review' }, reply, REVIEW_VERDICT)).toBe(reply);
+        expect(calls).toHaveLength(0);
+    });
+
+    it('asks again and swaps the re-asked block in for an ambiguous one', async () => {
+        const { provider, calls } = scriptedProvider([
+            { content: '```json\n{"verdict": "request_changes", "issues": [{"severity": "critical", "description": "SQL injection"}]}\n```' },
+        ]);
+        const agent = new TestAgent('reviewer', provider, { model: 'test' });
+        const reply = output('Risky.\n```json\n{"verdict": "approve", "issues": [{"severity": "critical", "description": "SQL injection"}]}\n```');
+
+        const result = await agent.ensureVerdict({ task: 'review' }, reply, REVIEW_VERDICT);
+
+        expect(calls[0]?.messages.at(-2)).toEqual({ role: 'assistant', content: reply.content });
+        expect(calls[0]?.messages.at(-1)?.content).toContain('"approve" but the block lists critical issues');
+        expect(result.content).toMatch(/^Risky\.\n\n```json\n\{\n {2}"verdict": "request_changes"/);
+        expect(result.content).not.toContain('"approve"');
+        expect(result.tokensUsed).toBe(4);
+    });
+
+    it('leaves the reply without a verdict after the re-ask budget is spent', async () => {
+        const { provider, calls } = scriptedProvider([{ content: 'APPROVE' }, { content: 'I approve.' }]);
+        const agent = new TestAgent('reviewer', provider, { model: 'test' });
+
+        const result = await agent.ensureVerdict({ task: 'review' }, output('LGTM'), REVIEW_VERDICT);
+
+        expect(calls).toHaveLength(2);
+        expect(result.content).toBe('LGTM');
+        expect(result.tokensUsed).toBe(6);
+    });
+});
+
+describe('BaseAgent budget guard', () => {
+    const stop = () => {
+        throw new BudgetExceededError('Run token budget reached');
+    };
+
+    it('is not consulted before the first call', async () => {
+        const { provider, calls } = scriptedProvider([{ content: 'done' }]);
+        const agent = new TestAgent('coder', provider, { model: 'test', budgetGuard: stop });
+
+        expect((await agent.execute({ task: 'x' })).content).toBe('done');
+        expect(calls).toHaveLength(1);
+    });
+
+    it('stops a continuation once the guard throws, passing the usage so far', async () => {
+        const { provider, calls } = scriptedProvider([{ content: 'cut', finishReason: 'length' }, { content: 'rest' }]);
+        const seen: number[] = [];
+        const agent = new TestAgent('coder', provider, {
+            model: 'test',
+            budgetGuard: (usage) => {
+                seen.push(usage.totalTokens);
+                stop();
+            },
+        });
+
+        await expect(agent.execute({ task: 'x' })).rejects.toThrow(BudgetExceededError);
+        expect(calls).toHaveLength(1);
+        expect(seen).toEqual([2]);
+    });
+
+    it('stops a verdict re-ask once the guard throws', async () => {
+        const { provider, calls } = scriptedProvider([{ content: 'APPROVE' }]);
+        const agent = new TestAgent('reviewer', provider, { model: 'test', budgetGuard: stop });
+        const usage = { promptTokens: 1, completionTokens: 1, totalTokens: 2 };
+
+        await expect(agent.ensureVerdict({ task: 'review' }, { content: 'LGTM', role: 'reviewer', tokensUsed: 2, usage, success: true }, REVIEW_VERDICT))
+            .rejects.toThrow(BudgetExceededError);
+        expect(calls).toHaveLength(0);
+    });
+
+    it('stops the tool loop before the next round once the guard throws', async () => {
+        const { provider, calls } = scriptedProvider([
+            { toolCalls: [{ id: 'c1', name: 'echo', arguments: { text: 'hi' } }] },
+            { content: 'never reached' },
+        ]);
+        const agent = new TestAgent('coder', provider, { model: 'test', tools: [echoTool], budgetGuard: stop });
+
+        await expect(agent.execute({ task: 'x' })).rejects.toThrow(BudgetExceededError);
+        expect(calls).toHaveLength(1);
+    });
+});
+
+describe('BaseAgent cancellation', () => {
+    it('passes the signal to the provider and stops the tool loop once aborted', async () => {
+        const controller = new AbortController();
+        const { provider, calls } = scriptedProvider([
+            { toolCalls: [{ id: 'c1', name: 'echo', arguments: { text: 'hi' } }] },
+            { content: 'never reached' },
+        ]);
+        const agent = new TestAgent('coder', provider, { model: 'test', tools: [echoTool] });
+        const chat = provider.chat.bind(provider);
+        provider.chat = async (messages, options) => {
+            const response = await chat(messages, options);
+            controller.abort();
+            return response;
+        };
+
+        await expect(agent.execute({ task: 'x' }, controller.signal)).rejects.toThrow(CancelledError);
+        expect(calls).toHaveLength(1);
+        expect(calls[0]?.options?.signal).toBe(controller.signal);
+    });
+
+    it('does not fall back to non-streaming when the stream was cancelled', async () => {
+        const controller = new AbortController();
+        const { provider, calls } = scriptedProvider([{ content: 'fallback' }]);
+        provider.stream = async function* () {
+            controller.abort();
+            throw new DOMException('This operation was aborted', 'AbortError');
+        };
+        const agent = new TestAgent('coder', provider, { model: 'test' });
+
+        await expect(agent.executeStreaming({ task: 'x' }, undefined, controller.signal)).rejects.toThrow(CancelledError);
+        expect(calls).toHaveLength(0);
+    });
+});
+
+describe('createBuiltinTools', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = mkdtempSync(join(tmpdir(), 'aiagentflow-tools-test-'));
+        mkdirSync(join(tmpDir, 'src'));
+        writeFileSync(join(tmpDir, 'src', 'app.ts'), 'export const answer = 42;\n');
+    });
+
+    afterEach(() => {
+        rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    function tool(name: string): AgentTool {
+        const found = createBuiltinTools([name], tmpDir)[0];
+        if (!found) throw new Error(`tool not created: ${name}`);
+        return found;
+    }
+
+    it('creates only the requested tools', () => {
+        const tools = createBuiltinTools(['read_file', 'bogus'], tmpDir);
+        expect(tools.map((t) => t.definition.name)).toEqual(['read_file']);
+    });
+
+    it('reads files inside the project', async () => {
+        expect(await tool('read_file').execute({ path: 'src/app.ts' })).toContain('answer = 42');
+    });
+
+    it('refuses paths outside the project root', async () => {
+        expect(await tool('read_file').execute({ path: '../etc/passwd' })).toContain('inside the project root');
+    });
+
+    it('lists directories with a trailing slash', async () => {
+        expect(await tool('list_files').execute({})).toBe('src/');
+    });
+
+    it('searches files by regex', async () => {
+        const result = await tool('search_files').execute({ pattern: 'answer\\s*=' });
+        expect(result).toBe(`${join('src', 'app.ts')}:1: export const answer = 42;`);
+    });
+});
@@ -0,0 +1,58 @@
+/**
+ * Tests for stitching continuations onto replies cut off at the token limit.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { continuationPrompt, findOpenBlock, trimContinuation } from '../../src/agents/continuation.js';
+import { parseFiles } from '../../src/core/workflow/file-parser.js';
+
+const CUT = 'FILE: src/a.ts\n```ts\nexport const a = 1;\n```\n\nFILE: src/b.ts\n```ts\nexport function b() {\n    return compu';
+
+describe('findOpenBlock', () => {
+    it('finds the FILE: block a reply stopped inside', () => {
+        expect(findOpenBlock(CUT)).toEqual({ path: 'src/b.ts' });
+    });
+
+    it('returns undefined when every code block is closed', () => {
+        expect(findOpenBlock('FILE: src/a.ts\n```ts\nexport const a = 1;\n```\n')).toBeUndefined();
+    });
+});
+
+describe('continuationPrompt', () => {
+    it('names the unfinished file', () => {
+        expect(continuationPrompt(CUT)).toContain('FILE: src/b.ts');
+    });
+});
+
+describe('trimContinuation', () => {
+    it('drops a reopened FILE: header and fence, completing the file', () => {
+        const next = 'FILE: src/b.ts\n```ts\nte();\n}\n```\n';
+
+        const stitched = CUT + trimContinuation(CUT, next);
+
+        expect(parseFiles(stitched)).toEqual([
+            { path: 'src/a.ts', content: 'export const a = 1;\n' },
+            { path: 'src/b.ts', content: 'export function b() {\n    return compute();\n}\n' },
+        ]);
+    });
+
+    it('drops a repeated unfinished last line', () => {
+        const stitched = CUT + trimContinuation(CUT, '    return compute();\n}\n```\n');
+
+        expect(parseFiles(stitched)[1]?.content).toBe('export function b() {\n    return compute();\n}\n');
+    });
+
+    it('drops longer text repeated from the end of the reply', () => {
+        const previous = 'The design has three parts. First, the parser reads';
+        const next = 'First, the parser reads the input. Second, ...';
+
+        expect(trimContinuation(previous, next)).toBe(' the input. Second, ...');
+    });
+
+    it('keeps a bare closing fence and short text that merely looks repeated', () => {
+        const previous = 'FILE: src/c.ts\n```ts\nif (x) {\n    y();\n}\n';
+
+        expect(trimContinuation(previous, '```\n')).toBe('```\n');
+        expect(trimContinuation('a {\n  }\n', '}\n')).toBe('}\n');
+    });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for structured agent output: zod → JSON Schema and reply parsing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import {
+    parseStructuredOutput,
+    zodToJsonSchema,
+    TASK_LIST_SPEC,
+    type StructuredSpec,
+} from '../../src/agents/structured.js';
+
+const verdictSpec: StructuredSpec<{ approved: boolean; severity: 'low' | 'high'; notes?: string }> = {
+    name: 'verdict',
+    schema: z.object({
+        approved: z.boolean(),
+        severity: z.enum(['low', 'high']),
+        notes: z.string().optional(),
+    }),
+};
+
+describe('zodToJsonSchema', () => {
+    it('converts objects with required and optional properties', () => {
+        expect(zodToJsonSchema(verdictSpec.schema)).toEqual({
+            type: 'object',
+            properties: {
+                approved: { type: 'boolean' },
+                severity: { type: 'string', enum: ['low', 'high'] },
+                notes: { type: 'string' },
+            },
+            required: ['approved', 'severity'],
+            additionalProperties: false,
+        });
+    });
+
+    it('keeps descriptions and converts arrays, integers and nullables', () => {
+        const schema = z.object({
+            items: z.array(z.number().int()).describe('counts'),
+            label: z.string().nullable(),
+        });
+
+        expect(zodToJsonSchema(schema)).toMatchObject({
+            properties: {
+                items: { type: 'array', items: { type: 'integer' }, description: 'counts' },
+                label: { anyOf: [{ type: 'string' }, { type: 'null' }] },
+            },
+        });
+    });
+});
+
+describe('parseStructuredOutput', () => {
+    it('parses bare JSON', () => {
+        const result = parseStructuredOutput('{"approved": true, "severity": "low"}', verdictSpec);
+        expect(result).toEqual({ success: true, data: { approved: true, severity: 'low' } });
+    });
+
+    it('parses JSON inside code fences and surrounding prose', () => {
+        const fenced = parseStructuredOutput('Here you go:\n```json\n{"tasks": ["a", "b"]}\n```', TASK_LIST_SPEC);
+        const prose = parseStructuredOutput('Sure! {"tasks": ["a"]} Hope that helps.', TASK_LIST_SPEC);
+
+        expect(fenced).toEqual({ success: true, data: { tasks: ['a', 'b'] } });
+        expect(prose).toEqual({ success: true, data: { tasks: ['a'] } });
+    });
+
+    it('reports invalid JSON', () => {
+        const result = parseStructuredOutput('not json at all', verdictSpec);
+        expect(result).toEqual({ success: false, error: 'The response is not valid JSON.' });
+    });
+
+    it('reports schema violations with their paths', () => {
+        const result = parseStructuredOutput('{"approved": "yes", "severity": "low"}', verdictSpec);
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error).toContain('approved');
+        }
+    });
+});
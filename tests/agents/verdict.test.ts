@@ -0,0 +1,86 @@
+/**
+ * Tests for verdict block parsing.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    QA_VERDICT,
+    REVIEW_VERDICT,
+    isPositiveVerdict,
+    parseVerdict,
+    removeVerdictBlocks,
+    withVerdictFormat,
+} from '../../src/agents/verdict.js';
+
+const block = (json: string, tag = 'json') => `\`\`\`${tag}\n${json}\n\`\`\``;
+
+describe('parseVerdict', () => {
+    it('reads the block after the prose, normalizing case and filling defaults', () => {
+        const content = `Looks fine overall.\n\n${block(
+            '{"verdict": "Request Changes", "issues": [{"severity": "WARNING", "description": "No test for empty names", "file": "src/greet.js"}], "scores": {"correctness": 4}}',
+        )}`;
+
+        expect(parseVerdict(content, REVIEW_VERDICT)).toEqual({
+            status: 'ok',
+            verdict: {
+                verdict: 'request_changes',
+                issues: [{ severity: 'warning', description: 'No test for empty names', file: 'src/greet.js' }],
+                scores: { correctness: 4 },
+            },
+        });
+        expect(parseVerdict(block('{"verdict": "pass"}', ''), QA_VERDICT)).toMatchObject({
+            status: 'ok', verdict: { verdict: 'pass', issues: [], scores: {} },
+        });
+        expect(parseVerdict('{"verdict": "fail"}', QA_VERDICT)).toMatchObject({ status: 'ok' });
+    });
+
+    it('ignores verdict keywords in prose and in code under review', () => {
+        const content = [
+            'APPROVE — the tests PASS.',
+            '```ts',
+            'const review = { "verdict": "approve" };',
+            '```',
+        ].join('\n');
+
+        expect(parseVerdict(content, REVIEW_VERDICT)).toEqual({ status: 'missing', error: 'The reply has no verdict block.' });
+        expect(isPositiveVerdict(content, REVIEW_VERDICT)).toBe(false);
+    });
+
+    it('reports blocks that are not JSON or do not match the spec', () => {
+        expect(parseVerdict(block('{"verdict": approve}'), REVIEW_VERDICT)).toMatchObject({
+            status: 'invalid', error: expect.stringContaining('not valid JSON'),
+        });
+        expect(parseVerdict(block('{"verdict": "pass"}'), REVIEW_VERDICT)).toMatchObject({
+            status: 'invalid', error: expect.stringContaining('- verdict:'),
+        });
+        expect(parseVerdict(block('{"verdict": "pass", "scores": {"tests": 9}}'), QA_VERDICT)).toMatchObject({
+            status: 'invalid', error: expect.stringContaining('- scores.tests:'),
+        });
+    });
+
+    it('treats conflicting blocks and approvals with critical issues as ambiguous', () => {
+        const conflicting = `${block('{"verdict": "approve"}')}\nOn second thought:\n${block('{"verdict": "request_changes"}')}`;
+        expect(parseVerdict(conflicting, REVIEW_VERDICT)).toEqual({
+            status: 'ambiguous', error: 'The reply has conflicting verdict blocks (approve, request_changes).',
+        });
+
+        const contradictory = block('{"verdict": "pass", "issues": [{"severity": "critical", "description": "Crashes"}]}');
+        expect(parseVerdict(contradictory, QA_VERDICT)).toMatchObject({ status: 'ambiguous' });
+        expect(isPositiveVerdict(contradictory, QA_VERDICT)).toBe(false);
+
+        const agreeing = `${block('{"verdict": "approve"}')}\n${block('{"verdict": "approve", "scores": {"quality": 5}}')}`;
+        expect(parseVerdict(agreeing, REVIEW_VERDICT)).toMatchObject({ status: 'ok', verdict: { scores: { quality: 5 } } });
+    });
+});
+
+describe('verdict helpers', () => {
+    it('removes verdict blocks but keeps other code blocks', () => {
+        const content = `Rename it:\n${block('const x = 1;', 'ts')}\n\n${block('{"verdict": "approve"}')}`;
+        expect(removeVerdictBlocks(content)).toBe(`Rename it:\n${block('const x = 1;', 'ts')}`);
+    });
+
+    it('appends the format only to prompts that do not describe the block', () => {
+        expect(withVerdictFormat('# Reviewer', REVIEW_VERDICT)).toContain('"approve" or "request_changes"');
+        expect(withVerdictFormat(`# Judge\n\n${QA_VERDICT.format}`, QA_VERDICT)).toBe(`# Judge\n\n${QA_VERDICT.format}`);
+    });
+});
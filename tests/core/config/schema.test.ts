@@ -12,6 +12,7 @@ import {
     providerConfigSchema,
     workflowConfigSchema,
     projectConfigSchema,
+    customRolesConfigSchema,
 } from '../../../src/core/config/schema.js';
 
 describe('agentRoleConfigSchema', () => {
@@ -77,6 +78,38 @@ describe('agentRoleConfigSchema', () => {
         });
         expect(result.success).toBe(false);
     });
+
+    it('defaults fallbacks to an empty chain', () => {
+        const result = agentRoleConfigSchema.safeParse({
+            provider: 'groq',
+            model: 'llama-3.3-70b-versatile',
+        });
+        expect(result.success).toBe(true);
+        if (result.success) {
+            expect(result.data.fallbacks).toEqual([]);
+        }
+    });
+
+    it('accepts an ordered fallback chain', () => {
+        const result = agentRoleConfigSchema.safeParse({
+            provider: 'groq',
+            model: 'llama-3.3-70b-versatile',
+            fallbacks: [
+                { provider: 'openrouter', model: 'meta-llama/llama-3.1-8b-instruct:free' },
+                { provider: 'ollama', model: 'llama3.2:latest' },
+            ],
+        });
+        expect(result.success).toBe(true);
+    });
+
+    it('rejects fallbacks with an invalid provider', () => {
+        const result = agentRoleConfigSchema.safeParse({
+            provider: 'groq',
+            model: 'llama-3.3-70b-versatile',
+            fallbacks: [{ provider: 'nope', model: 'x' }],
+        });
+        expect(result.success).toBe(false);
+    });
 });
 
 describe('providerConfigSchema', () => {
@@ -131,6 +164,30 @@ describe('providerConfigSchema', () => {
             expect(result.data.ollama?.baseUrl).toBe('http://localhost:11434');
         }
     });
+
+    it('accepts named openai-compatible instances with defaults', () => {
+        const result = providerConfigSchema.safeParse({
+            'openai-compatible': {
+                vllm: { baseUrl: 'http://gpu-box:8000/v1' },
+                lmstudio: { baseUrl: 'http://localhost:1234/v1', models: ['qwen2.5-coder'], streamUsage: false },
+            },
+        });
+        expect(result.success).toBe(true);
+        if (result.success) {
+            expect(result.data['openai-compatible']?.vllm).toEqual({
+                baseUrl: 'http://gpu-box:8000/v1',
+                headers: {},
+                streamUsage: true,
+            });
+        }
+    });
+
+    it('rejects openai-compatible instances without a valid baseUrl', () => {
+        const result = providerConfigSchema.safeParse({
+            'openai-compatible': { local: { baseUrl: 'not a url' } },
+        });
+        expect(result.success).toBe(false);
+    });
 });
 
 describe('workflowConfigSchema', () => {
@@ -219,3 +276,23 @@ describe('appConfigSchema', () => {
         expect(result.success).toBe(false);
     });
 });
+
+describe('customRolesConfigSchema', () => {
+    it('applies role defaults and the notes output kind', () => {
+        const result = customRolesConfigSchema.parse({
+            'docs-writer': { provider: 'ollama', model: 'llama3.2', label: '📝 Docs Writer' },
+        });
+
+        expect(result['docs-writer']).toMatchObject({ output: 'notes', label: '📝 Docs Writer', temperature: 0.7, fallbacks: [] });
+    });
+
+    it('rejects built-in role names and names that are not slugs', () => {
+        expect(customRolesConfigSchema.safeParse({ reviewer: { provider: 'ollama', model: 'x' } }).success).toBe(false);
+        expect(customRolesConfigSchema.safeParse({ 'Security Auditor': { provider: 'ollama', model: 'x' } }).success).toBe(false);
+    });
+
+    it('rejects unknown output kinds', () => {
+        const result = customRolesConfigSchema.safeParse({ auditor: { provider: 'ollama', model: 'x', output: 'report' } });
+        expect(result.success).toBe(false);
+    });
+});
@@ -0,0 +1,51 @@
+/**
+ * Tests for editing agent output at approval gates.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { editOutput, editText } from '../../../src/core/workflow/approval.js';
+import { createWorkflowContext } from '../../../src/core/workflow/engine.js';
+
+const saved = { VISUAL: process.env.VISUAL, EDITOR: process.env.EDITOR };
+
+beforeEach(() => {
+    delete process.env.VISUAL;
+});
+
+afterEach(() => {
+    for (const [key, value] of Object.entries(saved)) {
+        if (value === undefined) delete process.env[key];
+        else process.env[key] = value;
+    }
+});
+
+describe('editText', () => {
+    it('returns what the editor saved, passing arguments from $EDITOR', async () => {
+        process.env.EDITOR = `node -e "const f = process.argv[1]; require('fs').appendFileSync(f, ' and tests')"`;
+
+        expect(await editText('Add greet', 'plan')).toBe('Add greet and tests');
+    });
+
+    it('fails when the editor does', async () => {
+        process.env.EDITOR = 'node -e "process.exit(3)"';
+
+        await expect(editText('Add greet', 'plan')).rejects.toThrow('(exit code 3)');
+    });
+});
+
+describe('editOutput', () => {
+    it('replaces the field with the edit and keeps it when nothing changed', async () => {
+        const ctx = { ...createWorkflowContext('task'), state: 'review_rejected' as const, reviewFeedback: 'Rename x' };
+
+        process.env.EDITOR = `node -e "require('fs').writeFileSync(process.argv[1], 'Rename x to count\\n')"`;
+        const edited = await editOutput(ctx, 'reviewFeedback');
+        expect(edited.reviewFeedback).toBe('Rename x to count');
+        expect(edited.history.map((h) => h.event)).toEqual(['OUTPUT_EDITED']);
+
+        process.env.EDITOR = 'node -e ""';
+        expect(await editOutput(ctx, 'reviewFeedback')).toBe(ctx);
+
+        process.env.EDITOR = 'node -e "process.exit(1)"';
+        expect(await editOutput(ctx, 'reviewFeedback')).toBe(ctx);
+    });
+});
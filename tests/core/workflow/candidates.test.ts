@@ -0,0 +1,102 @@
+/**
+ * Tests for best-of-N candidate checking and selection helpers.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync, existsSync, lstatSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+    candidateTemperature,
+    checkCandidate,
+    createScratchCopy,
+    formatCandidatesForJudge,
+    parseWinner,
+    removeScratchCopy,
+} from '../../../src/core/workflow/candidates.js';
+
+const GOOD = 'FILE: src/sum.js\n```javascript\nexport const sum = (a, b) => a + b;\n```';
+const WRONG = 'FILE: src/sum.js\n```javascript\nexport const sum = (a, b) => a - b;\n```';
+const BROKEN = 'FILE: src/sum.js\n```javascript\nexport const sum = (a, b) => {\n```';
+
+let tmpDir: string;
+
+beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'aiagentflow-candidates-test-'));
+    mkdirSync(join(tmpDir, 'src'));
+    mkdirSync(join(tmpDir, 'test'));
+    mkdirSync(join(tmpDir, '.git'));
+    mkdirSync(join(tmpDir, '.aiagentflow'));
+    mkdirSync(join(tmpDir, 'node_modules'));
+    writeFileSync(join(tmpDir, 'package.json'), JSON.stringify({ type: 'module' }));
+    writeFileSync(join(tmpDir, 'src', 'sum.js'), 'export const sum = () => 0;\n');
+    writeFileSync(
+        join(tmpDir, 'test', 'sum.test.js'),
+        "import { sum } from '../src/sum.js';\nif (sum(2, 3) !== 5) process.exit(1);\n",
+    );
+});
+
+afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('createScratchCopy', () => {
+    it('copies the project without .git and .aiagentflow, linking node_modules', () => {
+        const dir = createScratchCopy(tmpDir);
+        try {
+            expect(readFileSync(join(dir, 'src', 'sum.js'), 'utf-8')).toContain('() => 0');
+            expect(existsSync(join(dir, '.git'))).toBe(false);
+            expect(existsSync(join(dir, '.aiagentflow'))).toBe(false);
+            expect(lstatSync(join(dir, 'node_modules')).isSymbolicLink()).toBe(true);
+        } finally {
+            removeScratchCopy(dir);
+        }
+        expect(existsSync(dir)).toBe(false);
+    });
+});
+
+describe('checkCandidate', () => {
+    const commands = { lintCommand: 'node --check src/sum.js', testCommand: 'node test/sum.test.js' };
+
+    it('scores lint and test results without touching the project', async () => {
+        expect(await checkCandidate(tmpDir, GOOD, commands)).toEqual({
+            files: ['src/sum.js'], lintPassed: true, testsPassed: true, score: 4,
+        });
+        expect(await checkCandidate(tmpDir, WRONG, commands)).toMatchObject({ lintPassed: true, testsPassed: false, score: 2 });
+        expect(await checkCandidate(tmpDir, BROKEN, commands)).toMatchObject({ lintPassed: false, testsPassed: false, score: 1 });
+        expect(await checkCandidate(tmpDir, 'No code here', commands)).toEqual({ files: [], score: 0 });
+
+        expect(readFileSync(join(tmpDir, 'src', 'sum.js'), 'utf-8')).toContain('() => 0');
+    });
+
+    it('leaves results of commands that are not configured unset', async () => {
+        expect(await checkCandidate(tmpDir, WRONG, {})).toEqual({ files: ['src/sum.js'], score: 4 });
+    });
+});
+
+describe('candidateTemperature', () => {
+    it('uses the configured temperatures in order, then the coder temperature', () => {
+        const bestOfN = { candidates: 3, temperatures: [0.2, 0.9], selection: 'judge' as const };
+        expect([0, 1, 2].map((i) => candidateTemperature(bestOfN, 0.5, i))).toEqual([0.2, 0.9, 0.5]);
+    });
+});
+
+describe('judge selection', () => {
+    it('lists each contender with its check results', () => {
+        const context = formatCandidatesForJudge([
+            { index: 1, content: GOOD, lintPassed: true, testsPassed: true },
+            { index: 3, content: WRONG },
+        ]);
+
+        expect(context).toContain('`WINNER: <candidate number>`');
+        expect(context).toContain(`### Candidate 1 (lint passed, tests passed)\n\n${GOOD}`);
+        expect(context).toContain('### Candidate 3 (no lint, no tests run)');
+    });
+
+    it('takes the last winner line that names a contender', () => {
+        expect(parseWinner('Candidate 1 is close.\nWINNER: 3', [1, 3])).toBe(3);
+        expect(parseWinner('**Winner:** Candidate #1', [1, 3])).toBe(1);
+        expect(parseWinner('I pick the first one.', [1, 3])).toBeUndefined();
+        expect(parseWinner('WINNER: 2', [1, 3])).toBeUndefined();
+    });
+});
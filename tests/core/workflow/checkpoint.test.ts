@@ -0,0 +1,96 @@
+/**
+ * Tests for per-step file checkpoints.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { FileCheckpoint, listCheckpoints, undoCheckpoints } from '../../../src/core/workflow/checkpoint.js';
+import { parseAndWriteFiles } from '../../../src/core/workflow/file-parser.js';
+
+const OUTPUT = [
+    'FILE: src/greet.js', '```js', 'export const greet = () => "Hello";', '```',
+    'FILE: src/lib/new/util.js', '```js', 'export const util = 1;', '```',
+].join('\n');
+
+let tmpDir: string;
+
+beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'aiagentflow-checkpoint-test-'));
+    mkdirSync(join(tmpDir, 'src', 'lib'), { recursive: true });
+    writeFileSync(join(tmpDir, 'src', 'greet.js'), 'export const greet = () => "Hi";\n');
+});
+
+afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('FileCheckpoint', () => {
+    it('undoes the writes of a step, removing files and directories it created', () => {
+        const checkpoint = new FileCheckpoint(tmpDir);
+
+        parseAndWriteFiles(tmpDir, OUTPUT, checkpoint);
+        parseAndWriteFiles(tmpDir, 'FILE: src/greet.js\n```js\nexport const greet = () => "Hey";\n```', checkpoint);
+        expect(checkpoint.paths).toEqual(['src/greet.js', 'src/lib/new/util.js']);
+
+        expect(checkpoint.restore()).toEqual(['src/greet.js', 'src/lib/new/util.js']);
+        expect(readFileSync(join(tmpDir, 'src', 'greet.js'), 'utf-8')).toBe('export const greet = () => "Hi";\n');
+        expect(existsSync(join(tmpDir, 'src', 'lib', 'new'))).toBe(false);
+        expect(existsSync(join(tmpDir, 'src', 'lib'))).toBe(true);
+        expect(checkpoint.paths).toEqual([]);
+    });
+});
+
+describe('saved checkpoints', () => {
+    const STEP = { sessionId: 'greet-abc', role: 'coder', stage: 'code' } as const;
+    const sessionDir = () => join(tmpDir, '.aiagentflow', 'sessions', 'greet-abc');
+
+    it('saves the earlier files of each writing step under the session', () => {
+        const coder = new FileCheckpoint(tmpDir, STEP);
+        parseAndWriteFiles(tmpDir, OUTPUT, coder);
+        new FileCheckpoint(tmpDir, { ...STEP, role: 'reviewer', stage: 'review' });
+
+        expect(coder.step).toBe(1);
+        const [saved] = listCheckpoints(tmpDir, 'greet-abc');
+        expect(listCheckpoints(tmpDir, 'greet-abc')).toHaveLength(1);
+        expect(saved).toMatchObject({
+            step: 1,
+            role: 'coder',
+            stage: 'code',
+            files: [{ path: 'src/greet.js', existed: true }, { path: 'src/lib/new/util.js', existed: false }],
+            createdDirs: ['src/lib/new'],
+        });
+        expect(readFileSync(join(sessionDir(), 'checkpoints', '1', 'files', 'src', 'greet.js'), 'utf-8'))
+            .toBe('export const greet = () => "Hi";\n');
+    });
+
+    it('undoes the latest step, or every step from a given one', () => {
+        parseAndWriteFiles(tmpDir, OUTPUT, new FileCheckpoint(tmpDir, STEP));
+        parseAndWriteFiles(tmpDir, 'FILE: src/greet.js\n```js\nexport const greet = () => "Hey";\n```', new FileCheckpoint(tmpDir, { ...STEP, role: 'fixer', stage: 'fix' }));
+        parseAndWriteFiles(tmpDir, 'FILE: src/greet.js\n```js\nexport const greet = () => "Yo";\n```', new FileCheckpoint(tmpDir, { ...STEP, role: 'fixer', stage: 'fix' }));
+        const greet = () => readFileSync(join(tmpDir, 'src', 'greet.js'), 'utf-8').trim();
+
+        expect(undoCheckpoints(tmpDir, 'greet-abc').map((c) => c.step)).toEqual([3]);
+        expect(greet()).toBe('export const greet = () => "Hey";');
+
+        expect(undoCheckpoints(tmpDir, 'greet-abc', 1).map((c) => c.step)).toEqual([2, 1]);
+        expect(greet()).toBe('export const greet = () => "Hi";');
+        expect(existsSync(join(tmpDir, 'src', 'lib', 'new'))).toBe(false);
+        expect(listCheckpoints(tmpDir, 'greet-abc')).toEqual([]);
+    });
+
+    it('numbers a step after the latest saved one, and rejects undoing without checkpoints', () => {
+        expect(() => undoCheckpoints(tmpDir, 'greet-abc')).toThrow('has no file checkpoints');
+
+        parseAndWriteFiles(tmpDir, OUTPUT, new FileCheckpoint(tmpDir, STEP));
+        const retried = new FileCheckpoint(tmpDir, STEP);
+        parseAndWriteFiles(tmpDir, OUTPUT, retried);
+        retried.restore();
+        const next = new FileCheckpoint(tmpDir, STEP);
+        parseAndWriteFiles(tmpDir, OUTPUT, next);
+
+        expect(next.step).toBe(2);
+        expect(() => undoCheckpoints(tmpDir, 'greet-abc', 3)).toThrow('no checkpoints from step 3 on');
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for fitting agent context into a model's context window.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+    fitSections,
+    contextBudget,
+    resolveContextWindow,
+    type ContextSection,
+} from '../../../src/core/workflow/context-budget.js';
+import { clearProviderCache } from '../../../src/providers/registry.js';
+import { clearModelInfoCache } from '../../../src/providers/model-info.js';
+import { agentRoleConfigSchema } from '../../../src/core/config/schema.js';
+
+/** A section of roughly `tokens` tokens (4 chars each). */
+function section(name: string, priority: number, tokens: number, extra: Partial<ContextSection> = {}): ContextSection {
+    return { name, priority, content: 'x'.repeat(tokens * 4), ...extra };
+}
+
+describe('fitSections', () => {
+    it('leaves sections untouched when they fit', () => {
+        const sections = [section('Plan', 80, 100), section('Source Files', 20, 100)];
+
+        const result = fitSections(sections, 500);
+
+        expect(result).toEqual({ sections, changes: [] });
+    });
+
+    it('drops the lowest-priority section first and keeps the original order', () => {
+        const result = fitSections([
+            section('Settings', 100, 100),
+            section('Source Files', 20, 1000),
+            section('Plan', 80, 300),
+        ], 500);
+
+        expect(result.sections.map((s) => s.name)).toEqual(['Settings', 'Plan']);
+        expect(result.changes).toEqual(['dropped Source Files']);
+    });
+
+    it('truncates truncatable sections to the remaining budget', () => {
+        const result = fitSections([
+            section('Settings', 100, 100),
+            section('Test Failures', 70, 2000, { truncatable: true }),
+        ], 1000);
+
+        const failures = result.sections[1]!;
+        expect(result.changes).toEqual(['truncated Test Failures']);
+        expect(failures.content).toContain('[... truncated to fit the context window]');
+        expect(Math.ceil(failures.content.length / 4)).toBeLessThanOrEqual(900);
+    });
+
+    it('replaces a section with its summary when the summary fits', () => {
+        const result = fitSections([
+            section('Plan', 80, 300),
+            section('Source Files', 20, 1000, { summary: 'files: a.ts, b.ts' }),
+        ], 500);
+
+        expect(result.sections[1]!.content).toBe('files: a.ts, b.ts');
+        expect(result.changes).toEqual(['summarized Source Files']);
+    });
+
+    it('drops a section whose summary is still too large', () => {
+        const result = fitSections([
+            section('Source Files', 20, 1000, { summary: 'x'.repeat(4000) }),
+        ], 500);
+
+        expect(result.sections).toEqual([]);
+        expect(result.changes).toEqual(['dropped Source Files']);
+    });
+});
+
+describe('contextBudget', () => {
+    it('subtracts the reply reservation and prompt from the window', () => {
+        expect(contextBudget(200_000, 4096, 1000)).toBe(194_904);
+    });
+
+    it('caps the reply reservation at half the window', () => {
+        expect(contextBudget(8192, 8192, 1000)).toBe(3096);
+        expect(contextBudget(8192, 8192, 10_000)).toBe(0);
+    });
+});
+
+describe('resolveContextWindow', () => {
+    beforeEach(() => {
+        clearModelInfoCache();
+        clearProviderCache();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('prefers the configured context window', async () => {
+        const agent = agentRoleConfigSchema.parse({ provider: 'anthropic', model: 'claude-sonnet-4-20250514', contextWindow: 32_000 });
+
+        expect(await resolveContextWindow(agent, { anthropic: { apiKey: 'key' } })).toBe(32_000);
+    });
+
+    it('uses the window reported by the provider model list', async () => {
+        const agent = agentRoleConfigSchema.parse({ provider: 'anthropic', model: 'claude-sonnet-4-20250514' });
+
+        expect(await resolveContextWindow(agent, { anthropic: { apiKey: 'key' } })).toBe(200_000);
+    });
+
+    it('knows the windows of well-known models that OpenAI does not report', async () => {
+        vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({
+            data: [{ id: 'gpt-4o-2024-08-06' }, { id: 'gpt-4o-mini' }, { id: 'ft:custom' }],
+        }))));
+        const window = (model: string) => resolveContextWindow(
+            agentRoleConfigSchema.parse({ provider: 'openai', model }),
+            { openai: { apiKey: 'key' } },
+        );
+
+        expect(await window('gpt-4o-2024-08-06')).toBe(128_000);
+        expect(await window('gpt-4o-mini')).toBe(128_000);
+        expect(await window('ft:custom')).toBeUndefined();
+    });
+
+    it('leaves the window unknown when the provider cannot be created', async () => {
+        const agent = agentRoleConfigSchema.parse({ provider: 'anthropic', model: 'claude-sonnet-4-20250514' });
+
+        expect(await resolveContextWindow(agent, {})).toBeUndefined();
+    });
+});
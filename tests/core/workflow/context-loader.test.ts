@@ -7,12 +7,14 @@ import { mkdirSync, writeFileSync, rmSync } from 'node:fs';
 import { join } from 'node:path';
 import {
     loadContextDocuments,
+    loadContextImages,
     formatContextForAgent,
     type ContextDocument,
 } from '../../../src/core/workflow/context-loader.js';
 
 const TEST_ROOT = join(import.meta.dirname, '../../.tmp-context-test');
 const CONTEXT_DIR = join(TEST_ROOT, '.aiagentflow', 'context');
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
 
 beforeEach(() => {
     mkdirSync(CONTEXT_DIR, { recursive: true });
@@ -82,6 +84,46 @@ describe('loadContextDocuments', () => {
         const names = docs.map(d => d.name).sort();
         expect(names).toEqual(['auto.md', 'explicit.md']);
     });
+
+    it('does not read explicit image files as text', () => {
+        writeFileSync(join(TEST_ROOT, 'wireframe.png'), PNG_BYTES);
+
+        const docs = loadContextDocuments(TEST_ROOT, ['wireframe.png']);
+
+        expect(docs).toHaveLength(0);
+    });
+});
+
+describe('loadContextImages', () => {
+    it('loads explicit and auto-discovered images as base64', () => {
+        writeFileSync(join(TEST_ROOT, 'wireframe.png'), PNG_BYTES);
+        writeFileSync(join(CONTEXT_DIR, 'screenshot.JPG'), PNG_BYTES);
+        writeFileSync(join(CONTEXT_DIR, 'notes.md'), '# Notes'); // Should be ignored
+
+        const images = loadContextImages(TEST_ROOT, ['wireframe.png', 'spec.md']);
+
+        expect(images).toEqual([
+            { mediaType: 'image/png', data: PNG_BYTES.toString('base64'), name: 'wireframe.png' },
+            { mediaType: 'image/jpeg', data: PNG_BYTES.toString('base64'), name: 'screenshot.JPG' },
+        ]);
+    });
+
+    it('deduplicates images and skips missing files', () => {
+        writeFileSync(join(CONTEXT_DIR, 'mockup.png'), PNG_BYTES);
+
+        const images = loadContextImages(TEST_ROOT, [join(CONTEXT_DIR, 'mockup.png'), 'missing.jpg']);
+
+        expect(images.map((image) => image.name)).toEqual(['mockup.png']);
+    });
+
+    it('skips images over 5MB once base64-encoded, not only over 5MB on disk', () => {
+        writeFileSync(join(CONTEXT_DIR, 'small.png'), Buffer.alloc(3.5 * 1024 * 1024));
+        writeFileSync(join(CONTEXT_DIR, 'large.png'), Buffer.alloc(4 * 1024 * 1024));
+
+        const images = loadContextImages(TEST_ROOT);
+
+        expect(images.map((image) => image.name)).toEqual(['small.png']);
+    });
 });
 
 describe('formatContextForAgent', () => {
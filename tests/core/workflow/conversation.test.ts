@@ -0,0 +1,67 @@
+/**
+ * Tests for per-role agent conversation history.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeRequest, recordExchange, conversationTurns } from '../../../src/core/workflow/conversation.js';
+import { createWorkflowContext } from '../../../src/core/workflow/engine.js';
+
+const FILE_REPLY = 'FILE: src/a.ts\n```ts\nexport const a = 1;\n```';
+
+describe('describeRequest', () => {
+    it('uses the failures that sent the workflow to the fixer', () => {
+        const ctx = { ...createWorkflowContext('Add a'), state: 'tests_failed' as const, testFailures: 'expected 1, got 2' };
+        expect(describeRequest(ctx)).toBe('Fix these failures:\n\nexpected 1, got 2');
+    });
+
+    it('falls back to the task', () => {
+        expect(describeRequest(createWorkflowContext('Add a'))).toBe('Implement this task: Add a');
+    });
+});
+
+describe('recordExchange', () => {
+    it('keeps recent exchanges verbatim and summarizes older ones', () => {
+        let conversation = recordExchange(undefined, 'Implement this task: Add a', FILE_REPLY);
+        for (let i = 1; i <= 3; i++) {
+            conversation = recordExchange(conversation, `Fix these failures:\n\nerror ${i}`, `attempt ${i}`);
+        }
+
+        expect(conversation.exchanges.map((e) => e.reply)).toEqual(['attempt 1', 'attempt 2', 'attempt 3']);
+        expect(conversation.summary).toEqual(['Implement this task: Add a → wrote src/a.ts']);
+    });
+
+    it('caps long replies', () => {
+        const conversation = recordExchange(undefined, 'fix', 'x'.repeat(100_000));
+        expect(conversation.exchanges[0]!.reply.length).toBeLessThan(5_000);
+        expect(conversation.exchanges[0]!.reply).toContain('[... truncated]');
+    });
+});
+
+describe('conversationTurns', () => {
+    it('returns alternating turns with the summary in the first user turn', () => {
+        let conversation = recordExchange(undefined, 'first', 'reply 1');
+        for (let i = 2; i <= 4; i++) {
+            conversation = recordExchange(conversation, `request ${i}`, `reply ${i}`);
+        }
+
+        const turns = conversationTurns(conversation, 10_000);
+
+        expect(turns.map((t) => t.role)).toEqual(['user', 'assistant', 'user', 'assistant', 'user', 'assistant']);
+        expect(turns[0]!.content).toBe('Earlier attempts (summarized):\n- first → replied: reply 1\n\nrequest 2');
+    });
+
+    it('folds exchanges into the summary until the turns fit', () => {
+        let conversation = recordExchange(undefined, 'first', 'a'.repeat(2_000));
+        conversation = recordExchange(conversation, 'second', 'short');
+
+        const turns = conversationTurns(conversation, 100);
+
+        expect(turns).toHaveLength(2);
+        expect(turns[0]!.content).toContain('- first → replied:');
+        expect(turns[1]!.content).toBe('short');
+    });
+
+    it('returns nothing without a conversation', () => {
+        expect(conversationTurns(undefined, 1_000)).toEqual([]);
+    });
+});
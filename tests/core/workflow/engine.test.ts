@@ -8,8 +8,15 @@ import {
     transition,
     isTerminal,
     getNextAgent,
+    recordProviderSwitch,
+    getCurrentStage,
+    completeStage,
+    abortWorkflow,
+    editableField,
+    recordOutputEdit,
     WorkflowState,
 } from '../../../src/core/workflow/engine.js';
+import { DEFAULT_PIPELINE, type NamedPipeline } from '../../../src/core/workflow/pipeline.js';
 import { WorkflowError } from '../../../src/core/errors.js';
 
 describe('createWorkflowContext', () => {
@@ -179,3 +186,164 @@ describe('getNextAgent', () => {
         expect(getNextAgent(ctx)).toBeNull();
     });
 });
+
+describe('recordProviderSwitch', () => {
+    it('appends the switch without changing state', () => {
+        const ctx = createWorkflowContext('task');
+        const updated = recordProviderSwitch(ctx, 'coder', {
+            from: { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+            to: { provider: 'ollama', model: 'llama3.2:latest' },
+            reason: 'rate limited',
+        });
+
+        expect(updated.state).toBe('idle');
+        expect(updated.providerSwitches).toHaveLength(1);
+        expect(updated.providerSwitches![0]).toMatchObject({ role: 'coder', reason: 'rate limited' });
+        expect(ctx.providerSwitches).toBeUndefined();
+    });
+});
+
+describe('output edits', () => {
+    it('finds the field a stage stored its output in', () => {
+        expect(editableField({ outcome: 'done', events: [
+            { type: 'SPEC_READY', payload: { spec: 'p' } },
+            { type: 'PLAN_APPROVED', payload: { plan: 'p' } },
+        ] })).toBe('plan');
+        expect(editableField({ outcome: 'lint_failed', events: [
+            { type: 'CODE_GENERATED', payload: { files: ['a.ts'] } },
+            { type: 'TESTS_FAILED', payload: { failures: 'lint' } },
+        ] })).toBe('testFailures');
+        expect(editableField({ outcome: 'approved', events: [{ type: 'QA_APPROVED' }] })).toBeUndefined();
+    });
+
+    it('replaces the field in place and records the edit in the history', () => {
+        let ctx = createWorkflowContext('task');
+        ctx = transition(ctx, { type: 'SPEC_READY', payload: { spec: 'plan' } });
+        ctx = transition(ctx, { type: 'PLAN_APPROVED', payload: { plan: 'plan' } });
+
+        const edited = recordOutputEdit(ctx, 'plan', 'better plan');
+
+        expect(edited.state).toBe('plan_approved');
+        expect(edited.plan).toBe('better plan');
+        expect(edited.spec).toBe('better plan');
+        expect(edited.history.at(-1)).toMatchObject({ from: 'plan_approved', to: 'plan_approved', event: 'OUTPUT_EDITED' });
+        expect(recordOutputEdit(edited, 'reviewFeedback', 'nit').reviewFeedback).toBe('nit');
+    });
+});
+
+describe('pipeline stages', () => {
+    const docs: NamedPipeline = {
+        name: 'docs',
+        stages: [
+            { name: 'write', role: 'coder', on: {} },
+            { name: 'qa', role: 'judge', on: { rejected: 'write' } },
+        ],
+    };
+
+    it('starts at the first stage and follows outcomes to completion', () => {
+        let ctx = createWorkflowContext('task');
+        expect(getCurrentStage(ctx, docs)?.name).toBe('write');
+
+        ctx = completeStage(ctx, docs, { outcome: 'done', events: [{ type: 'CODE_GENERATED', payload: { files: ['README.md'] } }] });
+        expect(ctx.stage).toBe('qa');
+        expect(getCurrentStage(ctx, docs)?.role).toBe('judge');
+
+        ctx = completeStage(ctx, docs, { outcome: 'rejected', events: [{ type: 'QA_REJECTED', payload: { reason: 'typo' } }] });
+        expect(ctx.stage).toBe('write');
+        expect(ctx.iteration).toBe(1);
+
+        ctx = completeStage(ctx, docs, { outcome: 'done', events: [{ type: 'CODE_GENERATED', payload: { files: ['README.md'] } }] });
+        ctx = completeStage(ctx, docs, { outcome: 'approved', events: [{ type: 'QA_APPROVED' }] });
+        expect(ctx.state).toBe('qa_approved');
+        expect(ctx.stage).toBeUndefined();
+        expect(getCurrentStage(ctx, docs)).toBeUndefined();
+    });
+
+    it('ends in qa_approved when a pipeline without a judge completes', () => {
+        const codeOnly: NamedPipeline = { name: 'code-only', stages: [{ name: 'code', role: 'coder', on: {} }] };
+
+        const ctx = completeStage(createWorkflowContext('task'), codeOnly, {
+            outcome: 'done',
+            events: [{ type: 'CODE_GENERATED', payload: { files: ['a.ts'] } }],
+        });
+
+        expect(ctx.state).toBe('qa_approved');
+        expect(ctx.history.map((h) => h.event)).toEqual(['CODE_GENERATED', 'PIPELINE_COMPLETE']);
+    });
+
+    it('records failure output as an event, leaving the earlier context untouched', () => {
+        const before = { ...createWorkflowContext('task'), stage: 'write' };
+        const after = completeStage(before, docs, {
+            outcome: 'done',
+            events: [
+                { type: 'CODE_GENERATED', payload: { files: ['a.ts'] } },
+                { type: 'FAILURE_RECORDED', payload: { output: 'a.ts:1 error' } },
+            ],
+        });
+
+        expect(after.previousFailures).toEqual(['a.ts:1 error']);
+        expect(after.state).toBe('code_generated');
+        expect(before.previousFailures).toEqual([]);
+    });
+
+    it('fails on unmapped failure outcomes and stops at an ABORT event', () => {
+        const failed = completeStage(createWorkflowContext('task'), docs, { outcome: 'lint_failed', events: [] });
+        expect(failed.state).toBe('failed');
+
+        const aborted = completeStage({ ...createWorkflowContext('task'), stage: 'qa' }, docs, {
+            outcome: 'rejected',
+            events: [{ type: 'ABORT', payload: { reason: 'stuck' } }],
+        });
+        expect(aborted.state).toBe('failed');
+        expect(aborted.stage).toBeUndefined();
+    });
+
+    it('counts failure outcomes toward maxIterations', () => {
+        const ctx = { ...createWorkflowContext('task', 2), stage: 'qa', iteration: 1 };
+        expect(() => completeStage(ctx, docs, { outcome: 'rejected', events: [] })).toThrow('Max iterations');
+    });
+
+    it('counts lint failures and judge rejections toward maxIterations', () => {
+        const loop: NamedPipeline = {
+            name: 'loop',
+            stages: [
+                { name: 'write', role: 'coder', on: { lint_failed: 'write' } },
+                { name: 'qa', role: 'judge', on: { rejected: 'write' } },
+            ],
+        };
+        const generated = { type: 'CODE_GENERATED' as const, payload: { files: ['a.ts'] } };
+
+        let ctx = createWorkflowContext('task', 3);
+        ctx = completeStage(ctx, loop, { outcome: 'lint_failed', events: [generated] });
+        expect(ctx.iteration).toBe(1);
+
+        ctx = completeStage(ctx, loop, { outcome: 'done', events: [generated] });
+        ctx = completeStage(ctx, loop, { outcome: 'rejected', events: [{ type: 'QA_REJECTED', payload: { reason: 'typo' } }] });
+        expect(ctx.iteration).toBe(2);
+
+        expect(() => completeStage(ctx, loop, { outcome: 'lint_failed', events: [generated] })).toThrow('Max iterations (3)');
+    });
+
+    it('rejects outcomes the stage role cannot produce', () => {
+        expect(() => completeStage(createWorkflowContext('task'), docs, { outcome: 'approved', events: [] }))
+            .toThrow('Stage "write" (coder) cannot end with "approved"');
+    });
+
+    it('maps sessions saved before pipelines to a stage by state', () => {
+        let ctx = createWorkflowContext('task');
+        ctx = transition(ctx, { type: 'SPEC_READY', payload: { spec: 'spec' } });
+        ctx = transition(ctx, { type: 'PLAN_APPROVED', payload: { plan: 'plan' } });
+        ctx = transition(ctx, { type: 'CODE_GENERATED', payload: { files: ['f.ts'] } });
+
+        expect(getCurrentStage(ctx, DEFAULT_PIPELINE)?.name).toBe('review');
+        expect(() => getCurrentStage({ ...ctx, stage: 'missing' }, docs)).toThrow(WorkflowError);
+    });
+
+    it('aborts from any state, including mid-pipeline qa_approved', () => {
+        const ctx = { ...createWorkflowContext('task'), state: WorkflowState.QAApproved, stage: 'write' };
+        const aborted = abortWorkflow(ctx, 'User aborted');
+
+        expect(aborted.state).toBe('failed');
+        expect(aborted.stage).toBeUndefined();
+    });
+});
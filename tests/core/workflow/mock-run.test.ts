@@ -0,0 +1,614 @@
+/**
+ * End-to-end workflow runs against the mock provider (no network).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import prompts from 'prompts';
+import { runWorkflow, resumeWorkflow } from '../../../src/core/workflow/runner.js';
+import { runTaskQueue } from '../../../src/core/workflow/task-queue.js';
+import { listSessions } from '../../../src/core/workflow/session.js';
+import { listCheckpoints } from '../../../src/core/workflow/checkpoint.js';
+import { clearProviderCache } from '../../../src/providers/registry.js';
+import { DEFAULT_CONFIG } from '../../../src/core/config/defaults.js';
+import type { AppConfig } from '../../../src/core/config/types.js';
+import type { MockFixtures } from '../../../src/providers/mock.js';
+
+const CODE = `FILE: src/greet.js
+\`\`\`javascript
+export const greet = (name) => \`Hello, \${name}\`;
+\`\`\``;
+
+const WRONG_CODE = `FILE: src/greet.js
+\`\`\`javascript
+export const greet = (name) => \`Hi, \${name}\`;
+\`\`\``;
+
+const TEST = `FILE: test/greet.test.js
+\`\`\`javascript
+import { greet } from '../src/greet.js';
+if (greet('a') !== 'Hello, a') process.exit(1);
+\`\`\``;
+
+/** A reviewer or judge reply: optional prose, then its verdict block. */
+function verdict(value: string, issues: Array<{ severity: string; description: string }> = [], prose = ''): string {
+    return `${prose}\n\n\`\`\`json\n${JSON.stringify({ verdict: value, issues })}\n\`\`\``.trim();
+}
+
+const APPROVE = verdict('approve');
+const PASS = verdict('pass');
+
+describe('runWorkflow with the mock provider', () => {
+    let tmpDir: string;
+
+    function setup(fixtures: MockFixtures, cacheEnabled = false, testCommand = 'node test/greet.test.js'): void {
+        const fixturesPath = join(tmpDir, 'fixtures.json');
+        writeFileSync(fixturesPath, JSON.stringify(fixtures));
+
+        const role = { provider: 'mock' as const, model: 'mock', temperature: 0.2, maxTokens: 4096, maxContinuations: 2, fallbacks: [], tools: [] };
+        const config: AppConfig = {
+            ...DEFAULT_CONFIG,
+            providers: { mock: { fixturesPath } },
+            agents: { architect: role, coder: role, reviewer: role, tester: role, fixer: role, judge: role },
+            workflow: {
+                ...DEFAULT_CONFIG.workflow,
+                humanApproval: false,
+                autoCreateBranch: false,
+                autoCommit: false,
+                lintCommand: 'node --check src/greet.js',
+                testCommand,
+            },
+            cache: { ...DEFAULT_CONFIG.cache, enabled: cacheEnabled },
+        };
+        writeFileSync(join(tmpDir, '.aiagentflow', 'config.json'), JSON.stringify(config));
+        writeFileSync(join(tmpDir, 'package.json'), JSON.stringify({ type: 'module' }));
+    }
+
+    beforeEach(() => {
+        tmpDir = mkdtempSync(join(tmpdir(), 'aiagentflow-mockrun-test-'));
+        mkdirSync(join(tmpDir, '.aiagentflow'), { recursive: true });
+        clearProviderCache();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        clearProviderCache();
+        rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('runs the full pipeline, writing files and passing lint and test gates', async () => {
+        setup({
+            roles: {
+                architect: ['1. Add a greet function'],
+                coder: [CODE],
+                reviewer: [verdict('approve', [], 'Looks good.')],
+                tester: [TEST],
+                judge: [PASS],
+            },
+        });
+
+        const ctx = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false });
+
+        expect(ctx.state).toBe('qa_approved');
+        expect(ctx.generatedFiles).toContain('src/greet.js');
+        expect(ctx.testFiles).toContain('test/greet.test.js');
+        expect(readFileSync(join(tmpDir, 'src', 'greet.js'), 'utf-8')).toContain('Hello');
+
+        const [session] = listSessions(tmpDir);
+        expect(session?.tokenUsage.map((e) => e.role)).toEqual(['architect', 'coder', 'reviewer', 'tester', 'judge']);
+    });
+
+    it('routes test failures through the fixer and re-runs the gates', async () => {
+        setup({
+            roles: {
+                architect: ['plan'],
+                coder: [WRONG_CODE],
+                fixer: [CODE],
+                reviewer: [APPROVE],
+                tester: [TEST],
+                judge: [PASS],
+            },
+        });
+
+        const ctx = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: true });
+
+        expect(ctx.state).toBe('qa_approved');
+        expect(ctx.history.some((h) => h.to === 'tests_failed')).toBe(true);
+        expect(ctx.iteration).toBe(1);
+        expect(readFileSync(join(tmpDir, 'src', 'greet.js'), 'utf-8')).toContain('Hello');
+
+        // The fixer's exchange is kept for later iterations and saved with the session
+        const [session] = listSessions(tmpDir);
+        expect(session?.context.conversations?.fixer?.exchanges).toEqual([
+            { request: expect.stringContaining('Fix these failures'), reply: CODE },
+        ]);
+        expect(session?.context.conversations?.coder?.exchanges).toHaveLength(1);
+    });
+
+    it('continues a coder reply cut off at the token limit before writing files', async () => {
+        const cut = CODE.slice(0, CODE.indexOf('Hello'));
+        setup({
+            roles: {
+                architect: ['plan'],
+                coder: [{ content: cut, finishReason: 'length' }, { content: CODE.slice(cut.length) }],
+                reviewer: [APPROVE],
+                tester: [TEST],
+                judge: [PASS],
+            },
+        });
+
+        const ctx = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: true });
+
+        expect(ctx.state).toBe('qa_approved');
+        expect(readFileSync(join(tmpDir, 'src', 'greet.js'), 'utf-8')).toBe('export const greet = (name) => `Hello, ${name}`;\n');
+    });
+
+    it('asks again for a missing verdict block instead of reading keywords in the prose', async () => {
+        setup({
+            roles: {
+                architect: ['plan'],
+                coder: [CODE],
+                reviewer: ['I would APPROVE this, but first: does it PASS?', APPROVE],
+                tester: [TEST],
+                judge: ['All requirements are met and the tests PASS.', '```json\n{ "verdict": "PASS" }\n```'],
+            },
+        });
+
+        const ctx = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false, transcript: true });
+
+        expect(ctx.state).toBe('qa_approved');
+        expect(ctx.reviewFeedback).toContain('I would APPROVE this');
+        expect(ctx.reviewFeedback).toContain('"verdict": "approve"');
+
+        // The follow-ups count toward the step that needed them
+        const [session] = listSessions(tmpDir);
+        expect(session?.tokenUsage.map((e) => e.role)).toEqual(['architect', 'coder', 'reviewer', 'tester', 'judge']);
+        const followUp = readFileSync(join(tmpDir, '.aiagentflow', 'logs', session!.id, 'transcript.jsonl'), 'utf-8')
+            .trim().split('\n').filter((line) => (JSON.parse(line) as { role: string }).role === 'reviewer')[1];
+        expect(followUp).toContain('The reply has no verdict block.');
+    });
+
+    it('follows a project pipeline that skips review and tests', async () => {
+        setup({ roles: { coder: [WRONG_CODE, CODE], judge: [verdict('fail', [{ severity: 'critical', description: 'wrong greeting' }]), PASS] } });
+        mkdirSync(join(tmpDir, '.aiagentflow', 'pipelines'));
+        writeFileSync(join(tmpDir, '.aiagentflow', 'pipelines', 'docs.json'), JSON.stringify({
+            stages: [
+                { name: 'write', role: 'coder' },
+                { name: 'check', role: 'judge', instructions: 'Only check the wording.', on: { rejected: 'write' } },
+            ],
+        }));
+
+        const ctx = await runWorkflow({
+            projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false, pipeline: 'docs', transcript: true,
+        });
+
+        expect(ctx.state).toBe('qa_approved');
+        expect(ctx.pipeline).toBe('docs');
+        expect(ctx.iteration).toBe(1);
+        expect(readFileSync(join(tmpDir, 'src', 'greet.js'), 'utf-8')).toContain('Hello');
+
+        const [session] = listSessions(tmpDir);
+        expect(session?.tokenUsage.map((e) => e.role)).toEqual(['coder', 'judge', 'coder', 'judge']);
+        const judgeRequest = readFileSync(join(tmpDir, '.aiagentflow', 'logs', session!.id, 'transcript.jsonl'), 'utf-8')
+            .trim().split('\n').map((line) => JSON.parse(line) as { role: string })
+            .find((record) => record.role === 'judge');
+        expect(JSON.stringify(judgeRequest)).toContain('Only check the wording.');
+    });
+
+    it('retries a step at the approval gate, undoing its file writes and passing on the hint', async () => {
+        const wrongWithExtra = `${WRONG_CODE}\n\nFILE: src/extra.js\n\`\`\`javascript\nexport const extra = 1;\n\`\`\``;
+        setup({ roles: { coder: [wrongWithExtra, CODE], judge: [PASS] } });
+        const aiDir = join(tmpDir, '.aiagentflow');
+        const config = JSON.parse(readFileSync(join(aiDir, 'config.json'), 'utf-8')) as AppConfig;
+        config.workflow.humanApproval = true;
+        writeFileSync(join(aiDir, 'config.json'), JSON.stringify(config));
+        mkdirSync(join(aiDir, 'pipelines'));
+        writeFileSync(join(aiDir, 'pipelines', 'docs.json'), JSON.stringify({
+            stages: [{ name: 'write', role: 'coder' }, { name: 'check', role: 'judge' }],
+        }));
+        prompts.inject(['retry', 'Greet with Hello', 'approve', 'approve']);
+
+        const ctx = await runWorkflow({
+            projectRoot: tmpDir, task: 'Add greet', auto: false, streaming: false, pipeline: 'docs', transcript: true,
+        });
+
+        expect(ctx.state).toBe('qa_approved');
+        expect(ctx.retryHint).toBeUndefined();
+        expect(readFileSync(join(tmpDir, 'src', 'greet.js'), 'utf-8')).toContain('Hello');
+        expect(existsSync(join(tmpDir, 'src', 'extra.js'))).toBe(false);
+        expect(ctx.generatedFiles).toEqual(['src/greet.js']);
+
+        const [session] = listSessions(tmpDir);
+        expect(session?.tokenUsage.map((e) => e.role)).toEqual(['coder', 'coder', 'judge']);
+        const coderRequests = readFileSync(join(aiDir, 'logs', session!.id, 'transcript.jsonl'), 'utf-8')
+            .trim().split('\n').filter((line) => (JSON.parse(line) as { role: string }).role === 'coder');
+        expect(coderRequests[0]).not.toContain('Retry Instructions');
+        expect(coderRequests[1]).toContain('## Retry Instructions');
+        expect(coderRequests[1]).toContain('Greet with Hello');
+    });
+
+    it('gives a retried test step a fresh attempt, forgetting the failure it discarded', async () => {
+        setup({ roles: { coder: [WRONG_CODE], tester: [TEST], fixer: [CODE], judge: [PASS] } });
+        const aiDir = join(tmpDir, '.aiagentflow');
+        const config = JSON.parse(readFileSync(join(aiDir, 'config.json'), 'utf-8')) as AppConfig;
+        config.workflow.humanApproval = true;
+        writeFileSync(join(aiDir, 'config.json'), JSON.stringify(config));
+        mkdirSync(join(aiDir, 'pipelines'));
+        writeFileSync(join(aiDir, 'pipelines', 'tdd.json'), JSON.stringify({
+            stages: [
+                { name: 'write', role: 'coder' },
+                { name: 'test', role: 'tester', on: { passed: 'check', failed: 'fix' } },
+                { name: 'fix', role: 'fixer', on: { done: 'test' } },
+                { name: 'check', role: 'judge' },
+            ],
+        }));
+        // The tester fails, is retried and fails the same way: that is its first failure, not a repeat
+        prompts.inject(['approve', 'retry', '', 'approve', 'approve', 'approve', 'approve']);
+
+        const ctx = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: false, streaming: false, pipeline: 'tdd' });
+
+        expect(ctx.state).toBe('qa_approved');
+        expect(ctx.previousFailures).toHaveLength(1);
+        const [session] = listSessions(tmpDir);
+        expect(session?.tokenUsage.map((e) => e.role)).toEqual(['coder', 'tester', 'tester', 'fixer', 'tester', 'judge']);
+    });
+
+    it('merges a review panel under its consensus policy and sends the merged feedback to the fixer', async () => {
+        setup({
+            roles: {
+                architect: ['plan'],
+                coder: [WRONG_CODE],
+                reviewer: [
+                    APPROVE,
+                    verdict('approve', [{ severity: 'nit', description: 'name the parameter "person"' }]),
+                    verdict('request_changes', [{ severity: 'critical', description: 'greet says Hi instead of Hello' }]),
+                    APPROVE,
+                ],
+                fixer: [CODE],
+                tester: [TEST],
+                judge: [PASS],
+            },
+        });
+        const configPath = join(tmpDir, '.aiagentflow', 'config.json');
+        const config = JSON.parse(readFileSync(configPath, 'utf-8')) as AppConfig;
+        config.reviewPanel = {
+            reviewers: [
+                { ...config.agents.reviewer, model: 'mock-b' },
+                { ...config.agents.reviewer, model: 'mock-c', label: 'Strict reviewer' },
+            ],
+            policy: 'any-critical-blocks',
+        };
+        writeFileSync(configPath, JSON.stringify(config));
+
+        const ctx = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false, transcript: true });
+
+        expect(ctx.state).toBe('qa_approved');
+        expect(ctx.iteration).toBe(1);
+
+        const [session] = listSessions(tmpDir);
+        expect(session?.tokenUsage.map((e) => e.role)).toEqual([
+            'architect', 'coder', 'reviewer', 'reviewer', 'reviewer', 'fixer',
+            'reviewer', 'reviewer', 'reviewer', 'tester', 'judge',
+        ]);
+        expect(session?.tokenUsage.filter((e) => e.role === 'reviewer').map((e) => e.model).sort())
+            .toEqual(['mock', 'mock', 'mock-b', 'mock-b', 'mock-c', 'mock-c']);
+
+        const fixerRecord = readFileSync(join(tmpDir, '.aiagentflow', 'logs', session!.id, 'transcript.jsonl'), 'utf-8')
+            .trim().split('\n').find((line) => (JSON.parse(line) as { role: string }).role === 'fixer');
+        expect(fixerRecord).toContain('Verdict: REQUEST_CHANGES (2 of 3 reviewers approved, any-critical-blocks policy)');
+        expect(fixerRecord).toContain('CRITICAL: greet says Hi instead of Hello (Strict reviewer)');
+    });
+
+    it('samples several coder candidates and writes only the one the judge picks', async () => {
+        setup({
+            roles: {
+                architect: ['plan'],
+                coder: [WRONG_CODE, CODE, CODE],
+                reviewer: [APPROVE],
+                tester: [TEST],
+                judge: ['Both pass; 3 is the same but I prefer it.\nWINNER: 3', PASS],
+            },
+        });
+        // The project's existing test tells the candidates apart
+        mkdirSync(join(tmpDir, 'test'));
+        writeFileSync(join(tmpDir, 'test', 'greet.test.js'), TEST.split('\n').slice(2, -1).join('\n'));
+        const configPath = join(tmpDir, '.aiagentflow', 'config.json');
+        const config = JSON.parse(readFileSync(configPath, 'utf-8')) as AppConfig;
+        config.bestOfN = { candidates: 2, temperatures: [0.1, 0.5, 0.9], selection: 'judge' };
+        writeFileSync(configPath, JSON.stringify(config));
+
+        const ctx = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false, bestOf: 3 });
+
+        expect(ctx.state).toBe('qa_approved');
+        expect(readFileSync(join(tmpDir, 'src', 'greet.js'), 'utf-8')).toContain('Hello');
+        expect(ctx.candidates?.map((c) => [c.index, c.temperature, c.lintPassed, c.testsPassed, c.score, c.selected])).toEqual([
+            [1, 0.1, true, false, 2, false],
+            [2, 0.5, true, true, 4, false],
+            [3, 0.9, true, true, 4, true],
+        ]);
+        expect(ctx.candidates?.[0]?.content).toBe(WRONG_CODE);
+
+        const [session] = listSessions(tmpDir);
+        expect(session?.context.candidates).toHaveLength(3);
+        expect(session?.tokenUsage.map((e) => e.role)).toEqual([
+            'architect', 'coder', 'coder', 'coder', 'judge', 'reviewer', 'tester', 'judge',
+        ]);
+    });
+
+    it('caches each coder candidate apart, so a rerun replays every one', async () => {
+        const fixtures: MockFixtures = {
+            roles: { architect: ['plan'], coder: [WRONG_CODE, CODE], reviewer: [APPROVE], tester: [TEST], judge: [PASS] },
+        };
+        setup(fixtures, true);
+        mkdirSync(join(tmpDir, 'test'));
+        writeFileSync(join(tmpDir, 'test', 'greet.test.js'), TEST.split('\n').slice(2, -1).join('\n'));
+
+        const first = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false, bestOf: 2 });
+        clearProviderCache();
+        setup({ roles: {} }, true);
+        const rerun = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false, bestOf: 2 });
+
+        expect(rerun.state).toBe('qa_approved');
+        expect(rerun.candidates?.map((c) => c.content)).toEqual(first.candidates?.map((c) => c.content));
+        expect(new Set(rerun.candidates?.map((c) => c.content)).size).toBe(2);
+    });
+
+    it('keeps the candidates that succeed when one coder sample fails', async () => {
+        setup({ roles: { architect: ['plan'], reviewer: [APPROVE], tester: [TEST], judge: [PASS] } });
+        const configPath = join(tmpDir, '.aiagentflow', 'config.json');
+        const config = JSON.parse(readFileSync(configPath, 'utf-8')) as AppConfig;
+        config.providers['openai-compatible'] = { local: { baseUrl: 'http://llm.test/v1' } };
+        config.agents.coder = { ...config.agents.coder, provider: 'openai-compatible', instance: 'local', model: 'llama3' };
+        config.bestOfN = { candidates: 2, temperatures: [0.1, 0.9], selection: 'score' };
+        writeFileSync(configPath, JSON.stringify(config));
+        // The hot sample's request is refused; the other one answers
+        vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+            if (url.endsWith('/models')) return new Response(JSON.stringify({ data: [] }));
+            const { temperature } = JSON.parse(String(init?.body)) as { temperature: number };
+            if (temperature === 0.9) return new Response(JSON.stringify({ error: { message: 'bad request' } }), { status: 400 });
+            return new Response(JSON.stringify({
+                model: 'llama3',
+                choices: [{ message: { content: CODE }, finish_reason: 'stop' }],
+                usage: { prompt_tokens: 10, completion_tokens: 10, total_tokens: 20 },
+            }));
+        }));
+
+        const ctx = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false });
+
+        expect(ctx.state).toBe('qa_approved');
+        expect(readFileSync(join(tmpDir, 'src', 'greet.js'), 'utf-8')).toContain('Hello');
+        expect(ctx.candidates?.map((c) => [c.index, c.selected, c.error !== undefined])).toEqual([
+            [1, true, false],
+            [2, false, true],
+        ]);
+    });
+
+    it('runs custom roles from prompt files inside a pipeline', async () => {
+        setup({
+            roles: {
+                'migration-checker': ['No migrations needed: greet is a new module.'],
+                coder: [WRONG_CODE, CODE],
+                'security-auditor': [verdict('request_changes', [], 'Use the agreed greeting.'), APPROVE],
+            },
+        });
+        const aiDir = join(tmpDir, '.aiagentflow');
+        const config = JSON.parse(readFileSync(join(aiDir, 'config.json'), 'utf-8')) as AppConfig;
+        config.customRoles = {
+            'migration-checker': { ...config.agents.reviewer, output: 'notes' },
+            'security-auditor': { ...config.agents.reviewer, label: '🛡️ Security Auditor', output: 'verdict' },
+        };
+        writeFileSync(join(aiDir, 'config.json'), JSON.stringify(config));
+        mkdirSync(join(aiDir, 'prompts'));
+        writeFileSync(join(aiDir, 'prompts', 'migration-checker.md'), 'You check database migrations.');
+        writeFileSync(join(aiDir, 'prompts', 'security-auditor.md'), 'You audit code for security issues.');
+        mkdirSync(join(aiDir, 'pipelines'));
+        writeFileSync(join(aiDir, 'pipelines', 'audit.json'), JSON.stringify({
+            stages: [
+                { name: 'check', role: 'migration-checker' },
+                { name: 'write', role: 'coder' },
+                { name: 'audit', role: 'security-auditor', on: { rejected: 'write' } },
+            ],
+        }));
+
+        const ctx = await runWorkflow({
+            projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: true, pipeline: 'audit', transcript: true,
+        });
+
+        expect(ctx.state).toBe('qa_approved');
+        expect(ctx.notes?.['migration-checker']).toBe('No migrations needed: greet is a new module.');
+        expect(readFileSync(join(tmpDir, 'src', 'greet.js'), 'utf-8')).toContain('Hello');
+
+        const [session] = listSessions(tmpDir);
+        expect(session?.tokenUsage.map((e) => e.role)).toEqual([
+            'migration-checker', 'coder', 'security-auditor', 'coder', 'security-auditor',
+        ]);
+        const records = readFileSync(join(aiDir, 'logs', session!.id, 'transcript.jsonl'), 'utf-8')
+            .trim().split('\n').map((line) => JSON.parse(line) as { role: string; request: { systemPrompt?: string } });
+        expect(records.find((r) => r.role === 'security-auditor')?.request.systemPrompt)
+            .toContain('You audit code for security issues.');
+        expect(JSON.stringify(records.find((r) => r.role === 'coder'))).toContain('No migrations needed');
+    });
+
+    it('replays a repeated run from the response cache', async () => {
+        const fixtures: MockFixtures = {
+            roles: {
+                architect: ['plan'],
+                coder: [CODE],
+                reviewer: [APPROVE],
+                tester: [TEST],
+                judge: [PASS],
+            },
+        };
+        setup(fixtures, true);
+
+        await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false });
+
+        // With empty fixtures, any request that reaches the mock provider fails
+        clearProviderCache();
+        setup({ roles: {} }, true);
+        const ctx = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false });
+
+        expect(ctx.state).toBe('qa_approved');
+        const sessions = listSessions(tmpDir);
+        const rerun = sessions.find((s) => s.tokenUsage.every((e) => e.cached));
+        expect(rerun?.tokenUsage).toHaveLength(5);
+    });
+
+    it('bypasses the cache with cache: false', async () => {
+        setup({ roles: { architect: ['plan'], coder: [CODE], reviewer: [APPROVE], tester: [TEST], judge: [PASS] } }, true);
+        await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false });
+
+        clearProviderCache();
+        setup({ roles: {} }, true);
+        const ctx = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false, cache: false });
+
+        expect(ctx.state).toBe('failed');
+    });
+
+    it('records a transcript of every agent call with transcript: true', async () => {
+        setup({ roles: { architect: ['plan'], coder: [CODE], reviewer: [APPROVE], tester: [TEST], judge: [PASS] } });
+
+        await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: true, transcript: true });
+
+        const [session] = listSessions(tmpDir);
+        const lines = readFileSync(join(tmpDir, '.aiagentflow', 'logs', session!.id, 'transcript.jsonl'), 'utf-8')
+            .trim().split('\n').map((line) => JSON.parse(line) as { role: string; stream: boolean });
+        expect(lines.map((l) => l.role)).toEqual(['architect', 'coder', 'reviewer', 'tester', 'judge']);
+        expect(lines.every((l) => l.stream)).toBe(true);
+    });
+
+    it('cancels a run mid-test, leaves the session resumable, and resumes it', async () => {
+        const fixtures: MockFixtures = {
+            roles: { architect: ['plan'], coder: [CODE], reviewer: [APPROVE], tester: [TEST], judge: [PASS] },
+        };
+        // A test command that signals it has started, then hangs until killed
+        const marker = join(tmpDir, 'tests-started');
+        writeFileSync(
+            join(tmpDir, 'hang.cjs'),
+            `require('fs').writeFileSync(${JSON.stringify(marker)}, ''); setTimeout(() => {}, 60000);`,
+        );
+        setup(fixtures, false, 'node hang.cjs');
+
+        const controller = new AbortController();
+        const run = runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false, signal: controller.signal });
+        while (!existsSync(marker)) {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        controller.abort();
+        const ctx = await run;
+
+        expect(ctx.interrupted).toBe(true);
+        expect(ctx.state).toBe('review_done');
+
+        const [session] = listSessions(tmpDir);
+        expect(session?.context.state).toBe('review_done');
+
+        clearProviderCache();
+        setup(fixtures);
+        const resumed = await resumeWorkflow({ projectRoot: tmpDir, sessionId: session!.id, auto: true, streaming: false });
+
+        expect(resumed.state).toBe('qa_approved');
+        expect(resumed.interrupted).toBeUndefined();
+    });
+
+    it('rolls back the files and checkpoint of a step cancelled during lint', async () => {
+        setup({ roles: { architect: ['plan'], coder: [CODE] } });
+        const marker = join(tmpDir, 'lint-started');
+        writeFileSync(
+            join(tmpDir, 'hang.cjs'),
+            `require('fs').writeFileSync(${JSON.stringify(marker)}, ''); setTimeout(() => {}, 60000);`,
+        );
+        const configPath = join(tmpDir, '.aiagentflow', 'config.json');
+        const config = JSON.parse(readFileSync(configPath, 'utf-8')) as AppConfig;
+        config.workflow.lintCommand = 'node hang.cjs';
+        writeFileSync(configPath, JSON.stringify(config));
+
+        const controller = new AbortController();
+        const run = runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false, signal: controller.signal });
+        while (!existsSync(marker)) {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        controller.abort();
+        const ctx = await run;
+
+        expect(ctx.interrupted).toBe(true);
+        expect(ctx.state).toBe('plan_approved');
+        expect(existsSync(join(tmpDir, 'src'))).toBe(false);
+
+        const [session] = listSessions(tmpDir);
+        expect(session?.context.state).toBe('plan_approved');
+        expect(listCheckpoints(tmpDir, session!.id)).toEqual([]);
+    });
+
+    it('stops at a token budget in a resumable state and resumes with a higher limit', async () => {
+        const fixtures: MockFixtures = {
+            roles: { architect: ['plan'], coder: [CODE], reviewer: [APPROVE], tester: [TEST], judge: [PASS] },
+        };
+        setup(fixtures);
+
+        const ctx = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false, maxTokens: 1 });
+
+        expect(ctx.state).toBe('plan_approved');
+        expect(ctx.budgetExceeded).toContain('Run token budget reached');
+
+        const [session] = listSessions(tmpDir);
+        expect(session?.tokenUsage).toHaveLength(1);
+
+        clearProviderCache();
+        setup(fixtures);
+        const resumed = await resumeWorkflow({
+            projectRoot: tmpDir, sessionId: session!.id, auto: true, streaming: false, maxTokens: 1_000_000,
+        });
+
+        expect(resumed.state).toBe('qa_approved');
+        expect(resumed.budgetExceeded).toBeUndefined();
+    });
+
+    it('stops before a verdict re-ask once the budget is used up, discarding the step', async () => {
+        setup({ roles: { reviewer: ['No verdict here.', APPROVE] } });
+        const aiDir = join(tmpDir, '.aiagentflow');
+        mkdirSync(join(aiDir, 'pipelines'));
+        writeFileSync(join(aiDir, 'pipelines', 'review.json'), JSON.stringify({
+            stages: [{ name: 'review', role: 'reviewer' }],
+        }));
+
+        const ctx = await runWorkflow({
+            projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false, pipeline: 'review', transcript: true, maxTokens: 1,
+        });
+
+        expect(ctx.budgetExceeded).toContain('Run token budget reached');
+        expect(ctx.history).toHaveLength(0);
+
+        const [session] = listSessions(tmpDir);
+        expect(session?.tokenUsage.map((e) => e.role)).toEqual(['reviewer']);
+        const records = readFileSync(join(aiDir, 'logs', session!.id, 'transcript.jsonl'), 'utf-8').trim().split('\n');
+        expect(records).toHaveLength(1);
+    });
+
+    it('stops a resumed run that is already over budget before calling any agent', async () => {
+        setup({ roles: { architect: ['plan'] } });
+        const ctx = await runWorkflow({ projectRoot: tmpDir, task: 'Add greet', auto: true, streaming: false, maxTokens: 1 });
+
+        // Empty fixtures: any agent call would fail the run
+        clearProviderCache();
+        setup({ roles: {} });
+        const resumed = await resumeWorkflow({ projectRoot: tmpDir, auto: true, streaming: false, maxTokens: 1 });
+
+        expect(resumed.state).toBe(ctx.state);
+        expect(resumed.budgetExceeded).toContain('Run token budget reached');
+    });
+
+    it('skips the rest of a batch once the batch budget is used up', async () => {
+        setup({ roles: { architect: ['plan'], coder: [CODE], reviewer: [APPROVE], tester: [TEST], judge: [PASS] } });
+
+        const queue = await runTaskQueue({
+            projectRoot: tmpDir, tasks: ['Add greet', 'Add farewell'], auto: true, batchMaxTokens: 1,
+        });
+
+        expect(queue.map((t) => t.status)).toEqual(['failed', 'skipped']);
+        expect(queue[0]?.error).toContain('Batch token budget reached');
+        expect(queue[0]?.result?.state).toBe('plan_approved');
+    });
+});
@@ -0,0 +1,148 @@
+/**
+ * Tests for workflow pipeline loading, validation and target resolution.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+    DEFAULT_PIPELINE,
+    listPipelines,
+    loadPipeline,
+    resolveTarget,
+    roleOutcomes,
+    validatePipeline,
+} from '../../../src/core/workflow/pipeline.js';
+import { ConfigError } from '../../../src/core/errors.js';
+import { DEFAULT_CONFIG } from '../../../src/core/config/defaults.js';
+
+let tmpDir: string;
+
+function writePipeline(name: string, pipeline: unknown): void {
+    const dir = join(tmpDir, '.aiagentflow', 'pipelines');
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, `${name}.json`), JSON.stringify(pipeline));
+}
+
+beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'aiagentflow-pipeline-test-'));
+});
+
+afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('resolveTarget', () => {
+    const [plan, code, review, test, qa, fix] = DEFAULT_PIPELINE.stages;
+
+    it('follows mapped targets', () => {
+        expect(resolveTarget(DEFAULT_PIPELINE, review!, 'rejected')).toBe('fix');
+        expect(resolveTarget(DEFAULT_PIPELINE, qa!, 'approved')).toBe('complete');
+        expect(resolveTarget(DEFAULT_PIPELINE, fix!, 'done')).toBe('review');
+    });
+
+    it('sends unmapped success outcomes to the next stage', () => {
+        expect(resolveTarget(DEFAULT_PIPELINE, plan!, 'done')).toBe('code');
+        expect(resolveTarget(DEFAULT_PIPELINE, test!, 'passed')).toBe('qa');
+    });
+
+    it('completes after the last stage and fails on unmapped failures', () => {
+        const pipeline = { stages: [{ name: 'code', role: 'coder' as const, on: {} }] };
+        expect(resolveTarget(pipeline, pipeline.stages[0]!, 'done')).toBe('complete');
+        expect(resolveTarget(pipeline, pipeline.stages[0]!, 'lint_failed')).toBe('failed');
+        expect(resolveTarget(DEFAULT_PIPELINE, code!, 'done')).toBe('review');
+    });
+});
+
+describe('validatePipeline', () => {
+    it('accepts the default pipeline', () => {
+        expect(validatePipeline(DEFAULT_PIPELINE)).toEqual([]);
+    });
+
+    it('reports duplicate names, outcomes the role cannot produce and unknown targets', () => {
+        const issues = validatePipeline({
+            stages: [
+                { name: 'code', role: 'coder', on: { approved: 'complete' } },
+                { name: 'code', role: 'reviewer', on: { rejected: 'rework' } },
+            ],
+        });
+
+        expect(issues).toEqual([
+            'stages.0 (code).on.approved: coder stages end with done or lint_failed',
+            'stages.1 (code): duplicate stage name',
+            'stages.1 (code).on.rejected: no stage named "rework"',
+        ]);
+    });
+});
+
+describe('loadPipeline', () => {
+    it('returns the built-in default when the project has none', () => {
+        expect(loadPipeline(tmpDir)).toBe(DEFAULT_PIPELINE);
+        expect(loadPipeline(tmpDir, 'default').name).toBe('default');
+    });
+
+    it('loads a project pipeline with schema defaults applied', () => {
+        writePipeline('docs', {
+            description: 'Docs-only changes',
+            stages: [
+                { name: 'write', role: 'coder' },
+                { name: 'qa', role: 'judge', on: { rejected: 'write' } },
+            ],
+        });
+
+        const pipeline = loadPipeline(tmpDir, 'docs');
+
+        expect(pipeline.name).toBe('docs');
+        expect(pipeline.stages[0]).toEqual({ name: 'write', role: 'coder', on: {} });
+        expect(listPipelines(tmpDir)).toEqual(['default', 'docs']);
+    });
+
+    it('lets a project default.json replace the built-in pipeline', () => {
+        writePipeline('default', { stages: [{ name: 'code', role: 'coder' }] });
+
+        expect(loadPipeline(tmpDir).stages.map((s) => s.name)).toEqual(['code']);
+    });
+
+    it('lists the available pipelines when the name is unknown', () => {
+        writePipeline('docs', { stages: [{ name: 'write', role: 'coder' }] });
+
+        expect(() => loadPipeline(tmpDir, 'security')).toThrow(
+            'Pipeline "security" not found. Available pipelines: default, docs',
+        );
+    });
+
+    it('rejects names that are not plain file names', () => {
+        expect(() => loadPipeline(tmpDir, '../config')).toThrow(ConfigError);
+    });
+
+    it('reports schema and cross-reference problems', () => {
+        writePipeline('broken', { stages: [{ name: 'Next', role: 'coder', on: 'fix' }] });
+        expect(() => loadPipeline(tmpDir, 'broken')).toThrow(/Invalid pipeline "broken":\n {2}- stages\.0\.name: .*\n {2}- stages\.0\.on: /);
+
+        writePipeline('loop', { stages: [{ name: 'review', role: 'reviewer', on: { rejected: 'fix' } }] });
+        expect(() => loadPipeline(tmpDir, 'loop')).toThrow('stages.0 (review).on.rejected: no stage named "fix"');
+    });
+
+    it('accepts custom roles from config, with outcomes from their output kind', () => {
+        writePipeline('audit', {
+            stages: [
+                { name: 'code', role: 'coder' },
+                { name: 'audit', role: 'security-auditor', on: { rejected: 'code' } },
+            ],
+        });
+        const customRoles = {
+            'security-auditor': { ...DEFAULT_CONFIG.agents.reviewer, output: 'verdict' as const },
+        };
+
+        expect(() => loadPipeline(tmpDir, 'audit')).toThrow('stages.1 (audit).role: unknown role "security-auditor"');
+
+        const pipeline = loadPipeline(tmpDir, 'audit', customRoles);
+        expect(pipeline.customOutputs).toEqual({ 'security-auditor': 'verdict' });
+        expect(roleOutcomes('security-auditor', pipeline.customOutputs)).toEqual(['approved', 'rejected']);
+
+        writePipeline('audit', { stages: [{ name: 'audit', role: 'security-auditor', on: { done: 'complete' } }] });
+        expect(() => loadPipeline(tmpDir, 'audit', customRoles))
+            .toThrow('stages.0 (audit).on.done: security-auditor stages end with approved or rejected');
+    });
+});
@@ -103,6 +103,19 @@ Overall this is a solid piece of work - nothing critical to report.`;
         expect(result.criticalCount).toBe(1);
         expect(result.warningCount).toBe(1);
     });
+
+    it('takes the issues of a verdict block over markers in the text', () => {
+        const review = `
+      1. CRITICAL: SQL injection (fixed since)
+\`\`\`json
+{ "verdict": "request_changes", "issues": [{ "severity": "warning", "description": "Missing type annotation", "file": "src/db.ts" }] }
+\`\`\`
+    `;
+        const result = evaluateReview(review, DEFAULT_QA_POLICY);
+
+        expect(result.criticalCount).toBe(0);
+        expect(result.issues).toEqual([{ severity: 'warning', description: 'src/db.ts: Missing type annotation' }]);
+    });
 });
 
 describe('formatPolicyForAgent', () => {
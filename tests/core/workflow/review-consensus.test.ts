@@ -0,0 +1,70 @@
+/**
+ * Tests for merging review panel verdicts.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeReviews } from '../../../src/core/workflow/review-consensus.js';
+import { DEFAULT_QA_POLICY } from '../../../src/core/workflow/qa-policy.js';
+
+/** A review ending with its verdict block. */
+function review(reviewer: string, verdict: string, issues: Array<{ severity: string; description: string }> = [], prose = '') {
+    return { reviewer, content: `${prose}\n\`\`\`json\n${JSON.stringify({ verdict, issues })}\n\`\`\``.trim() };
+}
+
+const APPROVE = review('A', 'approve', [], 'Looks good.');
+const APPROVE_WITH_NIT = review('B', 'approve', [{ severity: 'nit', description: 'Rename `x` to `count`.' }]);
+const REJECT_CRITICAL = review('C', 'request_changes', [
+    { severity: 'critical', description: 'SQL built by string concatenation' },
+    { severity: 'warning', description: 'rename x to count' },
+]);
+
+describe('mergeReviews', () => {
+    it('applies each consensus policy', () => {
+        const reviews = [APPROVE, APPROVE_WITH_NIT, REJECT_CRITICAL];
+
+        expect(mergeReviews(reviews, 'majority', DEFAULT_QA_POLICY).approved).toBe(true);
+        expect(mergeReviews(reviews, 'unanimous', DEFAULT_QA_POLICY).approved).toBe(false);
+        expect(mergeReviews(reviews, 'any-critical-blocks', DEFAULT_QA_POLICY).approved).toBe(false);
+        expect(mergeReviews([APPROVE, APPROVE_WITH_NIT], 'any-critical-blocks', DEFAULT_QA_POLICY).approved).toBe(true);
+        expect(mergeReviews([APPROVE, REJECT_CRITICAL], 'majority', DEFAULT_QA_POLICY).approved).toBe(false);
+    });
+
+    it('deduplicates issues across reviewers, keeping the most severe label', () => {
+        const result = mergeReviews([APPROVE_WITH_NIT, REJECT_CRITICAL], 'majority', DEFAULT_QA_POLICY);
+
+        expect(result.approvals).toBe(1);
+        expect(result.issues).toEqual([
+            { severity: 'critical', description: 'SQL built by string concatenation', reviewers: ['C'] },
+            { severity: 'warning', description: 'Rename `x` to `count`.', reviewers: ['B', 'C'] },
+        ]);
+        expect(result.feedback).toBe([
+            'Verdict: REQUEST_CHANGES (1 of 2 reviewers approved, majority policy)',
+            '',
+            'Issues:',
+            '1. CRITICAL: SQL built by string concatenation (C)',
+            '2. WARNING: Rename `x` to `count`. (B, C)',
+            '',
+            'Reviewers:',
+            '- B: APPROVE',
+            '- C: REQUEST_CHANGES',
+        ].join('\n'));
+    });
+
+    it('passes on rejections that list no structured issues in full', () => {
+        const result = mergeReviews(
+            [APPROVE, review('D', 'request_changes', [], 'The function is never exported.')],
+            'unanimous',
+            DEFAULT_QA_POLICY,
+        );
+
+        expect(result.approved).toBe(false);
+        expect(result.feedback).toContain('Comments from D:\nThe function is never exported.');
+    });
+
+    it('counts reviews without a valid verdict block as rejections', () => {
+        const result = mergeReviews([APPROVE, { reviewer: 'E', content: 'APPROVE' }], 'unanimous', DEFAULT_QA_POLICY);
+
+        expect(result.approvals).toBe(1);
+        expect(result.feedback).toContain('- E: REQUEST_CHANGES');
+    });
+});
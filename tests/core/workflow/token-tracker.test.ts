@@ -0,0 +1,70 @@
+/**
+ * Tests for token usage tracking and cost estimation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TokenTracker } from '../../../src/core/workflow/token-tracker.js';
+
+describe('TokenTracker', () => {
+    it('prices prompt-cache reads and writes separately from regular input', () => {
+        const tracker = new TokenTracker();
+        tracker.record('coder', 'claude-sonnet-4-20250514', {
+            promptTokens: 1_000_000,
+            completionTokens: 0,
+            totalTokens: 1_000_000,
+            cacheReadTokens: 500_000,
+            cacheWriteTokens: 250_000,
+        });
+
+        // 250k uncached at $3, 500k read at $0.30, 250k written at $3.75
+        expect(tracker.estimateCost()).toBeCloseTo(0.75 + 0.15 + 0.9375);
+        expect(tracker.getPromptCacheUsage()).toEqual({ readTokens: 500_000, writeTokens: 250_000 });
+    });
+
+    it('prices everything at the input rate without cache usage', () => {
+        const tracker = new TokenTracker();
+        tracker.record('coder', 'claude-sonnet-4-20250514', {
+            promptTokens: 1_000_000,
+            completionTokens: 1_000_000,
+            totalTokens: 2_000_000,
+        });
+
+        expect(tracker.estimateCost()).toBeCloseTo(18);
+        expect(tracker.getEntries()[0]).not.toHaveProperty('cacheReadTokens');
+    });
+
+    it('uses the given pricing table and flags models without a price', () => {
+        const tracker = new TokenTracker({ 'openai:my-model': { input: 1, output: 2 } });
+        const usage = { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 };
+        tracker.record('coder', 'my-model', usage, { provider: 'openai', fallback: false });
+        tracker.record('reviewer', 'gpt-99', usage, { provider: 'openai', fallback: false });
+        tracker.record('tester', 'llama3.2:latest', usage, { provider: 'ollama', fallback: false });
+
+        expect(tracker.estimateCost()).toBeCloseTo(3);
+        expect(tracker.getUnpricedModels()).toEqual(['openai:gpt-99']);
+    });
+
+    it('excludes response-cache hits from cost', () => {
+        const tracker = new TokenTracker();
+        tracker.record(
+            'coder',
+            'claude-sonnet-4-20250514',
+            { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 },
+            { provider: 'anthropic', fallback: false, cached: true },
+        );
+
+        expect(tracker.estimateCost()).toBe(0);
+        expect(tracker.getCacheHits()).toEqual({ calls: 1, tokens: 1_000_000 });
+    });
+
+    it('reports the first budget limit reached', () => {
+        const tracker = new TokenTracker();
+        tracker.record('coder', 'claude-sonnet-4-20250514', { promptTokens: 500_000, completionTokens: 0, totalTokens: 500_000 });
+
+        // 500k input tokens at $3/1M = $1.50
+        expect(tracker.checkBudget({ maxTokens: 1_000_000, maxCostUsd: 2 })).toBeUndefined();
+        expect(tracker.checkBudget({ maxTokens: 500_000 })).toContain('Run token budget reached');
+        expect(tracker.checkBudget({ maxCostUsd: 1 }, 'Batch')).toContain('Batch cost budget reached ($1.5000 of $1.00)');
+        expect(tracker.checkBudget({})).toBeUndefined();
+    });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for the Anthropic provider adapter's request and usage mapping.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AnthropicProvider } from '../../src/providers/anthropic.js';
+
+/** Stub global fetch with a single JSON response and capture the request bodies. */
+function stubFetch(body: unknown) {
+    const requests: Array<Record<string, unknown>> = [];
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+        requests.push(JSON.parse(init.body as string));
+        return new Response(JSON.stringify(body), { status: 200 });
+    }));
+    return requests;
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('AnthropicProvider', () => {
+    it('sends reference context as a cached system block ahead of the system prompt', async () => {
+        const requests = stubFetch({ content: [{ type: 'text', text: 'ok' }], stop_reason: 'end_turn' });
+        const provider = new AnthropicProvider({ apiKey: 'key' });
+
+        await provider.chat([{ role: 'user', content: 'hi' }], {
+            systemPrompt: 'You are a coder.',
+            referenceContext: '## Reference Documents',
+        });
+
+        expect(requests[0]?.system).toEqual([
+            { type: 'text', text: '## Reference Documents', cache_control: { type: 'ephemeral' } },
+            { type: 'text', text: 'You are a coder.' },
+        ]);
+    });
+
+    it('keeps a plain string system prompt without reference context', async () => {
+        const requests = stubFetch({ content: [{ type: 'text', text: 'ok' }], stop_reason: 'end_turn' });
+        const provider = new AnthropicProvider({ apiKey: 'key' });
+
+        await provider.chat([{ role: 'user', content: 'hi' }], { systemPrompt: 'You are a coder.' });
+
+        expect(requests[0]?.system).toBe('You are a coder.');
+    });
+
+    it('counts cache reads and writes as prompt tokens and reports them separately', async () => {
+        stubFetch({
+            content: [{ type: 'text', text: 'ok' }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 50, cache_read_input_tokens: 2000, cache_creation_input_tokens: 300, output_tokens: 10 },
+        });
+        const provider = new AnthropicProvider({ apiKey: 'key' });
+
+        const response = await provider.chat([{ role: 'user', content: 'hi' }]);
+
+        expect(response.usage).toEqual({
+            promptTokens: 2350,
+            completionTokens: 10,
+            totalTokens: 2360,
+            cacheReadTokens: 2000,
+            cacheWriteTokens: 300,
+        });
+    });
+});
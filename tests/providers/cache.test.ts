@@ -0,0 +1,173 @@
+/**
+ * Tests for the on-disk LLM response cache.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { CachedProvider, ResponseCache, cacheKey } from '../../src/providers/cache.js';
+import { FallbackProvider } from '../../src/providers/fallback.js';
+import { OpenAICompatibleProvider } from '../../src/providers/openai-compatible.js';
+import { ProviderError } from '../../src/core/errors.js';
+import type { ChatMessage, LLMProvider } from '../../src/providers/types.js';
+
+let tmpDir: string;
+
+/** A provider that counts calls and answers with the call number. */
+function countingProvider() {
+    let calls = 0;
+    const provider: LLMProvider = {
+        name: 'ollama',
+        async chat(_messages, options) {
+            calls++;
+            return {
+                content: `answer ${calls}`,
+                model: options?.model ?? '',
+                usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+                finishReason: 'stop',
+            };
+        },
+        async *stream() {
+            calls++;
+            yield { content: `streamed ${calls}`, done: false };
+            yield { content: '', done: true, usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } };
+        },
+        async listModels() {
+            return [];
+        },
+        async validateConnection() {
+            return true;
+        },
+    };
+    return { provider, calls: () => calls };
+}
+
+function cache(overrides: { ttlMs?: number; maxBytes?: number } = {}): ResponseCache {
+    return new ResponseCache({ dir: join(tmpDir, 'cache'), ttlMs: 60_000, maxBytes: 1024 * 1024, ...overrides });
+}
+
+const messages: ChatMessage[] = [{ role: 'user', content: 'hello' }];
+
+beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'aiagentflow-cache-test-'));
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('cacheKey', () => {
+    it('is stable for identical requests', () => {
+        expect(cacheKey('groq', messages, { model: 'm', temperature: 0.2 }))
+            .toBe(cacheKey('groq', messages, { model: 'm', temperature: 0.2 }));
+    });
+
+    it('changes with provider, model, temperature, maxTokens and messages', () => {
+        const base = cacheKey('groq', messages, { model: 'm', temperature: 0.2, maxTokens: 100 });
+        expect(cacheKey('openai', messages, { model: 'm', temperature: 0.2, maxTokens: 100 })).not.toBe(base);
+        expect(cacheKey('groq', messages, { model: 'n', temperature: 0.2, maxTokens: 100 })).not.toBe(base);
+        expect(cacheKey('groq', messages, { model: 'm', temperature: 0.3, maxTokens: 100 })).not.toBe(base);
+        expect(cacheKey('groq', messages, { model: 'm', temperature: 0.2, maxTokens: 200 })).not.toBe(base);
+        expect(cacheKey('groq', [{ role: 'user', content: 'bye' }], { model: 'm', temperature: 0.2, maxTokens: 100 })).not.toBe(base);
+    });
+
+    it('ignores the request tag', () => {
+        expect(cacheKey('groq', messages, { model: 'm', tag: 'coder' })).toBe(cacheKey('groq', messages, { model: 'm', tag: 'fixer' }));
+    });
+});
+
+describe('CachedProvider', () => {
+    it('answers identical chat requests from the cache', async () => {
+        const inner = countingProvider();
+        const provider = new CachedProvider(inner.provider, cache());
+
+        const first = await provider.chat(messages, { model: 'm' });
+        const second = await provider.chat(messages, { model: 'm' });
+
+        expect(inner.calls()).toBe(1);
+        expect(first.cached).toBeUndefined();
+        expect(second).toMatchObject({ content: 'answer 1', cached: true });
+    });
+
+    it('caches completed streams and replays them with cached usage', async () => {
+        const inner = countingProvider();
+        const provider = new CachedProvider(inner.provider, cache());
+
+        const collect = async () => {
+            const chunks = [];
+            for await (const chunk of provider.stream(messages, { model: 'm' })) chunks.push(chunk);
+            return chunks;
+        };
+
+        await collect();
+        const replay = await collect();
+
+        expect(inner.calls()).toBe(1);
+        expect(replay.map((c) => c.content).join('')).toBe('streamed 1');
+        expect(replay.at(-1)).toMatchObject({ done: true, cached: true, usage: { totalTokens: 15 } });
+    });
+
+    it('keys a reply served by a fallback under the fallback, not the primary', async () => {
+        const primary = countingProvider();
+        const backup = countingProvider();
+        const candidates = [{ provider: 'ollama' as const, model: 'main' }, { provider: 'groq' as const, model: 'backup' }];
+        const down: LLMProvider = {
+            ...primary.provider,
+            async chat() {
+                throw new ProviderError('server down');
+            },
+        };
+
+        const failing = new FallbackProvider(candidates, (c) => (c.provider === 'ollama' ? down : backup.provider));
+        await new CachedProvider(failing, cache()).chat(messages, { model: 'main' });
+
+        const healthy = new FallbackProvider(candidates, (c) => (c.provider === 'ollama' ? primary.provider : backup.provider));
+        const reply = await new CachedProvider(healthy, cache()).chat(messages, { model: 'main' });
+
+        expect(reply.cached).toBeUndefined();
+        expect(primary.calls()).toBe(1);
+        expect(cache().get(cacheKey('groq', messages, { model: 'backup' }))).toMatchObject({ content: 'answer 1', model: 'backup' });
+    });
+
+    it('keeps replies from two openai-compatible instances serving the same model apart', async () => {
+        const fetchMock = vi.fn(async (url: string) => new Response(JSON.stringify({
+            model: 'llama3',
+            choices: [{ message: { content: `from ${new URL(url).host}` }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+        })));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const vllm = new CachedProvider(new OpenAICompatibleProvider('vllm', { baseUrl: 'http://vllm.test/v1' }), cache());
+        const lmstudio = new CachedProvider(new OpenAICompatibleProvider('lmstudio', { baseUrl: 'http://lmstudio.test/v1' }), cache());
+
+        await vllm.chat(messages, { model: 'llama3' });
+        const reply = await lmstudio.chat(messages, { model: 'llama3' });
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(reply).toMatchObject({ content: 'from lmstudio.test' });
+        expect(reply.cached).toBeUndefined();
+    });
+
+    it('ignores expired entries', async () => {
+        const inner = countingProvider();
+        const provider = new CachedProvider(inner.provider, cache({ ttlMs: -1 }));
+
+        await provider.chat(messages, { model: 'm' });
+        const second = await provider.chat(messages, { model: 'm' });
+
+        expect(inner.calls()).toBe(2);
+        expect(second.cached).toBeUndefined();
+    });
+});
+
+describe('ResponseCache size limit', () => {
+    it('evicts entries until the cache fits in maxBytes', () => {
+        const store = cache({ maxBytes: 10 });
+        store.set('a', { content: 'x', model: 'm', usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 }, finishReason: 'stop' });
+
+        expect(readdirSync(join(tmpDir, 'cache'))).toHaveLength(0);
+        expect(store.get('a')).toBeNull();
+    });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for the fallback provider chain.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FallbackProvider } from '../../src/providers/fallback.js';
+import { ProviderError } from '../../src/core/errors.js';
+import type { ChatChunk, ChatOptions, LLMProvider, LLMProviderName, ProviderFailover } from '../../src/providers/types.js';
+
+/** A provider whose chat/stream either succeed with its name or throw the given error. */
+function fakeProvider(name: LLMProviderName, error?: Error) {
+    const models: Array<string | undefined> = [];
+    const provider: LLMProvider = {
+        name,
+        async chat(_messages, options?: ChatOptions) {
+            models.push(options?.model);
+            if (error) throw error;
+            return {
+                content: `from ${name}`,
+                model: options?.model ?? '',
+                usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+                finishReason: 'stop',
+            };
+        },
+        async *stream(_messages, options?: ChatOptions): AsyncIterable<ChatChunk> {
+            models.push(options?.model);
+            if (error) throw error;
+            yield { content: `from ${name}`, done: true };
+        },
+        async listModels() {
+            return [];
+        },
+        async validateConnection() {
+            return !error;
+        },
+    };
+    return { provider, models };
+}
+
+describe('FallbackProvider', () => {
+    it('uses the primary candidate when it succeeds', async () => {
+        const groq = fakeProvider('groq');
+        const chain = new FallbackProvider(
+            [{ provider: 'groq', model: 'llama' }, { provider: 'ollama', model: 'local' }],
+            () => groq.provider,
+        );
+
+        const response = await chain.chat([{ role: 'user', content: 'hi' }], { model: 'ignored' });
+
+        expect(response.content).toBe('from groq');
+        expect(groq.models).toEqual(['llama']);
+        expect(chain.name).toBe('groq');
+    });
+
+    it('fails over on ProviderError and reports the switch', async () => {
+        const groq = fakeProvider('groq', new ProviderError('rate limited'));
+        const ollama = fakeProvider('ollama');
+        const failovers: ProviderFailover[] = [];
+        const chain = new FallbackProvider(
+            [{ provider: 'groq', model: 'llama' }, { provider: 'ollama', model: 'local' }],
+            ({ provider }) => (provider === 'groq' ? groq.provider : ollama.provider),
+            (failover) => failovers.push(failover),
+        );
+
+        const response = await chain.chat([{ role: 'user', content: 'hi' }]);
+
+        expect(response.content).toBe('from ollama');
+        expect(ollama.models).toEqual(['local']);
+        expect(chain.active).toEqual({ provider: 'ollama', model: 'local' });
+        expect(failovers).toEqual([{
+            from: { provider: 'groq', model: 'llama' },
+            to: { provider: 'ollama', model: 'local' },
+            reason: 'rate limited',
+        }]);
+    });
+
+    it('fails over when a candidate provider cannot be created', async () => {
+        const ollama = fakeProvider('ollama');
+        const chain = new FallbackProvider(
+            [{ provider: 'anthropic', model: 'claude' }, { provider: 'ollama', model: 'local' }],
+            ({ provider }) => {
+                if (provider === 'anthropic') throw new ProviderError('Anthropic provider is not configured.');
+                return ollama.provider;
+            },
+        );
+
+        const response = await chain.chat([{ role: 'user', content: 'hi' }]);
+        expect(response.content).toBe('from ollama');
+    });
+
+    it('rethrows the last error when every candidate fails', async () => {
+        const chain = new FallbackProvider(
+            [{ provider: 'groq', model: 'a' }, { provider: 'openai', model: 'b' }],
+            ({ provider }) => fakeProvider(provider, new ProviderError(`${provider} down`)).provider,
+        );
+
+        await expect(chain.chat([{ role: 'user', content: 'hi' }])).rejects.toThrow('openai down');
+    });
+
+    it('does not fail over on errors that are not ProviderErrors', async () => {
+        const ollama = fakeProvider('ollama');
+        const chain = new FallbackProvider(
+            [{ provider: 'groq', model: 'a' }, { provider: 'ollama', model: 'b' }],
+            ({ provider }) => (provider === 'groq' ? fakeProvider('groq', new TypeError('bug')).provider : ollama.provider),
+        );
+
+        await expect(chain.chat([{ role: 'user', content: 'hi' }])).rejects.toThrow(TypeError);
+        expect(ollama.models).toHaveLength(0);
+    });
+
+    it('fails over a stream that errors before the first chunk', async () => {
+        const ollama = fakeProvider('ollama');
+        const chain = new FallbackProvider(
+            [{ provider: 'groq', model: 'a' }, { provider: 'ollama', model: 'b' }],
+            ({ provider }) => (provider === 'groq' ? fakeProvider('groq', new ProviderError('down')).provider : ollama.provider),
+        );
+
+        const chunks: string[] = [];
+        for await (const chunk of chain.stream([{ role: 'user', content: 'hi' }])) {
+            chunks.push(chunk.content);
+        }
+
+        expect(chunks).toEqual(['from ollama']);
+    });
+});
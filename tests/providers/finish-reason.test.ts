@@ -0,0 +1,27 @@
+/**
+ * Tests for finish reason normalization.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeFinishReason } from '../../src/providers/finish-reason.js';
+
+describe('normalizeFinishReason', () => {
+    it('maps each provider\'s token-limit reason to "length"', () => {
+        expect(normalizeFinishReason('length')).toBe('length'); // OpenAI, Groq, OpenRouter, Ollama
+        expect(normalizeFinishReason('max_tokens')).toBe('length'); // Anthropic
+        expect(normalizeFinishReason('MAX_TOKENS')).toBe('length'); // Gemini
+    });
+
+    it('maps natural stops, tool calls and filters', () => {
+        expect(normalizeFinishReason('end_turn')).toBe('stop');
+        expect(normalizeFinishReason('STOP')).toBe('stop');
+        expect(normalizeFinishReason('tool_calls')).toBe('tool_use');
+        expect(normalizeFinishReason('SAFETY')).toBe('content_filter');
+    });
+
+    it('treats missing and unrecognized reasons as "unknown"', () => {
+        expect(normalizeFinishReason(undefined)).toBe('unknown');
+        expect(normalizeFinishReason(null)).toBe('unknown');
+        expect(normalizeFinishReason('OTHER')).toBe('unknown');
+    });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for the fixture-replay mock provider.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { MockProvider, hashRequest, type MockFixtures } from '../../src/providers/mock.js';
+import { ProviderError } from '../../src/core/errors.js';
+import type { ChatMessage } from '../../src/providers/types.js';
+
+let tmpDir: string;
+
+function writeFixtures(fixtures: MockFixtures): string {
+    const path = join(tmpDir, 'mock.json');
+    writeFileSync(path, JSON.stringify(fixtures));
+    return path;
+}
+
+beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'aiagentflow-mock-test-'));
+});
+
+afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('MockProvider', () => {
+    const messages: ChatMessage[] = [{ role: 'user', content: 'task' }];
+
+    it('replays role responses in call order and repeats the last one', async () => {
+        const provider = new MockProvider({
+            fixturesPath: writeFixtures({ roles: { coder: ['first', 'second'] } }),
+        });
+
+        const replies = [];
+        for (let i = 0; i < 3; i++) {
+            replies.push((await provider.chat(messages, { tag: 'coder' })).content);
+        }
+
+        expect(replies).toEqual(['first', 'second', 'second']);
+    });
+
+    it('prefers an exact request-hash match over the role sequence', async () => {
+        const hash = hashRequest(messages, { systemPrompt: 'sys' });
+        const provider = new MockProvider({
+            fixturesPath: writeFixtures({ roles: { coder: ['by role'] }, hashes: { [hash]: 'by hash' } }),
+        });
+
+        const response = await provider.chat(messages, { systemPrompt: 'sys', tag: 'coder' });
+        expect(response.content).toBe('by hash');
+    });
+
+    it('replays tool calls from object entries', async () => {
+        const provider = new MockProvider({
+            fixturesPath: writeFixtures({
+                roles: { reviewer: [{ content: '', toolCalls: [{ id: 't1', name: 'read_file', arguments: { path: 'a' } }] }] },
+            }),
+        });
+
+        const response = await provider.chat(messages, { tag: 'reviewer' });
+        expect(response.toolCalls).toEqual([{ id: 't1', name: 'read_file', arguments: { path: 'a' } }]);
+        expect(response.finishReason).toBe('tool_use');
+    });
+
+    it('streams the response with usage on the final chunk', async () => {
+        const provider = new MockProvider({ fixturesPath: writeFixtures({ roles: { judge: ['PASS'] } }) });
+
+        const chunks = [];
+        for await (const chunk of provider.stream(messages, { tag: 'judge' })) {
+            chunks.push(chunk);
+        }
+
+        expect(chunks.map((c) => c.content).join('')).toBe('PASS');
+        expect(chunks.at(-1)?.done).toBe(true);
+        expect(chunks.at(-1)?.usage?.completionTokens).toBe(1);
+    });
+
+    it('throws ProviderError with the request hash when nothing matches', async () => {
+        const provider = new MockProvider({ fixturesPath: writeFixtures({ roles: {} }) });
+        const hash = hashRequest(messages);
+
+        await expect(provider.chat(messages, { tag: 'tester' })).rejects.toThrow(ProviderError);
+        await expect(provider.chat(messages, { tag: 'tester' })).rejects.toThrow(hash);
+    });
+
+    it('resolves a relative fixture path against the project root, not the working directory', async () => {
+        writeFixtures({ roles: { coder: ['from the project'] } });
+        const provider = new MockProvider({ fixturesPath: 'mock.json' }, tmpDir);
+
+        expect(await provider.validateConnection()).toBe(true);
+        expect((await provider.chat(messages, { tag: 'coder' })).content).toBe('from the project');
+    });
+
+    it('reports a missing fixture file', async () => {
+        const provider = new MockProvider({ fixturesPath: join(tmpDir, 'missing.json') });
+
+        expect(await provider.validateConnection()).toBe(false);
+        await expect(provider.chat(messages)).rejects.toThrow(ProviderError);
+    });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for the Ollama provider's model management (pull, presence check, warm-up).
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { OllamaProvider, type PullProgress } from '../../src/providers/ollama.js';
+import { configuredOllamaModels } from '../../src/providers/ollama-models.js';
+import { DEFAULT_CONFIG } from '../../src/core/config/defaults.js';
+import type { AppConfig } from '../../src/core/config/types.js';
+
+/** Stub global fetch with a fixed response body and capture the requests. */
+function stubFetch(body: string) {
+    const requests: Array<{ url: string; body?: Record<string, unknown> }> = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+        requests.push({ url, body: init.body ? JSON.parse(init.body as string) : undefined });
+        return new Response(body, { status: 200 });
+    }));
+    return requests;
+}
+
+/** NDJSON stream body, one object per line. */
+function ndjson(...lines: unknown[]): string {
+    return lines.map((line) => JSON.stringify(line)).join('\n') + '\n';
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('OllamaProvider model management', () => {
+    it('finds models that are not pulled, treating a bare name as ":latest"', async () => {
+        stubFetch(JSON.stringify({ models: [{ name: 'llama3.2:latest' }, { name: 'qwen2.5-coder:7b' }] }));
+        const provider = new OllamaProvider();
+
+        const missing = await provider.findMissingModels(['llama3.2', 'qwen2.5-coder:7b', 'qwen2.5-coder:32b']);
+
+        expect(missing).toEqual(['qwen2.5-coder:32b']);
+    });
+
+    it('lists models with the context length Ollama reports for each', async () => {
+        vi.stubGlobal('fetch', vi.fn(async (url: string, init: RequestInit) => {
+            if (url.endsWith('/api/tags')) {
+                return new Response(JSON.stringify({ models: [{ name: 'llama3.2:latest' }, { name: 'custom:1b' }] }));
+            }
+            const { model } = JSON.parse(init.body as string) as { model: string };
+            const modelInfo = model === 'llama3.2:latest' ? { 'general.architecture': 'llama', 'llama.context_length': 131072 } : {};
+            return new Response(JSON.stringify({ model_info: modelInfo }));
+        }));
+
+        const models = await new OllamaProvider().listModels();
+
+        expect(models.map((m) => [m.id, m.contextWindow])).toEqual([['llama3.2:latest', 131072], ['custom:1b', undefined]]);
+    });
+
+    it('pulls a model and reports progress', async () => {
+        const requests = stubFetch(ndjson(
+            { status: 'pulling manifest' },
+            { status: 'pulling 6a0746a1ec1a', digest: 'sha256:6a07', total: 2000, completed: 500 },
+            { status: 'success' },
+        ));
+        const provider = new OllamaProvider();
+        const progress: PullProgress[] = [];
+
+        await provider.pullModel('llama3.2', (p) => progress.push(p));
+
+        expect(requests[0]?.url).toBe('http://localhost:11434/api/pull');
+        expect(requests[0]?.body).toEqual({ model: 'llama3.2', stream: true });
+        expect(progress).toEqual([
+            { status: 'pulling manifest' },
+            { status: 'pulling 6a0746a1ec1a', total: 2000, completed: 500 },
+            { status: 'success' },
+        ]);
+    });
+
+    it('throws when Ollama reports a pull error', async () => {
+        stubFetch(ndjson({ status: 'pulling manifest' }, { error: 'pull model manifest: file does not exist' }));
+        const provider = new OllamaProvider();
+
+        await expect(provider.pullModel('no-such-model')).rejects.toThrow('file does not exist');
+    });
+
+    it('throws when the pull stream ends without success', async () => {
+        stubFetch(ndjson({ status: 'pulling manifest' }));
+        const provider = new OllamaProvider();
+
+        await expect(provider.pullModel('llama3.2')).rejects.toThrow('ended before it completed');
+    });
+
+    it('warms a model up with keep_alive and no prompt', async () => {
+        const requests = stubFetch(JSON.stringify({ model: 'llama3.2', done: true }));
+        const provider = new OllamaProvider({ baseUrl: 'http://gpu-box:11434' });
+
+        await provider.warmUp('llama3.2', '1h');
+
+        expect(requests[0]?.url).toBe('http://gpu-box:11434/api/generate');
+        expect(requests[0]?.body).toEqual({ model: 'llama3.2', keep_alive: '1h' });
+    });
+});
+
+describe('configuredOllamaModels', () => {
+    it('lists Ollama primaries and fallbacks once each', () => {
+        const role = { provider: 'anthropic' as const, model: 'claude', temperature: 0.2, maxTokens: 4096, maxContinuations: 2, fallbacks: [], tools: [] };
+        const config: AppConfig = {
+            ...DEFAULT_CONFIG,
+            agents: {
+                architect: role,
+                coder: { ...role, provider: 'ollama', model: 'qwen2.5-coder:7b' },
+                reviewer: { ...role, fallbacks: [{ provider: 'ollama', model: 'llama3.2' }] },
+                tester: { ...role, provider: 'ollama', model: 'qwen2.5-coder:7b' },
+                fixer: role,
+                judge: role,
+            },
+        };
+
+        expect(configuredOllamaModels(config)).toEqual(['qwen2.5-coder:7b', 'llama3.2']);
+    });
+});
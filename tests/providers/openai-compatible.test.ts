@@ -0,0 +1,84 @@
+/**
+ * Tests for the generic OpenAI-compatible provider adapter.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { OpenAICompatibleProvider } from '../../src/providers/openai-compatible.js';
+import { ProviderError } from '../../src/core/errors.js';
+
+/** Stub global fetch with a single JSON (or SSE text) response and capture the request. */
+function stubFetch(body: unknown, init: ResponseInit = { status: 200 }) {
+    const requests: Array<{ url: string; init: RequestInit }> = [];
+    vi.stubGlobal('fetch', vi.fn(async (url: string, reqInit: RequestInit) => {
+        requests.push({ url, init: reqInit });
+        const text = typeof body === 'string' ? body : JSON.stringify(body);
+        return new Response(text, init);
+    }));
+    return requests;
+}
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('OpenAICompatibleProvider', () => {
+    it('sends chat requests to the instance base URL with its headers', async () => {
+        const requests = stubFetch({
+            model: 'qwen',
+            choices: [{ message: { content: 'hi' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 },
+        });
+        const provider = new OpenAICompatibleProvider('vllm', {
+            baseUrl: 'http://gpu-box:8000',
+            apiKey: 'secret',
+            headers: { 'X-Team': 'core' },
+        });
+
+        const response = await provider.chat([{ role: 'user', content: 'hello' }], { model: 'qwen' });
+
+        expect(response).toMatchObject({ content: 'hi', usage: { totalTokens: 4 } });
+        expect(requests[0]?.url).toBe('http://gpu-box:8000/v1/chat/completions');
+        expect(requests[0]?.init.headers).toMatchObject({ 'Authorization': 'Bearer secret', 'X-Team': 'core' });
+    });
+
+    it('omits stream_options when streamUsage is off', async () => {
+        const requests = stubFetch('data: {"choices":[{"delta":{"content":"ok"}}]}\n\ndata: [DONE]\n\n');
+        const provider = new OpenAICompatibleProvider('llamacpp', { baseUrl: 'http://localhost:8080/v1', streamUsage: false });
+
+        const chunks = [];
+        for await (const chunk of provider.stream([{ role: 'user', content: 'x' }], { model: 'm' })) chunks.push(chunk);
+
+        expect(chunks.map((c) => c.content).join('')).toBe('ok');
+        expect(JSON.parse(requests[0]?.init.body as string)).not.toHaveProperty('stream_options');
+    });
+
+    it('reports a normalized finish reason on the final stream chunk', async () => {
+        stubFetch('data: {"choices":[{"delta":{"content":"cut"}}]}\n\ndata: {"choices":[{"delta":{},"finish_reason":"length"}]}\n\ndata: [DONE]\n\n');
+        const provider = new OpenAICompatibleProvider('vllm', { baseUrl: 'http://gpu-box:8000' });
+
+        const chunks = [];
+        for await (const chunk of provider.stream([{ role: 'user', content: 'x' }], { model: 'm' })) chunks.push(chunk);
+
+        expect(chunks.at(-1)).toMatchObject({ done: true, finishReason: 'length' });
+    });
+
+    it('lists the static model list without querying the server', async () => {
+        const requests = stubFetch({});
+        const provider = new OpenAICompatibleProvider('lmstudio', { baseUrl: 'http://localhost:1234', models: ['a', 'b'] });
+
+        const models = await provider.listModels();
+
+        expect(models.map((m) => m.id)).toEqual(['a', 'b']);
+        expect(requests).toHaveLength(0);
+    });
+
+    it('falls back to the first static model and fails without any model', async () => {
+        const requests = stubFetch({ choices: [{ message: { content: '' } }] });
+        const withList = new OpenAICompatibleProvider('a', { baseUrl: 'http://a:1', models: ['first'] });
+        await withList.chat([{ role: 'user', content: 'x' }]);
+        expect(JSON.parse(requests[0]?.init.body as string).model).toBe('first');
+
+        const withoutList = new OpenAICompatibleProvider('b', { baseUrl: 'http://b:1' });
+        await expect(withoutList.chat([{ role: 'user', content: 'x' }])).rejects.toThrow(ProviderError);
+    });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for the shared OpenAI-style message and tool mapping.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    toOpenAIMessages,
+    applyOpenAITools,
+    applyOpenAIResponseFormat,
+    parseOpenAIToolCalls,
+    parseToolArguments,
+} from '../../src/providers/openai-format.js';
+
+describe('toOpenAIMessages', () => {
+    it('prepends the system prompt', () => {
+        const result = toOpenAIMessages([{ role: 'user', content: 'hi' }], { systemPrompt: 'sys' });
+        expect(result).toEqual([
+            { role: 'system', content: 'sys' },
+            { role: 'user', content: 'hi' },
+        ]);
+    });
+
+    it('puts reference context ahead of the system prompt', () => {
+        const result = toOpenAIMessages([{ role: 'user', content: 'hi' }], {
+            systemPrompt: 'sys',
+            referenceContext: '## Reference Documents',
+        });
+        expect(result[0]).toEqual({ role: 'system', content: '## Reference Documents\n\nsys' });
+    });
+
+    it('encodes assistant tool calls and tool results', () => {
+        const result = toOpenAIMessages([
+            { role: 'assistant', content: '', toolCalls: [{ id: 'c1', name: 'read_file', arguments: { path: 'a.ts' } }] },
+            { role: 'tool', content: 'file body', toolCallId: 'c1', toolName: 'read_file' },
+        ]);
+
+        expect(result[0]).toEqual({
+            role: 'assistant',
+            content: null,
+            tool_calls: [{ id: 'c1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }],
+        });
+        expect(result[1]).toEqual({ role: 'tool', tool_call_id: 'c1', content: 'file body' });
+    });
+
+    it('encodes images as data URL parts after the text', () => {
+        const result = toOpenAIMessages([
+            { role: 'user', content: 'Build this', images: [{ mediaType: 'image/png', data: 'iVBORw0KGgo=' }] },
+        ]);
+
+        expect(result).toEqual([{
+            role: 'user',
+            content: [
+                { type: 'text', text: 'Build this' },
+                { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+            ],
+        }]);
+    });
+});
+
+describe('applyOpenAITools', () => {
+    it('leaves the body untouched without tools', () => {
+        const body: Record<string, unknown> = {};
+        applyOpenAITools(body, {});
+        expect(body).toEqual({});
+    });
+
+    it('adds function tools and defaults tool_choice to auto', () => {
+        const body: Record<string, unknown> = {};
+        applyOpenAITools(body, {
+            tools: [{ name: 'grep', description: 'Search', parameters: { type: 'object' } }],
+        });
+
+        expect(body.tools).toEqual([
+            { type: 'function', function: { name: 'grep', description: 'Search', parameters: { type: 'object' } } },
+        ]);
+        expect(body.tool_choice).toBe('auto');
+    });
+});
+
+describe('applyOpenAIResponseFormat', () => {
+    it('adds a non-strict json_schema response_format', () => {
+        const body: Record<string, unknown> = {};
+        const schema = { type: 'object', properties: { ok: { type: 'boolean' } } };
+        applyOpenAIResponseFormat(body, { responseSchema: { name: 'verdict', schema } });
+
+        expect(body.response_format).toEqual({
+            type: 'json_schema',
+            json_schema: { name: 'verdict', schema, strict: false },
+        });
+    });
+
+    it('leaves the body untouched without a schema', () => {
+        const body: Record<string, unknown> = {};
+        applyOpenAIResponseFormat(body, {});
+        expect(body).toEqual({});
+    });
+});
+
+describe('parseOpenAIToolCalls', () => {
+    it('returns undefined when there are no tool calls', () => {
+        expect(parseOpenAIToolCalls({ content: 'hi' })).toBeUndefined();
+    });
+
+    it('parses JSON arguments', () => {
+        const calls = parseOpenAIToolCalls({
+            tool_calls: [{ id: 'x', function: { name: 'read_file', arguments: '{"path":"b.ts"}' } }],
+        });
+        expect(calls).toEqual([{ id: 'x', name: 'read_file', arguments: { path: 'b.ts' } }]);
+    });
+});
+
+describe('parseToolArguments', () => {
+    it('passes objects through and tolerates bad JSON', () => {
+        expect(parseToolArguments({ a: 1 })).toEqual({ a: 1 });
+        expect(parseToolArguments('{not json')).toEqual({});
+        expect(parseToolArguments(undefined)).toEqual({});
+    });
+});
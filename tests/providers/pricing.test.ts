@@ -0,0 +1,90 @@
+/**
+ * Tests for model price lookup and OpenRouter price discovery.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { findPricing, resolvePricing, DEFAULT_MODEL_PRICING } from '../../src/providers/pricing.js';
+import { PROVIDER_DEFAULT_MODELS } from '../../src/providers/metadata.js';
+import { clearModelInfoCache } from '../../src/providers/model-info.js';
+import { clearProviderCache } from '../../src/providers/registry.js';
+import { DEFAULT_CONFIG } from '../../src/core/config/defaults.js';
+import type { AppConfig } from '../../src/core/config/types.js';
+import type { LLMProviderName } from '../../src/providers/types.js';
+
+/** Default config with every agent on one OpenRouter model. */
+function openRouterConfig(model: string, pricing: AppConfig['pricing'] = {}): AppConfig {
+    const config = structuredClone(DEFAULT_CONFIG);
+    config.providers.openrouter = { apiKey: 'key', baseUrl: 'https://openrouter.test/api/v1' };
+    for (const agent of Object.values(config.agents)) {
+        agent.provider = 'openrouter';
+        agent.model = model;
+    }
+    return { ...config, pricing };
+}
+
+describe('findPricing', () => {
+    it('has a price for every provider default model', () => {
+        for (const [provider, model] of Object.entries(PROVIDER_DEFAULT_MODELS)) {
+            expect(findPricing(DEFAULT_MODEL_PRICING, provider as LLMProviderName, model), provider).toBeDefined();
+        }
+    });
+
+    it('prices Anthropic cache reads at 0.1x and cache writes at 1.25x input', () => {
+        for (const [model, price] of Object.entries(DEFAULT_MODEL_PRICING).filter(([m]) => m.startsWith('claude-'))) {
+            expect(price.cacheRead, model).toBeCloseTo(price.input * 0.1);
+            expect(price.cacheWrite, model).toBeCloseTo(price.input * 1.25);
+        }
+    });
+
+    it('prefers a provider-qualified entry over the bare model ID', () => {
+        const table = { 'llama-3.3-70b': { input: 1, output: 1 }, 'groq:llama-3.3-70b': { input: 2, output: 2 } };
+
+        expect(findPricing(table, 'groq', 'llama-3.3-70b')?.input).toBe(2);
+        expect(findPricing(table, 'openrouter', 'llama-3.3-70b')?.input).toBe(1);
+    });
+
+    it('treats unlisted local models as free but lets config price them', () => {
+        expect(findPricing({}, 'ollama', 'qwen2.5-coder:7b')).toEqual({ input: 0, output: 0 });
+        expect(findPricing({ 'openai-compatible:qwen': { input: 0.2, output: 0.2 } }, 'openai-compatible', 'qwen'))
+            .toEqual({ input: 0.2, output: 0.2 });
+    });
+
+    it('returns undefined for unknown paid models', () => {
+        expect(findPricing(DEFAULT_MODEL_PRICING, 'openai', 'gpt-99')).toBeUndefined();
+    });
+});
+
+describe('resolvePricing', () => {
+    beforeEach(() => {
+        clearModelInfoCache();
+        clearProviderCache();
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it('discovers OpenRouter prices per 1M tokens from the model list', async () => {
+        const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+            data: [{ id: 'anthropic/claude-sonnet-4', pricing: { prompt: '0.000003', completion: '0.000015' } }],
+        })));
+        vi.stubGlobal('fetch', fetchMock);
+
+        const table = await resolvePricing(openRouterConfig('anthropic/claude-sonnet-4'));
+
+        expect(table['openrouter:anthropic/claude-sonnet-4']).toEqual({ input: 3, output: 15 });
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('skips discovery when config already prices the model', async () => {
+        const fetchMock = vi.fn();
+        vi.stubGlobal('fetch', fetchMock);
+
+        const table = await resolvePricing(openRouterConfig('anthropic/claude-sonnet-4', {
+            'anthropic/claude-sonnet-4': { input: 1, output: 2 },
+        }));
+
+        expect(table['anthropic/claude-sonnet-4']).toEqual({ input: 1, output: 2 });
+        expect(fetchMock).not.toHaveBeenCalled();
+    });
+});
@@ -9,7 +9,7 @@ import {
     PROVIDER_TIMEOUT_MS,
     OLLAMA_TIMEOUT_MS,
 } from '../../src/providers/provider-errors.js';
-import { ProviderError } from '../../src/core/errors.js';
+import { CancelledError, ProviderError } from '../../src/core/errors.js';
 
 describe('getHttpErrorHint', () => {
     it('returns API key hint for 401', () => {
@@ -287,4 +287,38 @@ describe('fetchWithRetry', () => {
 
         expect(globalThis.fetch).toHaveBeenCalledTimes(1);
     });
+
+    it('throws CancelledError without calling fetch when the signal is already aborted', async () => {
+        globalThis.fetch = vi.fn();
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(
+            fetchWithRetry(
+                'https://api.example.com/test',
+                { method: 'POST' },
+                { provider: 'test', baseUrl: 'https://api.example.com', timeoutMs: 5000, signal: controller.signal },
+            ),
+        ).rejects.toThrow(CancelledError);
+
+        expect(globalThis.fetch).not.toHaveBeenCalled();
+    });
+
+    it('stops retrying when the signal aborts during backoff', async () => {
+        const controller = new AbortController();
+        globalThis.fetch = vi.fn().mockImplementation(async () => {
+            controller.abort();
+            return new Response('down', { status: 503 });
+        });
+
+        await expect(
+            fetchWithRetry(
+                'https://api.example.com/test',
+                { method: 'POST' },
+                { provider: 'test', baseUrl: 'https://api.example.com', timeoutMs: 5000, maxRetries: 3, signal: controller.signal },
+            ),
+        ).rejects.toThrow(CancelledError);
+
+        expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+    });
 });
@@ -24,7 +24,9 @@ describe('getSupportedProviders', () => {
         expect(providers).toContain('ollama');
         expect(providers).toContain('openai');
         expect(providers).toContain('openrouter');
-        expect(providers.length).toBe(6);
+        expect(providers).toContain('mock');
+        expect(providers).toContain('openai-compatible');
+        expect(providers.length).toBe(8);
     });
 });
 
@@ -96,6 +98,42 @@ describe('createProvider', () => {
         expect(first).not.toBe(second);
     });
 
+    it('creates and caches openai-compatible providers per named instance', () => {
+        const config: ProviderConfig = {
+            'openai-compatible': {
+                vllm: { baseUrl: 'http://gpu-box:8000/v1', headers: {}, streamUsage: true },
+                lmstudio: { baseUrl: 'http://localhost:1234', headers: {}, streamUsage: false },
+            },
+        };
+
+        const vllm = createProvider('openai-compatible', config, 'vllm');
+        const lmstudio = createProvider('openai-compatible', config, 'lmstudio');
+        expect(vllm.name).toBe('openai-compatible');
+        expect(vllm).not.toBe(lmstudio);
+        expect(createProvider('openai-compatible', config, 'vllm')).toBe(vllm);
+    });
+
+    it('uses the only openai-compatible instance when none is named', () => {
+        const config: ProviderConfig = {
+            'openai-compatible': { local: { baseUrl: 'http://localhost:8000', headers: {}, streamUsage: true } },
+        };
+
+        expect(createProvider('openai-compatible', config).name).toBe('openai-compatible');
+    });
+
+    it('throws ProviderError for unknown or ambiguous openai-compatible instances', () => {
+        const config: ProviderConfig = {
+            'openai-compatible': {
+                a: { baseUrl: 'http://a:8000', headers: {}, streamUsage: true },
+                b: { baseUrl: 'http://b:8000', headers: {}, streamUsage: true },
+            },
+        };
+
+        expect(() => createProvider('openai-compatible', config, 'c')).toThrow(ProviderError);
+        expect(() => createProvider('openai-compatible', config)).toThrow(/set "instance"/);
+        expect(() => createProvider('openai-compatible', {})).toThrow(ProviderError);
+    });
+
     it('throws for unknown provider name', () => {
         const config: ProviderConfig = {};
         expect(() => createProvider('bogus' as any, config)).toThrow(ProviderError);
@@ -0,0 +1,203 @@
+/**
+ * Tests for provider transcripts and secret redaction.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import {
+    TranscriptProvider,
+    TranscriptRecorder,
+    collectSecrets,
+    transcriptPath,
+    type TranscriptRecord,
+} from '../../src/providers/transcript.js';
+import { FallbackProvider } from '../../src/providers/fallback.js';
+import { ProviderError } from '../../src/core/errors.js';
+import type { LLMProvider } from '../../src/providers/types.js';
+
+let tmpDir: string;
+
+/** A provider that echoes the last message, or fails when told to. */
+function echoProvider(): LLMProvider {
+    return {
+        name: 'openai',
+        async chat(messages, options) {
+            const last = messages[messages.length - 1]?.content ?? '';
+            if (last === 'fail') throw new Error('upstream exploded');
+            return {
+                content: `echo: ${last}`,
+                model: options?.model ?? '',
+                usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+                finishReason: 'length',
+            };
+        },
+        async *stream() {
+            yield { content: 'part one, ', done: false };
+            yield { content: 'part two', done: false };
+            yield { content: '', done: true, usage: { promptTokens: 4, completionTokens: 2, totalTokens: 6 }, finishReason: 'stop' };
+        },
+        async listModels() {
+            return [];
+        },
+        async validateConnection() {
+            return true;
+        },
+    };
+}
+
+function readRecords(recorder: TranscriptRecorder): TranscriptRecord[] {
+    return readFileSync(recorder.filePath, 'utf-8').trim().split('\n').map((line) => JSON.parse(line) as TranscriptRecord);
+}
+
+beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'aiagentflow-transcript-test-'));
+});
+
+afterEach(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('collectSecrets', () => {
+    it('collects API keys and auth headers from provider config', () => {
+        const secrets = collectSecrets({
+            openai: { apiKey: 'openai-secret', baseUrl: 'https://api.openai.com' },
+            ollama: { baseUrl: 'http://localhost:11434' },
+            'openai-compatible': {
+                local: {
+                    baseUrl: 'http://localhost:8000/v1',
+                    apiKey: 'vllm-secret',
+                    headers: { Authorization: 'Basic abc123', 'X-Trace': 'on' },
+                    streamUsage: true,
+                },
+            },
+        });
+
+        expect(secrets.sort()).toEqual(['Basic abc123', 'openai-secret', 'vllm-secret']);
+    });
+
+    it('skips placeholder values too short to be secrets', () => {
+        const secrets = collectSecrets({
+            'openai-compatible': {
+                local: { baseUrl: 'http://localhost:8000/v1', apiKey: 'x', headers: { Authorization: 'none' } },
+            },
+        });
+
+        expect(secrets).toEqual([]);
+    });
+});
+
+describe('TranscriptRecorder', () => {
+    it('redacts configured secrets, well-known key formats and custom patterns', () => {
+        const recorder = new TranscriptRecorder(join(tmpDir, 't.jsonl'), ['my-literal-key'], ['ACME-\\d{4}']);
+
+        const redacted = recorder.redact(
+            'key my-literal-key, openai sk-abcdefghijklmnopqrstuvwxyz, ticket ACME-1234, header Bearer abc.def',
+        );
+
+        expect(redacted).toBe('key [REDACTED], openai [REDACTED], ticket [REDACTED], header [REDACTED]');
+    });
+});
+
+describe('TranscriptProvider', () => {
+    it('appends one redacted JSONL record per call', async () => {
+        const recorder = new TranscriptRecorder(transcriptPath(tmpDir, 'session-1'), ['hunter2']);
+        const provider = new TranscriptProvider(echoProvider(), recorder);
+
+        await provider.chat([{ role: 'user', content: 'my password is hunter2' }], {
+            model: 'gpt-4o',
+            tag: 'coder',
+            systemPrompt: 'You are a coder.',
+            temperature: 0.2,
+        });
+        await provider.chat([{ role: 'user', content: 'again' }], { model: 'gpt-4o', tag: 'fixer' });
+
+        expect(recorder.filePath).toBe(join(tmpDir, '.aiagentflow', 'logs', 'session-1', 'transcript.jsonl'));
+        const records = readRecords(recorder);
+        expect(records).toHaveLength(2);
+        expect(records[0]).toMatchObject({
+            role: 'coder',
+            provider: 'openai',
+            model: 'gpt-4o',
+            stream: false,
+            request: {
+                systemPrompt: 'You are a coder.',
+                messages: [{ role: 'user', content: 'my password is [REDACTED]' }],
+                temperature: 0.2,
+            },
+            response: { content: 'echo: my password is [REDACTED]' },
+            usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+            finishReason: 'length',
+        });
+        expect(records[0]?.latencyMs).toBeGreaterThanOrEqual(0);
+        expect(records[1]?.role).toBe('fixer');
+    });
+
+    it('records failed calls and rethrows', async () => {
+        const recorder = new TranscriptRecorder(join(tmpDir, 't.jsonl'), []);
+        const provider = new TranscriptProvider(echoProvider(), recorder);
+
+        await expect(provider.chat([{ role: 'user', content: 'fail' }], { model: 'gpt-4o' })).rejects.toThrow('upstream exploded');
+
+        const [record] = readRecords(recorder);
+        expect(record?.error).toBe('upstream exploded');
+        expect(record?.response).toBeUndefined();
+    });
+
+    it('records a stream once it finishes, with the assembled reply', async () => {
+        const recorder = new TranscriptRecorder(join(tmpDir, 't.jsonl'), []);
+        const provider = new TranscriptProvider(echoProvider(), recorder);
+
+        let streamed = '';
+        for await (const chunk of provider.stream([{ role: 'user', content: 'hi' }], { model: 'gpt-4o' })) {
+            streamed += chunk.content;
+        }
+
+        const [record] = readRecords(recorder);
+        expect(streamed).toBe('part one, part two');
+        expect(record).toMatchObject({
+            stream: true,
+            response: { content: 'part one, part two' },
+            usage: { totalTokens: 6 },
+            finishReason: 'stop',
+        });
+    });
+
+    it('names the fallback that answered, not the primary', async () => {
+        const recorder = new TranscriptRecorder(join(tmpDir, 't.jsonl'), []);
+        const down: LLMProvider = {
+            ...echoProvider(),
+            name: 'anthropic',
+            async chat() {
+                throw new ProviderError('overloaded');
+            },
+            async *stream() {
+                throw new ProviderError('overloaded');
+            },
+        };
+        const chain = new FallbackProvider(
+            [{ provider: 'anthropic', model: 'claude-main' }, { provider: 'openai', model: 'gpt-4o-mini' }],
+            (candidate) => (candidate.provider === 'anthropic' ? down : echoProvider()),
+        );
+        const provider = new TranscriptProvider(chain, recorder);
+
+        await provider.chat([{ role: 'user', content: 'hi' }], { model: 'claude-main' });
+        for await (const chunk of provider.stream([{ role: 'user', content: 'hi' }], { model: 'claude-main' })) void chunk;
+
+        expect(readRecords(recorder).map((r) => [r.provider, r.model])).toEqual([
+            ['openai', 'gpt-4o-mini'],
+            ['openai', 'gpt-4o-mini'],
+        ]);
+    });
+
+    it('replaces image data with its size', async () => {
+        const recorder = new TranscriptRecorder(join(tmpDir, 't.jsonl'), []);
+        const provider = new TranscriptProvider(echoProvider(), recorder);
+
+        await provider.chat([{ role: 'user', content: 'look', images: [{ mediaType: 'image/png', data: 'AAAA' }] }], {});
+
+        const [record] = readRecords(recorder);
+        expect(record?.request.messages[0]?.images).toEqual([{ mediaType: 'image/png', data: '[3 bytes]' }]);
+    });
+});